@@ -1,55 +1,57 @@
-import { useEffect, useState, useMemo } from 'react';
+import { useId, useState, useMemo } from 'react';
 import * as Plot from '@observablehq/plot';
 import {
   useThemeTokens,
+  useUrlState,
+  useAdductLibrary,
   basePlot,
+  LibraryCollisionPanel,
   PlotFigure,
   VizFigure,
   VizSurface,
   Slider,
   Select,
   Button,
+  LiveRegion,
+  adductMz,
+  adductsFromRows,
+  ionLine,
+  ADDUCT_CSV_COLUMNS,
+  BUILTIN_PROFILES,
+  parseCsv,
+  toCsv,
+  downloadBlob,
+  parseBuildingBlocks,
+  librarySlots,
+  librarySize,
+  enumerateIons,
+  findCollisions,
+  worstOffenders,
+  ionDensity,
+  parseFormula,
+  formatFormula,
+  monoisotopicMass,
+  isotopeDistribution,
+  ionEnvelope,
 } from './_viz';
-
-// Adduct library organized by ionization mode and method
-const ADDUCT_LIBRARY = {
-  positive: {
-    ESI: [
-      { symbol: 'H⁺', name: 'Proton', mass: 1.008 },
-      { symbol: 'Na⁺', name: 'Sodium', mass: 22.990 },
-      { symbol: 'K⁺', name: 'Potassium', mass: 38.964 },
-      { symbol: 'NH₄⁺', name: 'Ammonium', mass: 18.034 },
-    ],
-    APCI: [
-      { symbol: 'H⁺', name: 'Proton', mass: 1.008 },
-      { symbol: 'H⁺+H₂O', name: 'Proton + Water', mass: 19.018 },
-    ],
-    MALDI: [
-      { symbol: 'H⁺', name: 'Proton', mass: 1.008 },
-      { symbol: 'Na⁺', name: 'Sodium', mass: 22.990 },
-      { symbol: 'K⁺', name: 'Potassium', mass: 38.964 },
-    ],
-    'ESI-Orbitrap': [
-      { symbol: 'H⁺', name: 'Proton', mass: 1.008 },
-      { symbol: 'Na⁺', name: 'Sodium', mass: 22.990 },
-      { symbol: 'K⁺', name: 'Potassium', mass: 38.964 },
-      { symbol: 'NH₄⁺', name: 'Ammonium', mass: 18.034 },
-      { symbol: 'ACN+H⁺', name: 'Acetonitrile', mass: 42.034 },
-    ],
-  },
-  negative: {
-    ESI: [
-      { symbol: 'H⁻', name: 'Deprotonation', mass: -1.008 },
-      { symbol: 'Cl⁻', name: 'Chloride', mass: 34.969 },
-      { symbol: 'HCOO⁻', name: 'Formate', mass: 44.998 },
-      { symbol: 'CH₃COO⁻', name: 'Acetate', mass: 59.013 },
-    ],
-    APCI: [
-      { symbol: 'H⁻', name: 'Deprotonation', mass: -1.008 },
-      { symbol: 'Cl⁻', name: 'Chloride', mass: 34.969 },
-    ],
-  },
-};
+import type { Adduct, IonMode, IsotopePeak } from './_viz';
+
+type View = 'series' | 'library';
+
+// Sample split-and-pool alphabet: monoisotopic amino-acid residue masses,
+// so a cyclic peptide's mass is the plain sum (scaffold 0)
+const DEFAULT_BLOCKS = `# name, residue mass (Da)
+G, 57.02146
+A, 71.03711
+S, 87.03203
+P, 97.05276
+V, 99.06841
+T, 101.04768
+L, 113.08406
+D, 115.02694
+Q, 128.05858
+K, 128.09496
+`;
 
 // Categorical palette (no red — red is reserved for overlaps)
 const ADDUCT_COLORS = [
@@ -57,56 +59,156 @@ const ADDUCT_COLORS = [
   '#06b6d4', '#6366f1', '#14b8a6', '#a855f7',
 ];
 
-type Adduct = {
-  symbol: string;
-  name: string;
-  mass: number;
-};
+// An ion peak's m/z as a line in the bare mass: m/z = slope · m + offset.
+// `group` is the adduct the peak belongs to; one adduct's isotope peaks
+// are the same ion and may overlap each other.
+type IonLine = { slope: number; offset: number; group: number };
 
 type Interval = {
   peptideIndex: number;
   adduct: Adduct;
+  /** nominal isotope shift: 0 for the monoisotopic peak, 1 for M+1, … */
+  isotope: number;
+  /** abundance relative to the adduct's tallest peak */
+  abundance: number;
   lower: number;
   upper: number;
   mass: number;
 };
 
-export default function AdductIntervalsVisualizer() {
-  const [mode, setMode] = useState<'positive' | 'negative'>('positive');
-  const [method, setMethod] = useState<string>('ESI');
-  const [L, setL] = useState(100);
-  const [U, setU] = useState(1000);
-  const [T, setT] = useState(0.5);
-  const [activeAdducts, setActiveAdducts] = useState<Adduct[]>([]);
-  const [customAdducts, setCustomAdducts] = useState<Adduct[]>([]);
+// Without a formula every adduct is a single monoisotopic peak
+const MONO_ONLY: IsotopePeak[] = [{ shift: 0, mass: 0, abundance: 1 }];
+
+// Masses where two adducts of the same peptide would overlap.
+// Adducts whose m/z lines have different slopes (charge states, dimers)
+// cross once, so each such pair rules out one window of m.
+function computeSelfZones(lines: IonLine[], halfWidth: number): Array<[number, number]> {
+  const zones: Array<[number, number]> = [];
+  for (let i = 0; i < lines.length; i++) {
+    for (let j = i + 1; j < lines.length; j++) {
+      if (lines[i].group === lines[j].group) continue;
+      const ds = lines[i].slope - lines[j].slope;
+      if (ds === 0) continue; // parallel: constant gap, checked up front
+      const dc = lines[i].offset - lines[j].offset;
+      const a = (-2 * halfWidth - dc) / ds;
+      const b = (2 * halfWidth - dc) / ds;
+      zones.push([Math.min(a, b), Math.max(a, b)]);
+    }
+  }
+  return zones;
+}
+
+export default function AdductIntervalsVisualizer({
+  id = 'adducts',
+}: {
+  /** prefix for this figure's control state in the URL hash */
+  id?: string;
+}) {
+  const [mode, setMode] = useUrlState<IonMode>(
+    id,
+    'mode',
+    'positive',
+    (m) => m === 'positive' || m === 'negative',
+  );
+  // Instrument profile id; reader profiles load after mount, so an unknown
+  // id falls back to the mode's first profile instead of being rejected.
+  const [method, setMethod] = useUrlState<string>(id, 'method', 'ESI');
+  // Bounded to the slider ranges: a tiny T would make the greedy placement
+  // run every iteration on a shared link.
+  const [L, setL] = useUrlState(id, 'L', 100, (v) => v >= 50 && v <= 500);
+  const [U, setU] = useUrlState(id, 'U', 1000, (v) => v >= 500 && v <= 2000);
+  const [T, setT] = useUrlState(id, 'T', 0.5, (v) => v >= 0.25 && v <= 2);
+  const [view, setView] = useUrlState<View>(
+    id,
+    'view',
+    'series',
+    (v) => v === 'series' || v === 'library',
+  );
+  const [positions, setPositions] = useUrlState(id, 'positions', 4, (v) => v >= 1 && v <= 6);
+  const [scaffold, setScaffold] = useUrlState(id, 'scaffold', 0);
+  const [ppm, setPpm] = useUrlState(id, 'ppm', 5, (v) => v >= 0.5 && v <= 50);
+  // Molecular formula whose isotope envelope every ion carries ('' = none),
+  // and the smallest peak kept, in % of the tallest
+  const [formula, setFormula] = useUrlState<string>(id, 'formula', '');
+  const [isoThreshold, setIsoThreshold] = useUrlState(
+    id,
+    'iso',
+    5,
+    (v) => v >= 0.5 && v <= 50,
+  );
+  const [blocksText, setBlocksText] = useState(DEFAULT_BLOCKS);
+  // Adducts ticked by hand, remembered for the mode + profile they were
+  // ticked under; any other selection starts from the profile's list.
+  const [selection, setSelection] = useState<{ key: string; ids: string[] } | null>(null);
   const [showCustomForm, setShowCustomForm] = useState(false);
   const [customName, setCustomName] = useState('');
   const [customMass, setCustomMass] = useState('');
+  const [customCharge, setCustomCharge] = useState('1');
+  const [customMultimer, setCustomMultimer] = useState('1');
+  const [profileName, setProfileName] = useState('');
+  const [csvText, setCsvText] = useState('');
+  const [csvMessage, setCsvMessage] = useState<string | null>(null);
+  const csvId = useId();
 
   const tokens = useThemeTokens();
+  const library = useAdductLibrary();
+
+  const modeAdducts = useMemo(
+    () => library.adducts.filter((a) => a.mode === mode),
+    [library.adducts, mode],
+  );
+  const modeProfiles = useMemo(
+    () =>
+      library.profiles.filter((p) => p.adducts.some((pid) => modeAdducts.some((a) => a.id === pid))),
+    [library.profiles, modeAdducts],
+  );
+  const profile = modeProfiles.find((p) => p.id === method) ?? modeProfiles[0];
+  const selectionKey = `${mode}:${profile?.id ?? ''}`;
+  const activeIds =
+    selection?.key === selectionKey ? selection.ids : (profile?.adducts ?? []);
+  const activeAdducts = useMemo(
+    () => modeAdducts.filter((a) => activeIds.includes(a.id)),
+    [modeAdducts, activeIds],
+  );
 
-  // Initialize active adducts when mode or method changes
-  useEffect(() => {
-    const adducts = ADDUCT_LIBRARY[mode][method as keyof typeof ADDUCT_LIBRARY['positive' | 'negative']] || [];
-    setActiveAdducts([...adducts]);
-  }, [mode, method]);
+  // The formula's own envelope, for the read-out; a typo switches the
+  // envelopes off rather than blanking the figure
+  const envelope = useMemo(() => {
+    if (formula.trim() === '') return { molecule: null, peaks: null, error: null };
+    try {
+      const molecule = parseFormula(formula);
+      return {
+        molecule,
+        peaks: isotopeDistribution(molecule, isoThreshold / 100),
+        error: null,
+      };
+    } catch (err) {
+      return {
+        molecule: null,
+        peaks: null,
+        error: err instanceof Error ? err.message : String(err),
+      };
+    }
+  }, [formula, isoThreshold]);
 
   // Helper: Compute forbidden zones for a candidate position
   const computeForbiddenZones = (
     placedMasses: number[],
-    adductMasses: number[],
+    lines: IonLine[],
     halfWidth: number
   ): Array<[number, number]> => {
     const zones: Array<[number, number]> = [];
 
-    // For each placed mass and all adduct pairs, compute forbidden zone
+    // For each placed mass and all adduct pairs, compute forbidden zone:
+    // candidate m is forbidden where |s_j·m + c_j − (s_j'·m_ell + c_j')| ≤ 2T.
+    // With singly charged monomers (s = 1) this is the familiar
+    // [m_ell + a_j' - a_j - 2T, m_ell + a_j' - a_j + 2T]
     for (const m_ell of placedMasses) {
-      for (const aj of adductMasses) {
-        for (const aj_prime of adductMasses) {
-          // Forbidden zone: [m_ell + a_j' - a_j - 2T, m_ell + a_j' - a_j + 2T]
-          const center = m_ell + aj_prime - aj;
-          const lower = center - 2 * halfWidth;
-          const upper = center + 2 * halfWidth;
+      for (const aj of lines) {
+        for (const aj_prime of lines) {
+          const center = (aj_prime.slope * m_ell + aj_prime.offset - aj.offset) / aj.slope;
+          const lower = center - (2 * halfWidth) / aj.slope;
+          const upper = center + (2 * halfWidth) / aj.slope;
           zones.push([lower, upper]);
         }
       }
@@ -115,6 +217,7 @@ export default function AdductIntervalsVisualizer() {
     return zones;
   };
 
+
   // Helper: Merge overlapping intervals
   const mergeIntervals = (intervals: Array<[number, number]>): Array<[number, number]> => {
     if (intervals.length === 0) return [];
@@ -178,54 +281,79 @@ export default function AdductIntervalsVisualizer() {
       return { intervals: [], overlaps: new Set(), n: 0, delta: 0, kappa: 0 };
     }
 
-    // Sort adducts by mass
-    const sortedAdducts = [...activeAdducts].sort((a, b) => a.mass - b.mass);
-    const a1 = sortedAdducts[0].mass;
-    const ak = sortedAdducts[sortedAdducts.length - 1].mass;
-    const adductMasses = sortedAdducts.map(a => a.mass);
+    // Sort adducts by m/z offset
+    const sortedAdducts = [...activeAdducts].sort(
+      (a, b) => ionLine(a).offset - ionLine(b).offset,
+    );
+    const a1 = ionLine(sortedAdducts[0]).offset;
+    const ak = ionLine(sortedAdducts[sortedAdducts.length - 1]).offset;
+
+    // One line per envelope peak above the threshold: M+1, M+2, … sit at
+    // fixed m/z offsets from the monoisotopic ion, so they shift the line
+    // without changing its slope
+    const { molecule } = envelope;
+    const peaks = sortedAdducts.map((a) =>
+      molecule ? ionEnvelope(molecule, a, isoThreshold / 100) : MONO_ONLY,
+    );
+    const lines: IonLine[] = sortedAdducts.flatMap((a, group) => {
+      const { slope, offset } = ionLine(a);
+      return peaks[group].map((p) => ({ slope, offset: offset + p.mass, group }));
+    });
 
     // Calculate spacing
     const delta = 2 * T;
 
-    // Validity check 1: Range must be large enough (Section 2.3)
-    if (U - L <= ak - a1 + 2 * T) {
+    // Validity check 1: Range must be large enough (Section 2.3): some bare
+    // mass must put every adduct interval inside [L, U]
+    const minPos = Math.max(...lines.map((l) => (L + T - l.offset) / l.slope));
+    const maxPos = Math.min(...lines.map((l) => (U - T - l.offset) / l.slope));
+    if (minPos > maxPos) {
       return { intervals: [], overlaps: new Set(), n: 0, delta, kappa: 0 };
     }
 
-    // Validity check 2: Adducts must be well-separated (Section 2.1)
-    for (let i = 0; i < sortedAdducts.length - 1; i++) {
-      if (sortedAdducts[i + 1].mass - sortedAdducts[i].mass <= 2 * T) {
-        return { intervals: [], overlaps: new Set(), n: 0, delta, kappa: 0 };
+    // Validity check 2: Adducts must be well-separated (Section 2.1); for
+    // adducts with parallel m/z lines the gap is the same at every mass
+    for (let i = 0; i < lines.length; i++) {
+      for (let j = i + 1; j < lines.length; j++) {
+        if (
+          lines[i].group !== lines[j].group &&
+          lines[i].slope === lines[j].slope &&
+          Math.abs(lines[j].offset - lines[i].offset) <= 2 * T
+        ) {
+          return { intervals: [], overlaps: new Set(), n: 0, delta, kappa: 0 };
+        }
       }
     }
+    const selfZones = computeSelfZones(lines, T);
 
     // Greedy algorithm: place masses at earliest valid positions
     const masses: number[] = [];
 
-    // Initialize first mass: m_0 = L + T - a_1
-    let currentMass = L + T - a1;
+    // Initialize first mass: m_0 = L + T - a_1 for singly charged monomers,
+    // moved past any mass where the peptide's own adducts collide
+    const firstMass = findNextValidPosition(minPos, selfZones, maxPos);
 
     // Check if first mass fits
-    if (currentMass + ak + T > U) {
+    if (firstMass === null) {
       return { intervals: [], overlaps: new Set(), n: 0, delta, kappa: 0 };
     }
 
-    masses.push(currentMass);
+    masses.push(firstMass);
 
     // Place subsequent masses greedily
     const MAX_ITERATIONS = 10000; // Safety limit
     for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
       // Compute forbidden zones based on all previously placed masses
-      const forbiddenZones = computeForbiddenZones(masses, adductMasses, T);
+      const forbiddenZones = selfZones.concat(computeForbiddenZones(masses, lines, T));
 
-      // Find next valid position (at least 2T away from previous mass)
-      const minNextPos = masses[masses.length - 1] + 2 * T;
-      const maxNextPos = U - ak - T; // Ensure all adduct intervals fit
+      // Find next valid position; the zones around the previous mass keep
+      // it clear of its own intervals
+      const minNextPos = masses[masses.length - 1];
 
-      const nextMass = findNextValidPosition(minNextPos, forbiddenZones, maxNextPos);
+      const nextMass = findNextValidPosition(minNextPos, forbiddenZones, maxPos);
 
       // If no valid position found, terminate
-      if (nextMass === null || nextMass + ak + T > U) {
+      if (nextMass === null) {
         break;
       }
 
@@ -237,14 +365,18 @@ export default function AdductIntervalsVisualizer() {
     // Generate intervals
     const intervals: Interval[] = [];
     masses.forEach((m, i) => {
-      sortedAdducts.forEach(adduct => {
-        intervals.push({
-          peptideIndex: i,
-          adduct,
-          lower: m + adduct.mass - T,
-          upper: m + adduct.mass + T,
-          mass: m,
-        });
+      sortedAdducts.forEach((adduct, group) => {
+        for (const peak of peaks[group]) {
+          intervals.push({
+            peptideIndex: i,
+            adduct,
+            isotope: peak.shift,
+            abundance: peak.abundance,
+            lower: adductMz(adduct, m) + peak.mass - T,
+            upper: adductMz(adduct, m) + peak.mass + T,
+            mass: m,
+          });
+        }
       });
     });
 
@@ -255,7 +387,7 @@ export default function AdductIntervalsVisualizer() {
     const kappa = Math.ceil((ak - a1) / delta + 1);
 
     return { intervals, overlaps, n, delta, kappa };
-  }, [L, U, T, activeAdducts]); // Memoize based on input parameters
+  }, [L, U, T, activeAdducts, envelope, isoThreshold]); // Memoize based on input parameters
 
   // Memoize row packing computation
   const { intervalToRow, totalRows } = useMemo(() => {
@@ -344,6 +476,8 @@ export default function AdductIntervalsVisualizer() {
         y0: row,
         y1: row + 0.82,
         symbol: int.adduct.symbol,
+        isotope: int.isotope,
+        abundance: int.abundance,
         mass: int.mass,
         peptide: int.peptideIndex,
         row,
@@ -361,6 +495,8 @@ export default function AdductIntervalsVisualizer() {
       x: { label: 'm/z (Da) →', nice: true },
       y: { axis: null, domain: [-0.6, totalRows] },
       color: { domain: activeAdducts.map((a) => a.symbol), range: ADDUCT_COLORS, legend: true },
+      // Fainter rectangles for weaker isotope peaks
+      opacity: { domain: [0, 1], range: [0.2, 0.78] },
       marks: [
         Plot.rect(rectData, {
           x1: 'lower',
@@ -368,11 +504,20 @@ export default function AdductIntervalsVisualizer() {
           y1: 'y0',
           y2: 'y1',
           fill: 'symbol',
-          fillOpacity: 0.78,
+          fillOpacity: 'abundance',
           rx: 1,
           tip: true,
-          title: (d: { peptide: number; symbol: string; lower: number; upper: number }) =>
-            `m${d.peptide} · ${d.symbol}\n[${d.lower.toFixed(3)}, ${d.upper.toFixed(3)}] Da`,
+          title: (d: {
+            peptide: number;
+            symbol: string;
+            isotope: number;
+            abundance: number;
+            lower: number;
+            upper: number;
+          }) =>
+            `m${d.peptide} · ${d.symbol}${d.isotope > 0 ? ` M+${d.isotope}` : ''} (${(
+              100 * d.abundance
+            ).toFixed(1)}%)\n[${d.lower.toFixed(3)}, ${d.upper.toFixed(3)}] Da`,
         }),
         Plot.ruleX(uniqueMasses, {
           x: (d: number) => d,
@@ -386,49 +531,196 @@ export default function AdductIntervalsVisualizer() {
   }, [intervals, intervalToRow, totalRows, activeAdducts, tokens]);
 
   const toggleAdduct = (adduct: Adduct) => {
-    setActiveAdducts(prev =>
-      prev.find(a => a.symbol === adduct.symbol)
-        ? prev.filter(a => a.symbol !== adduct.symbol)
-        : [...prev, adduct]
-    );
+    setSelection({
+      key: selectionKey,
+      ids: activeIds.includes(adduct.id)
+        ? activeIds.filter((a) => a !== adduct.id)
+        : [...activeIds, adduct.id],
+    });
   };
 
   const addCustomAdduct = () => {
-    if (customName && customMass) {
+    const mass = parseFloat(customMass);
+    const charge = Math.max(1, Math.round(Number(customCharge) || 1));
+    const multimer = Math.max(1, Math.round(Number(customMultimer) || 1));
+    if (customName && Number.isFinite(mass)) {
       const newAdduct: Adduct = {
+        id: customName,
         symbol: customName,
         name: customName,
-        mass: parseFloat(customMass),
+        mode,
+        charge,
+        multimer,
+        mass,
       };
-      setCustomAdducts(prev => [...prev, newAdduct]);
-      setActiveAdducts(prev => [...prev, newAdduct]);
+      library.upsertAdducts([newAdduct]);
+      if (!activeIds.includes(newAdduct.id)) {
+        setSelection({ key: selectionKey, ids: [...activeIds, newAdduct.id] });
+      }
       setCustomName('');
       setCustomMass('');
+      setCustomCharge('1');
+      setCustomMultimer('1');
       setShowCustomForm(false);
     }
   };
 
+  // Save the ticked adducts as a profile, keeping the current profile's
+  // adducts of the other polarity so it still works in both modes
+  const saveProfile = () => {
+    const name = profileName.trim();
+    if (!name) return;
+    const otherMode = (profile?.adducts ?? []).filter(
+      (pid) => !modeAdducts.some((a) => a.id === pid),
+    );
+    const saved = {
+      id: `user:${name}`,
+      name,
+      adducts: [...otherMode, ...activeAdducts.map((a) => a.id)],
+    };
+    library.saveProfile(saved);
+    setMethod(saved.id);
+    setProfileName('');
+  };
+
+  const isUserProfile = !!profile && !BUILTIN_PROFILES.some((b) => b.id === profile.id);
+
+  const importCsv = (text: string) => {
+    try {
+      const rows = adductsFromRows(parseCsv(text));
+      library.upsertAdducts(rows);
+      setCsvMessage(
+        `Loaded ${rows.length} adduct${rows.length === 1 ? '' : 's'}; rows with a built-in id replace it.`,
+      );
+    } catch (err) {
+      setCsvMessage(err instanceof Error ? err.message : String(err));
+    }
+  };
+
   const isValid = overlaps.size === 0;
 
-  const availableAdducts = ADDUCT_LIBRARY[mode][method as keyof typeof ADDUCT_LIBRARY['positive' | 'negative']] || [];
+  const envelopeHint = envelope.molecule
+    ? `${formatFormula(envelope.molecule)}, monoisotopic ${monoisotopicMass(
+        envelope.molecule,
+      ).toFixed(4)} Da: ${(envelope.peaks ?? [])
+        .map((p) => `${p.shift ? `M+${p.shift}` : 'M'} ${(100 * p.abundance).toFixed(1)}%`)
+        .join(', ')}. Each ion's envelope, adduct atoms included, is reserved at every mass.`
+    : (envelope.error ?? 'Each adduct is a single monoisotopic peak.');
+
+  const customIds = new Set(library.custom.map((a) => a.id));
 
   const renderAdductCheck = (adduct: Adduct) => (
-    <label key={adduct.symbol} className="viz-check">
-      <input
-        type="checkbox"
-        checked={activeAdducts.some((a) => a.symbol === adduct.symbol)}
-        onChange={() => toggleAdduct(adduct)}
-      />
-      <span className="viz-check-sym">{adduct.symbol}</span>
-      <span className="viz-check-mass">({adduct.mass.toFixed(3)} Da)</span>
-    </label>
+    <div key={adduct.id} className="flex items-center">
+      <label className="viz-check" style={{ flex: 1 }} title={adduct.name}>
+        <input
+          type="checkbox"
+          checked={activeIds.includes(adduct.id)}
+          onChange={() => toggleAdduct(adduct)}
+        />
+        <span className="viz-check-sym">{adduct.symbol}</span>
+        <span className="viz-check-mass">
+          ({adduct.mass >= 0 ? '+' : ''}
+          {adduct.mass.toFixed(4)} Da)
+        </span>
+      </label>
+      {customIds.has(adduct.id) && (
+        <button
+          type="button"
+          className="viz-link-btn"
+          aria-label={`Remove custom adduct ${adduct.symbol}`}
+          onClick={() => library.removeAdduct(adduct.id)}
+        >
+          ×
+        </button>
+      )}
+    </div>
+  );
+
+  // Interval table for the figure's CSV / JSON export
+  const intervalRows = useMemo(
+    () =>
+      intervals.map((iv) => ({
+        peptide: iv.peptideIndex + 1,
+        mass: iv.mass,
+        adduct: iv.adduct.symbol,
+        adductMass: iv.adduct.mass,
+        charge: iv.adduct.charge,
+        multimer: iv.adduct.multimer,
+        isotope: iv.isotope,
+        abundance: iv.abundance,
+        lower: iv.lower,
+        upper: iv.upper,
+      })),
+    [intervals],
   );
 
+  // Library mode: enumerate every member through the active adducts. The
+  // enumeration follows the library; the ppm sweep alone follows the slider.
+  const libraryIons = useMemo(() => {
+    if (view !== 'library') return null;
+    try {
+      const blocks = parseBuildingBlocks(blocksText);
+      const slots = librarySlots(blocks, positions);
+      const positioned = blocks.some((b) => b.position !== null);
+      if (librarySize(slots) === 0 || activeAdducts.length === 0) {
+        return { positioned, ions: null, error: null };
+      }
+      return { positioned, ions: enumerateIons(slots, scaffold, activeAdducts), error: null };
+    } catch (err) {
+      return {
+        positioned: false,
+        ions: null,
+        error: err instanceof Error ? err.message : String(err),
+      };
+    }
+  }, [view, blocksText, positions, scaffold, activeAdducts]);
+
+  const collisions = useMemo(() => {
+    const ions = libraryIons?.ions;
+    if (!ions) return null;
+    const report = findCollisions(ions, ppm);
+    return {
+      ions,
+      report,
+      offenders: worstOffenders(ions, report, 25),
+      density: ionDensity(ions, report),
+    };
+  }, [libraryIons, ppm]);
+
+  // Worst-offender table for the figure's CSV / JSON export
+  const offenderRows = useMemo(
+    () =>
+      (collisions?.offenders ?? []).map((o, rank) => ({
+        rank: rank + 1,
+        member: o.name,
+        mass: o.mass,
+        collisions: o.hits,
+        partners: o.partners.map((p) => `${p.adduct} ~ ${p.partner} ${p.partnerAdduct}`).join('; '),
+      })),
+    [collisions],
+  );
+
+  const loadBlocksFile = (file: File) => {
+    void file.text().then(setBlocksText);
+  };
+
   return (
-    <VizFigure title="Adduct Interval Visualization">
+    <VizFigure
+      title="Adduct Interval Visualization"
+      data={view === 'series' ? { intervals: intervalRows } : { offenders: offenderRows }}
+    >
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
-        {/* Left column: mode / method / adducts */}
+        {/* Left column: analysis / mode / method / adducts */}
         <div className="flex flex-col gap-4">
+          <Select
+            label="Analysis"
+            value={view}
+            onChange={(v) => setView(v as View)}
+            options={[
+              { value: 'series', label: 'Greedy mass series' },
+              { value: 'library', label: 'Combinatorial library collisions' },
+            ]}
+          />
           <Select
             label="Ionization Mode"
             value={mode}
@@ -439,17 +731,38 @@ export default function AdductIntervalsVisualizer() {
             ]}
           />
           <Select
-            label="Ionization Method"
-            value={method}
+            label="Instrument Profile"
+            value={profile?.id ?? ''}
             onChange={setMethod}
-            options={Object.keys(ADDUCT_LIBRARY[mode]).map((m) => ({ value: m, label: m }))}
+            options={modeProfiles.map((p) => ({ value: p.id, label: p.name }))}
           />
+          <div className="flex flex-wrap gap-2">
+            <input
+              className="viz-input"
+              style={{ flex: 1, minWidth: '8rem' }}
+              type="text"
+              aria-label="New profile name"
+              placeholder="Profile name"
+              value={profileName}
+              onChange={(e) => setProfileName(e.target.value)}
+            />
+            <Button variant="secondary" onClick={saveProfile}>
+              Save selection
+            </Button>
+            {isUserProfile && (
+              <Button variant="ghost" onClick={() => library.removeProfile(profile.id)}>
+                Delete profile
+              </Button>
+            )}
+          </div>
 
           <div className="viz-control">
             <span className="viz-label">Active Adducts</span>
-            <div className="viz-panel viz-check-list">
-              {availableAdducts.map(renderAdductCheck)}
-              {customAdducts.map(renderAdductCheck)}
+            <div
+              className="viz-panel viz-check-list"
+              style={{ maxHeight: '16rem', overflowY: 'auto' }}
+            >
+              {modeAdducts.map(renderAdductCheck)}
             </div>
 
             {!showCustomForm ? (
@@ -461,18 +774,42 @@ export default function AdductIntervalsVisualizer() {
                 <input
                   className="viz-input"
                   type="text"
-                  placeholder="Name (e.g., Ca²⁺)"
+                  aria-label="Adduct name"
+                  placeholder="Name (e.g., [M+Ca]²⁺)"
                   value={customName}
                   onChange={(e) => setCustomName(e.target.value)}
                 />
                 <input
                   className="viz-input"
                   type="number"
-                  step="0.001"
-                  placeholder="Mass (Da)"
+                  step="0.000001"
+                  aria-label="Net mass gained (Da)"
+                  placeholder="Net mass gained (Da)"
                   value={customMass}
                   onChange={(e) => setCustomMass(e.target.value)}
                 />
+                <div className="flex gap-2">
+                  <input
+                    className="viz-input"
+                    type="number"
+                    min={1}
+                    step={1}
+                    aria-label="Charge"
+                    placeholder="Charge"
+                    value={customCharge}
+                    onChange={(e) => setCustomCharge(e.target.value)}
+                  />
+                  <input
+                    className="viz-input"
+                    type="number"
+                    min={1}
+                    step={1}
+                    aria-label="Molecules per ion"
+                    placeholder="Molecules per ion"
+                    value={customMultimer}
+                    onChange={(e) => setCustomMultimer(e.target.value)}
+                  />
+                </div>
                 <div className="flex gap-2">
                   <Button onClick={addCustomAdduct}>Add</Button>
                   <Button variant="ghost" onClick={() => setShowCustomForm(false)}>
@@ -484,66 +821,268 @@ export default function AdductIntervalsVisualizer() {
           </div>
         </div>
 
-        {/* Right column: range / resolution / read-out */}
+        {/* Right column: range / resolution / read-out, or the library */}
         <div className="flex flex-col gap-4">
-          <Slider
-            label="Lower Bound (L)"
-            value={L}
-            min={50}
-            max={500}
-            step={10}
-            display={`${L} Da`}
-            onChange={setL}
-          />
-          <Slider
-            label="Upper Bound (U)"
-            value={U}
-            min={500}
-            max={2000}
-            step={50}
-            display={`${U} Da`}
-            onChange={setU}
-          />
-          <Slider
-            label="Resolution (T)"
-            value={T}
-            min={0.25}
-            max={2}
-            step={0.01}
-            display={`${T.toFixed(2)} Da`}
-            onChange={setT}
-          />
+          {view === 'series' ? (
+            <>
+              <Slider
+                label="Lower Bound (L)"
+                value={L}
+                min={50}
+                max={500}
+                step={10}
+                display={`${L} Da`}
+                onChange={setL}
+              />
+              <Slider
+                label="Upper Bound (U)"
+                value={U}
+                min={500}
+                max={2000}
+                step={50}
+                display={`${U} Da`}
+                onChange={setU}
+              />
+              <Slider
+                label="Resolution (T)"
+                value={T}
+                min={0.25}
+                max={2}
+                step={0.01}
+                display={`${T.toFixed(2)} Da`}
+                onChange={setT}
+              />
+              <div className="viz-control">
+                <label className="viz-label" htmlFor={`${csvId}-formula`}>
+                  Molecular formula (isotope envelope)
+                </label>
+                <input
+                  id={`${csvId}-formula`}
+                  className="viz-input"
+                  type="text"
+                  spellCheck={false}
+                  placeholder="e.g. C20H30N6O5S — blank for monoisotopic only"
+                  value={formula}
+                  onChange={(e) => setFormula(e.target.value)}
+                />
+                <p className="viz-hint">{envelopeHint}</p>
+              </div>
+              {envelope.molecule && (
+                <Slider
+                  label="Envelope threshold"
+                  value={isoThreshold}
+                  min={0.5}
+                  max={50}
+                  step={0.5}
+                  display={`${isoThreshold}%`}
+                  hint="Isotope peaks weaker than this, relative to the tallest, are ignored"
+                  onChange={setIsoThreshold}
+                />
+              )}
 
-          <div className="viz-panel">
-            <div className="viz-label" style={{ marginBottom: '0.4rem' }}>
-              Computed Parameters
-            </div>
-            <div className="viz-readout">
-              <span className="viz-readout-key">Number of peptides (n):</span>
-              <span className="viz-readout-val">{n}</span>
-            </div>
-            <div className="viz-readout">
-              <span className="viz-readout-key">Spacing (δ):</span>
-              <span className="viz-readout-val">{delta.toFixed(3)} Da</span>
-            </div>
-            <div className="viz-readout">
-              <span className="viz-readout-key">Critical separation (κ):</span>
-              <span className="viz-readout-val">{kappa}</span>
-            </div>
-            <hr className="viz-divider" />
-            <div className="viz-readout">
-              <span className="viz-readout-key">Valid configuration:</span>
-              <span className="viz-readout-val" style={{ color: isValid ? '#16a34a' : '#ef4444' }}>
-                {isValid ? '✓ No overlaps' : '✗ Overlaps detected'}
-              </span>
-            </div>
-          </div>
+              <div className="viz-panel">
+                <div className="viz-label" style={{ marginBottom: '0.4rem' }}>
+                  Computed Parameters
+                </div>
+                <div className="viz-readout">
+                  <span className="viz-readout-key">Number of peptides (n):</span>
+                  <span className="viz-readout-val">{n}</span>
+                </div>
+                <div className="viz-readout">
+                  <span className="viz-readout-key">Spacing (δ):</span>
+                  <span className="viz-readout-val">{delta.toFixed(3)} Da</span>
+                </div>
+                <div className="viz-readout">
+                  <span className="viz-readout-key">Critical separation (κ):</span>
+                  <span className="viz-readout-val">{kappa}</span>
+                </div>
+                <hr className="viz-divider" />
+                <div className="viz-readout">
+                  <span className="viz-readout-key">Valid configuration:</span>
+                  <span className="viz-readout-val" style={{ color: isValid ? '#16a34a' : '#ef4444' }}>
+                    {isValid ? '✓ No overlaps' : '✗ Overlaps detected'}
+                  </span>
+                </div>
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="viz-control">
+                <label className="viz-label" htmlFor={`${csvId}-blocks`}>
+                  Building blocks (name, mass — or position, name, mass)
+                </label>
+                <textarea
+                  id={`${csvId}-blocks`}
+                  className="viz-input"
+                  rows={8}
+                  spellCheck={false}
+                  style={{ fontFamily: 'var(--font-mono)' }}
+                  value={blocksText}
+                  onChange={(e) => setBlocksText(e.target.value)}
+                />
+                {libraryIons?.error && <p className="viz-hint">{libraryIons.error}</p>}
+                <div className="flex flex-wrap gap-2 mt-2">
+                  <label className="viz-btn viz-btn--ghost">
+                    Upload list
+                    <input
+                      type="file"
+                      accept=".csv,.tsv,.txt,text/csv,text/plain"
+                      className="viz-sr-only"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        e.target.value = '';
+                        if (file) loadBlocksFile(file);
+                      }}
+                    />
+                  </label>
+                  <Button variant="ghost" onClick={() => setBlocksText(DEFAULT_BLOCKS)}>
+                    Sample alphabet
+                  </Button>
+                </div>
+              </div>
+              <Slider
+                label="Positions"
+                value={positions}
+                min={1}
+                max={6}
+                step={1}
+                display={libraryIons?.positioned ? 'from list' : positions}
+                hint={
+                  libraryIons?.positioned
+                    ? 'Blocks carry their own positions'
+                    : 'Every block may fill every position'
+                }
+                onChange={setPositions}
+              />
+              <div className="viz-control">
+                <label className="viz-label" htmlFor={`${csvId}-scaffold`}>
+                  Scaffold mass (Da)
+                </label>
+                <input
+                  id={`${csvId}-scaffold`}
+                  className="viz-input"
+                  type="number"
+                  step="0.000001"
+                  value={scaffold}
+                  onChange={(e) => {
+                    const v = Number(e.target.value);
+                    if (Number.isFinite(v)) setScaffold(v);
+                  }}
+                />
+              </div>
+              <Slider
+                label="Tolerance"
+                value={ppm}
+                min={0.5}
+                max={50}
+                step={0.5}
+                display={`${ppm} ppm`}
+                onChange={setPpm}
+              />
+            </>
+          )}
         </div>
       </div>
 
-      <VizSurface>
-        {options && <PlotFigure options={options} />}
-      </VizSurface>
+      <LiveRegion
+        message={
+          view === 'series'
+            ? `${n} peptides at ${delta.toFixed(3)} Da spacing${
+                envelope.molecule ? ' with isotope envelopes' : ''
+              }, ${isValid ? 'no overlaps' : 'overlaps detected'}.`
+            : collisions
+              ? `${collisions.report.collidingMembers} of ${collisions.ions.memberMass.length} library members collide at ${ppm} ppm.`
+              : ''
+        }
+      />
+
+      {view === 'series' ? (
+        <VizSurface>
+          {options && <PlotFigure options={options} />}
+        </VizSurface>
+      ) : (
+        <VizSurface>
+          {collisions ? (
+            <LibraryCollisionPanel {...collisions} />
+          ) : (
+            <div className="viz-empty">
+              {libraryIons?.error ?? 'Add building blocks and tick at least one adduct.'}
+            </div>
+          )}
+        </VizSurface>
+      )}
+
+      {/* Import / export the adduct library as CSV */}
+      <details className="viz-table">
+        <summary>Adduct library as CSV</summary>
+        <div className="viz-control mt-3">
+          <label className="viz-label" htmlFor={`${csvId}-csv`}>
+            CSV columns: {ADDUCT_CSV_COLUMNS.join(', ')} (m/z = (multimer · M + mass) / charge)
+          </label>
+          <textarea
+            id={`${csvId}-csv`}
+            className="viz-input"
+            rows={8}
+            spellCheck={false}
+            style={{ fontFamily: 'var(--font-mono)' }}
+            value={csvText}
+            onChange={(e) => setCsvText(e.target.value)}
+          />
+          {csvMessage && <p className="viz-hint">{csvMessage}</p>}
+          <div className="flex flex-wrap gap-2 mt-2">
+            <Button
+              variant="ghost"
+              onClick={() => setCsvText(toCsv(library.adducts.map((a) => ({ ...a }))))}
+            >
+              Copy library to text
+            </Button>
+            <Button onClick={() => importCsv(csvText)}>Load from text</Button>
+            <label className="viz-btn viz-btn--ghost">
+              Upload .csv
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                className="viz-sr-only"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (!file) return;
+                  void file.text().then((text) => {
+                    setCsvText(text);
+                    importCsv(text);
+                  });
+                }}
+              />
+            </label>
+            <Button
+              variant="ghost"
+              onClick={() =>
+                downloadBlob(
+                  new Blob([toCsv(library.adducts.map((a) => ({ ...a })))], { type: 'text/csv' }),
+                  `${id}-adduct-library.csv`,
+                )
+              }
+            >
+              Download .csv
+            </Button>
+            <Button
+              variant="ghost"
+              onClick={() => {
+                library.reset();
+                setCsvMessage('Custom adducts and profiles cleared.');
+              }}
+            >
+              Reset to built-ins
+            </Button>
+          </div>
+          <p className="viz-hint">
+            {library.custom.length} custom adduct{library.custom.length === 1 ? '' : 's'} and{' '}
+            {library.profiles.length - BUILTIN_PROFILES.length} saved profile
+            {library.profiles.length - BUILTIN_PROFILES.length === 1 ? '' : 's'} are kept in this
+            browser.
+          </p>
+        </div>
+      </details>
     </VizFigure>
   );
 }
@@ -9,7 +9,10 @@ import {
 import type { Simulation } from 'd3-force';
 import { useThemeTokens } from './_viz';
 import {
+  convexHull,
   createSimulation,
+  type ForceConfig,
+  type ForcePreset,
   type GraphNode,
   type GraphLink,
 } from '../../lib/category-graph';
@@ -20,7 +23,9 @@ import {
  * (each an <a> to its post); drag to rearrange, hover/focus to light up a
  * post's neighbourhood. The layout arrives pre-settled from the server (so
  * there is no hydration jump and a real graph shows with JS off); on the
- * client d3-force keeps it live, then quiesces to rest.
+ * client d3-force keeps it live, then quiesces to rest. With `communities`
+ * on, nodes carrying a `community` (see detectCommunities) are wrapped in
+ * one convex hull per community, lit with its hovered member.
  */
 
 interface Props {
@@ -30,6 +35,10 @@ interface Props {
   readonly height: number;
   /** tight crop around the settled nodes; defaults to the full canvas */
   readonly view?: { x: number; y: number; w: number; h: number };
+  /** must match the force used for the server settle */
+  readonly force?: ForcePreset | Partial<ForceConfig>;
+  /** draw a hull around each detected community */
+  readonly communities?: boolean;
 }
 
 const linkEnds = (l: GraphLink): [string, string] => [
@@ -67,12 +76,44 @@ const nodeRadius = (n: GraphNode) => 5.5 + n.degree * 0.7;
 const EDGE_MIN_W = 1.2;
 const EDGE_MAX_W = 5.5;
 
+// community hulls clear each member by this much, rounded by sampling a
+// ring of points round every node
+const HULL_PAD = 14;
+const HULL_RING = 12;
+
+function hullPath(members: GraphNode[]): string {
+  const pts: Array<[number, number]> = [];
+  for (const n of members) {
+    const r = nodeRadius(n) + HULL_PAD;
+    for (let k = 0; k < HULL_RING; k++) {
+      const a = (k / HULL_RING) * Math.PI * 2;
+      pts.push([(n.x ?? 0) + r * Math.cos(a), (n.y ?? 0) + r * Math.sin(a)]);
+    }
+  }
+  const hull = convexHull(pts);
+  return `M${hull.map(([x, y]) => `${x.toFixed(1)},${y.toFixed(1)}`).join('L')}Z`;
+}
+
+// nodes grouped by community, singletons and unlabelled nodes left out
+function communityGroups(nodes: GraphNode[]): GraphNode[][] {
+  const m = new Map<number, GraphNode[]>();
+  for (const n of nodes) {
+    if (n.community == null) continue;
+    const group = m.get(n.community);
+    if (group) group.push(n);
+    else m.set(n.community, [n]);
+  }
+  return [...m.values()].filter((g) => g.length > 1);
+}
+
 export default function CategoryGraph({
   nodes: initialNodes,
   links,
   width,
   height,
   view,
+  force: forcePreset,
+  communities = false,
 }: Props) {
   const t = useThemeTokens();
   const reduced = usePrefersReducedMotion();
@@ -107,7 +148,7 @@ export default function CategoryGraph({
     const sim = createSimulation(
       nodesRef.current,
       links.map((l) => ({ ...l })),
-      { width, height, homing: true },
+      { width, height, homing: true, force: forcePreset },
     );
     sim.on('tick', rerender);
     sim.alpha(0.4).restart();
@@ -116,7 +157,7 @@ export default function CategoryGraph({
       sim.stop();
       simRef.current = null;
     };
-  }, [links, width, height, reduced, rerender, originById]);
+  }, [links, width, height, reduced, rerender, originById, forcePreset]);
 
   const clientToSvg = useCallback((clientX: number, clientY: number) => {
     const svg = svgRef.current;
@@ -201,6 +242,26 @@ export default function CategoryGraph({
           touchAction: 'none',
         }}
       >
+          {/* community hulls, beneath everything */}
+          {communities && (
+            <g>
+              {communityGroups(nodesRef.current).map((members) => {
+                const lit = members.some((n) => n.id === hovered);
+                return (
+                  <path
+                    key={members[0].community}
+                    d={hullPath(members)}
+                    fill={lit ? t.accentSoft : t.surface2}
+                    stroke={lit ? t.accent : t.rule}
+                    strokeWidth={1.2}
+                    strokeLinejoin="round"
+                    style={{ transition: 'fill .18s, stroke .18s' }}
+                  />
+                );
+              })}
+            </g>
+          )}
+
           {/* edges */}
           <g>
             {links.map((l, i) => {
@@ -0,0 +1,382 @@
+import { useMemo, useState } from 'react';
+import * as Plot from '@observablehq/plot';
+import {
+  useThemeTokens,
+  useUrlState,
+  useClothBatch,
+  basePlot,
+  PlotFigure,
+  VizFigure,
+  VizSurface,
+  Slider,
+  Select,
+  Button,
+  StatCard,
+  LiveRegion,
+  RULE_SETS,
+  meanInterval,
+  proportionInterval,
+} from './_viz';
+import type { BatchConfig, BatchRun, BatchStart, Edges, Interval, ThemeTokens } from './_viz';
+
+const MIRRORED = '#f59e0b'; // semantic: mirrored (symmetric) starts
+const START_LABELS: Record<BatchStart, string> = {
+  random: 'Random soup',
+  symmetric: 'Mirrored start',
+};
+const STARTS: BatchStart[] = ['random', 'symmetric'];
+const BOARD_SIZES = [48, 60, 96, 128];
+const PLAYER_LETTERS = 'ABCD';
+// Territory is sampled this often; fixation times are resolved to it.
+const SAMPLE_EVERY = 5;
+// At the horizon, a map unchanged for this long still counts as fixed.
+const SETTLE_WINDOW = 100;
+// Games per streamed chunk from the worker
+const CHUNK_SIZE = 4;
+
+type Row = {
+  start: string;
+  seed: number;
+  fixation: number | null;
+  generations: number;
+  share: number;
+  contested: number;
+  winner: string;
+};
+
+const formatInterval = (iv: Interval, format: (v: number) => string) =>
+  Number.isNaN(iv.estimate) ? '—' : `${format(iv.estimate)} [${format(iv.lo)}, ${format(iv.hi)}]`;
+
+const percent = (v: number) => `${(v * 100).toFixed(0)}%`;
+const count = (v: number) => v.toFixed(0);
+
+/**
+ * A histogram of `x` per start type (one facet row each), with the mean and
+ * its 95% confidence interval drawn as a rule over a shaded band.
+ */
+function histogramOptions(
+  tokens: ThemeTokens,
+  rows: Row[],
+  x: 'fixation' | 'share' | 'contested',
+  label: string,
+  format: (v: number) => string,
+  domain?: [number, number],
+): Plot.PlotOptions {
+  const intervals = STARTS.map((s) => {
+    const values = rows.flatMap((r) => {
+      const v = r[x];
+      return r.start === START_LABELS[s] && v !== null ? [v] : [];
+    });
+    return { start: START_LABELS[s], ...meanInterval(values) };
+  }).filter((iv) => iv.n > 0);
+
+  return basePlot(tokens, {
+    width: 700,
+    height: 300,
+    marginLeft: 56,
+    marginRight: 120,
+    marginBottom: 44,
+    x: { label, domain, tickFormat: format },
+    y: { label: '↑ Games', grid: true },
+    fy: { label: null, domain: STARTS.map((s) => START_LABELS[s]) },
+    color: { domain: STARTS.map((s) => START_LABELS[s]), range: [tokens.accent, MIRRORED] },
+    marks: [
+      Plot.rect(intervals, {
+        x1: 'lo',
+        x2: 'hi',
+        fy: 'start',
+        fill: tokens.ink,
+        fillOpacity: 0.08,
+      }),
+      Plot.rectY(
+        rows.filter((r) => r[x] !== null),
+        Plot.binX<Plot.RectYOptions>(
+          { y: 'count' },
+          { x, fy: 'start', fill: 'start', fillOpacity: 0.75, thresholds: 24 },
+        ),
+      ),
+      Plot.ruleX(intervals, { x: 'estimate', fy: 'start', stroke: tokens.ink, strokeWidth: 1.5 }),
+      Plot.text(intervals, {
+        x: 'estimate',
+        fy: 'start',
+        frameAnchor: 'top',
+        textAnchor: 'start',
+        dx: 5,
+        dy: 6,
+        fill: tokens.ink,
+        text: (d: Interval) => `mean ${formatInterval(d, format)}`,
+      }),
+      Plot.ruleY([0]),
+    ],
+  });
+}
+
+export default function ClothOfGoldBatch({
+  id = 'clothBatch',
+}: {
+  /** prefix for this figure's control state in the URL hash */
+  id?: string;
+}) {
+  const [ruleId, setRuleId] = useUrlState(id, 'rules', RULE_SETS[0].id, (v) =>
+    RULE_SETS.some((r) => r.id === v),
+  );
+  const [edges, setEdges] = useUrlState<Edges>(
+    id,
+    'edges',
+    'bounded',
+    (v) => v === 'bounded' || v === 'toroidal',
+  );
+  const [size, setSize] = useUrlState(id, 'size', 60, (v) => BOARD_SIZES.includes(v));
+  const [games, setGames] = useUrlState(id, 'games', 60, (v) => v >= 10 && v <= 400);
+  const [horizon, setHorizon] = useUrlState(id, 'horizon', 1000, (v) => v >= 200 && v <= 3000);
+  const [seed, setSeed] = useUrlState(id, 'seed', 1, (v) => v >= 1 && v <= 1000);
+  const [player, setPlayer] = useState(1);
+
+  const tokens = useThemeTokens();
+  const batch = useClothBatch();
+
+  const rules = RULE_SETS.find((r) => r.id === ruleId) ?? RULE_SETS[0];
+  const players = rules.players;
+  // Results describe the rule set they were run with, not the current picker.
+  const [ranWith, setRanWith] = useState<BatchConfig | null>(null);
+  const shown = ranWith?.rules.players ?? players;
+  const shownPlayer = Math.min(player, shown);
+
+  const start = () => {
+    const config: BatchConfig = {
+      rules: { ...rules, edges },
+      size,
+      maxGenerations: horizon,
+      sampleEvery: SAMPLE_EVERY,
+      settleWindow: SETTLE_WINDOW,
+    };
+    setRanWith(config);
+    batch.run({ config, starts: STARTS, runs: games, seed, chunkSize: CHUNK_SIZE });
+  };
+
+  const rows = useMemo<Row[]>(
+    () =>
+      batch.runs.map((r: BatchRun) => ({
+        start: START_LABELS[r.start],
+        seed: r.seed,
+        fixation: r.fixation,
+        generations: r.generations,
+        share: r.share[shownPlayer - 1] ?? 0,
+        contested: r.contested,
+        winner: r.winner ? `Player ${PLAYER_LETTERS[r.winner - 1]}` : 'tie',
+      })),
+    [batch.runs, shownPlayer],
+  );
+
+  const summary = useMemo(() => {
+    const of = (s: BatchStart) => batch.runs.filter((r) => r.start === s);
+    const fixed = proportionInterval(
+      batch.runs.filter((r) => r.fixation !== null).length,
+      batch.runs.length,
+    );
+    const random = of('random');
+    const mirrored = of('symmetric');
+    return {
+      fixed,
+      randomWin: proportionInterval(
+        random.filter((r) => r.winner === shownPlayer).length,
+        random.length,
+      ),
+      mirroredTie: proportionInterval(
+        mirrored.filter((r) => r.winner === 0).length,
+        mirrored.length,
+      ),
+      fixation: meanInterval(batch.runs.flatMap((r) => (r.fixation === null ? [] : [r.fixation]))),
+    };
+  }, [batch.runs, shownPlayer]);
+
+  const playerLabel = `Player ${PLAYER_LETTERS[shownPlayer - 1]}`;
+
+  const fixationOptions = useMemo(
+    () =>
+      histogramOptions(
+        tokens,
+        rows,
+        'fixation',
+        'Generation the territory map last changed →',
+        count,
+      ),
+    [tokens, rows],
+  );
+  const shareOptions = useMemo(
+    () =>
+      histogramOptions(
+        tokens,
+        rows,
+        'share',
+        `${playerLabel}'s final territory share →`,
+        percent,
+        [0, 1],
+      ),
+    [tokens, rows, playerLabel],
+  );
+  const contestedOptions = useMemo(
+    () => histogramOptions(tokens, rows, 'contested', 'Contested cells at the end →', count),
+    [tokens, rows],
+  );
+
+  const total = STARTS.length * games;
+  const censored = batch.runs.filter((r) => r.fixation === null).length;
+
+  return (
+    <VizFigure
+      title="Cloth of Gold: Monte Carlo Outcomes"
+      exportName="cloth-of-gold-batch"
+      data={{ runs: rows }}
+      description={
+        'Hundreds of seeded games played headlessly from random soups and from mirrored starts. ' +
+        'Each histogram shows one facet per start type; the line and band are the mean and its 95% confidence interval.'
+      }
+      footer={
+        <div className="mt-4 text-sm" style={{ color: 'var(--ink-soft)' }}>
+          <p style={{ margin: 0 }}>
+            Game k of each start type uses seed {seed} + k, so a batch is reproducible. A game stops
+            when the board repeats an earlier state (a still life or oscillator) or at the horizon;
+            territory is sampled every {SAMPLE_EVERY} generations. Games still changing at the
+            horizon (changed within the last {SETTLE_WINDOW} generations) are left out of the
+            fixation histogram. Win rates use Wilson score intervals.
+          </p>
+        </div>
+      }
+    >
+      {/* Controls */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <Select
+          label="Rule set"
+          value={ruleId}
+          options={RULE_SETS.map((r) => ({ value: r.id, label: r.name }))}
+          onChange={setRuleId}
+        />
+        <Select
+          label="Edges"
+          value={edges}
+          options={[
+            { value: 'bounded', label: 'Bounded' },
+            { value: 'toroidal', label: 'Toroidal' },
+          ]}
+          onChange={(v) => setEdges(v as Edges)}
+        />
+        <Select
+          label="Board"
+          value={String(size)}
+          options={BOARD_SIZES.map((s) => ({ value: String(s), label: `${s} × ${s}` }))}
+          onChange={(v) => setSize(Number(v))}
+        />
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <Slider
+          label="Games per start type"
+          value={games}
+          min={10}
+          max={400}
+          step={10}
+          display={games}
+          onChange={setGames}
+        />
+        <Slider
+          label="Horizon"
+          value={horizon}
+          min={200}
+          max={3000}
+          step={100}
+          display={`${horizon} gen`}
+          onChange={setHorizon}
+        />
+        <Slider label="Seed" value={seed} min={1} max={1000} display={seed} onChange={setSeed} />
+      </div>
+      <div className="flex flex-wrap items-center gap-3 mb-6">
+        {batch.running ? (
+          <Button variant="secondary" onClick={batch.cancel}>
+            Cancel
+          </Button>
+        ) : (
+          <Button onClick={start}>Run {total} games</Button>
+        )}
+        {shown > 1 && (
+          <div style={{ minWidth: '10rem' }}>
+            <Select
+              label="Player"
+              value={String(shownPlayer)}
+              options={Array.from({ length: shown }, (_, p) => ({
+                value: String(p + 1),
+                label: `Player ${PLAYER_LETTERS[p]}`,
+              }))}
+              onChange={(v) => setPlayer(Number(v))}
+            />
+          </div>
+        )}
+        <div className="flex-1" />
+        {(batch.running || batch.runs.length > 0) && (
+          <span className="viz-value">
+            {batch.runs.length} games{batch.running ? ` · ${percent(batch.progress)}` : ''}
+          </span>
+        )}
+      </div>
+      {batch.error && <p className="viz-hint">The batch failed: {batch.error}</p>}
+
+      {/* Statistics */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <StatCard
+          label="Territory fixed by the horizon"
+          value={formatInterval(summary.fixed, percent)}
+          tone="accent"
+        />
+        <StatCard label="Mean time to fixation" value={formatInterval(summary.fixation, count)} />
+        <StatCard
+          label={`${playerLabel} wins (random soup)`}
+          value={formatInterval(summary.randomWin, percent)}
+        />
+        <StatCard
+          label="Ties (mirrored start)"
+          value={formatInterval(summary.mirroredTie, percent)}
+          valueColor={MIRRORED}
+        />
+      </div>
+
+      <LiveRegion
+        message={
+          batch.running || batch.runs.length === 0
+            ? ''
+            : [
+                `${batch.runs.length} games.`,
+                `Territory fixed in ${formatInterval(summary.fixed, percent)} of games,`,
+                `after ${formatInterval(summary.fixation, count)} generations on average.`,
+                `${playerLabel} wins ${formatInterval(summary.randomWin, percent)} of random soups;`,
+                `mirrored starts tie ${formatInterval(summary.mirroredTie, percent)} of the time.`,
+              ].join(' ')
+        }
+      />
+
+      {batch.runs.length === 0 ? (
+        <VizSurface>
+          <div className="viz-empty">
+            {batch.running ? 'Playing the first games…' : 'Run a batch to see the distributions.'}
+          </div>
+        </VizSurface>
+      ) : (
+        <div className="flex flex-col gap-4">
+          <VizSurface>
+            <PlotFigure options={fixationOptions} />
+            {censored > 0 && (
+              <p className="viz-hint">
+                {censored} game{censored === 1 ? '' : 's'} still changing at the horizon (not
+                shown).
+              </p>
+            )}
+          </VizSurface>
+          <VizSurface>
+            <PlotFigure options={shareOptions} />
+          </VizSurface>
+          <VizSurface>
+            <PlotFigure options={contestedOptions} />
+          </VizSurface>
+        </div>
+      )}
+    </VizFigure>
+  );
+}
@@ -1,239 +1,277 @@
-import { useEffect, useRef, useState, useMemo, useTransition } from 'react';
+import { useCallback, useEffect, useId, useMemo, useRef, useState, useTransition } from 'react';
 import {
   useThemeTokens,
+  useUrlState,
+  useTimeline,
+  useRecorder,
   VizFigure,
   VizSurface,
   Slider,
+  Select,
   Button,
   StatCard,
+  LiveRegion,
+  TimelineControls,
+  RULE_SETS,
+  CONTESTED_OWNER,
+  createAutomaton,
+  randomCells,
+  symmetricCells,
+  stepAutomaton,
+  setAutomatonCell,
+  populationsOf,
+  territoryOf,
+  parseRuleString,
+  ruleString,
+  parseRle,
+  toRle,
+  stampPattern,
+  PRESET_PATTERNS,
+  downloadBlob,
 } from './_viz';
+import type { Automaton, Edges, Pattern, Territory } from './_viz';
 
 const PLAYER_B = '#ef4444'; // semantic: Player B
+const PLAYER_C = '#14b8a6'; // semantic: Player C
+const PLAYER_D = '#f97316'; // semantic: Player D
 const CONTESTED = 'rgba(250, 204, 21, 0.2)'; // semantic: contested territory
 const DEATH = '#a855f7'; // semantic: competitive death
 
-type CellState = 0 | 1 | 2; // 0 = empty, 1 = Player A, 2 = Player B
-type Grid = CellState[][];
-type TerritoryState = 'neutral' | 'playerA' | 'playerB' | 'contested';
-
-const GRID_SIZE = 60;
-const CELL_SIZE = 8;
-const INFLUENCE_RADIUS = 10;
-const TERRITORY_THRESHOLD = 1.0;
-const CONTESTED_EPSILON = 1.5;
-
-export default function ClothOfGoldSimulator() {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [grid, setGrid] = useState<Grid>(() => createEmptyGrid());
-  const [isRunning, setIsRunning] = useState(false);
-  const [speed, setSpeed] = useState(10);
-  const [generation, setGeneration] = useState(0);
-  const [recentlyConverted, setRecentlyConverted] = useState<Set<string>>(new Set());
-  const animationRef = useRef<number>();
-  const lastFrameTimeRef = useRef<number>(0);
-
-  // React 18 concurrent features for performance
-  const [, startTransition] = useTransition();
-  const [gridVersion, setGridVersion] = useState(0);
-
-  // Influence cache (useRef to avoid re-render cost on cache update)
-  const influenceCacheRef = useRef<Map<string, { influenceA: number; influenceB: number }>>(new Map());
+// Territory tints are the player colour at this opacity.
+const TERRITORY_ALPHA = 0.15;
+// Board sides offered; the canvas is BOARD_PX wide whatever the board size.
+const BOARD_SIZES = [60, 128, 256, 512];
+const BOARD_PX = 512;
+// Below this many px per cell the board is drawn as pixels, not dots and grid lines.
+const VECTOR_MIN_CELL_PX = 6;
+// Generations between stored boards, so scrubbing back replays at most this many
+const CHECKPOINT_EVERY = 10;
+// Stored boards kept before the spacing doubles (bounds memory on long runs)
+const MAX_CHECKPOINTS = 64;
+const PLAYER_LETTERS = 'ABCD';
+const EDGE_OPTIONS = [
+  { value: 'bounded', label: 'Bounded (dead border)' },
+  { value: 'toroidal', label: 'Toroidal (wraps around)' },
+];
+
+type Snapshot = { cells: Uint8Array; converted: number[] };
+interface History {
+  every: number;
+  boards: Map<number, Snapshot>;
+  /** edited generations, kept when the spacing thins */
+  pinned: Set<number>;
+}
 
-  // Resolved design tokens — drive the canvas palette and re-render on theme toggle.
-  const tokens = useThemeTokens();
+const playerName = (p: number) => `Player ${PLAYER_LETTERS[p - 1]}`;
 
-  // Create empty grid
-  function createEmptyGrid(): Grid {
-    return Array(GRID_SIZE).fill(null).map(() => Array(GRID_SIZE).fill(0));
-  }
-
-  // Create random grid
-  function createRandomGrid(): Grid {
-    const newGrid = createEmptyGrid();
-    for (let i = 0; i < GRID_SIZE; i++) {
-      for (let j = 0; j < GRID_SIZE; j++) {
-        const rand = Math.random();
-        if (rand < 0.15) newGrid[i][j] = 1; // Player A
-        else if (rand < 0.3) newGrid[i][j] = 2; // Player B
-      }
-    }
-    return newGrid;
-  }
+function newHistory(snapshot: Snapshot): History {
+  return { every: CHECKPOINT_EVERY, boards: new Map([[0, snapshot]]), pinned: new Set([0]) };
+}
 
-  // Create symmetric grid
-  function createSymmetricGrid(): Grid {
-    const newGrid = createEmptyGrid();
-    const midpoint = Math.floor(GRID_SIZE / 2);
-
-    for (let i = 0; i < GRID_SIZE; i++) {
-      for (let j = 0; j < midpoint; j++) {
-        const rand = Math.random();
-        if (rand < 0.2) {
-          newGrid[i][j] = 1; // Player A on left
-          newGrid[i][GRID_SIZE - 1 - j] = 2; // Player B on right (mirrored)
-        }
-      }
-    }
-    return newGrid;
+// Store a checkpoint on the spacing grid, thinning to every other one when full.
+function checkpoint(history: History, generation: number, a: Automaton) {
+  if (generation % history.every !== 0) return;
+  history.boards.set(generation, { cells: Uint8Array.from(a.cells), converted: a.converted });
+  if (history.boards.size <= MAX_CHECKPOINTS) return;
+  history.every *= 2;
+  for (const g of history.boards.keys()) {
+    if (g % history.every !== 0 && !history.pinned.has(g)) history.boards.delete(g);
   }
+}
 
-  // Count neighbors by type
-  function countNeighbors(grid: Grid, i: number, j: number): { total: number; playerA: number; playerB: number } {
-    let total = 0;
-    let playerA = 0;
-    let playerB = 0;
-
-    for (let di = -1; di <= 1; di++) {
-      for (let dj = -1; dj <= 1; dj++) {
-        if (di === 0 && dj === 0) continue;
-
-        const ni = i + di;
-        const nj = j + dj;
-
-        if (ni >= 0 && ni < GRID_SIZE && nj >= 0 && nj < GRID_SIZE) {
-          const neighbor = grid[ni][nj];
-          if (neighbor === 1) {
-            total++;
-            playerA++;
-          } else if (neighbor === 2) {
-            total++;
-            playerB++;
-          }
-        }
+// `pattern` once per player, centred in each player's strip of the board
+// (side by side, or stacked when the pattern is too wide); odd strips get
+// it mirrored so the copies face each other.
+function patternBoard(size: number, players: number, pattern: Pattern): Uint8Array {
+  const cells = new Uint8Array(size * size);
+  const strip = size / players;
+  const sideBySide = pattern.width <= strip;
+  for (let p = 0; p < players; p++) {
+    const own = new Uint8Array(pattern.cells.length);
+    for (let i = 0; i < pattern.height; i++) {
+      for (let j = 0; j < pattern.width; j++) {
+        const from = p % 2 ? pattern.width - 1 - j : j;
+        if (pattern.cells[i * pattern.width + from]) own[i * pattern.width + j] = p + 1;
       }
     }
-
-    return { total, playerA, playerB };
+    const row = sideBySide
+      ? Math.floor((size - pattern.height) / 2)
+      : Math.floor(p * strip + (strip - pattern.height) / 2);
+    const col = sideBySide
+      ? Math.floor(p * strip + (strip - pattern.width) / 2)
+      : Math.floor((size - pattern.width) / 2);
+    stampPattern(cells, size, { ...pattern, cells: own }, row, col);
   }
+  return cells;
+}
 
-  // Apply competitive Conway's Game of Life rules (cells can convert ownership)
-  function evolveGrid(currentGrid: Grid): { newGrid: Grid; converted: Set<string> } {
-    const newGrid = createEmptyGrid();
-    const converted = new Set<string>(); // Tracks cells killed by opposing team
-
-    for (let i = 0; i < GRID_SIZE; i++) {
-      for (let j = 0; j < GRID_SIZE; j++) {
-        const cell = currentGrid[i][j];
-        const { total, playerA, playerB } = countNeighbors(currentGrid, i, j);
-
-        // Standard Conway's Game of Life rules
-
-        // Rule 1: Death by isolation (< 2 neighbors)
-        if (total < 2) {
-          newGrid[i][j] = 0;
-          continue;
-        }
-
-        // Rule 2: Death by overcrowding (> 3 neighbors)
-        if (total > 3) {
-          newGrid[i][j] = 0;
-
-          // Track competitive deaths: more enemies than friendlies
-          if (cell === 1 && playerB > playerA) {
-            converted.add(`${i},${j}`);
-          } else if (cell === 2 && playerA > playerB) {
-            converted.add(`${i},${j}`);
-          }
-
-          continue;
-        }
+// A pattern centred on an empty board, with players the rules don't have cleared.
+function loadedBoard(size: number, players: number, pattern: Pattern): Uint8Array {
+  const cells = new Uint8Array(size * size);
+  const row = Math.floor((size - pattern.height) / 2);
+  const col = Math.floor((size - pattern.width) / 2);
+  stampPattern(cells, size, pattern, row, col);
+  for (let k = 0; k < cells.length; k++) if (cells[k] > players) cells[k] = 0;
+  return cells;
+}
 
-        // At this point: total is 2 or 3
+// [r, g, b] of any CSS colour the canvas understands (tokens may be oklch()).
+function rgbOf(color: string): [number, number, number] {
+  const probe = document.createElement('canvas');
+  probe.width = 1;
+  probe.height = 1;
+  const ctx = probe.getContext('2d');
+  if (!ctx) return [0, 0, 0];
+  ctx.fillStyle = color;
+  ctx.fillRect(0, 0, 1, 1);
+  const [r, g, b] = ctx.getImageData(0, 0, 1, 1).data;
+  return [r, g, b];
+}
 
-        // Rule 3 & 4: Competitive survival/birth - ownership determined by majority
-        // Living cells can CONVERT ownership, empty cells can BIRTH
-        if (cell !== 0 || total === 3) {
-          if (playerA > playerB) {
-            newGrid[i][j] = 1; // Becomes/stays A
-          } else if (playerB > playerA) {
-            newGrid[i][j] = 2; // Becomes/stays B
-          } else {
-            // Tie: living cells keep current state, empty cells stay empty
-            newGrid[i][j] = cell;
-          }
-        }
-        // Otherwise: living cell with 2 neighbors but tied (stays empty by default)
-      }
+export default function ClothOfGoldSimulator({
+  id = 'cloth',
+}: {
+  /** prefix for this figure's control state in the URL hash */
+  id?: string;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [speed, setSpeed] = useUrlState(id, 'speed', 10, (v) => v >= 1 && v <= 60);
+  const [ruleId, setRuleId] = useUrlState(id, 'rules', RULE_SETS[0].id, (v) =>
+    RULE_SETS.some((r) => r.id === v),
+  );
+  // B…/S… override of the rule set's birth / survival tables ('' = the set's own)
+  const [ruleText, setRuleText] = useUrlState(id, 'rule', '');
+  const [edges, setEdges] = useUrlState<Edges>(
+    id,
+    'edges',
+    'bounded',
+    (v) => v === 'bounded' || v === 'toroidal',
+  );
+  const [size, setSize] = useUrlState(id, 'size', BOARD_SIZES[0], (v) => BOARD_SIZES.includes(v));
+
+  const ruleError = useMemo(() => {
+    try {
+      if (ruleText) parseRuleString(ruleText);
+      return null;
+    } catch (err) {
+      return (err as Error).message;
     }
+  }, [ruleText]);
+  const rules = useMemo(() => {
+    const base = RULE_SETS.find((r) => r.id === ruleId) ?? RULE_SETS[0];
+    const counts = ruleText && !ruleError ? parseRuleString(ruleText) : base;
+    return { ...base, birth: counts.birth, survival: counts.survival, edges };
+  }, [ruleId, ruleText, ruleError, edges]);
+  const players = rules.players;
+
+  // The timeline's time is the generation; the board is derived from it.
+  const timeline = useTimeline({ rate: speed, discrete: true });
+  const generation = timeline.time;
+  const isRunning = timeline.playing;
+  // Furthest generation computed since the last edit (the scrubber's end)
+  const [frontier, setFrontier] = useState(0);
+
+  // The board on screen (mutated in place by the engine) and the generation
+  // it shows. `board` wraps it afresh whenever it changes, so effects and
+  // memos that read the board rerun.
+  const [initial] = useState(() => createAutomaton(rules, size, size));
+  const automatonRef = useRef(initial);
+  const shownRef = useRef(0);
+  const historyRef = useRef<History | null>(null);
+  const [board, setBoard] = useState({ automaton: initial });
+  const boardChanged = useCallback(() => setBoard({ automaton: automatonRef.current }), []);
+
+  // Keyboard cursor (row, column), drawn while the canvas has focus
+  const [cursor, setCursor] = useState<[number, number]>([size / 2, size / 2]);
+  const [canvasFocused, setCanvasFocused] = useState(false);
+
+  // RLE text box for saving / loading patterns
+  const [rleText, setRleText] = useState('');
+  const [rleError, setRleError] = useState<string | null>(null);
+  const rleId = useId();
+
+  // Territory is recomputed off the urgent path (React 18 concurrent rendering)
+  const [, startTransition] = useTransition();
+  const [territory, setTerritory] = useState<Territory>(() => territoryOf(initial));
 
-    return { newGrid, converted };
-  }
+  // Resolved design tokens — drive the canvas palette and re-render on theme toggle.
+  const tokens = useThemeTokens();
+  const playerColors = useMemo(
+    () => [tokens.accent, PLAYER_B, PLAYER_C, PLAYER_D].slice(0, players),
+    [tokens.accent, players],
+  );
 
-  // Calculate metaball influence for a player
-  // Optimized: Only check cells within INFLUENCE_RADIUS
-  function calculateInfluence(grid: Grid, i: number, j: number, player: 1 | 2): number {
-    let influence = 0;
-    const R = INFLUENCE_RADIUS;
-    const R2 = R * R;
-
-    // Bound search to cells within radius (optimization: O(n²) → O(R²))
-    const minI = Math.max(0, i - R);
-    const maxI = Math.min(GRID_SIZE - 1, i + R);
-    const minJ = Math.max(0, j - R);
-    const maxJ = Math.min(GRID_SIZE - 1, j + R);
-
-    for (let ci = minI; ci <= maxI; ci++) {
-      for (let cj = minJ; cj <= maxJ; cj++) {
-        if (grid[ci][cj] === player) {
-          const dx = i - ci;
-          const dy = j - cj;
-          const dist2 = dx * dx + dy * dy;
-
-          // Skip cells outside circular radius
-          if (dist2 <= R2) {
-            influence += Math.max(0, 1 - dist2 / R2);
-          }
-        }
-      }
+  const history = useCallback(() => {
+    if (!historyRef.current) {
+      historyRef.current = newHistory({
+        cells: Uint8Array.from(automatonRef.current.cells),
+        converted: [],
+      });
     }
+    return historyRef.current;
+  }, []);
+
+  // Start over at generation 0 from `cells` under the current rules.
+  const { reset: resetTimeline } = timeline;
+  const restart = useCallback(
+    (cells: Uint8Array) => {
+      const a = createAutomaton(rules, size, size, cells);
+      automatonRef.current = a;
+      historyRef.current = newHistory({ cells: Uint8Array.from(cells), converted: [] });
+      shownRef.current = 0;
+      resetTimeline();
+      setFrontier(0);
+      setCursor(([i, j]) => [Math.min(i, size - 1), Math.min(j, size - 1)]);
+      boardChanged();
+    },
+    [rules, size, resetTimeline, boardChanged],
+  );
 
-    return influence;
-  }
-
-  // Pre-compute influence maps when grid changes (React 18 concurrent rendering)
+  // New rules or board size: keep the cells that still fit and start over.
   useEffect(() => {
-    startTransition(() => {
-      const newCache = new Map<string, { influenceA: number; influenceB: number }>();
-
-      for (let i = 0; i < GRID_SIZE; i++) {
-        for (let j = 0; j < GRID_SIZE; j++) {
-          const key = `${i},${j}`;
-          newCache.set(key, {
-            influenceA: calculateInfluence(grid, i, j, 1),
-            influenceB: calculateInfluence(grid, i, j, 2),
-          });
-        }
-      }
-
-      influenceCacheRef.current = newCache;
-      setGridVersion(v => v + 1); // Trigger re-render with new cache
-    });
-  }, [grid]);
-
-  // Get territory state for a cell (optimized with cache lookup)
-  function getTerritoryState(i: number, j: number): TerritoryState {
-    const cached = influenceCacheRef.current.get(`${i},${j}`);
-    const influenceA = cached?.influenceA ?? 0;
-    const influenceB = cached?.influenceB ?? 0;
-
-    if (influenceA > TERRITORY_THRESHOLD && influenceB > TERRITORY_THRESHOLD) {
-      if (Math.abs(influenceA - influenceB) < CONTESTED_EPSILON) {
-        return 'contested';
-      }
+    const a = automatonRef.current;
+    if (a.rules === rules && a.width === size) return;
+    const cells = new Uint8Array(size * size);
+    if (a.width === size) {
+      for (let k = 0; k < cells.length; k++) cells[k] = a.cells[k] > players ? 0 : a.cells[k];
     }
+    restart(cells);
+  }, [rules, size, players, restart]);
 
-    if (influenceA > TERRITORY_THRESHOLD && influenceA > influenceB) {
-      return 'playerA';
+  // Bring the board to the timeline's generation: one engine step while
+  // playing, otherwise a replay from the nearest stored board at or before it.
+  useEffect(() => {
+    const from = shownRef.current;
+    if (generation === from) return;
+    const h = history();
+    let start = generation > from ? from : -1;
+    for (const g of h.boards.keys()) if (g <= generation && g > start) start = g;
+    let a = automatonRef.current;
+    if (start !== from) {
+      const snapshot = h.boards.get(start);
+      if (!snapshot) return;
+      a = createAutomaton(a.rules, a.width, a.height, snapshot.cells);
+      a.converted = snapshot.converted;
+      automatonRef.current = a;
     }
-
-    if (influenceB > TERRITORY_THRESHOLD && influenceB > influenceA) {
-      return 'playerB';
+    for (let g = start + 1; g <= generation; g++) {
+      stepAutomaton(a);
+      checkpoint(h, g, a);
     }
+    shownRef.current = generation;
+    setFrontier((f) => Math.max(f, generation));
+    boardChanged();
+  }, [generation, history, boardChanged]);
 
-    return 'neutral';
-  }
+  // Territory map for the shown board
+  useEffect(() => {
+    startTransition(() => setTerritory(territoryOf(board.automaton)));
+  }, [board]);
+
+  const cellPx = Math.max(1, Math.floor(BOARD_PX / size));
+  const canvasPx = size * cellPx;
 
-  // Render canvas when grid or cache changes
+  // Render canvas when the board, territory, theme or cursor change
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
@@ -241,135 +279,126 @@ export default function ClothOfGoldSimulator() {
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    // Canvas can't consume CSS vars, so use the resolved tokens (Player A = brand accent).
-    const accent = tokens.accent;
-
-    const width = GRID_SIZE * CELL_SIZE;
-    const height = GRID_SIZE * CELL_SIZE;
-
-    // Clear canvas
-    ctx.clearRect(0, 0, width, height);
-
-    // Draw territory underlay
-    for (let i = 0; i < GRID_SIZE; i++) {
-      for (let j = 0; j < GRID_SIZE; j++) {
-        const territory = getTerritoryState(i, j);
-
-        switch (territory) {
-          case 'playerA':
-            ctx.fillStyle = 'color-mix(in oklch, ' + accent + ' 15%, transparent)'; // accent
-            break;
-          case 'playerB':
-            ctx.fillStyle = 'rgba(239, 68, 68, 0.15)'; // red
-            break;
-          case 'contested':
-            ctx.fillStyle = CONTESTED; // yellow
-            break;
-          default:
-            ctx.fillStyle = 'rgba(255, 255, 255, 0)'; // transparent
-        }
+    const a = board.automaton;
+    const n = a.width;
+    const { block, cols, owner } = territory;
+    const blockOf = (i: number, j: number) => owner[Math.floor(i / block) * cols + Math.floor(j / block)];
 
-        ctx.fillRect(j * CELL_SIZE, i * CELL_SIZE, CELL_SIZE, CELL_SIZE);
-      }
-    }
-
-    // Draw grid lines (token hairline)
-    ctx.strokeStyle = tokens.rule;
-    ctx.lineWidth = 1;
+    ctx.clearRect(0, 0, canvasPx, canvasPx);
 
-    for (let i = 0; i <= GRID_SIZE; i++) {
-      ctx.beginPath();
-      ctx.moveTo(0, i * CELL_SIZE);
-      ctx.lineTo(width, i * CELL_SIZE);
-      ctx.stroke();
-
-      ctx.beginPath();
-      ctx.moveTo(i * CELL_SIZE, 0);
-      ctx.lineTo(i * CELL_SIZE, height);
-      ctx.stroke();
-    }
+    if (cellPx >= VECTOR_MIN_CELL_PX) {
+      // Canvas can't consume CSS vars, so use the resolved tokens (Player A = brand accent).
+      const tints = playerColors.map(
+        (c) => `color-mix(in oklch, ${c} ${TERRITORY_ALPHA * 100}%, transparent)`,
+      );
 
-    // Draw cells
-    for (let i = 0; i < GRID_SIZE; i++) {
-      for (let j = 0; j < GRID_SIZE; j++) {
-        const cell = grid[i][j];
-
-        if (cell === 1) {
-          ctx.fillStyle = accent; // accent - Player A
-          ctx.beginPath();
-          ctx.arc(
-            j * CELL_SIZE + CELL_SIZE / 2,
-            i * CELL_SIZE + CELL_SIZE / 2,
-            CELL_SIZE / 3,
-            0,
-            2 * Math.PI
-          );
-          ctx.fill();
-        } else if (cell === 2) {
-          ctx.fillStyle = PLAYER_B; // red - Player B
-          ctx.beginPath();
-          ctx.arc(
-            j * CELL_SIZE + CELL_SIZE / 2,
-            i * CELL_SIZE + CELL_SIZE / 2,
-            CELL_SIZE / 3,
-            0,
-            2 * Math.PI
-          );
-          ctx.fill();
+      // Draw territory underlay
+      for (let i = 0; i < n; i++) {
+        for (let j = 0; j < n; j++) {
+          const held = blockOf(i, j);
+          if (!held) continue;
+          ctx.fillStyle = held === CONTESTED_OWNER ? CONTESTED : tints[held - 1];
+          ctx.fillRect(j * cellPx, i * cellPx, cellPx, cellPx);
         }
       }
-    }
 
-    // Draw purple dots for cells that died while outnumbered by opposing team
-    for (const key of recentlyConverted) {
-      const [i, j] = key.split(',').map(Number);
-
-      ctx.fillStyle = DEATH; // purple
-      ctx.beginPath();
-      ctx.arc(
-        j * CELL_SIZE + CELL_SIZE / 2,
-        i * CELL_SIZE + CELL_SIZE / 2,
-        CELL_SIZE / 4, // smaller than regular cells
-        0,
-        2 * Math.PI
-      );
-      ctx.fill();
-    }
-  }, [grid, recentlyConverted, gridVersion, tokens]); // re-render on grid/cache/theme change
-
-  // Animation loop
-  useEffect(() => {
-    if (!isRunning) return;
-
-    const animate = (timestamp: number) => {
-      if (!lastFrameTimeRef.current) {
-        lastFrameTimeRef.current = timestamp;
+      // Draw grid lines (token hairline)
+      ctx.strokeStyle = tokens.rule;
+      ctx.lineWidth = 1;
+      for (let i = 0; i <= n; i++) {
+        ctx.beginPath();
+        ctx.moveTo(0, i * cellPx);
+        ctx.lineTo(canvasPx, i * cellPx);
+        ctx.stroke();
+
+        ctx.beginPath();
+        ctx.moveTo(i * cellPx, 0);
+        ctx.lineTo(i * cellPx, canvasPx);
+        ctx.stroke();
       }
 
-      const elapsed = timestamp - lastFrameTimeRef.current;
-      const frameInterval = 1000 / speed;
-
-      if (elapsed >= frameInterval) {
-        setGrid(prevGrid => {
-          const { newGrid, converted } = evolveGrid(prevGrid);
-          setRecentlyConverted(converted);
-          return newGrid;
-        });
-        setGeneration(prev => prev + 1);
-        lastFrameTimeRef.current = timestamp;
+      // Draw cells
+      const dot = (i: number, j: number, r: number) => {
+        ctx.beginPath();
+        ctx.arc(j * cellPx + cellPx / 2, i * cellPx + cellPx / 2, r, 0, 2 * Math.PI);
+        ctx.fill();
+      };
+      for (let i = 0; i < n; i++) {
+        for (let j = 0; j < n; j++) {
+          const cell = a.cells[i * n + j];
+          if (!cell) continue;
+          ctx.fillStyle = playerColors[cell - 1];
+          dot(i, j, cellPx / 3);
+        }
       }
 
-      animationRef.current = requestAnimationFrame(animate);
-    };
+      // Draw purple dots for cells that died while outnumbered by an opposing team
+      ctx.fillStyle = DEATH;
+      for (const k of a.converted) dot(Math.floor(k / n), k % n, cellPx / 4); // smaller than cells
+    } else {
+      // Pixel mode for large boards: one block of cellPx × cellPx pixels per cell.
+      const image = ctx.createImageData(canvasPx, canvasPx);
+      const px = image.data;
+      const rgb = playerColors.map(rgbOf);
+      const contested = rgbOf(CONTESTED);
+      const death = rgbOf(DEATH);
+      const tintAlpha = Math.round(TERRITORY_ALPHA * 255);
+      const paint = (i: number, j: number, [r, g, b]: [number, number, number], alpha: number) => {
+        for (let y = i * cellPx; y < (i + 1) * cellPx; y++) {
+          for (let x = j * cellPx; x < (j + 1) * cellPx; x++) {
+            const o = (y * canvasPx + x) * 4;
+            px[o] = r;
+            px[o + 1] = g;
+            px[o + 2] = b;
+            px[o + 3] = alpha;
+          }
+        }
+      };
+      for (let i = 0; i < n; i++) {
+        for (let j = 0; j < n; j++) {
+          const cell = a.cells[i * n + j];
+          if (cell) {
+            paint(i, j, rgb[cell - 1], 255);
+          } else {
+            const held = blockOf(i, j);
+            if (held === CONTESTED_OWNER) paint(i, j, contested, Math.round(0.2 * 255));
+            else if (held) paint(i, j, rgb[held - 1], tintAlpha);
+          }
+        }
+      }
+      for (const k of a.converted) paint(Math.floor(k / n), k % n, death, 255);
+      ctx.putImageData(image, 0, 0);
+    }
 
-    animationRef.current = requestAnimationFrame(animate);
+    // Keyboard cursor
+    if (canvasFocused) {
+      const [ci, cj] = cursor;
+      ctx.strokeStyle = tokens.ink;
+      ctx.lineWidth = 2;
+      const pad = cellPx > 2 ? 1 : -1;
+      ctx.strokeRect(cj * cellPx + pad, ci * cellPx + pad, cellPx - 2 * pad, cellPx - 2 * pad);
+    }
+  }, [board, territory, playerColors, tokens, cursor, canvasFocused, cellPx, canvasPx]);
+
+  // Record after each redraw with the new territory map (it lands last).
+  const recorder = useRecorder(() => canvasRef.current, territory, `${id}-cloth-of-gold`);
+
+  // Edits happen while paused and rewrite history from the shown generation on.
+  const setCell = (i: number, j: number, next: (cell: number) => number) => {
+    const a = automatonRef.current;
+    const g = shownRef.current;
+    setAutomatonCell(a, i, j, next(a.cells[i * a.width + j]));
+    a.converted = [];
+    const h = history();
+    for (const k of h.boards.keys()) if (k > g) h.boards.delete(k);
+    for (const k of h.pinned) if (k > g) h.pinned.delete(k);
+    h.boards.set(g, { cells: Uint8Array.from(a.cells), converted: [] });
+    h.pinned.add(g);
+    setFrontier(g);
+    boardChanged();
+  };
 
-    return () => {
-      if (animationRef.current) {
-        cancelAnimationFrame(animationRef.current);
-      }
-    };
-  }, [isRunning, speed]);
+  const cycle = (cell: number) => (cell + 1) % (players + 1);
 
   // Handle cell click
   const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
@@ -377,64 +406,108 @@ export default function ClothOfGoldSimulator() {
     if (!canvas || isRunning) return;
 
     const rect = canvas.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
-
-    const j = Math.floor(x / CELL_SIZE);
-    const i = Math.floor(y / CELL_SIZE);
-
-    if (i >= 0 && i < GRID_SIZE && j >= 0 && j < GRID_SIZE) {
-      setGrid(prevGrid => {
-        const newGrid = prevGrid.map(row => [...row]);
-        // Cycle: 0 -> 1 -> 2 -> 0
-        newGrid[i][j] = ((newGrid[i][j] + 1) % 3) as CellState;
-        return newGrid;
-      });
+    const j = Math.floor(((e.clientX - rect.left) / rect.width) * size);
+    const i = Math.floor(((e.clientY - rect.top) / rect.height) * size);
+
+    if (i >= 0 && i < size && j >= 0 && j < size) {
+      setCursor([i, j]);
+      setCell(i, j, cycle); // Cycle: empty → Player A → Player B → … → empty
+    }
+  };
+
+  // Keyboard equivalent of clicking: arrows move the cursor (Shift: 5 cells),
+  // Space / Enter cycles the cell, 0 … players set it directly.
+  const handleCanvasKeyDown = (e: React.KeyboardEvent<HTMLCanvasElement>) => {
+    const step = e.shiftKey ? 5 : 1;
+    const moves: Record<string, [number, number]> = {
+      ArrowUp: [-step, 0],
+      ArrowDown: [step, 0],
+      ArrowLeft: [0, -step],
+      ArrowRight: [0, step],
+    };
+    const [i, j] = cursor;
+    const clamp = (v: number) => Math.max(0, Math.min(size - 1, v));
+    const digit = /^[0-9]$/.test(e.key) ? Number(e.key) : -1;
+    if (e.key in moves) {
+      const [di, dj] = moves[e.key];
+      setCursor([clamp(i + di), clamp(j + dj)]);
+    } else if (isRunning) {
+      return;
+    } else if (e.key === ' ' || e.key === 'Enter') {
+      setCell(i, j, cycle);
+    } else if (digit >= 0 && digit <= players) {
+      setCell(i, j, () => digit);
+    } else {
+      return;
     }
+    e.preventDefault();
   };
 
   // Count populations
-  const populations = grid.flat().reduce((acc, cell) => {
-    if (cell === 1) acc.playerA++;
-    if (cell === 2) acc.playerB++;
-    return acc;
-  }, { playerA: 0, playerB: 0 });
-
-  // Count territory (memoized for performance)
-  const territory = useMemo(() => {
-    const result = { playerA: 0, playerB: 0 };
-    for (let i = 0; i < GRID_SIZE; i++) {
-      for (let j = 0; j < GRID_SIZE; j++) {
-        const territoryState = getTerritoryState(i, j);
-        if (territoryState === 'playerA') result.playerA++;
-        if (territoryState === 'playerB') result.playerB++;
+  const population = useMemo(() => populationsOf(board.automaton), [board]);
+
+  const loadRle = () => {
+    try {
+      const pattern = parseRle(rleText);
+      if (pattern.width > size || pattern.height > size) {
+        throw new Error(`Pattern is ${pattern.width}×${pattern.height}; the board is ${size}×${size}`);
+      }
+      if (pattern.rule) {
+        // Adopt the pattern's rule when it is B…/S…; other rule families are ignored.
+        try {
+          const counts = parseRuleString(pattern.rule);
+          setRuleText(ruleString(counts));
+        } catch {
+          // keep the current rule
+        }
       }
+      setRleError(null);
+      restart(loadedBoard(size, players, pattern));
+    } catch (err) {
+      setRleError((err as Error).message);
     }
-    return result;
-  }, [gridVersion]); // Only recalculate when cache updates
-
-  const reset = (next: Grid) => {
-    setIsRunning(false);
-    setGrid(next);
-    setGeneration(0);
-    setRecentlyConverted(new Set());
-    lastFrameTimeRef.current = 0;
   };
 
+  const saveRle = () => {
+    const a = automatonRef.current;
+    setRleText(
+      toRle({
+        name: `Cloth of Gold, generation ${generation}`,
+        rule: ruleString(rules),
+        width: a.width,
+        height: a.height,
+        cells: a.cells,
+      }),
+    );
+    setRleError(null);
+  };
+
+  const canvasLabel = [
+    `Cloth of Gold grid, ${size} by ${size} cells, ${players} players.`,
+    'Arrow keys move the cursor, Space cycles the cell,',
+    `and 0 to ${players} set it to empty or a player.`,
+  ].join(' ');
+  const cellName = (v: number) => (v ? playerName(v) : 'empty');
+  const cursorCell = board.automaton.cells[cursor[0] * size + cursor[1]] ?? 0;
+  const playerIds = useMemo(() => Array.from({ length: players }, (_, p) => p + 1), [players]);
+
   return (
     <VizFigure
       footer={
         <div className="mt-4 text-sm" style={{ color: 'var(--ink-soft)' }}>
           <p style={{ margin: '0 0 0.5rem' }}><strong>Territory colors (background):</strong></p>
           <div className="flex gap-4 flex-wrap">
-            <span className="viz-legend-item">
-              <span className="viz-legend-swatch" style={{ background: `color-mix(in oklch, ${tokens.accent} 18%, transparent)` }} />
-              Player A territory
-            </span>
-            <span className="viz-legend-item">
-              <span className="viz-legend-swatch" style={{ background: 'rgba(239, 68, 68, 0.15)' }} />
-              Player B territory
-            </span>
+            {playerIds.map((p) => (
+              <span className="viz-legend-item" key={p}>
+                <span
+                  className="viz-legend-swatch"
+                  style={{
+                    background: `color-mix(in oklch, ${playerColors[p - 1]} 18%, transparent)`,
+                  }}
+                />
+                {playerName(p)} territory
+              </span>
+            ))}
             <span className="viz-legend-item">
               <span className="viz-legend-swatch" style={{ background: CONTESTED }} />
               Contested
@@ -447,22 +520,82 @@ export default function ClothOfGoldSimulator() {
         </div>
       }
     >
+      {/* Rules and board */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <Select
+          label="Rule set"
+          value={ruleId}
+          options={RULE_SETS.map((r) => ({ value: r.id, label: r.name }))}
+          onChange={(v) => {
+            setRuleId(v);
+            setRuleText('');
+          }}
+        />
+        <Select
+          label="Edges"
+          value={edges}
+          options={EDGE_OPTIONS}
+          onChange={(v) => setEdges(v as Edges)}
+        />
+        <Select
+          label="Board"
+          value={String(size)}
+          options={BOARD_SIZES.map((s) => ({ value: String(s), label: `${s} × ${s}` }))}
+          onChange={(v) => setSize(Number(v))}
+        />
+      </div>
+      <div className="viz-control mb-4">
+        <label className="viz-label" htmlFor={`${rleId}-rule`}>
+          Birth / survival ({ruleString(rules)})
+        </label>
+        <input
+          id={`${rleId}-rule`}
+          className="viz-input"
+          type="text"
+          placeholder={`Rule set default, ${ruleString(RULE_SETS.find((r) => r.id === ruleId) ?? rules)}`}
+          value={ruleText}
+          aria-describedby={ruleError ? `${rleId}-rule-error` : undefined}
+          onChange={(e) => setRuleText(e.target.value)}
+        />
+        {ruleError && (
+          <p className="viz-hint" id={`${rleId}-rule-error`}>
+            {ruleError}
+          </p>
+        )}
+      </div>
+
       {/* Controls */}
+      <TimelineControls
+        timeline={timeline}
+        label="Generation"
+        scrub={{ min: 0, max: frontier }}
+        formatTime={String}
+        showSpeed={false}
+        recorder={recorder}
+      />
       <div className="flex flex-wrap items-center gap-3 mb-4">
-        <Button onClick={() => setIsRunning(!isRunning)}>{isRunning ? 'Pause' : 'Start'}</Button>
-        <Button variant="secondary" onClick={() => reset(createEmptyGrid())}>
-          Reset
-        </Button>
-        <div className="flex-1" />
-        <Button variant="ghost" onClick={() => reset(createEmptyGrid())}>
+        <span className="viz-label">Start from</span>
+        <Button variant="ghost" onClick={() => restart(new Uint8Array(size * size))}>
           Empty
         </Button>
-        <Button variant="ghost" onClick={() => reset(createRandomGrid())}>
+        <Button variant="ghost" onClick={() => restart(randomCells(size, size, players))}>
           Random
         </Button>
-        <Button variant="ghost" onClick={() => reset(createSymmetricGrid())}>
+        <Button variant="ghost" onClick={() => restart(symmetricCells(size, size, players))}>
           Symmetric
         </Button>
+        {PRESET_PATTERNS.map(({ id: patternId, rle }) => {
+          const pattern = parseRle(rle);
+          return (
+            <Button
+              key={patternId}
+              variant="ghost"
+              onClick={() => restart(patternBoard(size, players, pattern))}
+            >
+              {pattern.name ?? patternId}
+            </Button>
+          );
+        })}
       </div>
 
       <div className="mb-6">
@@ -472,49 +605,118 @@ export default function ClothOfGoldSimulator() {
           min={1}
           max={60}
           display={`${speed} gen/sec`}
+          hint={
+            timeline.reducedMotion
+              ? 'Capped at 1 gen/sec while your system asks for reduced motion'
+              : undefined
+          }
           onChange={setSpeed}
         />
       </div>
 
       {/* Stats */}
-      <div className="grid grid-cols-3 gap-4 mb-6">
+      <div
+        className="grid gap-4 mb-6"
+        style={{ gridTemplateColumns: `repeat(${players + 1}, minmax(0, 1fr))` }}
+      >
         <StatCard label="Generation" value={generation} />
-        <StatCard
-          label="Player A"
-          tone="accent"
-          value={
-            <>
-              {populations.playerA}
-              <div className="viz-stat-sub">Territory: {territory.playerA}</div>
-            </>
-          }
-        />
-        <StatCard
-          label="Player B"
-          valueColor={PLAYER_B}
-          value={
-            <>
-              {populations.playerB}
-              <div className="viz-stat-sub">Territory: {territory.playerB}</div>
-            </>
-          }
-        />
+        {playerIds.map((p) => (
+          <StatCard
+            key={p}
+            label={playerName(p)}
+            tone={p === 1 ? 'accent' : undefined}
+            valueColor={p === 1 ? undefined : playerColors[p - 1]}
+            value={
+              <>
+                {population[p]}
+                <div className="viz-stat-sub">Territory: {territory.counts[p]}</div>
+              </>
+            }
+          />
+        ))}
       </div>
 
+      {/* Spoken summaries: results once paused, and the cell under the keyboard cursor */}
+      <LiveRegion
+        message={
+          isRunning
+            ? ''
+            : [
+                `Generation ${generation}.`,
+                ...playerIds.map(
+                  (p) =>
+                    `${playerName(p)}: ${population[p]} cells, territory ${territory.counts[p]}.`,
+                ),
+              ].join(' ')
+        }
+      />
+      <LiveRegion
+        delay={150}
+        message={
+          canvasFocused
+            ? `Row ${cursor[0] + 1}, column ${cursor[1] + 1}: ${cellName(cursorCell)}`
+            : ''
+        }
+      />
+
       <VizSurface>
         <canvas
           ref={canvasRef}
-          width={GRID_SIZE * CELL_SIZE}
-          height={GRID_SIZE * CELL_SIZE}
+          width={canvasPx}
+          height={canvasPx}
+          tabIndex={0}
+          aria-label={canvasLabel}
           onClick={handleCanvasClick}
-          style={{ imageRendering: 'pixelated', cursor: 'pointer' }}
+          onKeyDown={handleCanvasKeyDown}
+          onFocus={() => setCanvasFocused(true)}
+          onBlur={() => setCanvasFocused(false)}
+          style={{ imageRendering: 'pixelated', cursor: 'pointer', maxWidth: '100%' }}
         />
         {!isRunning && (
           <p className="text-center text-sm mt-3" style={{ color: 'var(--muted)' }}>
             Click cells to cycle: Empty → Player A (blue) → Player B (red)
+            {players > 2 ? ' → …' : ''}. Or focus the grid and use the arrow keys with Space (or
+            0 – {players}).
           </p>
         )}
       </VizSurface>
+
+      {/* Save / load patterns as RLE */}
+      <details className="viz-table">
+        <summary>Pattern as RLE text</summary>
+        <div className="viz-control mt-3">
+          <label className="viz-label" htmlFor={`${rleId}-rle`}>
+            RLE (Golly / LifeWiki format; A, B, … for players)
+          </label>
+          <textarea
+            id={`${rleId}-rle`}
+            className="viz-input"
+            rows={6}
+            spellCheck={false}
+            style={{ fontFamily: 'var(--font-mono)' }}
+            value={rleText}
+            onChange={(e) => setRleText(e.target.value)}
+          />
+          {rleError && <p className="viz-hint">{rleError}</p>}
+          <div className="flex flex-wrap gap-2 mt-2">
+            <Button variant="ghost" onClick={saveRle}>
+              Copy board to text
+            </Button>
+            <Button onClick={loadRle}>Load onto board</Button>
+            <Button
+              variant="ghost"
+              onClick={() =>
+                downloadBlob(
+                  new Blob([rleText], { type: 'text/plain' }),
+                  `${id}-cloth-of-gold.rle`,
+                )
+              }
+            >
+              Download .rle
+            </Button>
+          </div>
+        </div>
+      </details>
     </VizFigure>
   );
 }
@@ -1,11 +1,20 @@
-import { useEffect, useMemo, useRef, useState } from 'react';
+import { useEffect, useMemo, useRef } from 'react';
 import {
   useThemeTokens,
+  useTraceWorker,
+  useCameraRender,
+  useUrlState,
+  CameraView,
+  DetectorProfile,
+  EnergyBudgetPanel,
   VizFigure,
   VizSurface,
   Slider,
+  Button,
+  Select,
   StatCard,
   Legend,
+  LiveRegion,
   // ── ray tracer module ────────────────────────────────────────────
   AIR,
   POLYSTYRENE,
@@ -19,14 +28,32 @@ import {
   lineSegment,
   heightField,
   lambertianScatterer,
-  trace,
+  polarizer,
+  detector,
+  readDetector,
+  irradianceProfile,
+  detectorFlux,
+  withPolarization,
+  UNPOLARIZED,
+  S_POLARIZED,
+  exportSceneFile,
+  downloadBlob,
+  SODIUM_LAMP,
+  WHITE_LED,
+  EQUAL_ENERGY_WHITE,
+  withSpectrum,
+  wavelengthToRgb,
 } from './_viz';
 import type {
   LightSource,
   Medium,
-  RaySegment,
+  Ray,
+  SamplingMode,
   Scene,
+  Spectrum,
+  Stokes,
   Surface,
+  TraceOptions,
   Vec2,
 } from './_viz';
 
@@ -38,9 +65,18 @@ import type {
 //   • Translating component state into a scene (a list of optical
 //     interfaces with proper media on each side) and a list of light
 //     sources.
-//   • Calling trace() to get all ray segments.
-//   • Rendering segments and geometry on a canvas.
-//   • Deriving summary statistics from the traced rays.
+//   • Tracing the rays (off the main thread, via useTraceWorker) to get
+//     all ray segments.
+//   • Rendering segments and geometry on a canvas (coloured by medium,
+//     or by wavelength when a light spectrum is selected).
+//   • Optionally polarizing the sources and fitting the camera with an
+//     analyzer film, for polarized and cross-polarized imaging.
+//   • Deriving summary statistics from the traced rays, and reading
+//     the camera lens out as a detector (image profile + angles).
+//   • Backward-tracing the camera to render the image it records.
+//   • Exporting the current setup as a JSON scene file.
+//   • Keeping the controls in the URL hash (useUrlState), so a setup
+//     can be shared or linked to.
 //
 // No optical physics lives in this file. If a fix is needed to Snell,
 // Fresnel, or Beer-Lambert behaviour, it belongs in the raytracer module.
@@ -129,6 +165,20 @@ const LAMP_EMITTER_RADIUS = 5; // 10 mm wide emitter face
 const CAMERA_APERTURE_RADIUS = 8; // 16 mm aperture
 const CAMERA_HOUSING_HALF_WIDTH = CAMERA_APERTURE_RADIUS + 1.5; // 9.5 mm
 const CAMERA_HOUSING_HEIGHT = 10; // 10 mm tall body above the lens
+// Analyzer film mounted just in front of (below) the lens when a
+// polarizer mode is selected; spans the housing so nothing reaches the
+// lens around it.
+const CAMERA_POLARIZER_GAP = 0.5;
+// The synthetic camera image is backward-traced through a thin lens
+// filling the aperture, focused on the bench, with a field of view just
+// wider than the dish. Backward rays are pruned more aggressively than
+// forward ones: each starts at 1/CAMERA_SAMPLES of a pixel, and paths
+// below 1e-4 of that contribute nothing visible.
+const CAMERA_PIXELS = 96;
+const CAMERA_SAMPLES = 8;
+const CAMERA_FIELD_HALF_WIDTH = 60; // mm at the bench
+const CAMERA_PHOTON_BINS = 48;
+const CAMERA_TRACE_OPTIONS: TraceOptions = { maxDepth: 6, minIntensity: 1e-4, seed: 3 };
 
 // ─── dish-floor + bench layout ─────────────────────────────────────
 // The dish is a polystyrene shell with a flat floor ~1 mm thick. Below
@@ -173,6 +223,20 @@ const BENCH_SCATTER_RAYS = 7;
 // render so the geometry and the optics agree.
 const BENCH_HALF_WIDTH = 150;
 
+// ─── trace options ─────────────────────────────────────────────────
+// Per-ray flux is small under MC sampling (~1/252 of source flux for
+// the sky). The dimmest physically-relevant paths are sky rays
+// Fresnel-reflecting at near-normal incidence off the agar surface —
+// R ≈ 2% there — which gives a reflected branch of ~8e-5, the
+// overhead-glare path that ultimately hits the camera. Setting
+// minIntensity below this lets those paths survive the queue prune; the
+// additive (dark) / source-over (light) blending in the renderer makes
+// the dim accumulated flux legible. The tracer remains bounded by
+// maxDepth, so lowering minIntensity doesn't cause unbounded recursion.
+// The fixed seed makes the bench scatter reproducible: toggling a
+// control and back redraws exactly the same rays.
+const TRACE_OPTIONS: TraceOptions = { maxDepth: 7, minIntensity: 1e-5, seed: 1 };
+
 // ─── visualization gamma ──────────────────────────────────────────
 // Beer-Lambert attenuation plus multiple Fresnel transmissions can
 // drive ray intensities far below 1% of source before they reach the
@@ -314,26 +378,120 @@ function rayColor(m: Medium, dark: boolean): string {
   }
 }
 
+/**
+ * Like `rayColor`, for a ray of the given wavelength (nm). The light
+ * theme darkens the spectral colour so it still reads as ink on paper.
+ */
+function spectralRayColor(wavelength: number, dark: boolean): string {
+  const [r, g, b] = wavelengthToRgb(wavelength);
+  const k = dark ? 1 : 0.6;
+  return `rgba(${Math.round(r * k)}, ${Math.round(g * k)}, ${Math.round(b * k)},`;
+}
+
+// ─── light spectra ─────────────────────────────────────────────────
+// "Monochrome" leaves rays untagged: every medium uses its reference
+// n and alpha, and rays are coloured by medium. Any other choice tags
+// each ray with a wavelength, so dispersion at the lid, liquid and agar
+// interfaces fans white light out into its colours, and the agar's
+// blue-heavy absorption tints what survives.
+const SPECTRA: Record<string, { label: string; spectrum: Spectrum | null }> = {
+  none: { label: 'Monochrome (by medium)', spectrum: null },
+  led: { label: 'White LED', spectrum: WHITE_LED },
+  flat: { label: 'Equal-energy white', spectrum: EQUAL_ENERGY_WHITE },
+  sodium: { label: 'Sodium lamp (589 nm)', spectrum: SODIUM_LAMP },
+};
+
+// ─── polarizer modes ───────────────────────────────────────────────
+// Every ray travels in the plane of the figure, so s (E out of the
+// page) and p (E in the page) are the same two directions at every
+// interface. Specular reflections off the near-horizontal dish
+// surfaces are s-rich; Lambertian bench scatter depolarizes. So:
+//   • "Camera analyzer": natural light, with a p-passing film on the
+//     lens — polarized sunglasses, which cut (but don't kill) glare.
+//   • "Cross-polarized": s-polarized illumination and a p-passing
+//     analyzer. Purely specular paths keep their s state and are
+//     extinguished; scattered light passes at half strength. This is
+//     the standard cross-polarized trick for glare-free imaging.
+// `source` is the polarization given to every light source; undefined
+// leaves polarization untracked (the cheaper unpolarized average).
+const POLARIZER_MODES: Record<
+  string,
+  { label: string; source?: Stokes; analyzer: boolean }
+> = {
+  none: { label: 'None', analyzer: false },
+  analyzer: { label: 'Camera analyzer', source: UNPOLARIZED, analyzer: true },
+  crossed: { label: 'Cross-polarized', source: S_POLARIZED, analyzer: true },
+};
+
+// ─── sampling modes ────────────────────────────────────────────────
+// How the sky, lamps and bench scatter place their Monte Carlo samples
+// (see ./_viz/sampling). Every source has its own fixed seed, so the
+// picture is stable across re-renders; the modes differ only in how
+// evenly a given number of rays covers the angles and positions.
+const SAMPLING_MODES: Record<SamplingMode, string> = {
+  random: 'Random',
+  stratified: 'Stratified',
+  halton: 'Low-discrepancy (Halton)',
+};
+const SKY_SEED = 11;
+const LAMP_SEEDS = [21, 22];
+
 // ─── component ─────────────────────────────────────────────────────
-export default function PetriDishOpticsSimulator() {
+export default function PetriDishOpticsSimulator({
+  id = 'petri',
+}: {
+  /** prefix for this figure's control state in the URL hash */
+  id?: string;
+}) {
   // Geometry sliders
-  const [agarMeniscus, setAgarMeniscus] = useState(1.0);
-  const [agarCapillary, setAgarCapillary] = useState(2.7);
-  const [liquidPool, setLiquidPool] = useState(2.5);
-  const [liquidMeniscus, setLiquidMeniscus] = useState(0.5);
+  const [agarMeniscus, setAgarMeniscus] = useUrlState(
+    id,
+    'agarMeniscus',
+    1.0,
+    (v) => v >= 0 && v <= 2,
+  );
+  const [agarCapillary, setAgarCapillary] = useUrlState(id, 'agarCapillary', 2.7);
+  const [liquidPool, setLiquidPool] = useUrlState(id, 'liquidPool', 2.5, (v) => v >= 2.3 && v <= 4);
+  const [liquidMeniscus, setLiquidMeniscus] = useUrlState(id, 'liquidMeniscus', 0.5);
 
   // Camera + lamp angles
-  const [cameraHeight, setCameraHeight] = useState(180);
-  const [lampAngle1, setLampAngle1] = useState(30);
-  const [lampAngle2, setLampAngle2] = useState(-30);
+  const [cameraHeight, setCameraHeight] = useUrlState(
+    id,
+    'cameraHeight',
+    180,
+    (v) => v >= 100 && v <= 260,
+  );
+  const [lampAngle1, setLampAngle1] = useUrlState(id, 'lampAngle1', 30, (v) => v >= -90 && v <= 90);
+  const [lampAngle2, setLampAngle2] = useUrlState(
+    id,
+    'lampAngle2',
+    -30,
+    (v) => v >= -90 && v <= 90,
+  );
 
   // Toggles
-  const [lidPresent, setLidPresent] = useState(true);
-  const [liquidPresent, setLiquidPresent] = useState(true);
-  const [benchScattering, setBenchScattering] = useState(true);
-  const [overheadOn, setOverheadOn] = useState(true);
-  const [lamp1On, setLamp1On] = useState(false);
-  const [lamp2On, setLamp2On] = useState(false);
+  const [lidPresent, setLidPresent] = useUrlState(id, 'lidPresent', true);
+  const [liquidPresent, setLiquidPresent] = useUrlState(id, 'liquidPresent', true);
+  const [benchScattering, setBenchScattering] = useUrlState(id, 'benchScattering', true);
+  const [overheadOn, setOverheadOn] = useUrlState(id, 'overheadOn', true);
+  const [lamp1On, setLamp1On] = useUrlState(id, 'lamp1On', false);
+  const [lamp2On, setLamp2On] = useUrlState(id, 'lamp2On', false);
+  // Own keys only: an inherited name such as "constructor" is not an option
+  const [spectrumKey, setSpectrumKey] = useUrlState(id, 'spectrumKey', 'none', (k) =>
+    Object.hasOwn(SPECTRA, k),
+  );
+  const [polarizerMode, setPolarizerMode] = useUrlState(
+    id,
+    'polarizerMode',
+    'none',
+    (k) => Object.hasOwn(POLARIZER_MODES, k),
+  );
+  const [samplingMode, setSamplingMode] = useUrlState<SamplingMode>(
+    id,
+    'samplingMode',
+    'stratified',
+    (k) => Object.hasOwn(SAMPLING_MODES, k),
+  );
 
   const tokens = useThemeTokens();
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -637,21 +795,23 @@ export default function PetriDishOpticsSimulator() {
     //   opaque housing. The aperture (named "camera lens", the surface
     //   we count hits against) is the thin horizontal disc at
     //   y=cameraHeight, x ∈ [−CAMERA_APERTURE_RADIUS, +CAMERA_APERTURE_RADIUS].
-    //   Both sides ABSORBER, so any ray striking it terminates as a
-    //   captured photon. The housing — baffles flanking the aperture,
+    //   It is a detector, so any ray striking it terminates as a
+    //   captured photon and is binned by `readDetector`. Its endpoints
+    //   run right to left so the front face (the canonical normal)
+    //   points down at the dish; the recorded profile is therefore
+    //   mirrored in x, as a real camera's image is. The housing — baffles flanking the aperture,
     //   plus a top and two side walls — is also absorbing (both sides),
     //   so rays that would otherwise pass through the camera body are
     //   stopped instead. Without the housing, an overhead lamp can
     //   "shine through" the camera into the dish, which is physically
     //   incorrect.
     surfaces.push(
-      horizontalSegment(
+      detector(
         'camera lens',
-        cameraHeight,
-        -CAMERA_APERTURE_RADIUS,
-        CAMERA_APERTURE_RADIUS,
-        ABSORBER,
-        ABSORBER,
+        { x: CAMERA_APERTURE_RADIUS, y: cameraHeight },
+        { x: -CAMERA_APERTURE_RADIUS, y: cameraHeight },
+        AIR,
+        { positionBins: 32, angleBins: 18 },
       ),
     );
     // Aperture baffles: same y as the lens, but in the gap between the
@@ -743,6 +903,21 @@ export default function PetriDishOpticsSimulator() {
     if (lamp1On) surfaces.push(buildLampFace(lampAngle1));
     if (lamp2On) surfaces.push(buildLampFace(lampAngle2));
 
+    // — Camera analyzer: a p-passing polarizer film just below the
+    //   lens (see POLARIZER_MODES).
+    if (POLARIZER_MODES[polarizerMode].analyzer) {
+      const filmY = cameraHeight - CAMERA_POLARIZER_GAP;
+      surfaces.push(
+        polarizer(
+          'camera polarizer',
+          { x: -CAMERA_HOUSING_HALF_WIDTH, y: filmY },
+          { x: CAMERA_HOUSING_HALF_WIDTH, y: filmY },
+          AIR,
+          90,
+        ),
+      );
+    }
+
     return {
       surfaces,
       bounds: {
@@ -765,6 +940,7 @@ export default function PetriDishOpticsSimulator() {
     lamp2On,
     lampAngle1,
     lampAngle2,
+    polarizerMode,
   ]);
 
   // ── build the light sources list ────────────────────────────────
@@ -786,11 +962,12 @@ export default function PetriDishOpticsSimulator() {
           numDirections: SKY_NUM_DIRECTIONS,
           raysPerDirection: SKY_RAYS_PER_DIRECTION,
           ambient: AIR,
+          sampling: { seed: SKY_SEED, mode: samplingMode },
         }),
       );
     }
 
-    const buildLamp = (angleDeg: number): LightSource => {
+    const buildLamp = (angleDeg: number, seed: number): LightSource => {
       const tRad = (angleDeg * Math.PI) / 180;
       const lampPos: Vec2 = {
         x: Math.sin(tRad) * LAMP_DISTANCE,
@@ -805,29 +982,65 @@ export default function PetriDishOpticsSimulator() {
         halfAngleDeg: LAMP_CONE_HALF_DEG,
         rayCount: LAMP_RAYS,
         ambient: AIR,
+        sampling: { seed, mode: samplingMode },
       });
     };
-    if (lamp1On) list.push(buildLamp(lampAngle1));
-    if (lamp2On) list.push(buildLamp(lampAngle2));
-
-    return list;
-  }, [overheadOn, lamp1On, lamp2On, lampAngle1, lampAngle2]);
+    if (lamp1On) list.push(buildLamp(lampAngle1, LAMP_SEEDS[0]));
+    if (lamp2On) list.push(buildLamp(lampAngle2, LAMP_SEEDS[1]));
+
+    const { spectrum } = SPECTRA[spectrumKey];
+    const { source: polarization } = POLARIZER_MODES[polarizerMode];
+    return list.map((src) => {
+      let out = src;
+      if (polarization) out = withPolarization(out, polarization);
+      if (spectrum) out = withSpectrum(out, spectrum);
+      return out;
+    });
+  }, [
+    overheadOn,
+    lamp1On,
+    lamp2On,
+    lampAngle1,
+    lampAngle2,
+    spectrumKey,
+    polarizerMode,
+    samplingMode,
+  ]);
 
   // ── trace ───────────────────────────────────────────────────────
-  const tracedSegments = useMemo<RaySegment[]>(() => {
-    const initialRays = sources.flatMap((src) => src());
-    // Per-ray flux is small under MC sampling (~1/252 of source flux
-    // for the sky). The dimmest physically-relevant paths are sky
-    // rays Fresnel-reflecting at near-normal incidence off the agar
-    // surface — R ≈ 2% there — which gives a reflected branch of
-    // ~8e-5, the overhead-glare path that ultimately hits the camera.
-    // Setting minIntensity below this lets those paths survive the
-    // queue prune; the additive (dark) / source-over (light) blending
-    // in the renderer makes the dim accumulated flux legible. The
-    // tracer remains bounded by maxDepth, so lowering minIntensity
-    // doesn't cause unbounded recursion.
-    return trace(scene, initialRays, { maxDepth: 7, minIntensity: 1e-5 });
-  }, [scene, sources]);
+  // Source sampling is cheap and stays on the main thread; the trace
+  // itself runs in a worker and streams segments back, so the canvas
+  // fills in progressively and slider drags never wait on a full trace.
+  const initialRays = useMemo<Ray[]>(
+    () => sources.flatMap((src) => src()),
+    [sources],
+  );
+  const traceOptions = useMemo<TraceOptions>(
+    () => ({ ...TRACE_OPTIONS, sampling: samplingMode }),
+    [samplingMode],
+  );
+  const {
+    segments: tracedSegments,
+    stats: traceStats,
+    tracing,
+    settled: traceSettled,
+    error: traceError,
+  } = useTraceWorker(
+    scene,
+    initialRays,
+    traceOptions,
+  );
+
+  // ── export ──────────────────────────────────────────────────────
+  // Downloads the current scene, sources and trace options as a JSON
+  // scene file (see ./_viz/sceneFile), loadable with loadSceneFile.
+  const downloadScene = () => {
+    const file = exportSceneFile({ scene, sources, options: traceOptions });
+    const blob = new Blob([JSON.stringify(file, null, 2)], {
+      type: 'application/json',
+    });
+    downloadBlob(blob, 'petri-dish-scene.json');
+  };
 
   // ── stats ───────────────────────────────────────────────────────
   // A ray reaching the camera lens carries one of two kinds of
@@ -856,6 +1069,11 @@ export default function PetriDishOpticsSimulator() {
   //     image-vs-artifact ratio at the sensor; it can differ
   //     substantially from the count ratio when a single bright signal
   //     ray dominates many dim glare rays (or vice versa).
+  const cameraReading = useMemo(() => {
+    const lens = scene.surfaces.find((s) => s.name === 'camera lens');
+    return lens ? readDetector(lens, tracedSegments) : null;
+  }, [scene, tracedSegments]);
+
   const stats = useMemo(() => {
     const isBench = (name: string | undefined) =>
       name !== undefined && name.startsWith('bench');
@@ -865,20 +1083,13 @@ export default function PetriDishOpticsSimulator() {
     const reachingBench = tracedSegments.filter(
       (s) => isBench(s.surfaceName) && s.bornBy !== 'reflected',
     ).length;
-    const imageFormingHits = tracedSegments.filter(
-      (s) =>
-        s.surfaceName === 'camera lens' && s.end.y > s.start.y, // going up
-    );
-    const signalHits = imageFormingHits.filter((s) => s.viaScatter === true);
-    const glareHits = imageFormingHits.filter((s) => s.viaScatter !== true);
-    const signalEnergy = signalHits.reduce(
-      (sum, s) => sum + s.intensityEnd,
-      0,
-    );
-    const glareEnergy = glareHits.reduce(
-      (sum, s) => sum + s.intensityEnd,
-      0,
-    );
+    // Camera arrivals come from the lens detector, which counts only
+    // rays reaching its front (downward-facing) side.
+    const signalCount = cameraReading?.signalHits ?? 0;
+    const glareCount = cameraReading?.glareHits ?? 0;
+    const { signal: signalEnergy, glare: glareEnergy } = cameraReading
+      ? detectorFlux(cameraReading)
+      : { signal: 0, glare: 0 };
     const totalEnergyAtBench = tracedSegments
       .filter((s) => isBench(s.surfaceName))
       .reduce((sum, s) => sum + s.intensityEnd, 0);
@@ -888,9 +1099,9 @@ export default function PetriDishOpticsSimulator() {
     const fractionToBench =
       totalSourceEnergy > 0 ? totalEnergyAtBench / totalSourceEnergy : 0;
     // Count-based ratio: matches the dots on the canvas one-for-one.
-    const totalCameraHits = signalHits.length + glareHits.length;
+    const totalCameraHits = signalCount + glareCount;
     const signalHitRatio =
-      totalCameraHits > 0 ? signalHits.length / totalCameraHits : NaN;
+      totalCameraHits > 0 ? signalCount / totalCameraHits : NaN;
     // Energy-weighted ratio: the actual radiant-flux split at the
     // sensor. Differs from the count when ray intensities vary across
     // the population (which they always do in a real MC trace).
@@ -900,13 +1111,75 @@ export default function PetriDishOpticsSimulator() {
     return {
       primaryRays,
       reachingBench,
-      signalCount: signalHits.length,
-      glareCount: glareHits.length,
+      signalCount,
+      glareCount,
       fractionToBench,
       signalHitRatio,
       signalFluxRatio,
     };
-  }, [tracedSegments]);
+  }, [tracedSegments, cameraReading]);
+
+  // ── camera image ────────────────────────────────────────────────
+  // What the camera records, backward-traced from the lens (see
+  // renderCamera). Bench radiance comes from the forward trace's hits
+  // on the bench. The render costs ~100 ms, so it runs off the main thread
+  // (useCameraRender) once the trace of the current scene has settled,
+  // never on stale segments, and the previous image stays up meanwhile.
+  const {
+    image: cameraImage,
+    error: cameraError,
+    render: renderCameraImage,
+  } = useCameraRender();
+  useEffect(() => {
+    if (!traceSettled) return;
+    const focusDistance = cameraHeight + POLY_FLOOR_THICKNESS;
+    const fovDeg = (360 / Math.PI) * Math.atan(CAMERA_FIELD_HALF_WIDTH / focusDistance);
+    renderCameraImage({
+      scene,
+      camera: {
+        position: { x: 0, y: cameraHeight },
+        axis: { x: 0, y: -1 },
+        fovDeg,
+        pixels: CAMERA_PIXELS,
+        medium: AIR,
+        lens: { aperture: 2 * CAMERA_APERTURE_RADIUS, focusDistance },
+        samplesPerPixel: CAMERA_SAMPLES,
+      },
+      light: { sources, segments: tracedSegments, photonBins: CAMERA_PHOTON_BINS },
+      options: CAMERA_TRACE_OPTIONS,
+    });
+  }, [renderCameraImage, traceSettled, scene, sources, tracedSegments, cameraHeight]);
+
+  // ── export data ─────────────────────────────────────────────────
+  // Series behind the figure, for the export menu's CSV / JSON.
+  const exportData = useMemo(
+    () => ({
+      ...(cameraImage && {
+        cameraImage: cameraImage.coords.map((coord, i) => ({
+          coord,
+          signal: cameraImage.signal[i],
+          glare: cameraImage.glare[i],
+        })),
+      }),
+      ...(cameraReading && { lensIrradiance: irradianceProfile(cameraReading) }),
+    }),
+    [cameraImage, cameraReading],
+  );
+
+  // Text alternative for the ray diagram (a canvas has no content of its own).
+  const lights = [
+    overheadOn && 'overhead sky',
+    lamp1On && `lamp at ${lampAngle1}°`,
+    lamp2On && `lamp at ${lampAngle2}°`,
+  ].filter(Boolean);
+  const canvasDescription = [
+    'Ray diagram of a petri dish cross-section,',
+    `${lidPresent ? 'with' : 'without'} lid,`,
+    `${liquidPresent ? 'with' : 'without'} surface liquid,`,
+    `camera ${cameraHeight} mm above the bench.`,
+    `Lit by ${lights.length > 0 ? lights.join(' and ') : 'no sources'};`,
+    `${tracedSegments.length} traced ray segments.`,
+  ].join(' ');
 
   // ── render ──────────────────────────────────────────────────────
   useEffect(() => {
@@ -1146,6 +1419,18 @@ export default function PetriDishOpticsSimulator() {
       ctx.moveTo(wx(-CAMERA_APERTURE_RADIUS), wy(camY));
       ctx.lineTo(wx(CAMERA_APERTURE_RADIUS), wy(camY));
       ctx.stroke();
+      // Analyzer film, when fitted
+      if (POLARIZER_MODES[polarizerMode].analyzer) {
+        const filmY = camY - CAMERA_POLARIZER_GAP;
+        ctx.strokeStyle = palette.outlineStrong;
+        ctx.lineWidth = 1;
+        ctx.setLineDash([2, 2]);
+        ctx.beginPath();
+        ctx.moveTo(wx(-CAMERA_HOUSING_HALF_WIDTH), wy(filmY) + 2);
+        ctx.lineTo(wx(CAMERA_HOUSING_HALF_WIDTH), wy(filmY) + 2);
+        ctx.stroke();
+        ctx.setLineDash([]);
+      }
       // Label
       ctx.fillStyle = palette.ink;
       ctx.font = '11px ui-monospace, monospace';
@@ -1208,7 +1493,10 @@ export default function PetriDishOpticsSimulator() {
     const visAlpha = (i: number) =>
       Math.pow(Math.max(0, Math.min(1, i)), VIS_GAMMA);
     for (const seg of tracedSegments) {
-      const colorPrefix = rayColor(seg.medium, dark);
+      const colorPrefix =
+        seg.wavelength === undefined
+          ? rayColor(seg.medium, dark)
+          : spectralRayColor(seg.wavelength, dark);
       const aStart = visAlpha(seg.intensityStart);
       const aEnd = visAlpha(seg.intensityEnd);
       const grad = ctx.createLinearGradient(
@@ -1304,11 +1592,13 @@ export default function PetriDishOpticsSimulator() {
     lamp2On,
     lampAngle1,
     lampAngle2,
+    polarizerMode,
   ]);
 
   return (
     <VizFigure
       title="Petri Dish Optics"
+      data={exportData}
       description={
         <>
           Cross-section of a petri dish with adjustable meniscus, optional
@@ -1398,6 +1688,36 @@ export default function PetriDishOpticsSimulator() {
         />
       </div>
 
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+        <Select
+          label="Light spectrum"
+          value={spectrumKey}
+          options={Object.entries(SPECTRA).map(([value, { label }]) => ({
+            value,
+            label,
+          }))}
+          onChange={setSpectrumKey}
+        />
+        <Select
+          label="Polarizers"
+          value={polarizerMode}
+          options={Object.entries(POLARIZER_MODES).map(([value, { label }]) => ({
+            value,
+            label,
+          }))}
+          onChange={setPolarizerMode}
+        />
+        <Select
+          label="Sampling"
+          value={samplingMode}
+          options={Object.entries(SAMPLING_MODES).map(([value, label]) => ({
+            value,
+            label,
+          }))}
+          onChange={(v) => setSamplingMode(v as SamplingMode)}
+        />
+      </div>
+
       <div className="viz-panel mb-4">
         <div className="flex flex-wrap gap-1">
           <label className="viz-check">
@@ -1448,6 +1768,11 @@ export default function PetriDishOpticsSimulator() {
             />
             <span className="viz-check-sym">Lamp 2</span>
           </label>
+          <div className="ml-auto">
+            <Button variant="ghost" onClick={downloadScene}>
+              Export scene
+            </Button>
+          </div>
         </div>
       </div>
 
@@ -1484,9 +1809,55 @@ export default function PetriDishOpticsSimulator() {
         />
       </div>
 
+      {/* Spoken once a trace settles, so a slider drag is not read out ray by ray. */}
+      <LiveRegion
+        message={
+          tracing
+            ? ''
+            : [
+                `${stats.primaryRays} primary rays; the camera sees`,
+                `${stats.signalCount} signal and ${stats.glareCount} glare rays.`,
+                Number.isFinite(stats.signalFluxRatio)
+                  ? `${(100 * stats.signalFluxRatio).toFixed(0)}% signal by energy.`
+                  : '',
+              ].join(' ')
+        }
+      />
+
       <VizSurface>
-        <canvas ref={canvasRef} />
+        <div role="img" aria-label={canvasDescription}>
+          <canvas ref={canvasRef} />
+        </div>
       </VizSurface>
+      {traceError && <p className="viz-hint">Tracing failed: {traceError}</p>}
+
+      {/* What the camera sees: the backward-traced image of the dish. */}
+      <div className="mt-4">
+        <VizSurface>
+          {cameraImage && <CameraView image={cameraImage} round />}
+          {cameraError && (
+            <p className="viz-hint">Rendering the camera image failed: {cameraError}</p>
+          )}
+          {!cameraImage && !cameraError && <p className="viz-hint">Rendering the camera image…</p>}
+        </VizSurface>
+      </div>
+
+      {/* What the camera records: the lens detector's readout. */}
+      {cameraReading && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+          <VizSurface>
+            <DetectorProfile reading={cameraReading} />
+          </VizSurface>
+          <VizSurface>
+            <DetectorProfile reading={cameraReading} view="angle" />
+          </VizSurface>
+        </div>
+      )}
+
+      {/* Where the emitted flux went: the trace's energy accounting. */}
+      <div className="mt-4">
+        <EnergyBudgetPanel stats={traceStats} />
+      </div>
     </VizFigure>
   );
 }
@@ -1,76 +1,121 @@
-import { useMemo, useState } from 'react';
+import { useEffect, useMemo } from 'react';
 import * as Plot from '@observablehq/plot';
 import {
   useThemeTokens,
+  useUrlState,
+  useCoverageSweep,
+  useCoverageSimulation,
   basePlot,
   PlotFigure,
   VizFigure,
   VizSurface,
   Slider,
+  Select,
+  Button,
   StatCard,
+  LiveRegion,
+  SWEEP_RANGES,
+  axisValues,
+  coverageProbability,
+  logCoverageProbability,
+  criticalGap,
+  sampleSweep,
+  sweepPoint,
+  proportionInterval,
+  ksTest,
 } from './_viz';
+import type { CoverageMethod, CoverageParam, SweepAxis } from './_viz';
 
-// Standard normal CDF approximation (error < 7.5e-8)
-function normalCDF(x: number): number {
-  const t = 1 / (1 + 0.2316419 * Math.abs(x));
-  const d = 0.3989423 * Math.exp(-x * x / 2);
-  const p = d * t * (0.3193815 + t * (-0.3565638 + t * (1.781478 + t * (-1.821256 + t * 1.330274))));
-  return x > 0 ? 1 - p : p;
-}
+type View = 'curve' | 'sweep';
+// Probabilities from the exact CDF, the original approximation, or both
+type Probabilities = CoverageMethod | 'compare';
 
-// Poisson CDF: P(X ≤ k) for X ~ Poisson(lambda)
-// Uses exact calculation for small lambda, normal approximation for large lambda
-function poissonCDF(k: number, lambda: number): number {
-  if (lambda === 0) return 1;
-  if (k < 0) return 0;
-
-  const kFloor = Math.floor(k);
-
-  // For large lambda, use normal approximation to avoid numerical issues
-  // Poisson(λ) ≈ Normal(λ, λ) for large λ
-  if (lambda > 100) {
-    // Continuity correction: P(X ≤ k) ≈ Φ((k + 0.5 - λ) / √λ)
-    const z = (kFloor + 0.5 - lambda) / Math.sqrt(lambda);
-    return normalCDF(z);
-  }
-
-  // For small lambda, use exact iterative formula
-  let sum = 0;
-  let term = Math.exp(-lambda);
-
-  for (let i = 0; i <= kFloor; i++) {
-    sum += term;
-    if (i < kFloor) {
-      term *= lambda / (i + 1);
-    }
-  }
+const PARAMS = Object.keys(SWEEP_RANGES) as CoverageParam[];
+// Own keys only, so an inherited name such as "constructor" is not a parameter
+const isParam = (p: string): p is CoverageParam => Object.hasOwn(SWEEP_RANGES, p);
 
-  return Math.min(1, sum); // Clamp to [0, 1] for numerical stability
-}
+// Grid points per sweep axis
+const RESOLUTIONS = [32, 64, 96];
+
+// Sampling fractions at which the simulated trials are scored
+const SIM_POINTS = 24;
+
+const sweepAxis = (param: CoverageParam, count: number): SweepAxis => ({
+  param,
+  ...SWEEP_RANGES[param],
+  count,
+});
+
+const fmtParam = (v: number) =>
+  v >= 1000 || v < 0.01 ? v.toExponential(2) : String(+v.toPrecision(3));
 
 const CRIT = '#ef4444'; // semantic: theoretical critical threshold
 const INFL = '#f97316'; // semantic: true inflection point
 const ZONE = 'rgba(250, 204, 21, 0.14)'; // semantic: phase-transition zone
 const ZONE_EDGE = 'rgba(202, 138, 4, 0.45)';
 
-export default function PhaseTransitionExplorer() {
-  // Parameters
-  const [U, setU] = useState(10000); // Unique entities
-  const [R, setR] = useState(100); // Redundancy
-  const [epsilon, setEpsilon] = useState(0.05); // Target coverage (1 - epsilon)
+export default function PhaseTransitionExplorer({
+  id = 'phase',
+}: {
+  /** prefix for this figure's control state in the URL hash */
+  id?: string;
+}) {
+  // Parameters, limited to the slider ranges
+  const [U, setU] = useUrlState(id, 'U', 10000, (v) => v >= 1000 && v <= 1e6); // Unique entities
+  const [R, setR] = useUrlState(id, 'R', 100, (v) => v >= 10 && v <= 1e5); // Redundancy
+  // Target coverage (1 - epsilon)
+  const [epsilon, setEpsilon] = useUrlState(id, 'epsilon', 0.05, (v) => v >= 0.001 && v <= 0.5);
+
+  const [probabilities, setProbabilities] = useUrlState<Probabilities>(
+    id,
+    'prob',
+    'exact',
+    (v) => v === 'exact' || v === 'approx' || v === 'compare',
+  );
+  const method: CoverageMethod = probabilities === 'approx' ? 'approx' : 'exact';
+
+  // Sweep mode: two parameters on the axes, the rest from the sliders
+  // (α, which has no slider in curve mode, as log10 α)
+  const [view, setView] = useUrlState<View>(
+    id,
+    'view',
+    'curve',
+    (v) => v === 'curve' || v === 'sweep',
+  );
+  const [sweepX, setSweepX] = useUrlState<CoverageParam>(id, 'sx', 'alpha', isParam);
+  const [sweepY, setSweepY] = useUrlState<CoverageParam>(id, 'sy', 'R', isParam);
+  const [logAlpha, setLogAlpha] = useUrlState(id, 'la', -2, (v) => v >= -6 && v <= 0);
+  const [resolution, setResolution] = useUrlState(id, 'res', 64, (v) => RESOLUTIONS.includes(v));
+  const {
+    grid: sweepGrid,
+    running: sweepRunning,
+    progress: sweepProgress,
+    error: sweepError,
+    run: runSweep,
+  } = useCoverageSweep();
+
+  // Monte Carlo check: simulated trials scored against the curve
+  const [simulate, setSimulate] = useUrlState(id, 'sim', false);
+  const [trials, setTrials] = useUrlState(id, 'trials', 200, (v) => v >= 50 && v <= 1000);
+  const [seed, setSeed] = useUrlState(id, 'seed', 1, (v) => v >= 1 && v <= 1000);
+  const {
+    draws,
+    running: simRunning,
+    progress: simProgress,
+    error: simError,
+    run: runSimulation,
+    cancel: cancelSimulation,
+  } = useCoverageSimulation();
 
   const tokens = useThemeTokens();
 
   // Computed values
   const S = useMemo(() => U * R, [U, R]); // Synthesis space size
 
-  // Probability function: P(C(α) > 1-ε) — exact formula from Theorem 4.1 via Poisson
+  // Probability function: P(C(α) > 1-ε) — formula from Theorem 4.1 via Poisson
   const probabilityFunction = useMemo(() => {
-    return (alpha: number) => {
-      const lambda = U * Math.exp(-alpha * R); // expected uncovered coupons
-      return poissonCDF(epsilon * U, lambda); // P(uncovered ≤ ε|U|) = P(coverage ≥ 1-ε)
-    };
-  }, [U, R, epsilon]);
+    return (alpha: number) => coverageProbability({ U, R, epsilon, alpha }, method);
+  }, [U, R, epsilon, method]);
 
   // Critical sampling fraction: α_c = log(1/ε) / R
   const alphaCritical = useMemo(() => Math.log(1 / epsilon) / R, [epsilon, R]);
@@ -111,6 +156,98 @@ export default function PhaseTransitionExplorer() {
     return points;
   }, [alphaCritical, probabilityFunction]);
 
+  // Approximation against exact, in log space so the tails show
+  const errorData = useMemo(() => {
+    if (probabilities !== 'compare') return null;
+    return curveData.map(({ alpha }) => {
+      const params = { U, R, epsilon, alpha };
+      const exact = coverageProbability(params, 'exact');
+      const approx = coverageProbability(params, 'approx');
+      return {
+        alpha,
+        exact: logCoverageProbability(params) / Math.LN10,
+        approx: Math.log10(approx),
+        error: Math.abs(approx - exact),
+      };
+    });
+  }, [probabilities, curveData, U, R, epsilon]);
+
+  const errorSummary = useMemo(() => {
+    if (!errorData) return null;
+    let maxError = 0;
+    let maxTail = 0; // orders of magnitude
+    for (const d of errorData) {
+      maxError = Math.max(maxError, d.error);
+      const gap = Number.isFinite(d.approx) ? Math.abs(d.approx - d.exact) : Number.POSITIVE_INFINITY;
+      maxTail = Math.max(maxTail, gap);
+    }
+    return { maxError, maxTail };
+  }, [errorData]);
+
+  const errorOptions = useMemo(() => {
+    if (!errorData) return null;
+    const line = (series: string, key: 'exact' | 'approx') =>
+      errorData
+        .filter((d) => Number.isFinite(d[key]))
+        .map((d) => ({ alpha: d.alpha, series, log10: d[key] }));
+    return basePlot(tokens, {
+      width: 700,
+      height: 260,
+      marginLeft: 60,
+      marginBottom: 50,
+      x: { label: 'Sampling fraction α = n/|S| →', tickFormat: '.3f' },
+      y: { label: '↑ log₁₀ P(coverage ≥ 1−ε)', grid: true },
+      color: {
+        domain: ['exact', 'approximation'],
+        range: [tokens.accent, tokens.inkSoft],
+        legend: true,
+      },
+      marks: [
+        Plot.ruleY([0]),
+        Plot.lineY(line('exact', 'exact'), {
+          x: 'alpha',
+          y: 'log10',
+          stroke: 'series',
+          strokeWidth: 2.5,
+          tip: { format: { x: '.4f', y: '.2f' } },
+        }),
+        Plot.lineY(line('approximation', 'approx'), {
+          x: 'alpha',
+          y: 'log10',
+          stroke: 'series',
+          strokeWidth: 2,
+          strokeDasharray: '6,4',
+        }),
+      ],
+    });
+  }, [errorData, tokens]);
+
+  // A trial's draw count answers every α at once (it succeeds when
+  // draws ≤ α|S|), so R only rescales the axis and is not re-simulated
+  useEffect(() => {
+    if (!simulate || view !== 'curve') return;
+    runSimulation({ U, epsilon, trials, seed });
+  }, [simulate, view, U, epsilon, trials, seed, runSimulation]);
+
+  // Empirical success rate with a 95% Wilson interval at evenly spaced α
+  const simPoints = useMemo(() => {
+    if (!simulate || draws.length === 0) return [];
+    const maxAlpha = curveData[curveData.length - 1].alpha;
+    return Array.from({ length: SIM_POINTS }, (_, i) => {
+      const alpha = ((i + 1) / SIM_POINTS) * maxAlpha;
+      const successes = draws.filter((n) => n <= alpha * S).length;
+      const { estimate, lo, hi, n } = proportionInterval(successes, draws.length);
+      return { alpha, estimate, lo, hi, n };
+    });
+  }, [simulate, draws, curveData, S]);
+
+  // Kolmogorov–Smirnov distance between the draw counts and the curve
+  // read as a distribution over n = α|S|
+  const simFit = useMemo(() => {
+    if (!simulate || simRunning || draws.length === 0) return null;
+    return ksTest(draws, (n) => probabilityFunction(n / S));
+  }, [simulate, simRunning, draws, probabilityFunction, S]);
+
   const showInflection =
     Math.abs(alphaInflection - alphaCritical) / alphaCritical > 0.001;
 
@@ -159,6 +296,26 @@ export default function PhaseTransitionExplorer() {
       }),
     ];
 
+    if (simPoints.length > 0) {
+      marks.push(
+        Plot.ruleX(simPoints, {
+          x: 'alpha',
+          y1: 'lo',
+          y2: 'hi',
+          stroke: tokens.ink,
+          strokeWidth: 1.5,
+        }),
+        Plot.dot(simPoints, {
+          x: 'alpha',
+          y: 'estimate',
+          r: 3.5,
+          fill: tokens.ink,
+          stroke: tokens.surface,
+          tip: { format: { x: '.4f', y: '.1%' } },
+        }),
+      );
+    }
+
     if (showInflection) {
       marks.push(
         Plot.ruleX([alphaInflection], { stroke: INFL, strokeWidth: 2, strokeDasharray: '4,4' }),
@@ -191,22 +348,138 @@ export default function PhaseTransitionExplorer() {
       y: { label: '↑ P(coverage ≥ 1−ε)', domain: [0, 1], percent: true, grid: true },
       marks,
     });
-  }, [curveData, alphaCritical, alphaInflection, showInflection, probabilityFunction, tokens]);
+  }, [
+    curveData,
+    alphaCritical,
+    alphaInflection,
+    showInflection,
+    probabilityFunction,
+    simPoints,
+    tokens,
+  ]);
+
+  // Re-sweep whenever the axes or a held-fixed parameter change; a new
+  // sweep supersedes the one streaming. With α on an axis the marked
+  // point sits at α_c.
+  const alphaSwept = sweepX === 'alpha' || sweepY === 'alpha';
+  const sweepAlpha = alphaSwept ? alphaCritical : 10 ** logAlpha;
+  useEffect(() => {
+    if (view !== 'sweep') return;
+    runSweep({
+      x: sweepAxis(sweepX, resolution),
+      y: sweepAxis(sweepY, resolution),
+      base: { U, R, epsilon, alpha: sweepAlpha },
+      method,
+    });
+  }, [view, sweepX, sweepY, resolution, U, R, epsilon, sweepAlpha, method, runSweep]);
+
+  // Choosing the other axis's parameter swaps the two
+  const chooseAxis = (axis: 'x' | 'y', param: string) => {
+    if (!isParam(param)) return;
+    const [set, other, setOther, current] =
+      axis === 'x'
+        ? [setSweepX, sweepY, setSweepY, sweepX]
+        : [setSweepY, sweepX, setSweepX, sweepY];
+    if (param === other) setOther(current);
+    set(param);
+  };
+
+  const sweepOptions = useMemo(() => {
+    const grid = sweepGrid;
+    if (!grid) return null;
+    const { x, y } = grid;
+    const at = (a: number, b: number) => sampleSweep(grid, a, b);
+    const { base } = grid;
+    const marks: Plot.Markish[] = [
+      Plot.raster({ fill: at, pixelSize: 2 }),
+      // Analytic boundary α = α_c, i.e. αR = log(1/ε)
+      Plot.contour({
+        value: (a: number, b: number) => criticalGap(sweepPoint(grid, a, b)),
+        thresholds: [0],
+        fill: 'none',
+        stroke: CRIT,
+        strokeWidth: 2,
+        strokeDasharray: '8,4',
+      }),
+      Plot.dot([{ x: base[x.param], y: base[y.param] }], {
+        x: 'x',
+        y: 'y',
+        r: 5,
+        stroke: tokens.ink,
+        strokeWidth: 2,
+      }),
+    ];
+    // The computed 50% level, once every row is in
+    if (!sweepRunning) {
+      marks.splice(
+        1,
+        0,
+        Plot.contour({
+          value: at,
+          thresholds: [0.5],
+          fill: 'none',
+          stroke: tokens.ink,
+          strokeWidth: 1.5,
+        }),
+      );
+    }
+    return basePlot(tokens, {
+      width: 700,
+      height: 430,
+      marginLeft: 60,
+      marginBottom: 50,
+      marginTop: 20,
+      x: { type: x.log ? 'log' : 'linear', domain: [x.min, x.max], label: `${x.label} →` },
+      y: { type: y.log ? 'log' : 'linear', domain: [y.min, y.max], label: `↑ ${y.label}` },
+      color: {
+        type: 'linear',
+        domain: [0, 1],
+        range: [tokens.surface2, tokens.accent],
+        label: 'P(coverage ≥ 1−ε)',
+        percent: true,
+        legend: true,
+      },
+      marks,
+    });
+  }, [sweepGrid, sweepRunning, tokens]);
+
+  // The finished grid for the figure's CSV / JSON export
+  const sweepData = useMemo(() => {
+    const grid = sweepGrid;
+    if (!grid) return [];
+    const xs = axisValues(grid.x);
+    const ys = axisValues(grid.y);
+    return ys.flatMap((yv, j) =>
+      xs.map((xv, i) => ({
+        [grid.x.param]: xv,
+        [grid.y.param]: yv,
+        probability: grid.values[j * xs.length + i],
+      })),
+    );
+  }, [sweepGrid]);
 
   const fmtSpeedup = speedup >= 100 ? Math.round(speedup).toLocaleString() : speedup.toFixed(1);
 
   return (
     <VizFigure
       title="Phase Transition Explorer"
+      data={
+        view === 'sweep'
+          ? { sweep: sweepData }
+          : simPoints.length > 0
+            ? { probability: curveData, simulation: simPoints }
+            : { probability: curveData }
+      }
       description="Explore the sharp phase transition in probability P(Coverage ≥ 1-ε) at critical threshold α_c. Adjust parameters to see the dramatic S-curve behavior predicted by Theorem 4.1."
       footer={
         <div className="mt-4 text-sm" style={{ color: 'var(--ink-soft)' }}>
           <p style={{ margin: '0 0 0.5rem' }}><strong>Interpretation:</strong></p>
           <ul className="list-disc list-inside space-y-1">
-            <li><span style={{ color: tokens.accent, fontWeight: 600 }}>Blue curve</span>: Probability P(Coverage ≥ 1-ε) using exact Poisson CDF from Theorem 4.1</li>
+            <li><span style={{ color: tokens.accent, fontWeight: 600 }}>Blue curve</span>: Probability P(Coverage ≥ 1-ε) using the Poisson CDF from Theorem 4.1 (exact unless the approximation is selected)</li>
             <li><span style={{ color: CRIT, fontWeight: 600 }}>Red line</span>: Theoretical critical threshold α_c = log(1/ε)/R (where E[uncovered] = ε|U|)</li>
             <li><span style={{ color: INFL, fontWeight: 600 }}>Orange line</span>: True inflection point α_infl = log(1/(ε + 1/|U|))/R (from calculus, shown if different)</li>
             <li><span style={{ color: '#ca8a04', fontWeight: 600 }}>Yellow region</span>: Phase transition zone exhibiting sharp S-curve behavior</li>
+            <li><strong>Dots</strong> (Monte Carlo check): Fraction of simulated trials reaching 1-ε coverage within α|S| draws, with 95% Wilson intervals</li>
             <li>For large |U|, α_c ≈ α_infl (offset → 0%). For small |U|, the offset is measurable.</li>
             <li>Hover over the curve to see exact probability values at each sampling fraction</li>
           </ul>
@@ -264,6 +537,113 @@ export default function PhaseTransitionExplorer() {
         />
       </div>
 
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <Select
+          label="View"
+          value={view}
+          onChange={(v) => setView(v as View)}
+          options={[
+            { value: 'curve', label: 'Probability curve' },
+            { value: 'sweep', label: 'Parameter sweep (heatmap)' },
+          ]}
+        />
+        <Select
+          label="Probabilities"
+          value={probabilities}
+          onChange={(v) => setProbabilities(v as Probabilities)}
+          options={[
+            { value: 'exact', label: 'Exact (log-space incomplete gamma)' },
+            { value: 'approx', label: 'Normal approximation for λ > 100' },
+            { value: 'compare', label: 'Exact vs approximation error' },
+          ]}
+        />
+        {view === 'sweep' && (
+          <>
+            <Select
+              label="Horizontal axis"
+              value={sweepX}
+              onChange={(v) => chooseAxis('x', v)}
+              options={PARAMS.map((p) => ({ value: p, label: SWEEP_RANGES[p].label }))}
+            />
+            <Select
+              label="Vertical axis"
+              value={sweepY}
+              onChange={(v) => chooseAxis('y', v)}
+              options={PARAMS.map((p) => ({ value: p, label: SWEEP_RANGES[p].label }))}
+            />
+            {sweepX !== 'alpha' && sweepY !== 'alpha' && (
+              <Slider
+                label="Sampling fraction (α)"
+                value={logAlpha}
+                min={-6}
+                max={0}
+                step={0.05}
+                display={fmtParam(10 ** logAlpha)}
+                hint="Held fixed while |U|, R and ε are swept"
+                scale={['10⁻⁶', '1']}
+                onChange={setLogAlpha}
+              />
+            )}
+            <Select
+              label="Grid"
+              value={String(resolution)}
+              onChange={(v) => setResolution(Number(v))}
+              options={RESOLUTIONS.map((r) => ({ value: String(r), label: `${r} × ${r}` }))}
+            />
+          </>
+        )}
+      </div>
+
+      {view === 'curve' && (
+        <>
+          <div className="flex flex-wrap items-center gap-3 mb-4">
+            <label className="viz-check">
+              <input
+                type="checkbox"
+                checked={simulate}
+                onChange={(e) => setSimulate(e.target.checked)}
+              />
+              Monte Carlo check
+            </label>
+            {simRunning && (
+              <Button variant="secondary" onClick={cancelSimulation}>
+                Cancel
+              </Button>
+            )}
+            <div className="flex-1" />
+            {simulate && draws.length > 0 && (
+              <span className="viz-value">
+                {draws.length} trials{simRunning ? ` · ${Math.round(simProgress * 100)}%` : ''}
+              </span>
+            )}
+          </div>
+          {simulate && simError && <p className="viz-hint">The simulation failed: {simError}</p>}
+          {simulate && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+              <Slider
+                label="Trials"
+                value={trials}
+                min={50}
+                max={1000}
+                step={50}
+                display={trials}
+                hint="Each trial draws until 1-ε of |U| is covered"
+                onChange={setTrials}
+              />
+              <Slider
+                label="Seed"
+                value={seed}
+                min={1}
+                max={1000}
+                display={seed}
+                hint="Trial k uses seed + k"
+                onChange={setSeed}
+              />
+            </div>
+          )}
+        </>
+      )}
+
       {/* Primary stats */}
       <div className="grid grid-cols-2 md:grid-cols-3 gap-4 mb-4">
         <StatCard label="Synthesis Space (|S| = |U|×R)" value={S.toExponential(2)} />
@@ -282,8 +662,67 @@ export default function PhaseTransitionExplorer() {
         />
       </div>
 
+      {errorSummary && (
+        <div className="grid grid-cols-2 gap-4 mb-6">
+          <StatCard label="Max |approx − exact|" value={errorSummary.maxError.toExponential(2)} />
+          <StatCard
+            label="Worst tail error (orders of magnitude)"
+            value={Number.isFinite(errorSummary.maxTail) ? errorSummary.maxTail.toFixed(1) : '∞ (underflow)'}
+            valueColor={errorSummary.maxTail > 1 ? CRIT : undefined}
+          />
+        </div>
+      )}
+
+      {simFit && (
+        <div className="grid grid-cols-2 gap-4 mb-6">
+          <StatCard label="KS distance (trials vs curve)" value={simFit.statistic.toFixed(3)} />
+          <StatCard
+            label="KS p-value"
+            value={simFit.p < 0.001 ? simFit.p.toExponential(1) : simFit.p.toFixed(3)}
+            valueColor={simFit.p < 0.01 ? CRIT : undefined}
+          />
+        </div>
+      )}
+
+      <LiveRegion
+        message={`Samples needed ${samplesCritical.toLocaleString()}, a ${fmtSpeedup}-fold speedup. Critical point α_c ${alphaCritical.toExponential(3)}, probability there ${(probabilityAtCritical * 100).toFixed(1)}%.`}
+      />
+
       <VizSurface>
-        <PlotFigure options={options} />
+        {view === 'curve' ? (
+          <>
+            {simulate && (
+              <p className="viz-hint">
+                Dots: share of {trials} simulated trials that reach 1−ε coverage within α|S|
+                draws. The curve's Poisson law for the uncovered count is itself an
+                approximation, so at small |U| the KS test can reject it.
+              </p>
+            )}
+            <PlotFigure options={options} />
+            {errorOptions && (
+              <>
+                <p className="viz-hint">
+                  Lower tail on a log scale: the approximation's error is invisible on the curve
+                  above but spans orders of magnitude here.
+                </p>
+                <PlotFigure options={errorOptions} />
+              </>
+            )}
+          </>
+        ) : (
+          <>
+            <p className="viz-hint">
+              {sweepError
+                ? `The sweep failed: ${sweepError}`
+                : sweepRunning
+                  ? `Sweeping… ${Math.round(sweepProgress * 100)}% of rows`
+                  : `Shading: P(coverage ≥ 1−ε) with the other parameters at their slider values. Solid line: computed 50% level; dashed red: α = α_c; ring: current values${
+                      alphaSwept ? ' (α at α_c)' : ''
+                    }.`}
+            </p>
+            {sweepOptions && <PlotFigure options={sweepOptions} dataTable={false} />}
+          </>
+        )}
       </VizSurface>
     </VizFigure>
   );
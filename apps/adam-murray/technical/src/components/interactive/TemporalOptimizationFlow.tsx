@@ -1,110 +1,209 @@
-import { useEffect, useRef, useState, useMemo } from 'react';
+import { useId, useRef, useState, useMemo } from 'react';
 import * as Plot from '@observablehq/plot';
 import {
   useThemeTokens,
+  useUrlState,
+  useTimeline,
+  useRecorder,
+  plotSvgs,
   basePlot,
   PlotFigure,
   VizFigure,
   VizSurface,
   Slider,
-  Button,
+  Select,
   StatCard,
+  LiveRegion,
+  TimelineControls,
+  mulberry32,
+  poissonArrivals,
+  meanInterval,
+  chiSquareTest,
+  DECAY_FAMILIES,
+  informationCurve,
+  informationGrid,
+  optimalSchedule,
+  uniformSchedule,
+  frontLoadedSchedule,
+  scheduleSamples,
+  scheduleValue,
+  decayTime,
 } from './_viz';
+import type { DecayFamily } from './_viz';
 
 const UNIFORM = '#ef4444'; // semantic: comparison baseline
+const FRONT = '#8b5cf6'; // semantic: front-loaded baseline
 const MARKER = '#10b981'; // semantic: current-time marker
 
-export default function TemporalOptimizationFlow() {
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [currentTime, setCurrentTime] = useState(0);
-  const animationRef = useRef<number>();
+const STEPS = 200; // schedule steps over the horizon
+const SIM_BINS = 20; // time bins for the simulated arrivals; divides STEPS
 
+const FAMILIES = Object.keys(DECAY_FAMILIES) as DecayFamily[];
+const isFamily = (f: string): f is DecayFamily => f in DECAY_FAMILIES;
+
+const DEFAULT_KNOTS = '0:100, 50:100, 100:40, 200:20, 300:5';
+const DEFAULT_EXPRESSION = 'I0 * (0.7 * exp(-lambda * t) + 0.3 * exp(-lambda * t / 10))';
+
+// Rate of a step schedule over [0, horizon] at time t
+const stepRate = (rates: Float64Array, horizon: number, t: number) =>
+  rates[Math.min(rates.length - 1, Math.max(0, Math.floor((t / horizon) * rates.length)))];
+
+const percentOf = (v: number, of: number) => `${((100 * v) / of).toFixed(1)}%`;
+const fmtCaptured = (v: number, of: number) => `${v.toFixed(0)} (${percentOf(v, of)})`;
+
+export default function TemporalOptimizationFlow({
+  id = 'decay',
+}: {
+  /** prefix for this figure's control state in the URL hash */
+  id?: string;
+}) {
   // Parameters
-  const [lambda, setLambda] = useState(0.01); // Decay rate
+  const [family, setFamily] = useUrlState<DecayFamily>(id, 'family', 'exponential', isFamily);
+  // Decay rate
+  const [lambda, setLambda] = useUrlState(id, 'lambda', 0.01, (v) => v >= 0.001 && v <= 0.1);
+  const [beta, setBeta] = useUrlState(id, 'beta', 1.5, (v) => v >= 0.1 && v <= 4); // Shape exponent
+  const [knots, setKnots] = useUrlState<string>(id, 'knots', DEFAULT_KNOTS);
+  const [expression, setExpression] = useUrlState<string>(id, 'expr', DEFAULT_EXPRESSION);
   const [I0] = useState(100); // Initial information
-  const [maxTime, setMaxTime] = useState(300); // Time horizon
+  // Time horizon
+  const [maxTime, setMaxTime] = useUrlState(id, 'maxTime', 300, (v) => v >= 100 && v <= 500);
+
+  // Budget: total samples B, rate cap n_max, half-saturation rate κ
+  const [budget, setBudget] = useUrlState(id, 'budget', 7800, (v) => v >= 500 && v <= 20000);
+  const [maxRate, setMaxRate] = useUrlState(id, 'cap', 100, (v) => v >= 10 && v <= 200);
+  const [saturation, setSaturation] = useUrlState(id, 'kappa', 10, (v) => v >= 0.5 && v <= 50);
+  const inputId = useId();
+
+  // Sweeps the horizon at 30 time units per second (at 1×); reduced motion shows the end state.
+  const timeline = useTimeline({ end: maxTime, rate: 30, step: 5 });
+  const currentTime = timeline.time;
+  const sweeping = currentTime > 0 && currentTime < maxTime;
+
+  const surfaceRef = useRef<HTMLDivElement>(null);
+  const recorder = useRecorder(
+    () => (surfaceRef.current ? (plotSvgs(surfaceRef.current)[0] ?? null) : null),
+    currentTime,
+    `${id}-temporal-optimization`,
+  );
 
   const tokens = useThemeTokens();
 
-  // Optimal sampling rate: n*(t) ∝ exp(-λt/2)
-  const optimalRate = useMemo(() => {
-    return (t: number) => {
-      const peak = 50;
-      return peak * Math.exp(-lambda * t / 2);
-    };
-  }, [lambda]);
+  // Monte Carlo check: sample arrivals simulated as a Poisson process at n*(t)
+  const [simulate, setSimulate] = useUrlState(id, 'sim', false);
+  const [runs, setRuns] = useUrlState(id, 'runs', 30, (v) => v >= 5 && v <= 200);
+  const [seed, setSeed] = useUrlState(id, 'seed', 1, (v) => v >= 1 && v <= 1000);
 
-  // Uniform sampling rate for comparison (constant rate equal to average of optimal)
-  const uniformRate = useMemo(() => {
-    const integral = (2 * 50 / lambda) * (1 - Math.exp(-lambda * maxTime / 2));
-    return integral / maxTime;
-  }, [lambda, maxTime]);
+  // Information decay I(t); a typo in the knots or expression falls back
+  // to exponential decay rather than blanking the figure
+  const decay = useMemo(() => {
+    const model = { family, I0, lambda, beta, knots, expression };
+    try {
+      const info = informationCurve(model);
+      return { info, grid: informationGrid(info, maxTime, STEPS), error: null };
+    } catch (err) {
+      const info = informationCurve({ ...model, family: 'exponential' });
+      return {
+        info,
+        grid: informationGrid(info, maxTime, STEPS),
+        error: err instanceof Error ? err.message : String(err),
+      };
+    }
+  }, [family, I0, lambda, beta, knots, expression, maxTime]);
 
-  // Information decay: I(t) = I₀ × exp(-λt)
-  const informationDecay = useMemo(() => {
-    return (t: number) => I0 * Math.exp(-lambda * t);
-  }, [I0, lambda]);
+  // Optimal schedule (numerical, any decay law) and the two baselines on
+  // the same budget: uniform, and front-loaded at the cap until spent
+  const schedules = useMemo(() => {
+    const options = { budget, maxRate };
+    return {
+      optimal: optimalSchedule(decay.grid, options, saturation),
+      uniform: uniformSchedule(decay.grid, options),
+      frontLoaded: frontLoadedSchedule(decay.grid, options),
+    };
+  }, [decay, budget, maxRate, saturation]);
+
+  const optimalRate = useMemo(() => {
+    const { optimal } = schedules;
+    return (t: number) => stepRate(optimal, maxTime, t);
+  }, [schedules, maxTime]);
+  const uniformRate = schedules.uniform[0];
 
-  // Generate trajectory data
+  // Generate trajectory data, one point per schedule step
   const trajectoryData = useMemo(() => {
-    const points: Array<{ t: number; rate: number; info: number }> = [];
-    const numPoints = 200;
-    for (let i = 0; i <= numPoints; i++) {
-      const t = (i / numPoints) * maxTime;
-      points.push({ t, rate: optimalRate(t), info: informationDecay(t) });
-    }
-    return points;
-  }, [maxTime, optimalRate, informationDecay]);
+    const dt = maxTime / STEPS;
+    return Array.from({ length: STEPS }, (_, i) => ({
+      t: (i + 0.5) * dt,
+      rate: schedules.optimal[i],
+      uniform: schedules.uniform[i],
+      frontLoaded: schedules.frontLoaded[i],
+      info: decay.grid.info[i],
+    }));
+  }, [maxTime, schedules, decay]);
 
   // Total samples (area under curve)
-  const totalSamples = useMemo(() => {
-    return trajectoryData.reduce((sum, point, i) => {
-      if (i === 0) return 0;
-      const prev = trajectoryData[i - 1];
-      const dt = point.t - prev.t;
-      const avg = (point.rate + prev.rate) / 2;
-      return sum + avg * dt;
-    }, 0);
-  }, [trajectoryData]);
-
-  // Animation loop
-  useEffect(() => {
-    if (!isPlaying) return;
-    const animate = () => {
-      setCurrentTime((prev) => {
-        if (prev >= maxTime) {
-          setIsPlaying(false);
-          return maxTime;
-        }
-        return prev + 0.5;
-      });
-      animationRef.current = requestAnimationFrame(animate);
-    };
-    animationRef.current = requestAnimationFrame(animate);
-    return () => {
-      if (animationRef.current) cancelAnimationFrame(animationRef.current);
+  const totalSamples = useMemo(
+    () => scheduleSamples(decay.grid, schedules.optimal),
+    [decay, schedules],
+  );
+
+  // Information captured by each schedule, out of ∫ I(t) dt on offer
+  const captured = useMemo(() => {
+    const { grid } = decay;
+    return {
+      available: grid.info.reduce((s, v) => s + (v * grid.horizon) / STEPS, 0),
+      optimal: scheduleValue(grid, schedules.optimal, saturation),
+      uniform: scheduleValue(grid, schedules.uniform, saturation),
+      frontLoaded: scheduleValue(grid, schedules.frontLoaded, saturation),
     };
-  }, [isPlaying, maxTime]);
+  }, [decay, schedules, saturation]);
 
-  const handleReset = () => {
-    setIsPlaying(false);
-    setCurrentTime(0);
-  };
+  const halfLife = useMemo(() => decayTime(decay.info, 0.5, maxTime), [decay, maxTime]);
+  const fmtHalfLife = Number.isNaN(halfLife) ? `> ${maxTime}` : halfLife.toFixed(1);
+
+  // Simulated arrivals binned per run: the empirical rate in each bin
+  // (mean count / width, 95% interval across runs) and a χ² test of the
+  // pooled counts against runs × ∫ n*(t) dt over the bin
+  const simulation = useMemo(() => {
+    if (!simulate) return null;
+    const width = maxTime / SIM_BINS;
+    const peak = Math.max(...schedules.optimal);
+    const counts = Array.from({ length: SIM_BINS }, () => new Array<number>(runs).fill(0));
+    for (let k = 0; k < runs; k++) {
+      for (const t of poissonArrivals(optimalRate, peak, maxTime, mulberry32(seed + k))) {
+        counts[Math.min(SIM_BINS - 1, Math.floor(t / width))][k]++;
+      }
+    }
+    const bins = counts.map((perRun, i) => {
+      const { estimate, lo, hi, n } = meanInterval(perRun);
+      return { t: (i + 0.5) * width, rate: estimate / width, lo: lo / width, hi: hi / width, n };
+    });
+    const observed = counts.map((perRun) => perRun.reduce((s, c) => s + c, 0));
+    const perBin = STEPS / SIM_BINS;
+    const expected = counts.map((_, i) => {
+      const steps = schedules.optimal.subarray(i * perBin, (i + 1) * perBin);
+      return (runs * steps.reduce((s, n) => s + n, 0) * maxTime) / STEPS;
+    });
+    return { bins, fit: chiSquareTest(observed, expected) };
+  }, [simulate, runs, seed, maxTime, schedules, optimalRate]);
+
+  const fmtP = (p: number) => (p < 0.001 ? p.toExponential(1) : p.toFixed(3));
 
   // Plot spec — rebuilt when data, animation state, or theme tokens change.
   const options = useMemo(() => {
-    const yMax = Math.max(...trajectoryData.map((d) => d.rate)) * 1.1;
-    const areaData = trajectoryData.filter((d) => d.t <= currentTime || !isPlaying);
+    const yMax = Math.max(...trajectoryData.map((d) => Math.max(d.rate, d.frontLoaded))) * 1.1;
+    const areaData = trajectoryData.filter((d) => d.t <= currentTime || !sweeping);
 
-    // Vector field along the tangent (showing exponential-decay direction)
+    // Vector field along the tangent (showing the decay direction), with
+    // the slope from centred differences of the schedule
     const numVectors = 10;
     const dt = maxTime * 0.025;
+    const h = maxTime / STEPS;
     const vectors = Array.from({ length: numVectors - 1 }, (_, idx) => {
       const t = (idx + 1) * (maxTime / numVectors);
       const rate = optimalRate(t);
-      const slope = (-lambda / 2) * rate; // dn/dt
+      const slope = (optimalRate(t + h) - optimalRate(t - h)) / (2 * h); // dn/dt
       return { t, rate, t2: t + dt, rate2: rate + slope * dt };
     });
+    const frontEnd = trajectoryData.filter((d) => d.frontLoaded > 0).length * h;
 
     const marks: Plot.Markish[] = [
       Plot.areaY(areaData, {
@@ -123,6 +222,22 @@ export default function TemporalOptimizationFlow() {
         strokeWidth: 1.2,
         headLength: 5,
       }),
+      Plot.lineY(trajectoryData, {
+        x: 't',
+        y: 'frontLoaded',
+        stroke: FRONT,
+        strokeWidth: 2,
+        strokeDasharray: '3,3',
+        curve: 'step',
+      }),
+      Plot.text([{ x: frontEnd / 2, y: trajectoryData[0].frontLoaded, label: 'Front-loaded' }], {
+        x: 'x',
+        y: 'y',
+        text: 'label',
+        fill: FRONT,
+        dy: -8,
+        fontWeight: 600,
+      }),
       Plot.lineY(trajectoryData, {
         x: 't',
         y: 'rate',
@@ -143,13 +258,37 @@ export default function TemporalOptimizationFlow() {
         dy: -8,
         fontWeight: 600,
       }),
-      Plot.text(
-        [{ x: maxTime * 0.22, y: optimalRate(maxTime * 0.22), label: 'Optimal n*(t) ∝ exp(-λt/2)' }],
-        { x: 'x', y: 'y', text: 'label', fill: tokens.accent, dy: -12, fontWeight: 600 },
-      ),
+      Plot.text([{ x: maxTime * 0.22, y: optimalRate(maxTime * 0.22), label: 'Optimal n*(t)' }], {
+        x: 'x',
+        y: 'y',
+        text: 'label',
+        fill: tokens.accent,
+        dy: -12,
+        fontWeight: 600,
+      }),
     ];
 
-    if (isPlaying && currentTime < maxTime) {
+    if (simulation) {
+      marks.push(
+        Plot.ruleX(simulation.bins, {
+          x: 't',
+          y1: 'lo',
+          y2: 'hi',
+          stroke: tokens.ink,
+          strokeWidth: 1.5,
+        }),
+        Plot.dot(simulation.bins, {
+          x: 't',
+          y: 'rate',
+          r: 3.5,
+          fill: tokens.ink,
+          stroke: tokens.surface,
+          tip: { format: { x: '.0f', y: '.2f' } },
+        }),
+      );
+    }
+
+    if (sweeping) {
       marks.push(
         Plot.ruleX([currentTime], { stroke: MARKER, strokeWidth: 2, strokeDasharray: '5,5' }),
         Plot.dot([{ t: currentTime, rate: optimalRate(currentTime) }], {
@@ -172,43 +311,81 @@ export default function TemporalOptimizationFlow() {
       y: { label: '↑ Sampling rate n(t)', domain: [0, yMax], grid: true },
       marks,
     });
-  }, [trajectoryData, uniformRate, maxTime, currentTime, isPlaying, lambda, optimalRate, tokens]);
+  }, [
+    trajectoryData,
+    uniformRate,
+    maxTime,
+    currentTime,
+    sweeping,
+    optimalRate,
+    simulation,
+    tokens,
+  ]);
+
+  // The decay law itself, so typed knots and expressions can be checked
+  const infoOptions = useMemo(
+    () =>
+      basePlot(tokens, {
+        width: 700,
+        height: 200,
+        marginLeft: 64,
+        marginBottom: 44,
+        x: { label: 'Time t →', domain: [0, maxTime] },
+        y: { label: '↑ Information I(t)', grid: true, nice: true },
+        marks: [
+          Plot.ruleY([0]),
+          Plot.lineY(trajectoryData, {
+            x: 't',
+            y: 'info',
+            stroke: tokens.inkSoft,
+            strokeWidth: 2,
+            tip: { format: { x: '.1f', y: '.2f' } },
+          }),
+        ],
+      }),
+    [trajectoryData, maxTime, tokens],
+  );
+
+  const familyHint = decay.error
+    ? `${decay.error} — showing exponential decay.`
+    : `I(t) = ${DECAY_FAMILIES[family].formula}`;
 
   return (
     <VizFigure
       title="Temporal Optimization Flow"
+      data={
+        simulation
+          ? { trajectory: trajectoryData, simulation: simulation.bins }
+          : { trajectory: trajectoryData }
+      }
       description={
-        'Phase-space trajectory showing optimal sampling rate over time with exponential decay. ' +
+        'Phase-space trajectory showing the optimal sampling rate over time for a chosen ' +
+        'information decay law, against uniform and front-loaded schedules on the same budget. ' +
         'The "front-loading principle": sample heavily early, then taper off.'
       }
       footer={
         <div className="mt-4 text-sm" style={{ color: 'var(--ink-soft)' }}>
           <p style={{ margin: '0 0 0.5rem' }}><strong>Interpretation:</strong></p>
           <ul className="list-disc list-inside space-y-1">
-            <li><span style={{ color: tokens.accent, fontWeight: 600 }}>Blue curve</span>: Optimal sampling rate n*(t) ∝ exp(-λt/2)</li>
+            <li><span style={{ color: tokens.accent, fontWeight: 600 }}>Blue curve</span>: Optimal sampling rate n*(t) = √(κI(t)/μ) − κ (capped), maximizing ∫ I(t)·n/(n+κ) dt for budget B; ∝ exp(-λt/2) for exponential decay as κ → 0</li>
             <li><span style={{ color: UNIFORM, fontWeight: 600 }}>Red dashed line</span>: Constant uniform sampling rate</li>
+            <li><span style={{ color: FRONT, fontWeight: 600 }}>Purple dotted line</span>: Front-loaded schedule, sampling at the cap until the budget runs out</li>
             <li><span style={{ color: tokens.accent, fontWeight: 600 }}>Shaded area</span>: Total samples acquired (area under curve)</li>
-            <li><span style={{ color: MARKER, fontWeight: 600 }}>Green marker</span>: Current time position (during animation)</li>
-            <li>Gray arrows show flow direction (exponential decay)</li>
+            <li><span style={{ color: MARKER, fontWeight: 600 }}>Green marker</span>: Current time position (while playing or scrubbing)</li>
+            <li><strong>Dots</strong> (Monte Carlo check): Simulated sampling rate per time bin, averaged over seeded runs, with 95% intervals</li>
+            <li>Gray arrows show flow direction (the schedule's slope)</li>
             <li><strong>Front-loading principle:</strong> Sample heavily when information is fresh, reduce rate as it decays</li>
           </ul>
         </div>
       }
     >
       {/* Controls */}
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
-        <Slider
-          label="Decay Rate λ"
-          value={lambda}
-          min={0.001}
-          max={0.1}
-          step={0.001}
-          display={lambda.toFixed(4)}
-          scale={['0.001', '0.1']}
-          onChange={(v) => {
-            setLambda(v);
-            handleReset();
-          }}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        <Select
+          label="Decay law"
+          value={family}
+          onChange={(v) => setFamily(v as DecayFamily)}
+          options={FAMILIES.map((f) => ({ value: f, label: DECAY_FAMILIES[f].label }))}
         />
         <Slider
           label="Time Horizon"
@@ -220,35 +397,196 @@ export default function TemporalOptimizationFlow() {
           scale={['100', '500']}
           onChange={(v) => {
             setMaxTime(v);
-            handleReset();
+            timeline.reset();
           }}
         />
       </div>
 
-      {/* Animation controls */}
-      <div className="flex items-center gap-3 mb-6">
-        <Button onClick={() => setIsPlaying(!isPlaying)}>
-          {isPlaying ? 'Pause' : currentTime >= maxTime ? 'Replay' : 'Play'}
-        </Button>
-        <Button variant="secondary" onClick={handleReset}>
-          Reset
-        </Button>
-        <div className="flex-1" />
-        <span className="viz-value">
-          Time: {currentTime.toFixed(1)} / {maxTime}
-        </span>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        {family === 'piecewise' && (
+          <div className="viz-control">
+            <label className="viz-label" htmlFor={`${inputId}-knots`}>
+              Knots (t:I)
+            </label>
+            <input
+              id={`${inputId}-knots`}
+              className="viz-input"
+              type="text"
+              spellCheck={false}
+              value={knots}
+              onChange={(e) => setKnots(e.target.value)}
+            />
+            <p className="viz-hint">{familyHint}</p>
+          </div>
+        )}
+        {family === 'expression' && (
+          <div className="viz-control">
+            <label className="viz-label" htmlFor={`${inputId}-expr`}>
+              Expression for I(t)
+            </label>
+            <input
+              id={`${inputId}-expr`}
+              className="viz-input"
+              type="text"
+              spellCheck={false}
+              value={expression}
+              onChange={(e) => setExpression(e.target.value)}
+            />
+            <p className="viz-hint">{familyHint}</p>
+          </div>
+        )}
+        {family !== 'piecewise' && (
+          <Slider
+            label="Decay Rate λ"
+            value={lambda}
+            min={0.001}
+            max={0.1}
+            step={0.001}
+            display={lambda.toFixed(4)}
+            hint={family === 'expression' ? undefined : familyHint}
+            scale={['0.001', '0.1']}
+            onChange={(v) => {
+              setLambda(v);
+              timeline.reset();
+            }}
+          />
+        )}
+        {family !== 'exponential' && family !== 'piecewise' && (
+          <Slider
+            label="Shape β"
+            value={beta}
+            min={0.1}
+            max={4}
+            step={0.05}
+            display={beta.toFixed(2)}
+            hint={family === 'stretched' ? 'β < 1 stretches, β > 1 compresses' : undefined}
+            scale={['0.1', '4']}
+            onChange={setBeta}
+          />
+        )}
       </div>
 
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <Slider
+          label="Budget B (total samples)"
+          value={budget}
+          min={500}
+          max={20000}
+          step={100}
+          display={budget.toLocaleString()}
+          scale={['500', '20,000']}
+          onChange={setBudget}
+        />
+        <Slider
+          label="Rate cap n_max"
+          value={maxRate}
+          min={10}
+          max={200}
+          step={5}
+          display={maxRate}
+          hint="Also the front-loaded schedule's rate"
+          scale={['10', '200']}
+          onChange={setMaxRate}
+        />
+        <Slider
+          label="Half-saturation rate κ"
+          value={saturation}
+          min={0.5}
+          max={50}
+          step={0.5}
+          display={saturation.toFixed(1)}
+          hint="Rate that captures half of what I(t) offers"
+          scale={['0.5', '50']}
+          onChange={setSaturation}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <label className="viz-check">
+          <input
+            type="checkbox"
+            checked={simulate}
+            onChange={(e) => setSimulate(e.target.checked)}
+          />
+          Monte Carlo check
+        </label>
+      </div>
+      {simulate && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+          <Slider
+            label="Runs"
+            value={runs}
+            min={5}
+            max={200}
+            step={5}
+            display={runs}
+            hint="Each run samples a Poisson process with rate n*(t)"
+            onChange={setRuns}
+          />
+          <Slider
+            label="Seed"
+            value={seed}
+            min={1}
+            max={1000}
+            display={seed}
+            hint="Run k uses seed + k"
+            onChange={setSeed}
+          />
+        </div>
+      )}
+
+      {/* Animation controls */}
+      <TimelineControls timeline={timeline} recorder={recorder} />
+
       {/* Statistics */}
       <div className="grid grid-cols-3 gap-4 mb-6">
         <StatCard label="Total Samples (Optimal)" value={totalSamples.toFixed(1)} tone="accent" />
         <StatCard label="Uniform Rate" value={`${uniformRate.toFixed(2)}/time`} />
-        <StatCard label="Decay Half-life" value={(Math.log(2) / lambda).toFixed(1)} />
+        <StatCard label="Decay Half-life" value={fmtHalfLife} />
       </div>
 
-      <VizSurface>
-        <PlotFigure options={options} />
-      </VizSurface>
+      <div className="grid grid-cols-3 gap-4 mb-6">
+        <StatCard
+          label="Information Captured (Optimal)"
+          value={fmtCaptured(captured.optimal, captured.available)}
+          tone="accent"
+        />
+        <StatCard
+          label="Uniform (vs optimal)"
+          value={fmtCaptured(captured.uniform, captured.optimal)}
+          valueColor={UNIFORM}
+        />
+        <StatCard
+          label="Front-loaded (vs optimal)"
+          value={fmtCaptured(captured.frontLoaded, captured.optimal)}
+          valueColor={FRONT}
+        />
+      </div>
+
+      {simulation && (
+        <div className="grid grid-cols-2 gap-4 mb-6">
+          <StatCard
+            label={`χ² (${simulation.fit.dof} bins, simulated vs n*)`}
+            value={simulation.fit.statistic.toFixed(1)}
+          />
+          <StatCard
+            label="χ² p-value"
+            value={fmtP(simulation.fit.p)}
+            valueColor={simulation.fit.p < 0.01 ? UNIFORM : undefined}
+          />
+        </div>
+      )}
+
+      <LiveRegion
+        message={`Total samples ${totalSamples.toFixed(1)}, uniform rate ${uniformRate.toFixed(2)} per unit time, decay half-life ${fmtHalfLife}. Optimal schedule captures ${captured.optimal.toFixed(0)}; uniform ${percentOf(captured.uniform, captured.optimal)} and front-loaded ${percentOf(captured.frontLoaded, captured.optimal)} of that.`}
+      />
+
+      <div ref={surfaceRef}>
+        <VizSurface>
+          <PlotFigure options={options} />
+          <PlotFigure options={infoOptions} dataTable={false} />
+        </VizSurface>
+      </div>
     </VizFigure>
   );
 }
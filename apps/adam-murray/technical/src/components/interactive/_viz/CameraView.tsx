@@ -0,0 +1,114 @@
+import { useEffect, useRef } from 'react';
+import type { CameraImage } from './raytracer';
+
+// Glare is tinted to match the red of the camera-hit legends; scattered
+// (image-forming) light is neutral.
+const GLARE_TINT = [1, 0.35, 0.3];
+const GAMMA = 1 / 2.2;
+
+/** Radiance at image coordinate `s` ∈ [−1, 1], linearly interpolated. */
+function sampleAt(coords: number[], values: number[], s: number): number {
+  const n = coords.length;
+  const x = ((s + 1) / 2) * n - 0.5;
+  const i = Math.max(0, Math.min(n - 2, Math.floor(x)));
+  const f = Math.max(0, Math.min(1, x - i));
+  return values[i] * (1 - f) + values[i + 1] * f;
+}
+
+function paint(
+  canvas: HTMLCanvasElement,
+  width: number,
+  height: number,
+  pixel: (x: number, y: number) => [number, number] | null,
+  exposure: number,
+) {
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  const img = ctx.createImageData(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const v = pixel(x, y);
+      const o = 4 * (y * width + x);
+      if (!v) continue; // transparent outside the field
+      const [signal, glare] = v;
+      for (let c = 0; c < 3; c++) {
+        const linear = (signal + glare * GLARE_TINT[c]) / exposure;
+        img.data[o + c] = Math.round(255 * Math.min(1, linear) ** GAMMA);
+      }
+      img.data[o + 3] = 255;
+    }
+  }
+  ctx.putImageData(img, 0, 0);
+}
+
+/**
+ * What a backward-traced camera records (`renderCamera`): the 1D image
+ * strip, auto-exposed to its brightest pixel, with glare tinted red.
+ * With `round`, also a 2D view made by spinning the strip about the
+ * optical axis — exact for a rotationally symmetric scene such as a
+ * round dish seen from straight above.
+ */
+export default function CameraView({
+  image,
+  round = false,
+  size = 240,
+}: {
+  image: CameraImage;
+  round?: boolean;
+  size?: number;
+}) {
+  const stripRef = useRef<HTMLCanvasElement>(null);
+  const discRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const { coords, signal, glare } = image;
+    const n = coords.length;
+    let exposure = 0;
+    for (let i = 0; i < n; i++) exposure = Math.max(exposure, signal[i] + glare[i]);
+    if (exposure <= 0) exposure = 1;
+
+    const strip = stripRef.current;
+    if (strip) paint(strip, n, 1, (x) => [signal[x], glare[x]], exposure);
+
+    const disc = discRef.current;
+    if (disc && round) {
+      paint(
+        disc,
+        n,
+        n,
+        (x, y) => {
+          const r = Math.hypot(-1 + (2 * x + 1) / n, -1 + (2 * y + 1) / n);
+          if (r > 1) return null;
+          // Average the two halves of the strip at this radius.
+          return [
+            (sampleAt(coords, signal, -r) + sampleAt(coords, signal, r)) / 2,
+            (sampleAt(coords, glare, -r) + sampleAt(coords, glare, r)) / 2,
+          ];
+        },
+        exposure,
+      );
+    }
+  }, [image, round]);
+
+  const pixelated = { imageRendering: 'pixelated' as const, display: 'block' };
+  return (
+    <div className="flex flex-col gap-3">
+      <div>
+        <div className="viz-label" style={{ marginBottom: '0.4rem' }}>
+          Camera image (strip)
+        </div>
+        <canvas ref={stripRef} style={{ ...pixelated, width: '100%', height: 28 }} />
+      </div>
+      {round && (
+        <div>
+          <div className="viz-label" style={{ marginBottom: '0.4rem' }}>
+            Camera image (rotated about the axis)
+          </div>
+          <canvas ref={discRef} style={{ ...pixelated, width: size, height: size }} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,14 @@
+import { useEffect, useId, useRef, useState } from 'react';
 import type { ReactNode, ChangeEvent } from 'react';
+import {
+  canvasPng,
+  downloadBlob,
+  fileStem,
+  plotSvgs,
+  standaloneSvg,
+  toCsv,
+} from './figureExport';
+import type { FigureData } from './figureExport';
 
 /**
  * Shared, token-styled chrome for the interactive figures: frame, controls,
@@ -7,21 +17,132 @@ import type { ReactNode, ChangeEvent } from 'react';
  * (grids, gaps) are left to each caller.
  */
 
+interface ExportItem {
+  label: string;
+  run: () => void;
+}
+
+/**
+ * The figure's export menu. What it offers is read from the DOM when it
+ * opens, so it always matches what is on screen: one SVG per Plot, one PNG
+ * per canvas, one CSV per data table, plus all tables as JSON.
+ */
+function ExportMenu({
+  figureRef,
+  name,
+  data,
+}: {
+  figureRef: { current: HTMLElement | null };
+  name: string;
+  data?: FigureData;
+}) {
+  const [items, setItems] = useState<ExportItem[]>([]);
+
+  const scan = () => {
+    const figure = figureRef.current;
+    if (!figure) return;
+    const out: ExportItem[] = [];
+    // Numbered only when a figure has several of a kind.
+    const nth = (i: number, n: number) => (n > 1 ? ` ${i + 1}` : '');
+    const fileNth = (i: number, n: number) => (n > 1 ? `-${i + 1}` : '');
+
+    const svgs = plotSvgs(figure);
+    for (const [i, svg] of svgs.entries()) {
+      const suffix = fileNth(i, svgs.length);
+      out.push({
+        label: `SVG${nth(i, svgs.length)}`,
+        run: () =>
+          downloadBlob(
+            new Blob([standaloneSvg(svg)], { type: 'image/svg+xml' }),
+            `${name}${suffix}.svg`,
+          ),
+      });
+    }
+
+    const canvases = [...figure.querySelectorAll('canvas')];
+    for (const [i, canvas] of canvases.entries()) {
+      const suffix = fileNth(i, canvases.length);
+      out.push({
+        label: `PNG${nth(i, canvases.length)}`,
+        run: () => {
+          canvasPng(canvas).then((blob) => {
+            if (blob) downloadBlob(blob, `${name}${suffix}.png`);
+          });
+        },
+      });
+    }
+
+    if (data) {
+      for (const [table, rows] of Object.entries(data)) {
+        out.push({
+          label: `CSV: ${table}`,
+          run: () =>
+            downloadBlob(
+              new Blob([toCsv(rows)], { type: 'text/csv' }),
+              `${name}-${fileStem(table, 'data')}.csv`,
+            ),
+        });
+      }
+      out.push({
+        label: 'JSON: all data',
+        run: () =>
+          downloadBlob(
+            new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }),
+            `${name}.json`,
+          ),
+      });
+    }
+    setItems(out);
+  };
+
+  return (
+    <details
+      className="viz-export"
+      onToggle={(e) => {
+        if (e.currentTarget.open) scan();
+      }}
+    >
+      <summary className="viz-btn viz-btn--ghost">Export</summary>
+      <div className="viz-export-menu">
+        {items.length === 0 && <span className="viz-hint">Nothing to export yet</span>}
+        {items.map((it) => (
+          <button key={it.label} type="button" className="viz-export-item" onClick={it.run}>
+            {it.label}
+          </button>
+        ))}
+      </div>
+    </details>
+  );
+}
+
 export function VizFigure({
   title,
   description,
   children,
   footer,
   className,
+  data,
+  exportName,
+  exportable = true,
 }: {
   title?: string;
   description?: ReactNode;
   children: ReactNode;
   footer?: ReactNode;
   className?: string;
+  /** tables behind the figure, offered for download as CSV and JSON */
+  data?: FigureData;
+  /** file-name stem for exports; defaults to the title */
+  exportName?: string;
+  /** set false to hide the export menu */
+  exportable?: boolean;
 }) {
+  const ref = useRef<HTMLElement>(null);
   return (
-    <figure className={`viz-figure ${className ?? ''}`}>
+    <figure ref={ref} className={`viz-figure ${className ?? ''}`}>
+      {exportable && (
+        <ExportMenu figureRef={ref} name={fileStem(exportName ?? title)} data={data} />
+      )}
       {(title || description) && (
         <figcaption className="viz-head">
           {title && <div className="viz-title">{title}</div>}
@@ -62,16 +183,30 @@ export function Slider({
   /** [minLabel, maxLabel] shown under the track */
   scale?: [string, string];
 }) {
+  const id = useId();
+  // Screen readers announce the formatted value (units and all) when it is
+  // plain text, rather than the raw number.
+  const valueText =
+    typeof display === 'string' || typeof display === 'number' ? String(display) : undefined;
   return (
     <div className="viz-control">
       <div className="viz-control-row">
-        <span className="viz-label">{label}</span>
+        <label className="viz-label" htmlFor={id}>
+          {label}
+        </label>
         {display != null && <span className="viz-value">{display}</span>}
       </div>
-      {hint && <p className="viz-hint">{hint}</p>}
+      {hint && (
+        <p className="viz-hint" id={`${id}-hint`}>
+          {hint}
+        </p>
+      )}
       <input
+        id={id}
         type="range"
         className="viz-range"
+        aria-valuetext={valueText}
+        aria-describedby={hint ? `${id}-hint` : undefined}
         min={min}
         max={max}
         step={step}
@@ -115,10 +250,14 @@ export function Select({
   options: ReadonlyArray<{ value: string; label: string }>;
   onChange: (value: string) => void;
 }) {
+  const id = useId();
   return (
     <div className="viz-control">
-      <span className="viz-label">{label}</span>
+      <label className="viz-label" htmlFor={id}>
+        {label}
+      </label>
       <select
+        id={id}
         className="viz-select"
         value={value}
         onChange={(e: ChangeEvent<HTMLSelectElement>) => onChange(e.target.value)}
@@ -176,3 +315,24 @@ export function Legend({
     </div>
   );
 }
+
+/**
+ * A visually hidden live region: screen readers read `message` out whenever it
+ * changes, so a figure can announce its key results as parameters move. The
+ * message is held back until it has been stable for `delay` ms, so dragging a
+ * slider announces where it lands rather than every step on the way.
+ */
+export function LiveRegion({ message, delay = 750 }: { message: string; delay?: number }) {
+  const [spoken, setSpoken] = useState('');
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => setSpoken(message), delay);
+    return () => window.clearTimeout(timer);
+  }, [message, delay]);
+
+  return (
+    <output className="viz-sr-only" aria-live="polite" aria-atomic="true">
+      {spoken}
+    </output>
+  );
+}
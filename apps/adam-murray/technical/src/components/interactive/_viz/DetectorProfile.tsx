@@ -0,0 +1,66 @@
+import { useMemo } from 'react';
+import * as Plot from '@observablehq/plot';
+import PlotFigure, { basePlot } from './PlotFigure';
+import { angularProfile, irradianceProfile } from './detector';
+import type { DetectorReading } from './detector';
+import { useThemeTokens } from './useThemeTokens';
+
+// Fixed semantic hues, matching the simulators' camera-hit legends.
+const SIGNAL = 'rgba(40, 140, 90, 0.9)';
+const GLARE = 'rgba(200, 60, 50, 0.9)';
+
+/**
+ * Stacked histogram of a detector reading, signal over glare: irradiance
+ * across the detector (`view="position"`, the image profile a sensor
+ * would record) or flux per angle of incidence (`view="angle"`). Sized
+ * to sit beside or under a ray diagram.
+ */
+export default function DetectorProfile({
+  reading,
+  view = 'position',
+  width = 340,
+  height = 200,
+}: {
+  reading: DetectorReading;
+  view?: 'position' | 'angle';
+  width?: number;
+  height?: number;
+}) {
+  const tokens = useThemeTokens();
+
+  const options = useMemo(() => {
+    const byPosition = view === 'position';
+    const half = (byPosition ? reading.positionBinWidth : reading.angleBinWidth) / 2;
+    const rows = (
+      byPosition
+        ? irradianceProfile(reading).map((r) => ({ at: r.position, ...r }))
+        : angularProfile(reading).map((r) => ({ at: r.angle, ...r }))
+    ).flatMap((r) => [
+      { x1: r.at - half, x2: r.at + half, kind: 'signal', value: r.signal },
+      { x1: r.at - half, x2: r.at + half, kind: 'glare', value: r.glare },
+    ]);
+    return basePlot(tokens, {
+      width,
+      height,
+      marginLeft: 56,
+      marginBottom: 40,
+      x: {
+        label: byPosition
+          ? `Position on ${reading.name} (mm) →`
+          : 'Angle of incidence (°) →',
+      },
+      y: {
+        label: byPosition ? '↑ Irradiance (flux/mm)' : '↑ Flux',
+        grid: true,
+        tickFormat: '.1e',
+      },
+      color: { domain: ['signal', 'glare'], range: [SIGNAL, GLARE] },
+      marks: [
+        Plot.rectY(rows, { x1: 'x1', x2: 'x2', y: 'value', fill: 'kind' }),
+        Plot.ruleY([0], { stroke: tokens.ruleStrong }),
+      ],
+    });
+  }, [reading, view, width, height, tokens]);
+
+  return <PlotFigure options={options} />;
+}
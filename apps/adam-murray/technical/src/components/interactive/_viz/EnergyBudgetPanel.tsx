@@ -0,0 +1,101 @@
+import { StatCard } from './Controls';
+import { energyBudget } from './energy';
+import type { TraceStats } from './energy';
+
+const percent = (v: number, of: number) => {
+  if (of <= 0) return '—';
+  const p = (100 * v) / of;
+  return Math.abs(p) > 0 && Math.abs(p) < 0.1 ? '<0.1%' : `${p.toFixed(1)}%`;
+};
+
+const byValue = (record: Record<string, number>) =>
+  Object.entries(record)
+    .filter(([, v]) => v > 0)
+    .sort((a, b) => b[1] - a[1]);
+
+function Breakdown({
+  title,
+  rows,
+  emitted,
+}: {
+  title: string;
+  rows: Array<[string, number]>;
+  emitted: number;
+}) {
+  return (
+    <div className="viz-panel">
+      <div className="viz-label" style={{ marginBottom: '0.4rem' }}>
+        {title}
+      </div>
+      {rows.length === 0 ? (
+        <div className="viz-readout">
+          <span className="viz-readout-key">none</span>
+        </div>
+      ) : (
+        rows.map(([key, v]) => (
+          <div className="viz-readout" key={key}>
+            <span className="viz-readout-key">{key}</span>
+            <span className="viz-readout-val">{percent(v, emitted)}</span>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
+
+/**
+ * Where a trace's emitted flux went, as percentages of the total: a row
+ * of headline StatCards (escaped, absorbed in media, absorbed at
+ * surfaces, pruned, and the unaccounted remainder, which should read
+ * ~0%), over per-surface, per-medium and per-side breakdowns.
+ */
+export default function EnergyBudgetPanel({ stats }: { stats: TraceStats }) {
+  const budget = energyBudget(stats);
+  const { emitted } = budget;
+  return (
+    <div>
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-4 mb-4">
+        <StatCard label="Emitted flux" value={emitted.toPrecision(3)} />
+        <StatCard label="Escaped" value={percent(budget.escaped, emitted)} />
+        <StatCard
+          label="Absorbed: media"
+          value={percent(budget.absorbedInMedia, emitted)}
+        />
+        <StatCard
+          label="Absorbed: surfaces"
+          value={percent(budget.absorbedAtSurfaces, emitted)}
+          tone="accent"
+        />
+        <StatCard label="Pruned" value={percent(budget.pruned, emitted)} />
+        <StatCard
+          label="Unaccounted"
+          value={percent(budget.unaccounted, emitted)}
+        />
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Breakdown
+          title="Absorbed by surface"
+          rows={byValue(stats.absorbedBySurface)}
+          emitted={emitted}
+        />
+        <Breakdown
+          title="Absorbed by medium"
+          rows={byValue(stats.absorbedByMedium)}
+          emitted={emitted}
+        />
+        <Breakdown
+          title="Escaped and pruned"
+          rows={[
+            ...byValue(stats.escaped).map(([side, v]): [string, number] => [
+              `escaped at ${side}`,
+              v,
+            ]),
+            ['pruned: min intensity', stats.pruned.minIntensity],
+            ['pruned: max depth', stats.pruned.maxDepth],
+          ]}
+          emitted={emitted}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import { useMemo } from 'react';
+import * as Plot from '@observablehq/plot';
+import { StatCard } from './Controls';
+import PlotFigure, { basePlot } from './PlotFigure';
+import type { CollisionReport, DensityBin, LibraryIons, Offender } from './libraryCollisions';
+import { useThemeTokens } from './useThemeTokens';
+
+const COLLIDING = '#ef4444'; // semantic: overlaps, as in the interval view
+
+const percent = (v: number, of: number) => (of > 0 ? `${((100 * v) / of).toFixed(1)}%` : '—');
+
+/**
+ * Results of a library collision analysis (./libraryCollisions): headline
+ * counts, ion density over m/z split into resolved and colliding ions,
+ * and the worst offenders with example partners.
+ */
+export default function LibraryCollisionPanel({
+  ions,
+  report,
+  offenders,
+  density,
+}: {
+  ions: LibraryIons;
+  report: CollisionReport;
+  offenders: Offender[];
+  density: DensityBin[];
+}) {
+  const tokens = useThemeTokens();
+  const members = ions.memberMass.length;
+
+  const options = useMemo(() => {
+    const rows = density.flatMap((b) => [
+      { x1: b.x1, x2: b.x2, status: 'resolved', ions: b.resolved },
+      { x1: b.x1, x2: b.x2, status: 'colliding', ions: b.colliding },
+    ]);
+    return basePlot(tokens, {
+      width: 880,
+      height: 260,
+      marginLeft: 56,
+      marginBottom: 46,
+      x: { label: 'm/z →' },
+      y: { label: '↑ Ions per bin', grid: true },
+      color: {
+        domain: ['resolved', 'colliding'],
+        range: [tokens.accent, COLLIDING],
+        legend: true,
+      },
+      marks: [
+        Plot.rectY(rows, {
+          x1: 'x1',
+          x2: 'x2',
+          y: 'ions',
+          fill: 'status',
+          fillOpacity: 0.8,
+          insetLeft: 0.5,
+          insetRight: 0.5,
+        }),
+        Plot.ruleY([0]),
+      ],
+    });
+  }, [density, tokens]);
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <StatCard label="Library members" value={members.toLocaleString()} />
+        <StatCard label="Ions projected" value={ions.mz.length.toLocaleString()} />
+        <StatCard
+          label={`Members colliding at ${report.ppm} ppm`}
+          value={percent(report.collidingMembers, members)}
+          tone="accent"
+        />
+        <StatCard
+          label="Colliding ion pairs"
+          value={report.pairs.toLocaleString()}
+          valueColor={report.pairs > 0 ? COLLIDING : undefined}
+        />
+      </div>
+
+      <PlotFigure options={options} />
+
+      {offenders.length > 0 && (
+        <div className="viz-table">
+          <div className="viz-table-scroll">
+            <table>
+              <caption>
+                Worst offenders ({offenders.length} of {report.collidingMembers.toLocaleString()}{' '}
+                colliding members)
+              </caption>
+              <thead>
+                <tr>
+                  <th scope="col">#</th>
+                  <th scope="col">Member</th>
+                  <th scope="col">Mass (Da)</th>
+                  <th scope="col">Collisions</th>
+                  <th scope="col" style={{ textAlign: 'left' }}>
+                    Collides with
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {offenders.map((o, rank) => (
+                  <tr key={o.member}>
+                    <td>{rank + 1}</td>
+                    <td style={{ textAlign: 'left' }}>{o.name}</td>
+                    <td>{o.mass.toFixed(4)}</td>
+                    <td>{o.hits.toLocaleString()}</td>
+                    <td style={{ textAlign: 'left' }}>
+                      {o.partners
+                        .map(
+                          (p) =>
+                            `${p.adduct} ≈ ${p.partner} ${p.partnerAdduct} (${p.ppm.toFixed(2)} ppm)`,
+                        )
+                        .join('; ')}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useEffect, useRef } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import * as Plot from '@observablehq/plot';
 import type { ThemeTokens } from './useThemeTokens';
 
@@ -29,6 +29,105 @@ export interface PlotFigureProps {
   /** A Plot spec (what you'd pass to Plot.plot). Memoize it with useMemo. */
   options: Plot.PlotOptions;
   className?: string;
+  /** set false to omit the data-table fallback under the chart */
+  dataTable?: boolean;
+}
+
+// Rows shown per table; the export menu has the full data.
+const TABLE_ROW_LIMIT = 500;
+
+interface MarkTable {
+  key: number;
+  caption: string;
+  columns: string[];
+  /** formatted cells of the first TABLE_ROW_LIMIT rows */
+  rows: Array<{ key: number; cells: string[] }>;
+  /** row count before truncation */
+  total: number;
+}
+
+function formatCell(v: unknown): string {
+  if (typeof v === 'number') return Number.isInteger(v) ? String(v) : v.toPrecision(4);
+  if (v instanceof Date) return v.toISOString();
+  return v === null || v === undefined ? '' : String(v);
+}
+
+/**
+ * One table per distinct array-of-records dataset among the spec's marks (a
+ * line and an area over the same points share one), captioned with Plot's
+ * own description of the mark ("line", "area", …). Constant marks such as
+ * `Plot.ruleY([0])` have no record data and are skipped.
+ */
+function markTables(options: Plot.PlotOptions): MarkTable[] {
+  const seen = new Set<unknown>();
+  const out: MarkTable[] = [];
+  for (const mark of options.marks ?? []) {
+    const { data, ariaLabel } = mark as { data?: unknown; ariaLabel?: string };
+    if (!Array.isArray(data) || data.length === 0 || seen.has(data)) continue;
+    if (!data.every((d) => d !== null && typeof d === 'object' && !Array.isArray(d))) continue;
+    seen.add(data);
+    const rows = data as Record<string, unknown>[];
+    const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))].filter((c) =>
+      rows.some((row) => typeof row[c] !== 'object' || row[c] === null),
+    );
+    out.push({
+      key: out.length,
+      caption: ariaLabel ?? 'series',
+      columns,
+      rows: rows.slice(0, TABLE_ROW_LIMIT).map((row, key) => ({
+        key,
+        cells: columns.map((c) => formatCell(row[c])),
+      })),
+      total: rows.length,
+    });
+  }
+  return out;
+}
+
+/**
+ * The numbers behind the chart as plain tables, for screen readers and
+ * anyone who wants exact values. Collapsed by default and only built once
+ * opened, since a curve can run to hundreds of points.
+ */
+function DataTables({ options }: { options: Plot.PlotOptions }) {
+  const [open, setOpen] = useState(false);
+  const tables = useMemo(() => (open ? markTables(options) : []), [open, options]);
+  return (
+    <details className="viz-table" onToggle={(e) => setOpen(e.currentTarget.open)}>
+      <summary>Data table</summary>
+      {open && (
+        <div className="viz-table-scroll">
+          {tables.length === 0 && <p className="viz-hint">No tabular data in this chart.</p>}
+          {tables.map((t) => (
+            <table key={t.key}>
+              <caption>
+                {t.caption}
+                {t.total > t.rows.length && ` (first ${t.rows.length} of ${t.total} rows)`}
+              </caption>
+              <thead>
+                <tr>
+                  {t.columns.map((c) => (
+                    <th key={c} scope="col">
+                      {c}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {t.rows.map((row) => (
+                  <tr key={row.key}>
+                    {row.cells.map((cell, c) => (
+                      <td key={t.columns[c]}>{cell}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ))}
+        </div>
+      )}
+    </details>
+  );
 }
 
 /**
@@ -36,7 +135,7 @@ export interface PlotFigureProps {
  * changes. Memoize `options` so it only re-renders when its real inputs — data,
  * parameters, or theme tokens — change.
  */
-export default function PlotFigure({ options, className }: PlotFigureProps) {
+export default function PlotFigure({ options, className, dataTable = true }: PlotFigureProps) {
   const ref = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -47,5 +146,13 @@ export default function PlotFigure({ options, className }: PlotFigureProps) {
     return () => figure.remove();
   }, [options]);
 
-  return <div ref={ref} className={className} />;
+  // `data-viz-plot` lets the VizFigure export menu find the chart.
+  const chart = <div ref={ref} className={className} data-viz-plot="" />;
+  if (!dataTable) return chart;
+  return (
+    <>
+      {chart}
+      <DataTables options={options} />
+    </>
+  );
 }
@@ -0,0 +1,364 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { KeyboardEvent, PointerEvent, ReactNode } from 'react';
+import { Button, Slider, VizFigure, VizSurface } from './Controls';
+import { downloadBlob } from './figureExport';
+import type { Ray, Vec2 } from './raytracer';
+import { sceneFromData, sourceFromData } from './sceneData';
+import { handlesOf, moveHandle, outlineOf, snapDirection, snapToGrid } from './sceneEditing';
+import type { EditableScene, Handle } from './sceneEditing';
+import { exportSceneFile, loadSceneFile } from './sceneFile';
+import type { SceneFile } from './sceneFile';
+import { useThemeTokens } from './useThemeTokens';
+import { useTraceWorker } from './useTraceWorker';
+
+// Pick radius for handles, CSS px.
+const HANDLE_PICK_PX = 9;
+// Direction handles sit this fraction of the scene width from their source.
+const DIR_HANDLE_FRACTION = 0.08;
+const RAY_RGB = '230, 150, 40';
+
+interface History {
+  past: EditableScene[];
+  present: EditableScene;
+  future: EditableScene[];
+}
+
+function toEditable(file: SceneFile): EditableScene {
+  const { scene, sources } = loadSceneFile(file);
+  return {
+    // A loaded scene is built from data, so every `data` is present.
+    surfaces: scene.surfaces.flatMap((s) => (s.data ? [s.data] : [])),
+    sources: sources.flatMap((s) => (s.data ? [s.data] : [])),
+    bounds: scene.bounds,
+  };
+}
+
+const CANVAS_LABEL =
+  'Scene editor. Drag handles to move surfaces and sources; Ctrl+Z undoes, Ctrl+Shift+Z redoes.';
+
+const sameHandle = (a: Handle, b: Handle) =>
+  a.owner === b.owner && a.index === b.index && a.key === b.key;
+
+const handleLabel = (scene: EditableScene, h: Handle) =>
+  h.owner === 'surface'
+    ? `${scene.surfaces[h.index].name} · ${h.key}`
+    : `source ${h.index + 1} (${scene.sources[h.index].kind}) · ${h.key}`;
+
+/**
+ * Canvas editor for an optics scene file: drag segment endpoints, arc
+ * and Bézier handles, source positions and aim handles, with grid and
+ * angle snapping, undo/redo (buttons or Ctrl/⌘-Z, Ctrl/⌘-Shift-Z) and a
+ * live ray preview traced in the worker. "Export scene" downloads the
+ * edited scene as a file loadable with `loadSceneFile` — or pasted back
+ * in as `file`.
+ */
+export default function SceneEditor({
+  file,
+  title,
+  description,
+  width = 720,
+}: {
+  file: SceneFile;
+  title?: string;
+  description?: ReactNode;
+  /** canvas width in CSS px; the height follows the scene bounds */
+  width?: number;
+}) {
+  const tokens = useThemeTokens();
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const initial = useMemo(() => toEditable(file), [file]);
+  const [history, setHistory] = useState<History>({
+    past: [],
+    present: initial,
+    future: [],
+  });
+  const [grid, setGrid] = useState(1);
+  const [angleStep, setAngleStep] = useState(5);
+  const [drag, setDrag] = useState<{
+    handle: Handle;
+    from: EditableScene;
+  } | null>(null);
+  const [hover, setHover] = useState<Handle | null>(null);
+
+  useEffect(() => {
+    setHistory({ past: [], present: initial, future: [] });
+  }, [initial]);
+
+  const present = history.present;
+  const { bounds } = present;
+  const scale = width / (bounds.xMax - bounds.xMin);
+  const height = Math.round((bounds.yMax - bounds.yMin) * scale);
+  const toScreen = useCallback(
+    (p: Vec2) => ({
+      x: (p.x - bounds.xMin) * scale,
+      y: (bounds.yMax - p.y) * scale,
+    }),
+    [bounds, scale],
+  );
+  const toWorld = (x: number, y: number): Vec2 => ({
+    x: bounds.xMin + x / scale,
+    y: bounds.yMax - y / scale,
+  });
+
+  const handles = useMemo(
+    () => handlesOf(present, DIR_HANDLE_FRACTION * (bounds.xMax - bounds.xMin)),
+    [present, bounds],
+  );
+
+  // ── live preview ────────────────────────────────────────────────
+  const scene = useMemo(
+    () => sceneFromData({ surfaces: present.surfaces, bounds: present.bounds }),
+    [present],
+  );
+  const sources = useMemo(() => present.sources.map(sourceFromData), [present]);
+  const rays = useMemo<Ray[]>(() => sources.flatMap((src) => src()), [sources]);
+  const { segments } = useTraceWorker(scene, rays, file.options);
+
+  // ── render ──────────────────────────────────────────────────────
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
+    canvas.style.width = `${width}px`;
+    canvas.style.height = `${height}px`;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.fillStyle = tokens.paper;
+    ctx.fillRect(0, 0, width, height);
+
+    // Rays, alpha by intensity relative to the brightest primary ray.
+    let iMax = 0;
+    for (const r of rays) iMax = Math.max(iMax, r.intensity);
+    ctx.lineWidth = 1;
+    for (const seg of segments) {
+      const alpha = Math.min(0.8, Math.sqrt(seg.intensityStart / (iMax || 1)) * 0.6);
+      if (alpha < 0.02) continue;
+      const a = toScreen(seg.start);
+      const b = toScreen(seg.end);
+      ctx.strokeStyle = `rgba(${RAY_RGB}, ${alpha})`;
+      ctx.beginPath();
+      ctx.moveTo(a.x, a.y);
+      ctx.lineTo(b.x, b.y);
+      ctx.stroke();
+    }
+
+    // Surfaces: detectors in the accent colour, polarizers dashed.
+    for (const d of present.surfaces) {
+      const pts = outlineOf(d).map(toScreen);
+      ctx.strokeStyle = d.kind === 'detector' ? tokens.accent : tokens.ink;
+      ctx.lineWidth = d.kind === 'lambertianScatterer' ? 2.5 : 1.5;
+      ctx.setLineDash(d.kind === 'polarizer' ? [4, 3] : []);
+      ctx.beginPath();
+      for (const [i, p] of pts.entries()) {
+        if (i === 0) ctx.moveTo(p.x, p.y);
+        else ctx.lineTo(p.x, p.y);
+      }
+      ctx.stroke();
+    }
+    ctx.setLineDash([]);
+
+    // Handles: squares on surfaces, discs on sources, rings for aim.
+    const active = drag?.handle ?? hover;
+    for (const h of handles) {
+      const p = toScreen(h.point);
+      const isActive = active !== null && sameHandle(active, h);
+      const color = isActive
+        ? tokens.accentInk
+        : h.owner === 'source'
+          ? tokens.accent
+          : tokens.inkSoft;
+      ctx.strokeStyle = color;
+      ctx.fillStyle = color;
+      ctx.lineWidth = 1.5;
+      if (h.anchor) {
+        const a = toScreen(h.anchor);
+        ctx.setLineDash([2, 2]);
+        ctx.beginPath();
+        ctx.moveTo(a.x, a.y);
+        ctx.lineTo(p.x, p.y);
+        ctx.stroke();
+        ctx.setLineDash([]);
+        ctx.beginPath();
+        ctx.arc(p.x, p.y, isActive ? 6 : 5, 0, 2 * Math.PI);
+        ctx.stroke();
+      } else if (h.owner === 'source') {
+        ctx.beginPath();
+        ctx.arc(p.x, p.y, isActive ? 6 : 5, 0, 2 * Math.PI);
+        ctx.fill();
+      } else {
+        const s = isActive ? 5 : 4;
+        ctx.fillRect(p.x - s, p.y - s, 2 * s, 2 * s);
+      }
+    }
+  }, [present, segments, rays, handles, drag, hover, width, height, tokens, toScreen]);
+
+  // ── interaction ─────────────────────────────────────────────────
+  const eventPoint = (e: PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const pick = (x: number, y: number): Handle | null => {
+    let best: Handle | null = null;
+    let bestD = HANDLE_PICK_PX;
+    for (const h of handles) {
+      const p = toScreen(h.point);
+      const d = Math.hypot(p.x - x, p.y - y);
+      if (d <= bestD) {
+        best = h;
+        bestD = d;
+      }
+    }
+    return best;
+  };
+
+  const onPointerDown = (e: PointerEvent<HTMLCanvasElement>) => {
+    const { x, y } = eventPoint(e);
+    const handle = pick(x, y);
+    if (!handle) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({ handle, from: present });
+  };
+
+  const onPointerMove = (e: PointerEvent<HTMLCanvasElement>) => {
+    const { x, y } = eventPoint(e);
+    if (!drag) {
+      setHover(pick(x, y));
+      return;
+    }
+    const { handle } = drag;
+    const raw = toWorld(x, y);
+    const to = handle.anchor ? snapDirection(handle.anchor, raw, angleStep) : snapToGrid(raw, grid);
+    setHistory((h) => ({ ...h, present: moveHandle(h.present, handle, to) }));
+  };
+
+  const onPointerUp = () => {
+    if (!drag) return;
+    const { from } = drag;
+    // One undo step per drag, and none for a click that moved nothing.
+    setHistory((h) =>
+      h.present === from ? h : { past: [...h.past, from], present: h.present, future: [] },
+    );
+    setDrag(null);
+  };
+
+  const undo = () =>
+    setHistory((h) => {
+      const prev = h.past[h.past.length - 1];
+      if (!prev) return h;
+      return {
+        past: h.past.slice(0, -1),
+        present: prev,
+        future: [h.present, ...h.future],
+      };
+    });
+  const redo = () =>
+    setHistory((h) => {
+      const [next, ...rest] = h.future;
+      if (!next) return h;
+      return { past: [...h.past, h.present], present: next, future: rest };
+    });
+  const reset = () =>
+    setHistory((h) =>
+      h.present === initial ? h : { past: [...h.past, h.present], present: initial, future: [] },
+    );
+
+  const onKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    if (!(e.ctrlKey || e.metaKey)) return;
+    const key = e.key.toLowerCase();
+    if (key === 'z' && !e.shiftKey) undo();
+    else if ((key === 'z' && e.shiftKey) || key === 'y') redo();
+    else return;
+    e.preventDefault();
+  };
+
+  const downloadScene = () => {
+    const out = exportSceneFile({ scene, sources, options: file.options });
+    const blob = new Blob([JSON.stringify(out, null, 2)], {
+      type: 'application/json',
+    });
+    downloadBlob(blob, 'scene.json');
+  };
+
+  // The picked handle's current position (it moves while dragged).
+  const picked = drag?.handle ?? hover;
+  const shown = picked ? handles.find((h) => sameHandle(h, picked)) : undefined;
+
+  return (
+    <VizFigure title={title} description={description}>
+      {/* Undo / redo shortcuts work while the canvas or any of the editor's controls has focus. */}
+      <div onKeyDown={onKeyDown}>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+          <Slider
+            label="Snap to grid"
+            value={grid}
+            min={0}
+            max={10}
+            step={0.5}
+            display={grid > 0 ? `${grid} mm` : 'off'}
+            onChange={setGrid}
+          />
+          <Slider
+            label="Snap aim angles"
+            value={angleStep}
+            min={0}
+            max={45}
+            step={5}
+            display={angleStep > 0 ? `${angleStep}°` : 'off'}
+            onChange={setAngleStep}
+          />
+        </div>
+
+        <div className="viz-panel mb-4">
+          <div className="flex flex-wrap gap-2">
+            <Button variant="secondary" onClick={undo}>
+              Undo
+            </Button>
+            <Button variant="secondary" onClick={redo}>
+              Redo
+            </Button>
+            <Button variant="ghost" onClick={reset}>
+              Reset
+            </Button>
+            <div className="ml-auto">
+              <Button variant="ghost" onClick={downloadScene}>
+                Export scene
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <VizSurface>
+          <canvas
+            ref={canvasRef}
+            tabIndex={0}
+            aria-label={CANVAS_LABEL}
+            style={{
+              touchAction: 'none',
+              cursor: drag ? 'grabbing' : hover ? 'grab' : 'default',
+            }}
+            onPointerDown={onPointerDown}
+            onPointerMove={onPointerMove}
+            onPointerUp={onPointerUp}
+            onPointerCancel={onPointerUp}
+            onPointerLeave={() => setHover(null)}
+          />
+        </VizSurface>
+
+        <div className="viz-readout">
+          <span className="viz-readout-key">
+            {shown ? handleLabel(present, shown) : 'Drag a handle to edit the scene'}
+          </span>
+          {shown && (
+            <span className="viz-readout-val">
+              ({shown.point.x.toFixed(1)}, {shown.point.y.toFixed(1)}) mm
+            </span>
+          )}
+        </div>
+      </div>
+    </VizFigure>
+  );
+}
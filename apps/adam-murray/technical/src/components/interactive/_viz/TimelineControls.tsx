@@ -0,0 +1,120 @@
+import { Button, Select, Slider } from './Controls';
+import type { RecordingFormat } from './recording';
+import type { Recorder } from './useRecorder';
+import type { Timeline } from './useTimeline';
+
+const SPEEDS = [0.25, 0.5, 1, 2, 4];
+const SPEED_OPTIONS = SPEEDS.map((s) => ({ value: String(s), label: `${s}×` }));
+const FORMAT_LABELS: Record<RecordingFormat, string> = { webm: 'WebM', apng: 'APNG' };
+
+/**
+ * Transport bar for a `useTimeline` clock: play / pause, single steps, reset,
+ * a scrubber, playback speed and loop, plus record buttons when given a
+ * `useRecorder`. Figures with their own rate control (e.g. gen/sec) can hide
+ * the speed picker.
+ */
+export default function TimelineControls({
+  timeline,
+  scrub,
+  showSpeed = true,
+  showLoop = true,
+  recorder,
+  label = 'Time',
+  formatTime = (t) => t.toFixed(1),
+}: {
+  timeline: Timeline;
+  /** scrubber label, e.g. 'Generation' */
+  label?: string;
+  /**
+   * scrubber range; defaults to the timeline's bounds. Open-ended timelines
+   * pass the furthest time they can show (`false` hides the scrubber).
+   */
+  scrub?: { min: number; max: number } | false;
+  showSpeed?: boolean;
+  showLoop?: boolean;
+  recorder?: Recorder;
+  formatTime?: (t: number) => string;
+}) {
+  const range =
+    scrub === false
+      ? undefined
+      : (scrub ??
+        (timeline.end === undefined ? undefined : { min: timeline.start, max: timeline.end }));
+  const atEnd = timeline.end !== undefined && timeline.time >= timeline.end;
+  const formats: RecordingFormat[] = recorder
+    ? (['webm', 'apng'] as const).filter((f) => recorder.supported[f])
+    : [];
+
+  return (
+    <div className="viz-timeline">
+      <div className="viz-timeline-row">
+        <Button onClick={timeline.toggle}>
+          {timeline.playing ? 'Pause' : atEnd ? 'Replay' : 'Play'}
+        </Button>
+        <Button variant="ghost" onClick={timeline.stepBack}>
+          ‹ Step
+        </Button>
+        <Button variant="ghost" onClick={timeline.stepForward}>
+          Step ›
+        </Button>
+        <Button variant="secondary" onClick={timeline.reset}>
+          Reset
+        </Button>
+        {showLoop && timeline.end !== undefined && (
+          <label className="viz-check">
+            <input
+              type="checkbox"
+              checked={timeline.loop}
+              onChange={(e) => timeline.setLoop(e.target.checked)}
+            />
+            Loop
+          </label>
+        )}
+        <div className="flex-1" />
+        {recorder &&
+          (recorder.recording ? (
+            <Button variant="secondary" onClick={recorder.stop}>
+              Stop recording ({recorder.frames} frames)
+            </Button>
+          ) : (
+            formats.map((f) => (
+              <Button key={f} variant="ghost" onClick={() => recorder.start(f)}>
+                Record {FORMAT_LABELS[f]}
+              </Button>
+            ))
+          ))}
+      </div>
+      {recorder?.error && <p className="viz-hint">Recording failed: {recorder.error}</p>}
+      <div className="viz-timeline-row">
+        {range && (
+          <div className="viz-timeline-scrub">
+            <Slider
+              label={label}
+              value={Math.min(range.max, Math.max(range.min, timeline.time))}
+              min={range.min}
+              max={range.max}
+              step={timeline.step}
+              display={`${formatTime(timeline.time)} / ${formatTime(range.max)}`}
+              hint={
+                timeline.reducedMotion && timeline.end !== undefined
+                  ? 'Play jumps to the end while your system asks for reduced motion'
+                  : undefined
+              }
+              onChange={timeline.seek}
+            />
+          </div>
+        )}
+        {showSpeed && (
+          <div className="viz-timeline-speed">
+            <Select
+              label="Speed"
+              value={String(timeline.speed)}
+              options={SPEED_OPTIONS}
+              onChange={(v) => timeline.setSpeed(Number(v))}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
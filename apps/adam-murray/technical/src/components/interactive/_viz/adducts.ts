@@ -0,0 +1,266 @@
+// ────────────────────────────────────────────────────────────────────
+// Adduct table and instrument profiles for mass-spectrometry figures.
+//
+// Pure data and logic. No React, no canvas, no DOM.
+//
+// An adduct turns a neutral molecule of monoisotopic mass M into an ion
+// observed at
+//
+//     m/z = (multimer · M + mass) / charge
+//
+// where `mass` is the net exact mass gained (atoms added minus atoms
+// lost, with the electrons given up or taken on), so
+//   [M+H]⁺       multimer 1, charge 1, mass  +1.007276
+//   [M+2H]²⁺     multimer 1, charge 2, mass  +2.014552
+//   [2M+Na]⁺     multimer 2, charge 1, mass +22.989221
+//   [M+H-H₂O]⁺   in-source water loss,  mass −17.003289
+// Masses are built from IUPAC monoisotopic atomic masses and the
+// electron (0.000549 Da); `ionLine` gives the map above as slope and
+// offset, which is all the interval geometry needs.
+//
+// An instrument profile names the adducts a source typically produces,
+// across both polarities; a figure shows the ones matching its mode.
+// Readers' own adducts and profiles are kept by `useAdductLibrary`, and
+// `adductsFromRows` reads them back from CSV (columns as in
+// ADDUCT_CSV_COLUMNS; the same shape `toCsv` writes).
+// ────────────────────────────────────────────────────────────────────
+
+export type IonMode = 'positive' | 'negative';
+
+export interface Adduct {
+  /** stable key, e.g. '[M+H]+' — a custom row with a built-in id overrides it */
+  id: string;
+  /** display label, e.g. '[M+H]⁺' */
+  symbol: string;
+  name: string;
+  mode: IonMode;
+  /** charge magnitude z ≥ 1 */
+  charge: number;
+  /** molecules per ion (2 for dimers) */
+  multimer: number;
+  /** net exact mass gained, Da */
+  mass: number;
+}
+
+export interface InstrumentProfile {
+  id: string;
+  name: string;
+  /** adduct ids, of either polarity */
+  adducts: string[];
+}
+
+export const ADDUCT_CSV_COLUMNS = [
+  'id',
+  'symbol',
+  'name',
+  'mode',
+  'charge',
+  'multimer',
+  'mass',
+] as const;
+
+const adduct = (
+  id: string,
+  symbol: string,
+  name: string,
+  mass: number,
+  charge = 1,
+  multimer = 1,
+): Adduct => ({
+  id,
+  symbol,
+  name,
+  mode: id.endsWith('+') ? 'positive' : 'negative',
+  charge,
+  multimer,
+  mass,
+});
+
+/** Common ESI / APCI / MALDI adducts with exact monoisotopic masses. */
+export const ADDUCT_TABLE: readonly Adduct[] = [
+  // Positive, singly charged
+  adduct('[M+H]+', '[M+H]⁺', 'Proton', 1.007276),
+  adduct('[M+Li]+', '[M+Li]⁺', 'Lithium', 7.015455),
+  adduct('[M+NH4]+', '[M+NH₄]⁺', 'Ammonium', 18.033826),
+  adduct('[M+H3O]+', '[M+H₃O]⁺', 'Proton + water', 19.017841),
+  adduct('[M+Na]+', '[M+Na]⁺', 'Sodium', 22.989221),
+  adduct('[M+CH3OH+H]+', '[M+CH₃OH+H]⁺', 'Methanol + proton', 33.033491),
+  adduct('[M+K]+', '[M+K]⁺', 'Potassium', 38.963158),
+  adduct('[M+ACN+H]+', '[M+ACN+H]⁺', 'Acetonitrile + proton', 42.033825),
+  adduct('[M+2Na-H]+', '[M+2Na-H]⁺', 'Disodium − proton', 44.971166),
+  adduct('[M+IPA+H]+', '[M+IPA+H]⁺', 'Isopropanol + proton', 61.064791),
+  adduct('[M+ACN+Na]+', '[M+ACN+Na]⁺', 'Acetonitrile + sodium', 64.01577),
+  adduct('[M+2K-H]+', '[M+2K-H]⁺', 'Dipotassium − proton', 76.91904),
+  adduct('[M+DMSO+H]+', '[M+DMSO+H]⁺', 'DMSO + proton', 79.021212),
+  adduct('[M+2ACN+H]+', '[M+2ACN+H]⁺', 'Two acetonitrile + proton', 83.060374),
+  // Positive, in-source losses
+  adduct('[M+H-H2O]+', '[M+H-H₂O]⁺', 'Proton − water', -17.003289),
+  adduct('[M+H-NH3]+', '[M+H-NH₃]⁺', 'Proton − ammonia', -16.019273),
+  // Positive, multiply charged
+  adduct('[M+2H]2+', '[M+2H]²⁺', 'Two protons', 2.014552, 2),
+  adduct('[M+H+NH4]2+', '[M+H+NH₄]²⁺', 'Proton + ammonium', 19.041102, 2),
+  adduct('[M+H+Na]2+', '[M+H+Na]²⁺', 'Proton + sodium', 23.996497, 2),
+  adduct('[M+ACN+2H]2+', '[M+ACN+2H]²⁺', 'Acetonitrile + two protons', 43.041101, 2),
+  adduct('[M+2Na]2+', '[M+2Na]²⁺', 'Two sodium', 45.978442, 2),
+  adduct('[M+3H]3+', '[M+3H]³⁺', 'Three protons', 3.021828, 3),
+  // Positive, dimers
+  adduct('[2M+H]+', '[2M+H]⁺', 'Dimer + proton', 1.007276, 1, 2),
+  adduct('[2M+NH4]+', '[2M+NH₄]⁺', 'Dimer + ammonium', 18.033826, 1, 2),
+  adduct('[2M+Na]+', '[2M+Na]⁺', 'Dimer + sodium', 22.989221, 1, 2),
+  adduct('[2M+K]+', '[2M+K]⁺', 'Dimer + potassium', 38.963158, 1, 2),
+  // Negative, singly charged
+  adduct('[M-H]-', '[M-H]⁻', 'Deprotonation', -1.007276),
+  adduct('[M-H2O-H]-', '[M-H₂O-H]⁻', 'Deprotonation − water', -19.017841),
+  adduct('[M+Na-2H]-', '[M+Na-2H]⁻', 'Sodium − two protons', 20.974666),
+  adduct('[M+Cl]-', '[M+Cl]⁻', 'Chloride', 34.969402),
+  adduct('[M+K-2H]-', '[M+K-2H]⁻', 'Potassium − two protons', 36.948606),
+  adduct('[M+HCOO]-', '[M+HCOO]⁻', 'Formate', 44.998203),
+  adduct('[M+CH3COO]-', '[M+CH₃COO]⁻', 'Acetate', 59.013853),
+  adduct('[M+Br]-', '[M+Br]⁻', 'Bromide', 78.918887),
+  adduct('[M+TFA-H]-', '[M+TFA-H]⁻', 'Trifluoroacetate', 112.985588),
+  // Negative, multiply charged
+  adduct('[M-2H]2-', '[M-2H]²⁻', 'Two deprotonations', -2.014552, 2),
+  adduct('[M-3H]3-', '[M-3H]³⁻', 'Three deprotonations', -3.021828, 3),
+  // Negative, dimers
+  adduct('[2M-H]-', '[2M-H]⁻', 'Dimer − proton', -1.007276, 1, 2),
+  adduct('[2M+HCOO]-', '[2M+HCOO]⁻', 'Dimer + formate', 44.998203, 1, 2),
+];
+
+/** Built-in instrument profiles; the first four match common source setups. */
+export const BUILTIN_PROFILES: readonly InstrumentProfile[] = [
+  {
+    id: 'ESI',
+    name: 'ESI',
+    adducts: [
+      '[M+H]+',
+      '[M+Na]+',
+      '[M+K]+',
+      '[M+NH4]+',
+      '[M-H]-',
+      '[M+Cl]-',
+      '[M+HCOO]-',
+      '[M+CH3COO]-',
+    ],
+  },
+  { id: 'APCI', name: 'APCI', adducts: ['[M+H]+', '[M+H3O]+', '[M-H]-', '[M+Cl]-'] },
+  { id: 'MALDI', name: 'MALDI', adducts: ['[M+H]+', '[M+Na]+', '[M+K]+'] },
+  {
+    id: 'ESI-Orbitrap',
+    name: 'ESI-Orbitrap',
+    adducts: ['[M+H]+', '[M+Na]+', '[M+K]+', '[M+NH4]+', '[M+ACN+H]+'],
+  },
+  {
+    id: 'ESI-multiply-charged',
+    name: 'ESI, multiply charged',
+    adducts: [
+      '[M+H]+',
+      '[M+2H]2+',
+      '[M+3H]3+',
+      '[M+H+Na]2+',
+      '[M+2Na]2+',
+      '[M-H]-',
+      '[M-2H]2-',
+      '[M-3H]3-',
+    ],
+  },
+  {
+    id: 'ESI-dimers-losses',
+    name: 'ESI, dimers and losses',
+    adducts: [
+      '[M+H]+',
+      '[M+Na]+',
+      '[M+H-H2O]+',
+      '[2M+H]+',
+      '[2M+Na]+',
+      '[M-H]-',
+      '[M-H2O-H]-',
+      '[2M-H]-',
+    ],
+  },
+];
+
+/** m/z of an adduct as a line in the neutral mass M: m/z = slope · M + offset. */
+export function ionLine(a: Adduct): { slope: number; offset: number } {
+  return { slope: a.multimer / a.charge, offset: a.mass / a.charge };
+}
+
+/** Observed m/z of `a` on a neutral molecule of mass `M`. */
+export function adductMz(a: Adduct, M: number): number {
+  return (a.multimer * M + a.mass) / a.charge;
+}
+
+/**
+ * `base` with `overrides` applied by id: rows sharing an id replace the
+ * base row in place, the rest are appended in order.
+ */
+export function mergeAdducts(base: readonly Adduct[], overrides: readonly Adduct[]): Adduct[] {
+  const byId = new Map(overrides.map((a) => [a.id, a]));
+  const merged = base.map((a) => byId.get(a.id) ?? a);
+  const seen = new Set(base.map((a) => a.id));
+  return merged.concat(overrides.filter((a) => !seen.has(a.id)));
+}
+
+/** Whether `v` is a well-formed adduct (for data read back from storage). */
+export function isAdduct(v: unknown): v is Adduct {
+  if (typeof v !== 'object' || v === null) return false;
+  const a = v as Record<string, unknown>;
+  return (
+    typeof a.id === 'string' &&
+    typeof a.symbol === 'string' &&
+    typeof a.name === 'string' &&
+    (a.mode === 'positive' || a.mode === 'negative') &&
+    Number.isInteger(a.charge) &&
+    (a.charge as number) >= 1 &&
+    Number.isInteger(a.multimer) &&
+    (a.multimer as number) >= 1 &&
+    typeof a.mass === 'number' &&
+    Number.isFinite(a.mass)
+  );
+}
+
+const MODES: Record<string, IonMode> = {
+  positive: 'positive',
+  pos: 'positive',
+  '+': 'positive',
+  negative: 'negative',
+  neg: 'negative',
+  '-': 'negative',
+};
+
+/**
+ * Adducts from CSV rows (see `parseCsv`). `symbol`, `mode` and `mass` are
+ * required; `id` and `name` default to the symbol, `charge` and `multimer`
+ * to 1. Throws on the first malformed row, naming its line.
+ */
+export function adductsFromRows(rows: ReadonlyArray<Record<string, string>>): Adduct[] {
+  return rows.map((row, k) => {
+    const fail = (msg: string): never => {
+      throw new Error(`Invalid adduct CSV: line ${k + 2}: ${msg}`);
+    };
+    const cell = (key: string) => (row[key] ?? '').trim();
+    const whole = (key: string) => {
+      const raw = cell(key);
+      if (raw === '') return 1;
+      const v = Number(raw);
+      if (!Number.isInteger(v) || v < 1) fail(`${key} must be a whole number ≥ 1, got "${raw}"`);
+      return v;
+    };
+
+    const symbol = cell('symbol');
+    if (!symbol) fail('missing symbol');
+    const mode = MODES[cell('mode').toLowerCase()];
+    if (!mode) fail(`mode must be positive or negative, got "${cell('mode')}"`);
+    const mass = Number(cell('mass'));
+    if (cell('mass') === '' || !Number.isFinite(mass))
+      fail(`mass must be a number, got "${cell('mass')}"`);
+    return {
+      id: cell('id') || symbol,
+      symbol,
+      name: cell('name') || symbol,
+      mode,
+      charge: whole('charge'),
+      multimer: whole('multimer'),
+      mass,
+    };
+  });
+}
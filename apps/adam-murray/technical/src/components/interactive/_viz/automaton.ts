@@ -0,0 +1,522 @@
+// ────────────────────────────────────────────────────────────────────
+// Competitive cellular automata for Cloth of Gold-style simulations.
+//
+// Pure logic. No React, no canvas, no DOM.
+//
+// A `RuleSet` is data: Life-like birth / survival tables on live-neighbour
+// counts, a number of players (cell values 1…players, 0 = empty), bounded
+// or toroidal edges, and the influence kernel behind the territory map.
+// Ownership follows the competitive rule of the original simulator:
+//   • an empty cell with a birth count is born to the plurality owner of
+//     its live neighbours (a tie leaves it empty);
+//   • a live cell with a survival count lives on, converted to the
+//     plurality owner (a tie keeps its owner);
+//   • any other cell dies. A live cell that dies of overcrowding while
+//     outnumbered by one enemy is a "competitive death" (`converted`).
+//
+// The engine keeps cells in a `Uint8Array`, double-buffered, and only
+// re-evaluates tiles whose neighbourhood changed last generation, so
+// still lifes and empty space cost nothing. Territory is an influence
+// field summed from live cells; on large boards it is evaluated on
+// blocks of cells (`territoryBlock`) to keep it interactive.
+// ────────────────────────────────────────────────────────────────────
+
+import type { Rng } from './sampling';
+
+export type Edges = 'bounded' | 'toroidal';
+
+/** Influence of a cell at distance d ≤ radius: 1 − d²/r², 1 − d/r, e^(−2d²/r²), 1. */
+export type InfluenceKernel = 'parabolic' | 'linear' | 'gaussian' | 'flat';
+
+export interface RuleSet {
+  id: string;
+  name: string;
+  /** players 1…players; 0 is empty */
+  players: number;
+  /** live-neighbour counts that birth an empty cell */
+  birth: readonly number[];
+  /** live-neighbour counts a live cell survives with */
+  survival: readonly number[];
+  edges: Edges;
+  influence: {
+    radius: number;
+    kernel: InfluenceKernel;
+    /** influence a player needs to hold territory */
+    threshold: number;
+    /** two players above threshold within this margin contest the cell */
+    contested: number;
+  };
+}
+
+const COMPETITIVE_INFLUENCE = {
+  radius: 10,
+  kernel: 'parabolic',
+  threshold: 1.0,
+  contested: 1.5,
+} as const;
+
+/** Built-in rule sets; the first is the original two-player Cloth of Gold. */
+export const RULE_SETS: readonly RuleSet[] = [
+  {
+    id: 'cloth',
+    name: 'Cloth of Gold (B3/S23, 2 players)',
+    players: 2,
+    birth: [3],
+    survival: [2, 3],
+    edges: 'bounded',
+    influence: COMPETITIVE_INFLUENCE,
+  },
+  {
+    id: 'highlife',
+    name: 'HighLife (B36/S23, 2 players)',
+    players: 2,
+    birth: [3, 6],
+    survival: [2, 3],
+    edges: 'bounded',
+    influence: COMPETITIVE_INFLUENCE,
+  },
+  {
+    id: 'three-way',
+    name: 'Three-way (B3/S23, 3 players)',
+    players: 3,
+    birth: [3],
+    survival: [2, 3],
+    edges: 'bounded',
+    influence: COMPETITIVE_INFLUENCE,
+  },
+  {
+    id: 'day-and-night',
+    name: 'Day & Night (B3678/S34678, 2 players)',
+    players: 2,
+    birth: [3, 6, 7, 8],
+    survival: [3, 4, 6, 7, 8],
+    edges: 'bounded',
+    influence: { radius: 8, kernel: 'gaussian', threshold: 1.5, contested: 2 },
+  },
+  {
+    id: 'four-way',
+    name: 'Four corners (B3/S23, 4 players)',
+    players: 4,
+    birth: [3],
+    survival: [2, 3],
+    edges: 'bounded',
+    influence: { radius: 8, kernel: 'linear', threshold: 1.0, contested: 1.0 },
+  },
+];
+
+export const MAX_PLAYERS = 4;
+
+/** "B3/S23" notation for `rules`. */
+export function ruleString(rules: Pick<RuleSet, 'birth' | 'survival'>): string {
+  return `B${rules.birth.join('')}/S${rules.survival.join('')}`;
+}
+
+/** Birth / survival counts from "B3/S23" (either order, any case). */
+export function parseRuleString(text: string): Pick<RuleSet, 'birth' | 'survival'> {
+  const match = /^\s*B([0-8]*)\s*\/\s*S([0-8]*)\s*$/i.exec(text);
+  const swapped = match ? null : /^\s*S([0-8]*)\s*\/\s*B([0-8]*)\s*$/i.exec(text);
+  const [b, s] = match ? [match[1], match[2]] : swapped ? [swapped[2], swapped[1]] : [];
+  if (b === undefined || s === undefined) {
+    throw new Error(`Invalid rule "${text}": expected B…/S… notation, e.g. B3/S23`);
+  }
+  const counts = (digits: string) => [...new Set([...digits].map(Number))].sort((x, y) => x - y);
+  return { birth: counts(b), survival: counts(s) };
+}
+
+// ─── starting boards ────────────────────────────────────────────────
+
+/**
+ * A soup: each cell alive with probability `density`, owned by a uniformly
+ * random player (15% per player in the two-player game). Seed `rng` (see
+ * ./sampling) for reproducible boards.
+ */
+export function randomCells(
+  width: number,
+  height: number,
+  players: number,
+  rng: Rng = Math.random,
+  density = 0.3,
+): Uint8Array {
+  const cells = new Uint8Array(width * height);
+  for (let k = 0; k < cells.length; k++) {
+    if (rng() < density) cells[k] = 1 + Math.floor(rng() * players);
+  }
+  return cells;
+}
+
+/**
+ * One random vertical strip per player, mirrored into the neighbouring
+ * strip, so every side starts with the same material (two players: left
+ * half vs its mirror image on the right).
+ */
+export function symmetricCells(
+  width: number,
+  height: number,
+  players: number,
+  rng: Rng = Math.random,
+  density = 0.2,
+): Uint8Array {
+  const cells = new Uint8Array(width * height);
+  const strip = Math.floor(width / players);
+  for (let i = 0; i < height; i++) {
+    for (let j = 0; j < strip; j++) {
+      if (rng() >= density) continue;
+      for (let p = 0; p < players; p++) {
+        cells[i * width + p * strip + (p % 2 ? strip - 1 - j : j)] = p + 1;
+      }
+    }
+  }
+  return cells;
+}
+
+// ─── engine ─────────────────────────────────────────────────────────
+
+const TILE = 16;
+
+export interface Automaton {
+  rules: RuleSet;
+  width: number;
+  height: number;
+  /** current generation, row-major, `cells[i * width + j]` */
+  cells: Uint8Array;
+  /** indices of last step's competitive deaths */
+  converted: number[];
+  /** the other buffer; holds the previous generation between steps */
+  back: Uint8Array;
+  tilesX: number;
+  tilesY: number;
+  /** tiles to evaluate next step (changed, or next to a change) */
+  active: Uint8Array;
+  // bit n set: n live neighbours births / sustains a cell
+  birthMask: number;
+  survivalMask: number;
+  /** highest survival count; dying above it counts as overcrowding */
+  crowding: number;
+}
+
+const maskOf = (counts: readonly number[]) => counts.reduce((m, n) => m | (1 << n), 0);
+
+/** A board of `width` × `height` cells under `rules`, optionally seeded with `cells`. */
+export function createAutomaton(
+  rules: RuleSet,
+  width: number,
+  height: number,
+  cells?: Uint8Array,
+): Automaton {
+  if (rules.players < 1 || rules.players > MAX_PLAYERS) {
+    throw new Error(
+      `Rule set "${rules.id}" has ${rules.players} players; 1–${MAX_PLAYERS} allowed`,
+    );
+  }
+  if (cells && cells.length !== width * height) {
+    throw new Error(`Expected ${width * height} cells for a ${width}×${height} board`);
+  }
+  const tilesX = Math.ceil(width / TILE);
+  const tilesY = Math.ceil(height / TILE);
+  const current = cells ? Uint8Array.from(cells) : new Uint8Array(width * height);
+  return {
+    rules,
+    width,
+    height,
+    cells: current,
+    converted: [],
+    back: Uint8Array.from(current),
+    tilesX,
+    tilesY,
+    active: new Uint8Array(tilesX * tilesY).fill(1),
+    birthMask: maskOf(rules.birth),
+    survivalMask: maskOf(rules.survival),
+    crowding: Math.max(-1, ...rules.survival),
+  };
+}
+
+/** Set cell (i, j) to `value` and wake its neighbourhood. */
+export function setAutomatonCell(a: Automaton, i: number, j: number, value: number) {
+  const k = i * a.width + j;
+  a.cells[k] = value;
+  a.back[k] = value;
+  markActive(a, Math.floor(j / TILE), Math.floor(i / TILE));
+}
+
+// Flag tile (tx, ty) and its eight neighbours (wrapping on a torus).
+function markActive(a: Automaton, tx: number, ty: number) {
+  const torus = a.rules.edges === 'toroidal';
+  for (let dy = -1; dy <= 1; dy++) {
+    for (let dx = -1; dx <= 1; dx++) {
+      let x = tx + dx;
+      let y = ty + dy;
+      if (torus) {
+        x = (x + a.tilesX) % a.tilesX;
+        y = (y + a.tilesY) % a.tilesY;
+      } else if (x < 0 || y < 0 || x >= a.tilesX || y >= a.tilesY) {
+        continue;
+      }
+      a.active[y * a.tilesX + x] = 1;
+    }
+  }
+}
+
+// Neighbour counts are tallied packed, four bits per player, so one table
+// lookup gives the total and the plurality owner of a neighbourhood.
+const PACK = Uint32Array.from({ length: MAX_PLAYERS + 1 }, (_, v) => (v ? 1 << (4 * (v - 1)) : 0));
+const PACKED_STATES = 1 << (4 * MAX_PLAYERS);
+// total live neighbours, and the plurality owner (0 on a tie) per packed tally
+const TOTAL = new Uint8Array(PACKED_STATES);
+const PLURALITY = new Uint8Array(PACKED_STATES);
+for (let packed = 0; packed < PACKED_STATES; packed++) {
+  let total = 0;
+  let best = 0;
+  let bestCount = 0;
+  let tied = false;
+  for (let p = 1; p <= MAX_PLAYERS; p++) {
+    const n = (packed >> (4 * (p - 1))) & 15;
+    total += n;
+    if (n > bestCount) {
+      best = p;
+      bestCount = n;
+      tied = false;
+    } else if (n === bestCount && n > 0) {
+      tied = true;
+    }
+  }
+  TOTAL[packed] = Math.min(total, 255);
+  PLURALITY[packed] = tied ? 0 : best;
+}
+
+const countOf = (packed: number, player: number) => (packed >> (4 * (player - 1))) & 15;
+
+/** Advance one generation in place. */
+export function stepAutomaton(a: Automaton) {
+  const { width: w, height: h, cells: src, back: dst, tilesX, tilesY, rules } = a;
+  const torus = rules.edges === 'toroidal';
+  const players = rules.players;
+  const { birthMask, survivalMask, crowding } = a;
+  const changed = new Uint8Array(tilesX * tilesY);
+  const converted: number[] = [];
+
+  // Packed tally for a cell on the board's edge, wrapping or clipping.
+  const edgeTally = (i: number, j: number) => {
+    let packed = 0;
+    for (let di = -1; di <= 1; di++) {
+      let ni = i + di;
+      if (ni < 0 || ni >= h) {
+        if (!torus) continue;
+        ni = (ni + h) % h;
+      }
+      for (let dj = -1; dj <= 1; dj++) {
+        if (di === 0 && dj === 0) continue;
+        let nj = j + dj;
+        if (nj < 0 || nj >= w) {
+          if (!torus) continue;
+          nj = (nj + w) % w;
+        }
+        packed += PACK[src[ni * w + nj]];
+      }
+    }
+    return packed;
+  };
+
+  for (let ty = 0; ty < tilesY; ty++) {
+    for (let tx = 0; tx < tilesX; tx++) {
+      const t = ty * tilesX + tx;
+      // A quiet tile is identical in both buffers already (it did not change
+      // last generation), so it needs no copy.
+      if (!a.active[t]) continue;
+      const iEnd = Math.min(h, (ty + 1) * TILE);
+      const jEnd = Math.min(w, (tx + 1) * TILE);
+      let tileChanged = 0;
+      for (let i = ty * TILE; i < iEnd; i++) {
+        const interiorRow = i > 0 && i < h - 1;
+        for (let j = tx * TILE; j < jEnd; j++) {
+          const k = i * w + j;
+          const packed =
+            interiorRow && j > 0 && j < w - 1
+              ? PACK[src[k - w - 1]] +
+                PACK[src[k - w]] +
+                PACK[src[k - w + 1]] +
+                PACK[src[k - 1]] +
+                PACK[src[k + 1]] +
+                PACK[src[k + w - 1]] +
+                PACK[src[k + w]] +
+                PACK[src[k + w + 1]]
+              : edgeTally(i, j);
+          const total = TOTAL[packed];
+          const cell = src[k];
+          let next = 0;
+          if ((cell ? survivalMask : birthMask) & (1 << total)) {
+            // Plurality owner among the neighbours; ties keep the cell as it was.
+            next = PLURALITY[packed] || cell;
+          } else if (cell && total > crowding) {
+            // Overcrowded: a competitive death if one enemy outnumbers the owner.
+            const own = countOf(packed, cell);
+            for (let p = 1; p <= players; p++) {
+              if (p !== cell && countOf(packed, p) > own) {
+                converted.push(k);
+                break;
+              }
+            }
+          }
+          dst[k] = next;
+          tileChanged |= next ^ cell;
+        }
+      }
+      if (tileChanged) changed[t] = 1;
+    }
+  }
+
+  a.cells = dst;
+  a.back = src;
+  a.converted = converted;
+  a.active.fill(0);
+  for (let ty = 0; ty < tilesY; ty++) {
+    for (let tx = 0; tx < tilesX; tx++) if (changed[ty * tilesX + tx]) markActive(a, tx, ty);
+  }
+}
+
+/** Live cells per player, indexed by player (index 0 counts empty cells). */
+export function populationsOf(a: Pick<Automaton, 'cells' | 'rules'>): number[] {
+  const out = new Array<number>(a.rules.players + 1).fill(0);
+  for (const v of a.cells) out[v]++;
+  return out;
+}
+
+// ─── territory ──────────────────────────────────────────────────────
+
+/** `Territory.owner` value of a contested block. */
+export const CONTESTED_OWNER = 255;
+
+export interface Territory {
+  /** cells per block side */
+  block: number;
+  cols: number;
+  rows: number;
+  /** per block: 0 neutral, 1…players the holder, or `CONTESTED_OWNER` */
+  owner: Uint8Array;
+  /** cells held per player (index 0: neutral, players + 1: contested) */
+  counts: number[];
+}
+
+// Blocks per side the territory map aims to stay under.
+const TERRITORY_BLOCKS = 128;
+
+/** Side of the blocks a territory map for this board is evaluated on. */
+export function territoryBlock(width: number, height: number): number {
+  return Math.max(1, Math.ceil(Math.max(width, height) / TERRITORY_BLOCKS));
+}
+
+function kernelWeight(kernel: InfluenceKernel, d2: number, r2: number): number {
+  switch (kernel) {
+    case 'parabolic':
+      return 1 - d2 / r2;
+    case 'linear':
+      return 1 - Math.sqrt(d2 / r2);
+    case 'gaussian':
+      return Math.exp((-2 * d2) / r2);
+    default:
+      return 1;
+  }
+}
+
+/**
+ * The territory map: each player's live cells spread influence through the
+ * rule set's kernel; a block belongs to the player whose influence clears
+ * the threshold and beats the others, and is contested when two players
+ * clear it within the `contested` margin. Cells are binned into blocks
+ * first, so a 512×512 board is evaluated on 128×128 blocks; with one cell
+ * per block this is the exact per-cell field.
+ */
+export function territoryOf(a: Pick<Automaton, 'cells' | 'rules' | 'width' | 'height'>): Territory {
+  const { width: w, height: h, rules } = a;
+  const { radius, kernel, threshold, contested } = rules.influence;
+  const players = rules.players;
+  const block = territoryBlock(w, h);
+  const cols = Math.ceil(w / block);
+  const rows = Math.ceil(h / block);
+  const torus = rules.edges === 'toroidal';
+
+  // Live cells per player per block
+  const binned = new Float64Array(cols * rows * players);
+  const blockOf = Int32Array.from({ length: w }, (_, j) => Math.floor(j / block) * players - 1);
+  for (let i = 0; i < h; i++) {
+    const rowBase = Math.floor(i / block) * cols * players;
+    const row = i * w;
+    for (let j = 0; j < w; j++) {
+      const v = a.cells[row + j];
+      if (v) binned[rowBase + blockOf[j] + v]++;
+    }
+  }
+
+  // Kernel offsets in block units, weighted by centre-to-centre distance in cells
+  const reach = Math.floor(radius / block);
+  const r2 = radius * radius;
+  const offsetI: number[] = [];
+  const offsetJ: number[] = [];
+  const weights: number[] = [];
+  for (let di = -reach; di <= reach; di++) {
+    for (let dj = -reach; dj <= reach; dj++) {
+      const d2 = (di * di + dj * dj) * block * block;
+      if (d2 > r2) continue;
+      offsetI.push(di);
+      offsetJ.push(dj);
+      weights.push(Math.max(0, kernelWeight(kernel, d2, r2)));
+    }
+  }
+  // Row / column `x + reach` → the index it lands on, wrapped or -1 off the board.
+  const landing = (n: number) =>
+    Int32Array.from({ length: n + 2 * reach }, (_, x) => {
+      const at = x - reach;
+      if (torus) return ((at % n) + n) % n;
+      return at >= 0 && at < n ? at : -1;
+    });
+  const rowAt = landing(rows);
+  const colAt = landing(cols);
+
+  // Scatter each occupied block's counts through the kernel.
+  const field = new Float64Array(cols * rows * players);
+  for (let bi = 0; bi < rows; bi++) {
+    for (let bj = 0; bj < cols; bj++) {
+      const base = (bi * cols + bj) * players;
+      for (let p = 0; p < players; p++) {
+        const n = binned[base + p];
+        if (!n) continue;
+        for (let o = 0; o < weights.length; o++) {
+          const ti = rowAt[bi + reach + offsetI[o]];
+          const tj = colAt[bj + reach + offsetJ[o]];
+          if (ti >= 0 && tj >= 0) field[(ti * cols + tj) * players + p] += n * weights[o];
+        }
+      }
+    }
+  }
+
+  const owner = new Uint8Array(cols * rows);
+  const counts = new Array<number>(players + 2).fill(0);
+  for (let bi = 0; bi < rows; bi++) {
+    for (let bj = 0; bj < cols; bj++) {
+      const b = bi * cols + bj;
+      let first = -1;
+      let second = -1;
+      for (let p = 0; p < players; p++) {
+        const f = field[b * players + p];
+        if (first < 0 || f > field[b * players + first]) {
+          second = first;
+          first = p;
+        } else if (second < 0 || f > field[b * players + second]) {
+          second = p;
+        }
+      }
+      const top = field[b * players + first];
+      const runnerUp = second < 0 ? 0 : field[b * players + second];
+      let held = 0;
+      if (top > threshold && runnerUp > threshold && top - runnerUp < contested) {
+        held = CONTESTED_OWNER;
+      } else if (top > threshold && top > runnerUp) {
+        held = first + 1;
+      }
+      owner[b] = held;
+      const area =
+        (Math.min(h, (bi + 1) * block) - bi * block) * (Math.min(w, (bj + 1) * block) - bj * block);
+      counts[held === CONTESTED_OWNER ? players + 1 : held] += area;
+    }
+  }
+  return { block, cols, rows, owner, counts };
+}
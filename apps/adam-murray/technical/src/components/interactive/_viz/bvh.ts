@@ -0,0 +1,210 @@
+// ────────────────────────────────────────────────────────────────────
+// Bounding-volume hierarchy over raytracer surfaces.
+//
+// Pure geometry. No React, no canvas, no DOM.
+//
+// `trace()` asks one question per ray: "which surface does this ray hit
+// first?". Answering it by calling every surface's `intersect` is linear
+// in the surface count, and some intersects are expensive (a height
+// field scans 200 samples plus a bisection). The BVH answers the same
+// question by testing the ray against axis-aligned boxes first and only
+// calling `intersect` on the surfaces whose boxes the ray enters, in
+// front-to-back order, shrinking tMax as closer hits are found so that
+// boxes behind the current nearest hit are never opened.
+//
+// Build: top-down median split on the longest axis of the centroid
+// bounds, down to leaves of at most LEAF_SIZE surfaces. Scenes here are
+// tens of surfaces, so a surface-area heuristic would not pay for itself.
+// ────────────────────────────────────────────────────────────────────
+
+import type { SceneBounds, Surface, SurfaceHit, Vec2 } from './raytracer';
+
+export interface BvhHit {
+  hit: SurfaceHit;
+  surface: Surface;
+}
+
+export interface Bvh {
+  /** The root box (union of every surface's bounds). */
+  readonly bounds: SceneBounds;
+  /**
+   * Nearest hit with t ∈ (tMin, tMax] across all surfaces, or null.
+   * Same contract as calling `intersect` on every surface and keeping
+   * the smallest t.
+   */
+  intersect(origin: Vec2, dir: Vec2, tMin: number, tMax: number): BvhHit | null;
+}
+
+interface BvhNode {
+  box: SceneBounds;
+  /** child indices into the node array (interior nodes only) */
+  left: number;
+  right: number;
+  /** leaf range into the reordered surface array; count = 0 for interior */
+  start: number;
+  count: number;
+}
+
+const LEAF_SIZE = 2;
+
+// Boxes are padded by this much (mm) on every side so that zero-thickness
+// boxes (a horizontal segment has yMin = yMax) still register a slab hit
+// under floating-point round-off.
+const BOX_PAD = 1e-6;
+
+// Entry parameter reported by `slab` for a ray that misses a box.
+const MISS = Number.POSITIVE_INFINITY;
+
+export const EMPTY_BOUNDS: SceneBounds = {
+  xMin: Number.POSITIVE_INFINITY,
+  xMax: Number.NEGATIVE_INFINITY,
+  yMin: Number.POSITIVE_INFINITY,
+  yMax: Number.NEGATIVE_INFINITY,
+};
+
+export function unionBounds(a: SceneBounds, b: SceneBounds): SceneBounds {
+  return {
+    xMin: Math.min(a.xMin, b.xMin),
+    xMax: Math.max(a.xMax, b.xMax),
+    yMin: Math.min(a.yMin, b.yMin),
+    yMax: Math.max(a.yMax, b.yMax),
+  };
+}
+
+/** Bounds of a set of points (e.g. a segment's endpoints). */
+export function boundsOfPoints(points: ReadonlyArray<Vec2>): SceneBounds {
+  let out = EMPTY_BOUNDS;
+  for (const p of points) {
+    out = unionBounds(out, { xMin: p.x, xMax: p.x, yMin: p.y, yMax: p.y });
+  }
+  return out;
+}
+
+/**
+ * Ray/box slab test. Returns the entry parameter t of the ray into the
+ * box clipped to [tMin, tMax], or MISS if the ray misses the box within
+ * that window.
+ */
+function slab(
+  box: SceneBounds,
+  origin: Vec2,
+  dir: Vec2,
+  tMin: number,
+  tMax: number,
+): number {
+  let lo = tMin;
+  let hi = tMax;
+  if (Math.abs(dir.x) < 1e-12) {
+    if (origin.x < box.xMin || origin.x > box.xMax) return MISS;
+  } else {
+    const inv = 1 / dir.x;
+    const t1 = (box.xMin - origin.x) * inv;
+    const t2 = (box.xMax - origin.x) * inv;
+    lo = Math.max(lo, Math.min(t1, t2));
+    hi = Math.min(hi, Math.max(t1, t2));
+  }
+  if (Math.abs(dir.y) < 1e-12) {
+    if (origin.y < box.yMin || origin.y > box.yMax) return MISS;
+  } else {
+    const inv = 1 / dir.y;
+    const t1 = (box.yMin - origin.y) * inv;
+    const t2 = (box.yMax - origin.y) * inv;
+    lo = Math.max(lo, Math.min(t1, t2));
+    hi = Math.min(hi, Math.max(t1, t2));
+  }
+  return lo <= hi ? lo : MISS;
+}
+
+const pad = (b: SceneBounds): SceneBounds => ({
+  xMin: b.xMin - BOX_PAD,
+  xMax: b.xMax + BOX_PAD,
+  yMin: b.yMin - BOX_PAD,
+  yMax: b.yMax + BOX_PAD,
+});
+
+/** Build a BVH over `surfaces`. The input array is not mutated. */
+export function buildBvh(surfaces: ReadonlyArray<Surface>): Bvh {
+  const items = surfaces.map((surface) => {
+    const box = pad(surface.bounds);
+    return {
+      surface,
+      box,
+      cx: 0.5 * (box.xMin + box.xMax),
+      cy: 0.5 * (box.yMin + box.yMax),
+    };
+  });
+  const nodes: BvhNode[] = [];
+
+  const build = (start: number, end: number): number => {
+    let box = EMPTY_BOUNDS;
+    let centroids = EMPTY_BOUNDS;
+    for (let i = start; i < end; i++) {
+      const it = items[i];
+      box = unionBounds(box, it.box);
+      centroids = unionBounds(centroids, {
+        xMin: it.cx,
+        xMax: it.cx,
+        yMin: it.cy,
+        yMax: it.cy,
+      });
+    }
+    const index = nodes.length;
+    nodes.push({ box, left: -1, right: -1, start, count: 0 });
+
+    if (end - start <= LEAF_SIZE) {
+      nodes[index].count = end - start;
+      return index;
+    }
+
+    // Median split along the longest axis of the centroid spread.
+    const splitX =
+      centroids.xMax - centroids.xMin >= centroids.yMax - centroids.yMin;
+    const slice = items.slice(start, end);
+    slice.sort((a, b) => (splitX ? a.cx - b.cx : a.cy - b.cy));
+    for (let i = 0; i < slice.length; i++) items[start + i] = slice[i];
+    const mid = (start + end) >> 1;
+
+    nodes[index].left = build(start, mid);
+    nodes[index].right = build(mid, end);
+    return index;
+  };
+
+  if (items.length > 0) build(0, items.length);
+
+  return {
+    bounds: nodes.length > 0 ? nodes[0].box : EMPTY_BOUNDS,
+    intersect(origin, dir, tMin, tMax) {
+      if (nodes.length === 0) return null;
+      let best: BvhHit | null = null;
+      let tBest = tMax;
+      // Explicit stack of node indices; children are pushed far-first so
+      // the nearer box is opened first and tightens tBest for the other.
+      const stack: number[] = [0];
+      while (stack.length > 0) {
+        const node = nodes[stack.pop() as number];
+        if (slab(node.box, origin, dir, tMin, tBest) === MISS) continue;
+        if (node.count > 0) {
+          for (let i = node.start; i < node.start + node.count; i++) {
+            const surface = items[i].surface;
+            const h = surface.intersect(origin, dir, tMin, tBest);
+            if (h && (best === null || h.t < best.hit.t)) {
+              best = { hit: h, surface };
+              tBest = h.t;
+            }
+          }
+          continue;
+        }
+        const tl = slab(nodes[node.left].box, origin, dir, tMin, tBest);
+        const tr = slab(nodes[node.right].box, origin, dir, tMin, tBest);
+        if (tl <= tr) {
+          if (tr !== MISS) stack.push(node.right);
+          if (tl !== MISS) stack.push(node.left);
+        } else {
+          if (tl !== MISS) stack.push(node.left);
+          stack.push(node.right);
+        }
+      }
+      return best;
+    },
+  };
+}
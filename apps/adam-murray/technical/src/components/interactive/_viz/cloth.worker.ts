@@ -0,0 +1,14 @@
+// ────────────────────────────────────────────────────────────────────
+// Web Worker host for Cloth of Gold batch experiments.
+//
+// Streams `batchChunks` (./clothBatch) back to the page through
+// `serveStream` (./streaming): each chunk of finished games is posted as
+// soon as it is played.
+//
+// Spawned by `useClothBatch`; not imported anywhere else.
+// ────────────────────────────────────────────────────────────────────
+
+import { batchChunks } from './clothBatch';
+import { serveStream } from './streaming';
+
+serveStream(batchChunks);
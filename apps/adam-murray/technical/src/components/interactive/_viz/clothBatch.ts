@@ -0,0 +1,159 @@
+// ────────────────────────────────────────────────────────────────────
+// Headless Cloth of Gold games for Monte Carlo batch experiments.
+//
+// Pure logic. No React, no canvas, no DOM.
+//
+// `runGame` plays one seeded board (a random soup or a mirrored
+// `symmetricCells` start) with the engine in ./automaton until the board
+// repeats a previous state or `maxGenerations` pass, and reports:
+//   • fixation — the generation the territory map last changed. The map
+//     is sampled every `sampleEvery` generations (and when the run
+//     stops), so fixation is resolved to that step. A run that hits the
+//     horizon counts as fixed only if its map held for `settleWindow`
+//     generations; otherwise fixation is null (censored).
+//   • the final territory share of each player and the contested area;
+//   • the final populations and the winner (largest territory, 0 on a tie).
+//
+// The same (rules, size, start, seed) always yields the same run.
+//
+// `batchChunks` plays a whole `BatchJob` — seeds seed, seed + 1, … for
+// each start type — as a generator of `chunkSize`-game chunks, for
+// streaming (see ./streaming).
+// ────────────────────────────────────────────────────────────────────
+
+import {
+  createAutomaton,
+  randomCells,
+  stepAutomaton,
+  symmetricCells,
+  territoryOf,
+} from './automaton';
+import type { RuleSet, Territory } from './automaton';
+import { mulberry32 } from './sampling';
+
+export type BatchStart = 'random' | 'symmetric';
+
+export interface BatchConfig {
+  rules: RuleSet;
+  /** board side, cells */
+  size: number;
+  maxGenerations: number;
+  /** generations between territory samples */
+  sampleEvery: number;
+  /** an unchanged map this long counts as fixed at the horizon */
+  settleWindow: number;
+}
+
+export interface BatchRun {
+  start: BatchStart;
+  seed: number;
+  /** generation the territory map last changed, or null if still moving */
+  fixation: number | null;
+  /** generations played */
+  generations: number;
+  /** the board returned to an earlier state (still life or oscillator) */
+  cycled: boolean;
+  /** fraction of the board held by player p at `share[p - 1]` */
+  share: number[];
+  /** contested cells at the end */
+  contested: number;
+  /** live cells of player p at `population[p - 1]` */
+  population: number[];
+  /** player with the most territory, 0 on a tie */
+  winner: number;
+}
+
+/** A batch experiment: `runs` seeded games per start type. */
+export interface BatchJob {
+  config: BatchConfig;
+  starts: BatchStart[];
+  /** games per start type */
+  runs: number;
+  /** seed of the first game of each start type */
+  seed: number;
+  /** games per chunk */
+  chunkSize: number;
+}
+
+export interface BatchChunk {
+  runs: BatchRun[];
+  /** games played so far (including this chunk) */
+  played: number;
+  total: number;
+}
+
+const sameOwners = (a: Territory, b: Territory) => a.owner.every((v, k) => v === b.owner[k]);
+
+// Two independent 32-bit FNV-1a hashes folded into one 53-bit integer, so
+// spurious "repeats" over a few thousand generations are vanishingly rare.
+function boardHash(cells: Uint8Array): number {
+  let h1 = 0x811c9dc5;
+  let h2 = 0x01000193;
+  for (const v of cells) {
+    h1 = Math.imul(h1 ^ v, 0x01000193);
+    h2 = Math.imul(h2 ^ (v + 0x9e), 0x01000193) ^ (h2 >>> 13);
+  }
+  return (h1 >>> 0) * 0x200000 + ((h2 >>> 0) & 0x1fffff);
+}
+
+/** Play one seeded game headlessly (see the header for what is measured). */
+export function runGame(config: BatchConfig, start: BatchStart, seed: number): BatchRun {
+  const { rules, size, maxGenerations, sampleEvery, settleWindow } = config;
+  const players = rules.players;
+  const rng = mulberry32(seed);
+  const cells =
+    start === 'random'
+      ? randomCells(size, size, players, rng)
+      : symmetricCells(size, size, players, rng);
+  const a = createAutomaton(rules, size, size, cells);
+
+  let map = territoryOf(a);
+  let lastChange = 0;
+  const seen = new Set([boardHash(a.cells)]);
+  let generation = 0;
+  let cycled = false;
+  while (generation < maxGenerations) {
+    stepAutomaton(a);
+    generation++;
+    const hash = boardHash(a.cells);
+    cycled = seen.has(hash);
+    if (cycled || generation % sampleEvery === 0) {
+      const next = territoryOf(a);
+      if (!sameOwners(next, map)) lastChange = generation;
+      map = next;
+    }
+    if (cycled) break;
+    seen.add(hash);
+  }
+
+  const area = size * size;
+  const share = map.counts.slice(1, players + 1).map((c) => c / area);
+  const top = Math.max(...share);
+  const leaders = share.flatMap((s, p) => (s === top ? [p + 1] : []));
+  const population = new Array<number>(players).fill(0);
+  for (const v of a.cells) if (v) population[v - 1]++;
+  return {
+    start,
+    seed,
+    fixation: cycled || generation - lastChange >= settleWindow ? lastChange : null,
+    generations: generation,
+    cycled,
+    share,
+    contested: map.counts[players + 1],
+    population,
+    winner: leaders.length === 1 ? leaders[0] : 0,
+  };
+}
+
+/** Play `job` chunk by chunk (see the header). */
+export function* batchChunks(job: BatchJob): Generator<BatchChunk> {
+  const { config, starts, runs, seed } = job;
+  const chunkSize = Math.max(1, job.chunkSize);
+  const games = starts.flatMap((start) =>
+    Array.from({ length: runs }, (_, k) => ({ start, seed: seed + k })),
+  );
+  for (let i = 0; i < games.length; i += chunkSize) {
+    const chunk = games.slice(i, i + chunkSize).map((g) => runGame(config, g.start, g.seed));
+    yield { runs: chunk, played: i + chunk.length, total: games.length };
+  }
+}
@@ -0,0 +1,265 @@
+// ────────────────────────────────────────────────────────────────────
+// Coupon-collector coverage model for combinatorial library sampling.
+//
+// Pure math. No React, no canvas, no DOM.
+//
+// Drawing a fraction α of a synthesis space of |S| = |U|·R paths (R paths
+// per unique entity) leaves about λ = |U|·exp(−αR) entities uncovered,
+// and the count is close to Poisson(λ) (Theorem 4.1), so
+//
+//     P(coverage ≥ 1 − ε) = P(Poisson(λ) ≤ ε|U|)
+//
+// which jumps from 0 to 1 around α_c = log(1/ε)/R. The 'exact' method
+// evaluates it with the log-space incomplete gamma in ./numerics; the
+// 'approx' method is the explorer's original closed form (a normal
+// approximation once λ > 100), kept so its error can be shown.
+//
+// `sweepRows` evaluates that probability over a grid of two of the four
+// parameters (the others held fixed), row by row so a caller can stream
+// it; `sampleSweep` reads the grid back at any point with bilinear
+// interpolation, in log space for log axes.
+//
+// `coverageDraws` simulates the sampling itself, for checking the
+// formula: paths drawn uniformly with replacement, so each draw picks an
+// entity uniformly whatever R is, until at most ⌊ε|U|⌋ are uncovered.
+// The wait for each new entity is geometric, so a trial costs O(|U|)
+// whatever α, and its one number answers every α at once: the trial
+// succeeds at α exactly when draws ≤ α|S|.
+//
+// `sweepChunks` and `drawChunks` run a whole sweep or simulation as a
+// generator of chunks, for streaming (see ./streaming).
+// ────────────────────────────────────────────────────────────────────
+
+import { logPoissonCdf } from './numerics';
+import { mulberry32 } from './sampling';
+import type { Rng } from './sampling';
+
+export type CoverageMethod = 'exact' | 'approx';
+
+export interface CoverageParams {
+  /** unique entities |U| */
+  U: number;
+  /** redundancy R = |S|/|U| */
+  R: number;
+  /** tolerated uncovered fraction ε */
+  epsilon: number;
+  /** sampling fraction α = n/|S| */
+  alpha: number;
+}
+
+export type CoverageParam = keyof CoverageParams;
+
+export interface SweepRange {
+  label: string;
+  min: number;
+  max: number;
+  log: boolean;
+}
+
+/** Default sweep extent of each parameter (the explorer's slider ranges). */
+export const SWEEP_RANGES: Record<CoverageParam, SweepRange> = {
+  U: { label: 'Unique entities |U|', min: 1e3, max: 1e6, log: true },
+  R: { label: 'Redundancy R', min: 10, max: 1e5, log: true },
+  epsilon: { label: 'Tolerance ε', min: 0.001, max: 0.5, log: true },
+  alpha: { label: 'Sampling fraction α', min: 1e-6, max: 1, log: true },
+};
+
+export interface SweepAxis extends SweepRange {
+  param: CoverageParam;
+  /** grid points, ends included; at least 2 */
+  count: number;
+}
+
+export interface SweepGrid {
+  x: SweepAxis;
+  y: SweepAxis;
+  /** parameters not on an axis */
+  base: CoverageParams;
+  method: CoverageMethod;
+  /** P(coverage ≥ 1 − ε), row-major with y rows; NaN where not yet computed */
+  values: Float64Array;
+}
+
+/** Rows `from` ≤ j < `to` of a sweep, out of `total`. */
+export interface SweepChunk {
+  from: number;
+  to: number;
+  values: Float64Array;
+  total: number;
+}
+
+/** `trials` seeded simulations of `coverageDraws`; trial k uses seed + k. */
+export interface SimulationJob {
+  U: number;
+  epsilon: number;
+  trials: number;
+  /** seed of the first trial */
+  seed: number;
+  /** trials per chunk */
+  chunkSize: number;
+}
+
+export interface DrawsChunk {
+  /** draws to reach the target coverage, one per trial in this chunk */
+  draws: number[];
+  /** trials played so far (including this chunk) */
+  played: number;
+  total: number;
+}
+
+// Standard normal CDF approximation (error < 7.5e-8)
+export function approxNormalCDF(x: number): number {
+  const t = 1 / (1 + 0.2316419 * Math.abs(x));
+  const d = 0.3989423 * Math.exp((-x * x) / 2);
+  const p =
+    d * t * (0.3193815 + t * (-0.3565638 + t * (1.781478 + t * (-1.821256 + t * 1.330274))));
+  return x > 0 ? 1 - p : p;
+}
+
+// Poisson CDF: P(X ≤ k) for X ~ Poisson(lambda)
+// Uses exact calculation for small lambda, normal approximation for large lambda
+export function approxPoissonCDF(k: number, lambda: number): number {
+  if (lambda === 0) return 1;
+  if (k < 0) return 0;
+
+  const kFloor = Math.floor(k);
+
+  // For large lambda, use normal approximation to avoid numerical issues
+  // Poisson(λ) ≈ Normal(λ, λ) for large λ
+  if (lambda > 100) {
+    // Continuity correction: P(X ≤ k) ≈ Φ((k + 0.5 - λ) / √λ)
+    const z = (kFloor + 0.5 - lambda) / Math.sqrt(lambda);
+    return approxNormalCDF(z);
+  }
+
+  // For small lambda, use exact iterative formula
+  let sum = 0;
+  let term = Math.exp(-lambda);
+
+  for (let i = 0; i <= kFloor; i++) {
+    sum += term;
+    if (i < kFloor) {
+      term *= lambda / (i + 1);
+    }
+  }
+
+  return Math.min(1, sum); // Clamp to [0, 1] for numerical stability
+}
+
+/** P(coverage ≥ 1 − ε) at sampling fraction α. */
+export function coverageProbability(
+  { U, R, epsilon, alpha }: CoverageParams,
+  method: CoverageMethod = 'exact',
+): number {
+  const lambda = U * Math.exp(-alpha * R); // expected uncovered coupons
+  // P(uncovered ≤ ε|U|)
+  return method === 'exact'
+    ? Math.exp(logPoissonCdf(epsilon * U, lambda))
+    : approxPoissonCDF(epsilon * U, lambda);
+}
+
+/** Natural log of the exact P(coverage ≥ 1 − ε); finite where it underflows. */
+export function logCoverageProbability({ U, R, epsilon, alpha }: CoverageParams): number {
+  return logPoissonCdf(epsilon * U, U * Math.exp(-alpha * R));
+}
+
+/**
+ * αR − log(1/ε): negative below the critical point α_c = log(1/ε)/R,
+ * positive above it, zero on the boundary.
+ */
+export function criticalGap({ R, epsilon, alpha }: CoverageParams): number {
+  return alpha * R - Math.log(1 / epsilon);
+}
+
+const toSpace = (axis: SweepRange, v: number) => (axis.log ? Math.log10(v) : v);
+const fromSpace = (axis: SweepRange, t: number) => (axis.log ? 10 ** t : t);
+
+/** The `count` grid values of `axis`, evenly spaced (in log space for log axes). */
+export function axisValues(axis: SweepAxis): number[] {
+  const a = toSpace(axis, axis.min);
+  const b = toSpace(axis, axis.max);
+  const n = axis.count;
+  return Array.from({ length: n }, (_, i) => fromSpace(axis, a + ((b - a) * i) / (n - 1)));
+}
+
+/** Parameters at grid point (`xValue`, `yValue`), the rest from `base`. */
+export function sweepPoint(grid: Omit<SweepGrid, 'values'>, xValue: number, yValue: number) {
+  return { ...grid.base, [grid.x.param]: xValue, [grid.y.param]: yValue } as CoverageParams;
+}
+
+/** Probabilities for grid rows `from` ≤ j < `to`, row-major. */
+export function sweepRows(grid: Omit<SweepGrid, 'values'>, from: number, to: number): Float64Array {
+  const xs = axisValues(grid.x);
+  const ys = axisValues(grid.y);
+  const out = new Float64Array((to - from) * xs.length);
+  for (let j = from; j < to; j++) {
+    for (let i = 0; i < xs.length; i++) {
+      const p = sweepPoint(grid, xs[i], ys[j]);
+      out[(j - from) * xs.length + i] = coverageProbability(p, grid.method);
+    }
+  }
+  return out;
+}
+
+/**
+ * The swept probability at (`x`, `y`), interpolated bilinearly between
+ * the four surrounding grid points; NaN outside the grid or next to a
+ * point not yet computed.
+ */
+export function sampleSweep(grid: SweepGrid, x: number, y: number): number {
+  const cell = (axis: SweepAxis, v: number) => {
+    const a = toSpace(axis, axis.min);
+    const b = toSpace(axis, axis.max);
+    return ((toSpace(axis, v) - a) / (b - a)) * (axis.count - 1);
+  };
+  const nx = grid.x.count;
+  const ny = grid.y.count;
+  const fx = cell(grid.x, x);
+  const fy = cell(grid.y, y);
+  if (!(fx >= 0 && fx <= nx - 1 && fy >= 0 && fy <= ny - 1)) return Number.NaN;
+  const i = Math.min(Math.floor(fx), nx - 2);
+  const j = Math.min(Math.floor(fy), ny - 2);
+  const tx = fx - i;
+  const ty = fy - j;
+  const v = grid.values;
+  const at = (di: number, dj: number) => v[(j + dj) * nx + i + di];
+  return (
+    (1 - ty) * ((1 - tx) * at(0, 0) + tx * at(1, 0)) + ty * ((1 - tx) * at(0, 1) + tx * at(1, 1))
+  );
+}
+
+/** Draws until coverage ≥ 1 − ε of `U` entities, in one simulated trial. */
+export function coverageDraws(U: number, epsilon: number, rng: Rng): number {
+  const target = U - Math.floor(epsilon * U);
+  let draws = 1; // the first draw is always new
+  for (let d = 1; d < target; d++) {
+    // Geometric wait for an entity not yet drawn: success chance (U − d)/U
+    draws += 1 + Math.floor(Math.log(1 - rng()) / Math.log(d / U));
+  }
+  return target > 0 ? draws : 0;
+}
+
+/** `grid`'s rows, `rowsPerChunk` at a time. */
+export function* sweepChunks(
+  grid: Omit<SweepGrid, 'values'>,
+  rowsPerChunk: number,
+): Generator<SweepChunk> {
+  const total = grid.y.count;
+  const step = Math.max(1, rowsPerChunk);
+  for (let from = 0; from < total; from += step) {
+    const to = Math.min(total, from + step);
+    yield { from, to, values: sweepRows(grid, from, to), total };
+  }
+}
+
+/** `job`'s trials, `chunkSize` at a time. */
+export function* drawChunks(job: SimulationJob): Generator<DrawsChunk> {
+  const { U, epsilon, trials, seed } = job;
+  const chunkSize = Math.max(1, job.chunkSize);
+  for (let from = 0; from < trials; from += chunkSize) {
+    const to = Math.min(trials, from + chunkSize);
+    const draws: number[] = [];
+    for (let k = from; k < to; k++) draws.push(coverageDraws(U, epsilon, mulberry32(seed + k)));
+    yield { draws, played: to, total: trials };
+  }
+}
@@ -0,0 +1,29 @@
+// ────────────────────────────────────────────────────────────────────
+// Web Worker host for coverage-probability sweeps and simulations.
+//
+// Streams a sweep's rows (`sweepChunks` in ./coverage) or a simulation's
+// trials (`drawChunks`) back to the page through `serveStream`
+// (./streaming), posting each chunk as soon as it is done. Row values
+// are transferred rather than copied.
+//
+// Spawned by `useCoverageSweep` and `useCoverageSimulation`, one worker
+// each; not imported anywhere else.
+// ────────────────────────────────────────────────────────────────────
+
+import { drawChunks, sweepChunks } from './coverage';
+import type { DrawsChunk, SimulationJob, SweepChunk, SweepGrid } from './coverage';
+import { serveStream } from './streaming';
+
+export type CoverageJob =
+  | ({
+      type: 'sweep';
+      /** grid rows per streamed chunk */
+      rowsPerChunk: number;
+    } & Omit<SweepGrid, 'values'>)
+  | ({ type: 'simulate' } & SimulationJob);
+
+serveStream(
+  (job: CoverageJob): Iterable<SweepChunk | DrawsChunk> =>
+    job.type === 'sweep' ? sweepChunks(job, job.rowsPerChunk) : drawChunks(job),
+  (chunk) => ('values' in chunk ? [chunk.values.buffer] : []),
+);
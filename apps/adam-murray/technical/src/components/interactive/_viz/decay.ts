@@ -0,0 +1,236 @@
+// ────────────────────────────────────────────────────────────────────
+// Information decay laws and budget-constrained sampling schedules.
+//
+// Pure math. No React, no canvas, no DOM.
+//
+// A sample taken at time t is worth I(t), which decays: exponentially,
+// as a power law, as a stretched exponential, piecewise-linearly through
+// given knots, or by a typed expression (./expression). Sampling at rate
+// n(t) captures
+//
+//     V[n] = ∫ I(t) · n(t) / (n(t) + κ) dt
+//
+// — diminishing returns, half of what is on offer at rate κ — and a
+// schedule spends ∫ n(t) dt ≤ B with n(t) ≤ n_max. The first-order
+// condition I κ / (n + κ)² = μ gives
+//
+//     n*(t) = clamp(√(κ I(t) / μ) − κ, 0, n_max)
+//
+// and `optimalSchedule` finds the multiplier μ by bisection, so any decay
+// law works. As κ → 0 this is n* ∝ √I, the article's exp(−λt/2) for
+// exponential decay (Theorem 5.4).
+//
+// Schedules are piecewise constant on equal steps of [0, horizon], with
+// I(t) read at each step's midpoint (`informationGrid`).
+// ────────────────────────────────────────────────────────────────────
+
+import { compileExpression } from './expression';
+
+export type DecayFamily = 'exponential' | 'power' | 'stretched' | 'piecewise' | 'expression';
+
+export const DECAY_FAMILIES: Record<DecayFamily, { label: string; formula: string }> = {
+  exponential: { label: 'Exponential', formula: 'I₀·exp(−λt)' },
+  power: { label: 'Power law', formula: 'I₀·(1 + λt)^−β' },
+  stretched: { label: 'Stretched exponential', formula: 'I₀·exp(−(λt)^β)' },
+  piecewise: { label: 'Piecewise linear', formula: 'linear between knots t:I' },
+  expression: { label: 'Expression', formula: 'I(t) in t, lambda, beta, I0' },
+};
+
+export interface DecayModel {
+  family: DecayFamily;
+  /** information per sample at t = 0 */
+  I0: number;
+  /** decay rate λ (time scale 1/λ) */
+  lambda: number;
+  /** shape exponent β of the power-law and stretched families */
+  beta: number;
+  /** the piecewise family's knots, 't:I' pairs, e.g. '0:100, 120:30' */
+  knots: string;
+  /** the expression family's I(t) */
+  expression: string;
+}
+
+export interface ScheduleGrid {
+  horizon: number;
+  /** I(t) at the midpoint of each step */
+  info: Float64Array;
+}
+
+export interface BudgetOptions {
+  /** total samples B = ∫ n(t) dt */
+  budget: number;
+  /** rate cap n_max */
+  maxRate: number;
+}
+
+/**
+ * Knots 't:I' separated by commas, semicolons or whitespace, with t
+ * strictly increasing and I ≥ 0. Throws on anything else.
+ */
+export function parseKnots(text: string): Array<[number, number]> {
+  const fail = (msg: string): never => {
+    throw new Error(`Invalid knots "${text}": ${msg}`);
+  };
+  const knots: Array<[number, number]> = [];
+  for (const part of text.split(/[,;\s]+/).filter(Boolean)) {
+    const m = /^([^:]+):([^:]+)$/.exec(part);
+    if (!m) return fail(`expected t:I, got "${part}"`);
+    const t = Number(m[1]);
+    const value = Number(m[2]);
+    if (!Number.isFinite(t) || !Number.isFinite(value)) fail(`"${part}" is not numeric`);
+    if (value < 0) fail(`I must be ≥ 0 at t = ${t}`);
+    if (knots.length > 0 && t <= knots[knots.length - 1][0]) fail('t must increase');
+    knots.push([t, value]);
+  }
+  if (knots.length === 0) fail('no knots');
+  return knots;
+}
+
+/**
+ * I(t) of `model`. Piecewise curves hold their end values beyond the
+ * first and last knots. Throws when the knots or expression do not parse.
+ */
+export function informationCurve(model: DecayModel): (t: number) => number {
+  const { I0, lambda, beta } = model;
+  switch (model.family) {
+    case 'exponential':
+      return (t) => I0 * Math.exp(-lambda * t);
+    case 'power':
+      return (t) => I0 * (1 + lambda * t) ** -beta;
+    case 'stretched':
+      return (t) => I0 * Math.exp(-((lambda * t) ** beta));
+    case 'piecewise': {
+      const knots = parseKnots(model.knots);
+      return (t) => {
+        if (t <= knots[0][0]) return knots[0][1];
+        for (let k = 1; k < knots.length; k++) {
+          const [t1, v1] = knots[k];
+          if (t <= t1) {
+            const [t0, v0] = knots[k - 1];
+            return v0 + ((v1 - v0) * (t - t0)) / (t1 - t0);
+          }
+        }
+        return knots[knots.length - 1][1];
+      };
+    }
+    case 'expression': {
+      const f = compileExpression(model.expression, ['t', 'lambda', 'beta', 'I0']);
+      return (t) => f({ t, lambda, beta, I0 });
+    }
+  }
+}
+
+/** `info` read at the midpoints of `steps` equal steps of [0, `horizon`]. */
+export function informationGrid(
+  info: (t: number) => number,
+  horizon: number,
+  steps = 200,
+): ScheduleGrid {
+  const dt = horizon / steps;
+  const values = new Float64Array(steps);
+  for (let i = 0; i < steps; i++) {
+    const t = (i + 0.5) * dt;
+    const v = info(t);
+    if (!(v >= 0 && Number.isFinite(v))) {
+      throw new Error(`I(t) must be finite and ≥ 0, got ${v} at t = ${+t.toPrecision(4)}`);
+    }
+    values[i] = v;
+  }
+  return { horizon, info: values };
+}
+
+/** Samples a schedule spends, ∫ n(t) dt. */
+export function scheduleSamples(grid: ScheduleGrid, rates: Float64Array): number {
+  const dt = grid.horizon / grid.info.length;
+  return rates.reduce((s, n) => s + n * dt, 0);
+}
+
+/** Information a schedule captures, V[n] with half-saturation rate `saturation`. */
+export function scheduleValue(grid: ScheduleGrid, rates: Float64Array, saturation: number): number {
+  const dt = grid.horizon / grid.info.length;
+  let value = 0;
+  for (let i = 0; i < rates.length; i++) {
+    if (rates[i] > 0) value += (grid.info[i] * rates[i] * dt) / (rates[i] + saturation);
+  }
+  return value;
+}
+
+/** Constant rate B/horizon (capped). */
+export function uniformSchedule(grid: ScheduleGrid, { budget, maxRate }: BudgetOptions) {
+  return new Float64Array(grid.info.length).fill(Math.min(maxRate, budget / grid.horizon));
+}
+
+/** The cap rate from t = 0 until the budget runs out, then nothing. */
+export function frontLoadedSchedule(grid: ScheduleGrid, { budget, maxRate }: BudgetOptions) {
+  const dt = grid.horizon / grid.info.length;
+  const rates = new Float64Array(grid.info.length);
+  let left = budget;
+  for (let i = 0; i < rates.length && left > 0; i++) {
+    rates[i] = Math.min(maxRate, left / dt);
+    left -= rates[i] * dt;
+  }
+  return rates;
+}
+
+/**
+ * The schedule maximising V[n] with ∫ n dt ≤ `budget` and n ≤ `maxRate`,
+ * for half-saturation rate `saturation` > 0. Spends the whole budget
+ * unless the cap on the steps where I > 0 cannot absorb it.
+ */
+export function optimalSchedule(
+  grid: ScheduleGrid,
+  { budget, maxRate }: BudgetOptions,
+  saturation: number,
+): Float64Array {
+  const { info } = grid;
+  const kappa = saturation;
+  if (!(kappa > 0)) throw new Error(`Half-saturation rate must be > 0, got ${kappa}`);
+  const rates = new Float64Array(info.length);
+  const top = Math.max(...info);
+  if (!(top > 0) || !(budget > 0) || !(maxRate > 0)) return rates;
+
+  const fill = (mu: number) => {
+    for (let i = 0; i < info.length; i++) {
+      const n = Math.sqrt((kappa * info[i]) / mu) - kappa;
+      rates[i] = Math.min(maxRate, Math.max(0, n));
+    }
+    return scheduleSamples(grid, rates);
+  };
+  // Spending falls as μ grows and is zero from μ = max I / κ; bisect on
+  // log μ for the budget, or stop at the cap if even μ → 0 falls short
+  let hi = Math.log(top / kappa);
+  let lo = hi - 80;
+  if (fill(Math.exp(lo)) <= budget) return rates;
+  for (let k = 0; k < 200 && hi - lo > 1e-13; k++) {
+    const mid = (lo + hi) / 2;
+    if (fill(Math.exp(mid)) > budget) lo = mid;
+    else hi = mid;
+  }
+  fill(Math.exp(hi));
+  return rates;
+}
+
+/**
+ * First t in [0, `horizon`] with I(t) ≤ `fraction` · I(0) (0.5 for the
+ * half-life), refined by bisection; NaN when I stays above it.
+ */
+export function decayTime(info: (t: number) => number, fraction: number, horizon: number): number {
+  const level = fraction * info(0);
+  const steps = 400;
+  let prev = 0;
+  for (let i = 1; i <= steps; i++) {
+    const t = (i / steps) * horizon;
+    if (info(t) <= level) {
+      let lo = prev;
+      let hi = t;
+      for (let k = 0; k < 60; k++) {
+        const mid = (lo + hi) / 2;
+        if (info(mid) <= level) hi = mid;
+        else lo = mid;
+      }
+      return hi;
+    }
+    prev = t;
+  }
+  return Number.NaN;
+}
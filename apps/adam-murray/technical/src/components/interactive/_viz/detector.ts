@@ -0,0 +1,189 @@
+// ────────────────────────────────────────────────────────────────────
+// Detector surfaces and their binned irradiance readout.
+//
+// Pure physics. No React, no canvas, no DOM.
+//
+// A detector is an absorbing line segment (a sensor, a lens aperture, a
+// photodiode strip) whose hits are binned into a position × angle
+// histogram of radiant flux. The surface itself holds no state: `trace`
+// already records every ray that terminates on it as a `RaySegment`
+// with its end point, direction, intensity and `viaScatter` ancestry, so
+// `readDetector` bins those segments after the fact. That keeps
+// detectors plain data (they cross the worker boundary like any other
+// surface) and lets one trace be read out at any resolution.
+//
+// Only rays arriving on the detector's front face — the +normal side,
+// travelling against the normal — are counted. Rays reaching the back
+// face are absorbed but not recorded, like the back of a real sensor.
+//
+// Binning:
+//   • Position: offset of the hit from the segment midpoint, in mm,
+//     measured along a → b, over [−length/2, +length/2].
+//   • Angle: signed angle of incidence from the inward normal, in
+//     degrees, positive when the ray is travelling toward b, over
+//     [−maxAngleDeg, +maxAngleDeg].
+// Flux is split by ancestry into `signal` (some ancestor scattered, so
+// the ray carries an image) and `glare` (purely specular).
+// ────────────────────────────────────────────────────────────────────
+
+import { dot, lineSegment, normalize } from './raytracer';
+import type { Medium, RaySegment, Surface, Vec2 } from './raytracer';
+
+export interface DetectorOptions {
+  /** number of position bins across the detector (default 64) */
+  positionBins?: number;
+  /** number of angle-of-incidence bins (default 9) */
+  angleBins?: number;
+  /** half-range of the angle bins in degrees (default 90) */
+  maxAngleDeg?: number;
+}
+
+export interface DetectorReading {
+  /** detector surface name */
+  name: string;
+  /** detector length, mm */
+  length: number;
+  /** position bin centres, mm from the midpoint along a → b */
+  positions: number[];
+  /** angle bin centres, degrees from the inward normal */
+  angles: number[];
+  /** bin widths: mm for position, degrees for angle */
+  positionBinWidth: number;
+  angleBinWidth: number;
+  /** flux per [position][angle] bin from rays with a scattering ancestor */
+  signal: number[][];
+  /** flux per [position][angle] bin from purely specular rays */
+  glare: number[][];
+  /** number of front-face hits in each class */
+  signalHits: number;
+  glareHits: number;
+}
+
+/**
+ * Absorbing detector along the segment from `a` to `b`, with `medium`
+ * on both sides. Geometrically a `lineSegment` (canonical normal is
+ * (b − a) rotated 90° CCW, and that side is the front face), with an
+ * `interact` that absorbs every ray. Bin settings are recorded in the
+ * surface's `data` for `readDetector`.
+ */
+export function detector(
+  name: string,
+  a: Vec2,
+  b: Vec2,
+  medium: Medium,
+  opts: DetectorOptions = {},
+): Surface {
+  const { positionBins = 64, angleBins = 9, maxAngleDeg = 90 } = opts;
+  return {
+    ...lineSegment(name, a, b, medium, medium),
+    data: { kind: 'detector', name, a, b, medium, positionBins, angleBins, maxAngleDeg },
+    interact: () => [],
+  };
+}
+
+const zeros = (rows: number, cols: number) =>
+  Array.from({ length: rows }, () => new Array<number>(cols).fill(0));
+
+/**
+ * Bin the segments that terminate on `surface` (a `detector`) into its
+ * position × angle histogram. Throws if `surface` is not a detector.
+ */
+export function readDetector(
+  surface: Surface,
+  segments: ReadonlyArray<RaySegment>,
+): DetectorReading {
+  const d = surface.data;
+  if (!d || d.kind !== 'detector') {
+    throw new Error(`Surface "${surface.name}" is not a detector`);
+  }
+  const { positionBins, angleBins, maxAngleDeg } = d;
+  const span = { x: d.b.x - d.a.x, y: d.b.y - d.a.y };
+  const length = Math.sqrt(span.x * span.x + span.y * span.y);
+  const tangent = normalize(span);
+  const normal: Vec2 = { x: -tangent.y, y: tangent.x };
+  const mid: Vec2 = { x: (d.a.x + d.b.x) / 2, y: (d.a.y + d.b.y) / 2 };
+
+  const posWidth = length / positionBins;
+  const angleWidth = (2 * maxAngleDeg) / angleBins;
+  const positions = Array.from(
+    { length: positionBins },
+    (_, i) => -length / 2 + (i + 0.5) * posWidth,
+  );
+  const angles = Array.from(
+    { length: angleBins },
+    (_, j) => -maxAngleDeg + (j + 0.5) * angleWidth,
+  );
+  const signal = zeros(positionBins, angleBins);
+  const glare = zeros(positionBins, angleBins);
+  let signalHits = 0;
+  let glareHits = 0;
+
+  const clampBin = (v: number, n: number) => Math.max(0, Math.min(n - 1, Math.floor(v)));
+  for (const seg of segments) {
+    if (seg.terminatedBy !== 'hit' || seg.surfaceName !== surface.name) continue;
+    const dir = normalize({ x: seg.end.x - seg.start.x, y: seg.end.y - seg.start.y });
+    const cosIn = -dot(dir, normal);
+    if (cosIn <= 0) continue; // back face
+    const angle = (Math.atan2(dot(dir, tangent), cosIn) * 180) / Math.PI;
+    if (Math.abs(angle) > maxAngleDeg) continue;
+    const offset = dot({ x: seg.end.x - mid.x, y: seg.end.y - mid.y }, tangent);
+    const i = clampBin((offset + length / 2) / posWidth, positionBins);
+    const j = clampBin((angle + maxAngleDeg) / angleWidth, angleBins);
+    if (seg.viaScatter === true) {
+      signal[i][j] += seg.intensityEnd;
+      signalHits++;
+    } else {
+      glare[i][j] += seg.intensityEnd;
+      glareHits++;
+    }
+  }
+
+  return {
+    name: surface.name,
+    length,
+    positions,
+    angles,
+    positionBinWidth: posWidth,
+    angleBinWidth: angleWidth,
+    signal,
+    glare,
+    signalHits,
+    glareHits,
+  };
+}
+
+const rowSum = (row: number[]) => row.reduce((s, v) => s + v, 0);
+
+/**
+ * Irradiance across the detector (flux per mm, summed over angle), one
+ * row per position bin — the detector's image profile.
+ */
+export function irradianceProfile(
+  reading: DetectorReading,
+): Array<{ position: number; signal: number; glare: number }> {
+  const width = reading.positionBinWidth;
+  return reading.positions.map((position, i) => ({
+    position,
+    signal: rowSum(reading.signal[i]) / width,
+    glare: rowSum(reading.glare[i]) / width,
+  }));
+}
+
+/** Flux per angle-of-incidence bin, summed over position. */
+export function angularProfile(
+  reading: DetectorReading,
+): Array<{ angle: number; signal: number; glare: number }> {
+  return reading.angles.map((angle, j) => ({
+    angle,
+    signal: reading.signal.reduce((s, row) => s + row[j], 0),
+    glare: reading.glare.reduce((s, row) => s + row[j], 0),
+  }));
+}
+
+/** Total detected flux in each class. */
+export function detectorFlux(reading: DetectorReading): { signal: number; glare: number } {
+  return {
+    signal: reading.signal.reduce((s, row) => s + rowSum(row), 0),
+    glare: reading.glare.reduce((s, row) => s + rowSum(row), 0),
+  };
+}
@@ -0,0 +1,99 @@
+// ────────────────────────────────────────────────────────────────────
+// Energy accounting for the raytracer.
+//
+// Pure data. No React, no canvas, no DOM.
+//
+// `trace` can tally where every unit of emitted flux ends up, into a
+// `TraceStats` accumulator:
+//   • escaped through each side of the scene bounds,
+//   • absorbed by Beer-Lambert attenuation, per medium (by name),
+//   • absorbed at surfaces, per surface (by name) — whatever a custom
+//     `interact` does not re-emit: a Lambertian scatterer's (1 − albedo),
+//     a polarizer's blocked component, everything reaching a detector,
+//   • pruned, by `minIntensity` or by `maxDepth`.
+// For a closed scene these sum to the emitted flux; `energyBudget`
+// reports the remainder as `unaccounted`, which should sit at rounding
+// level. Tallies are plain numbers keyed by name, so stats cross the
+// worker boundary as-is and chunked traces merge by addition.
+// ────────────────────────────────────────────────────────────────────
+
+export type BoundSide = 'xMin' | 'xMax' | 'yMin' | 'yMax';
+
+export interface TraceStats {
+  /** flux carried by the initial rays */
+  emitted: number;
+  /** flux leaving the scene bounds, per side */
+  escaped: Record<BoundSide, number>;
+  /** Beer-Lambert losses, per medium name */
+  absorbedByMedium: Record<string, number>;
+  /** flux a surface's `interact` did not re-emit, per surface name */
+  absorbedBySurface: Record<string, number>;
+  /** flux of rays dropped by the trace's cut-offs */
+  pruned: { minIntensity: number; maxDepth: number };
+}
+
+export interface EnergyBudget {
+  emitted: number;
+  escaped: number;
+  absorbedInMedia: number;
+  absorbedAtSurfaces: number;
+  pruned: number;
+  /** emitted minus everything else; ≈ 0 for an energy-conserving trace */
+  unaccounted: number;
+}
+
+export function emptyTraceStats(): TraceStats {
+  return {
+    emitted: 0,
+    escaped: { xMin: 0, xMax: 0, yMin: 0, yMax: 0 },
+    absorbedByMedium: {},
+    absorbedBySurface: {},
+    pruned: { minIntensity: 0, maxDepth: 0 },
+  };
+}
+
+/** Add `amount` to `record[key]`, creating the entry if needed. */
+export function tally<K extends string>(
+  record: Partial<Record<K, number>>,
+  key: K,
+  amount: number,
+): void {
+  record[key] = (record[key] ?? 0) + amount;
+}
+
+const sumInto = (into: Record<string, number>, from: Record<string, number>) => {
+  for (const [key, v] of Object.entries(from)) tally(into, key, v);
+};
+
+/** Sum of two accumulators, e.g. from separately traced chunks. */
+export function mergeTraceStats(a: TraceStats, b: TraceStats): TraceStats {
+  const out = emptyTraceStats();
+  for (const s of [a, b]) {
+    out.emitted += s.emitted;
+    sumInto(out.escaped, s.escaped);
+    sumInto(out.absorbedByMedium, s.absorbedByMedium);
+    sumInto(out.absorbedBySurface, s.absorbedBySurface);
+    out.pruned.minIntensity += s.pruned.minIntensity;
+    out.pruned.maxDepth += s.pruned.maxDepth;
+  }
+  return out;
+}
+
+const total = (record: Record<string, number>) =>
+  Object.values(record).reduce((s, v) => s + v, 0);
+
+/** Collapse the tallies into the headline energy budget. */
+export function energyBudget(stats: TraceStats): EnergyBudget {
+  const escaped = total(stats.escaped);
+  const absorbedInMedia = total(stats.absorbedByMedium);
+  const absorbedAtSurfaces = total(stats.absorbedBySurface);
+  const pruned = stats.pruned.minIntensity + stats.pruned.maxDepth;
+  return {
+    emitted: stats.emitted,
+    escaped,
+    absorbedInMedia,
+    absorbedAtSurfaces,
+    pruned,
+    unaccounted: stats.emitted - escaped - absorbedInMedia - absorbedAtSurfaces - pruned,
+  };
+}
@@ -0,0 +1,174 @@
+// ────────────────────────────────────────────────────────────────────
+// Arithmetic expressions typed into figures, e.g. a decay law I(t).
+//
+// Pure logic. No React, no canvas, no DOM, and no eval: the text is
+// parsed once by recursive descent into a tree of closures, so a bad
+// expression fails at compile time with a message rather than at every
+// evaluation.
+//
+// Grammar, loosest binding first:
+//
+//     sum     = product (('+' | '-') product)*
+//     product = unary (('*' | '/') unary)*
+//     unary   = ('+' | '-') unary | power
+//     power   = atom ('^' unary)?            right-associative; ** too
+//     atom    = number | name | name '(' sum (',' sum)* ')' | '(' sum ')'
+//
+// so -2^2 = -4 and 2^-1 = 0.5. Names are the caller's variables, the
+// constants `pi` and `e`, or the functions in FUNCTIONS.
+// ────────────────────────────────────────────────────────────────────
+
+/** A compiled expression, evaluated with its variables bound. */
+export type CompiledExpression = (scope: Readonly<Record<string, number>>) => number;
+
+// Functions callable from expressions, with their argument counts. Maps
+// rather than object literals, so inherited names such as `toString` or
+// `constructor` are not mistaken for functions or constants.
+const FUNCTIONS = new Map<string, { arity: number; fn: (...args: number[]) => number }>([
+  ['exp', { arity: 1, fn: Math.exp }],
+  ['log', { arity: 1, fn: Math.log }],
+  ['sqrt', { arity: 1, fn: Math.sqrt }],
+  ['abs', { arity: 1, fn: Math.abs }],
+  ['tanh', { arity: 1, fn: Math.tanh }],
+  ['min', { arity: 2, fn: Math.min }],
+  ['max', { arity: 2, fn: Math.max }],
+  ['pow', { arity: 2, fn: Math.pow }],
+]);
+
+const CONSTANTS = new Map<string, number>([
+  ['pi', Math.PI],
+  ['e', Math.E],
+]);
+
+/** Names of the functions expressions may call. */
+export const EXPRESSION_FUNCTIONS = [...FUNCTIONS.keys()];
+
+type Token = { kind: 'number'; value: number } | { kind: 'name' | 'op'; text: string };
+
+function tokenize(src: string, fail: (msg: string) => never): Token[] {
+  const tokens: Token[] = [];
+  const re =
+    /\s*(?:(\d+\.?\d*(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?)|([A-Za-z_]\w*)|(\*\*|[-+*/^(),]))/iy;
+  let i = 0;
+  while (i < src.length) {
+    if (/^\s*$/.test(src.slice(i))) break;
+    re.lastIndex = i;
+    const m = re.exec(src);
+    if (!m) return fail(`unexpected "${src.slice(i).trim()[0]}"`);
+    if (m[1] !== undefined) tokens.push({ kind: 'number', value: Number(m[1]) });
+    else if (m[2] !== undefined) tokens.push({ kind: 'name', text: m[2] });
+    else tokens.push({ kind: 'op', text: m[3] === '**' ? '^' : m[3] });
+    i = re.lastIndex;
+  }
+  return tokens;
+}
+
+/**
+ * Compiles `text` over the variables `variables` (e.g. ['t', 'lambda']).
+ * Throws on syntax errors, unknown names and wrong argument counts.
+ */
+export function compileExpression(text: string, variables: readonly string[]): CompiledExpression {
+  const fail = (msg: string): never => {
+    throw new Error(`Invalid expression "${text}": ${msg}`);
+  };
+  const tokens = tokenize(text, fail);
+  let i = 0;
+  const isOp = (op: string) => {
+    const tok = tokens[i];
+    return tok?.kind === 'op' && tok.text === op;
+  };
+  const expect = (op: string) => {
+    if (!isOp(op)) fail(`expected "${op}"`);
+    i++;
+  };
+
+  const sum = (): CompiledExpression => {
+    let left = product();
+    while (isOp('+') || isOp('-')) {
+      const minus = isOp('-');
+      i++;
+      const a = left;
+      const b = product();
+      left = minus ? (s) => a(s) - b(s) : (s) => a(s) + b(s);
+    }
+    return left;
+  };
+
+  const product = (): CompiledExpression => {
+    let left = unary();
+    while (isOp('*') || isOp('/')) {
+      const divide = isOp('/');
+      i++;
+      const a = left;
+      const b = unary();
+      left = divide ? (s) => a(s) / b(s) : (s) => a(s) * b(s);
+    }
+    return left;
+  };
+
+  const unary = (): CompiledExpression => {
+    if (isOp('-')) {
+      i++;
+      const a = unary();
+      return (s) => -a(s);
+    }
+    if (isOp('+')) {
+      i++;
+      return unary();
+    }
+    return power();
+  };
+
+  const power = (): CompiledExpression => {
+    const base = atom();
+    if (!isOp('^')) return base;
+    i++;
+    const exponent = unary();
+    return (s) => base(s) ** exponent(s);
+  };
+
+  const atom = (): CompiledExpression => {
+    const tok = tokens[i];
+    if (!tok) return fail('unexpected end');
+    i++;
+    if (tok.kind === 'number') {
+      const { value } = tok;
+      return () => value;
+    }
+    if (tok.kind === 'op') {
+      if (tok.text !== '(') return fail(`unexpected "${tok.text}"`);
+      const inner = sum();
+      expect(')');
+      return inner;
+    }
+    const name = tok.text;
+    if (isOp('(')) {
+      const f = FUNCTIONS.get(name);
+      if (!f) return fail(`unknown function ${name}`);
+      i++;
+      const args = [sum()];
+      while (isOp(',')) {
+        i++;
+        args.push(sum());
+      }
+      expect(')');
+      if (args.length !== f.arity) {
+        fail(`${name} takes ${f.arity} argument${f.arity === 1 ? '' : 's'}`);
+      }
+      const { fn } = f;
+      return args.length === 1 ? (s) => fn(args[0](s)) : (s) => fn(...args.map((arg) => arg(s)));
+    }
+    if (variables.includes(name)) return (s) => s[name];
+    const value = CONSTANTS.get(name);
+    if (value !== undefined) return () => value;
+    return fail(`unknown name ${name}`);
+  };
+
+  if (tokens.length === 0) fail('empty');
+  const compiled = sum();
+  if (i < tokens.length) {
+    const tok = tokens[i];
+    fail(`unexpected "${tok.kind === 'number' ? tok.value : tok.text}"`);
+  }
+  return compiled;
+}
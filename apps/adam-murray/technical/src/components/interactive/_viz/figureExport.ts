@@ -0,0 +1,165 @@
+/**
+ * Export helpers behind the `VizFigure` export menu: turn what a figure shows
+ * into files a reader can take away.
+ *
+ *   • Plot SVGs become standalone documents. Plot themes itself through
+ *     `currentColor` and CSS custom properties (`basePlot`), which mean nothing
+ *     outside the page, so each element's computed colours and fonts — the
+ *     resolved design-token values — are inlined, and the paper colour is laid
+ *     under the chart as a background.
+ *   • Canvases are redrawn at 2× their on-screen size and saved as PNG.
+ *   • Series data is written as CSV (one file per table) or as one JSON file.
+ *     `parseCsv` reads such tables back, for figures that accept uploads.
+ */
+
+/** Named tables of plain records, e.g. the series behind a chart. */
+export type FigureData = Record<string, ReadonlyArray<Record<string, unknown>>>;
+
+// Presentation properties inlined into exported SVGs.
+const SVG_PAINT = ['fill', 'stroke', 'color', 'opacity'] as const;
+const SVG_TEXT = ['font-family', 'font-size', 'font-weight'] as const;
+
+const PNG_SCALE = 2;
+
+/** `name` reduced to a safe file-name stem. */
+export function fileStem(name: string | undefined, fallback = 'figure'): string {
+  const stem = (name ?? '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return stem || fallback;
+}
+
+/**
+ * Save `blob` as `filename` through a temporary link. The object URL is
+ * revoked on a later task: some browsers start the download only after
+ * `click()` returns, and revoking at once can cancel it.
+ */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * The chart SVG of every `PlotFigure` inside `root`. Plot wraps a chart that
+ * has legends in a <figure>; its root SVG is the one classed `plot-<hash>`
+ * (legend ramps and swatches carry a suffixed class).
+ */
+export function plotSvgs(root: Element): SVGSVGElement[] {
+  const out: SVGSVGElement[] = [];
+  for (const host of root.querySelectorAll('[data-viz-plot]')) {
+    const svgs = [...host.querySelectorAll('svg')];
+    const chart = svgs.find((s) => [...s.classList].some((c) => /^plot-[0-9a-f]+$/.test(c)));
+    const pick = chart ?? svgs[svgs.length - 1];
+    if (pick) out.push(pick);
+  }
+  return out;
+}
+
+/** A standalone SVG document for `svg`, with its computed styles inlined. */
+export function standaloneSvg(svg: SVGSVGElement): string {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  const originals = [svg, ...svg.querySelectorAll('*')];
+  const copies = [clone, ...clone.querySelectorAll('*')];
+  for (const [i, el] of originals.entries()) {
+    const copy = copies[i];
+    if (!(copy instanceof SVGElement)) continue;
+    const cs = getComputedStyle(el);
+    const props =
+      el === svg || el instanceof SVGTextElement ? [...SVG_PAINT, ...SVG_TEXT] : SVG_PAINT;
+    for (const p of props) copy.style.setProperty(p, cs.getPropertyValue(p));
+  }
+
+  const { width, height } = svg.getBoundingClientRect();
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  if (!clone.getAttribute('width')) clone.setAttribute('width', String(Math.round(width)));
+  if (!clone.getAttribute('height')) clone.setAttribute('height', String(Math.round(height)));
+
+  const paper = getComputedStyle(document.documentElement).getPropertyValue('--paper').trim();
+  if (paper) {
+    const bg = document.createElementNS('http://www.w3.org/2000/svg', 'rect');
+    bg.setAttribute('width', '100%');
+    bg.setAttribute('height', '100%');
+    bg.setAttribute('fill', paper);
+    clone.insertBefore(bg, clone.firstChild);
+  }
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(clone)}`;
+}
+
+/**
+ * `canvas` redrawn at 2× its on-screen size, as a PNG. Canvases shown with
+ * `image-rendering: pixelated` (e.g. `CameraView`) are scaled without
+ * smoothing so their pixels stay crisp.
+ */
+export function canvasPng(canvas: HTMLCanvasElement): Promise<Blob | null> {
+  const rect = canvas.getBoundingClientRect();
+  const out = document.createElement('canvas');
+  out.width = Math.max(1, Math.round((rect.width || canvas.width) * PNG_SCALE));
+  out.height = Math.max(1, Math.round((rect.height || canvas.height) * PNG_SCALE));
+  const ctx = out.getContext('2d');
+  if (ctx) {
+    ctx.imageSmoothingEnabled = getComputedStyle(canvas).imageRendering !== 'pixelated';
+    ctx.drawImage(canvas, 0, 0, out.width, out.height);
+  }
+  return new Promise((resolve) => out.toBlob(resolve, 'image/png'));
+}
+
+function csvCell(v: unknown): string {
+  if (v === null || v === undefined) return '';
+  const s = typeof v === 'object' ? JSON.stringify(v) : String(v);
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+/** `rows` as CSV; the columns are every key, in order of first appearance. */
+export function toCsv(rows: ReadonlyArray<Record<string, unknown>>): string {
+  const columns: string[] = [];
+  for (const row of rows) {
+    for (const key of Object.keys(row)) if (!columns.includes(key)) columns.push(key);
+  }
+  const lines = [columns.map(csvCell).join(',')];
+  for (const row of rows) lines.push(columns.map((c) => csvCell(row[c])).join(','));
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * CSV text as records keyed by its header line; the inverse of `toCsv` for
+ * flat values. Quoted cells may hold commas, doubled quotes and newlines;
+ * blank lines are skipped and cells missing from short lines read as ''.
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const lines: string[][] = [];
+  let line: string[] = [];
+  let cell = '';
+  let quoted = false;
+  const src = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch !== '"') cell += ch;
+      else if (src[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else quoted = false;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',') {
+      line.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i++;
+      line.push(cell);
+      lines.push(line);
+      line = [];
+      cell = '';
+    } else cell += ch;
+  }
+  if (cell !== '' || line.length > 0) lines.push([...line, cell]);
+
+  const [header, ...body] = lines.filter((l) => l.some((c) => c.trim() !== ''));
+  if (!header) return [];
+  const columns = header.map((c) => c.trim());
+  return body.map((l) => Object.fromEntries(columns.map((c, k) => [c, l[k] ?? ''])));
+}
@@ -2,7 +2,34 @@ import './viz.css';
 
 export { useThemeTokens } from './useThemeTokens';
 export type { ThemeTokens } from './useThemeTokens';
+export { useTraceWorker } from './useTraceWorker';
+export type { TraceWorkerState } from './useTraceWorker';
+export { useCameraRender } from './useCameraRender';
+export type { CameraRenderState, CameraRenderOptions } from './useCameraRender';
+export { useUrlState } from './useUrlState';
+export { usePrefersReducedMotion } from './useReducedMotion';
+export { useTimeline } from './useTimeline';
+export type { Timeline, TimelineOptions } from './useTimeline';
+export { useRecorder } from './useRecorder';
+export type { Recorder } from './useRecorder';
+export { useClothBatch } from './useClothBatch';
+export type { ClothBatchState, ClothBatchOptions } from './useClothBatch';
+export { useCoverageSweep } from './useCoverageSweep';
+export type { CoverageSweepState, CoverageSweepOptions } from './useCoverageSweep';
+export { useCoverageSimulation } from './useCoverageSimulation';
+export type {
+  CoverageSimulationState,
+  CoverageSimulationOptions,
+} from './useCoverageSimulation';
+export { useAdductLibrary } from './useAdductLibrary';
+export type { AdductLibrary } from './useAdductLibrary';
 export { default as PlotFigure, basePlot } from './PlotFigure';
+export { default as DetectorProfile } from './DetectorProfile';
+export { default as CameraView } from './CameraView';
+export { default as SceneEditor } from './SceneEditor';
+export { default as EnergyBudgetPanel } from './EnergyBudgetPanel';
+export { default as TimelineControls } from './TimelineControls';
+export { default as LibraryCollisionPanel } from './LibraryCollisionPanel';
 export {
   VizFigure,
   VizSurface,
@@ -11,7 +38,204 @@ export {
   Select,
   StatCard,
   Legend,
+  LiveRegion,
 } from './Controls';
+export { standaloneSvg, canvasPng, toCsv, parseCsv, plotSvgs, downloadBlob } from './figureExport';
+export type { FigureData } from './figureExport';
+export { encodeApng, recordingSupported } from './recording';
+export type { RecordingFormat, PngFrame } from './recording';
 
 // Pure-physics 2D ray tracer used by optics simulations.
 export * from './raytracer';
+export {
+  sampleSpectrum,
+  monochromatic,
+  SODIUM_LAMP,
+  WHITE_LED,
+  EQUAL_ENERGY_WHITE,
+  withSpectrum,
+  wavelengthToRgb,
+} from './spectrum';
+export type { Spectrum } from './spectrum';
+export { mulberry32, rngFor, samplePoints, poissonArrivals } from './sampling';
+export type { Rng, SamplingMode, SourceSampling } from './sampling';
+export {
+  detector,
+  readDetector,
+  irradianceProfile,
+  angularProfile,
+  detectorFlux,
+} from './detector';
+export type { DetectorOptions, DetectorReading } from './detector';
+export {
+  emptyTraceStats,
+  mergeTraceStats,
+  energyBudget,
+} from './energy';
+export type { TraceStats, EnergyBudget, BoundSide } from './energy';
+export { buildBvh, unionBounds, boundsOfPoints } from './bvh';
+export type { Bvh, BvhHit } from './bvh';
+export {
+  isSceneSerializable,
+  sceneToData,
+  sceneFromData,
+  surfaceFromData,
+  sourceFromData,
+} from './sceneData';
+export type { SceneData, SurfaceData, SourceData } from './sceneData';
+export {
+  SCENE_FILE_VERSION,
+  exportSceneFile,
+  loadSceneFile,
+  parseSceneFile,
+} from './sceneFile';
+export {
+  outlineOf,
+  handlesOf,
+  moveHandle,
+  snapToGrid,
+  snapDirection,
+} from './sceneEditing';
+export type { EditableScene, Handle } from './sceneEditing';
+export type {
+  SceneFile,
+  MediumJson,
+  SurfaceJson,
+  SourceJson,
+  LoadedScene,
+} from './sceneFile';
+
+// Competitive cellular automata (Cloth of Gold) and their RLE patterns.
+export {
+  RULE_SETS,
+  MAX_PLAYERS,
+  CONTESTED_OWNER,
+  ruleString,
+  parseRuleString,
+  randomCells,
+  symmetricCells,
+  createAutomaton,
+  setAutomatonCell,
+  stepAutomaton,
+  populationsOf,
+  territoryOf,
+  territoryBlock,
+} from './automaton';
+export type { RuleSet, Edges, InfluenceKernel, Automaton, Territory } from './automaton';
+export { parseRle, toRle, stampPattern, PRESET_PATTERNS } from './rle';
+export type { Pattern } from './rle';
+export { runGame } from './clothBatch';
+export type { BatchConfig, BatchRun, BatchStart } from './clothBatch';
+export {
+  Z95,
+  meanInterval,
+  proportionInterval,
+  chiSquareTest,
+  ksTest,
+} from './statistics';
+export type { Interval, FitTest } from './statistics';
+export { compileExpression, EXPRESSION_FUNCTIONS } from './expression';
+export type { CompiledExpression } from './expression';
+export {
+  DECAY_FAMILIES,
+  parseKnots,
+  informationCurve,
+  informationGrid,
+  scheduleSamples,
+  scheduleValue,
+  uniformSchedule,
+  frontLoadedSchedule,
+  optimalSchedule,
+  decayTime,
+} from './decay';
+export type { DecayFamily, DecayModel, ScheduleGrid, BudgetOptions } from './decay';
+export {
+  SWEEP_RANGES,
+  approxNormalCDF,
+  approxPoissonCDF,
+  coverageProbability,
+  logCoverageProbability,
+  criticalGap,
+  axisValues,
+  sweepPoint,
+  sweepRows,
+  sampleSweep,
+  coverageDraws,
+} from './coverage';
+export type {
+  CoverageMethod,
+  CoverageParams,
+  CoverageParam,
+  SweepRange,
+  SweepAxis,
+  SweepGrid,
+} from './coverage';
+export {
+  logGamma,
+  logChoose,
+  log1mExp,
+  logAddExp,
+  logGammaP,
+  logGammaQ,
+  gammaP,
+  gammaQ,
+  logPoissonCdf,
+  poissonCdf,
+  logPoissonSf,
+  logBetaRegularized,
+  betaRegularized,
+  logBinomialCdf,
+  binomialCdf,
+  erfc,
+  logErfc,
+  normalCdf,
+  logNormalCdf,
+  logHypergeometricPmf,
+  hypergeometricPmf,
+  logHypergeometricCdf,
+  hypergeometricCdf,
+} from './numerics';
+
+// Mass-spectrometry adducts and instrument profiles.
+export {
+  ADDUCT_TABLE,
+  ADDUCT_CSV_COLUMNS,
+  BUILTIN_PROFILES,
+  ionLine,
+  adductMz,
+  mergeAdducts,
+  isAdduct,
+  adductsFromRows,
+} from './adducts';
+export type { Adduct, IonMode, InstrumentProfile } from './adducts';
+export {
+  MAX_LIBRARY_MEMBERS,
+  parseBuildingBlocks,
+  librarySlots,
+  librarySize,
+  memberBlocks,
+  memberName,
+  enumerateIons,
+  findCollisions,
+  worstOffenders,
+  ionDensity,
+} from './libraryCollisions';
+export type {
+  BuildingBlock,
+  LibraryIons,
+  CollisionReport,
+  CollisionPartner,
+  Offender,
+  DensityBin,
+} from './libraryCollisions';
+export {
+  ISOTOPE_ELEMENTS,
+  parseFormula,
+  addFormula,
+  formatFormula,
+  monoisotopicMass,
+  isotopeDistribution,
+  adductComposition,
+  ionEnvelope,
+} from './isotopes';
+export type { Formula, IsotopePeak } from './isotopes';
@@ -0,0 +1,288 @@
+// ────────────────────────────────────────────────────────────────────
+// Molecular formulas and isotope envelopes for mass-spectrometry figures.
+//
+// Pure data and logic. No React, no canvas, no DOM.
+//
+// `isotopeDistribution` convolves per-element isotope patterns (IUPAC
+// masses and natural abundances) by repeated squaring, aggregating
+// isotopologues by nominal mass shift (M, M+1, M+2, …) with an
+// abundance-weighted centroid mass — what an instrument at the unit-to-
+// ~0.01 Da resolution of these figures reports as one peak. Peaks below
+// 1e-12 of the tallest are pruned as they go.
+//
+// `ionEnvelope` applies that to an adduct ion: `multimer` copies of the
+// molecule plus the atoms the adduct adds (less those it removes), read
+// from the adduct id ('[M+Cl]-' adds Cl, so the envelope gains chlorine's
+// M+2). Peaks are reported as m/z offsets from the monoisotopic ion, so
+// a charge-2 ion's M+1 sits at about +0.5.
+// ────────────────────────────────────────────────────────────────────
+
+import type { Adduct } from './adducts';
+
+/** Element counts, e.g. { C: 6, H: 12, O: 6 }. */
+export type Formula = Record<string, number>;
+
+export interface IsotopePeak {
+  /** nominal shift from the monoisotopic peak: 0 for M, 1 for M+1, … */
+  shift: number;
+  /** centroid mass, Da (or m/z offset for `ionEnvelope`) */
+  mass: number;
+  /** abundance relative to the tallest peak (which is 1) */
+  abundance: number;
+}
+
+// [mass, abundance] of each stable isotope, lightest (monoisotopic) first
+const ISOTOPES: Record<string, ReadonlyArray<readonly [number, number]>> = {
+  H: [
+    [1.00782503207, 0.999885],
+    [2.0141017778, 0.000115],
+  ],
+  C: [
+    [12, 0.9893],
+    [13.0033548378, 0.0107],
+  ],
+  N: [
+    [14.0030740048, 0.99636],
+    [15.0001088982, 0.00364],
+  ],
+  O: [
+    [15.99491461956, 0.99757],
+    [16.9991317, 0.00038],
+    [17.999161, 0.00205],
+  ],
+  F: [[18.99840322, 1]],
+  Na: [[22.9897692809, 1]],
+  Si: [
+    [27.9769265325, 0.92223],
+    [28.9764947, 0.04685],
+    [29.97377017, 0.03092],
+  ],
+  P: [[30.97376163, 1]],
+  S: [
+    [31.972071, 0.9499],
+    [32.97145876, 0.0075],
+    [33.9678669, 0.0425],
+    [35.96708076, 0.0001],
+  ],
+  Cl: [
+    [34.96885268, 0.7576],
+    [36.96590259, 0.2424],
+  ],
+  K: [
+    [38.96370668, 0.932581],
+    [39.96399848, 0.000117],
+    [40.96182576, 0.067302],
+  ],
+  Br: [
+    [78.9183371, 0.5069],
+    [80.9162906, 0.4931],
+  ],
+  I: [[126.904473, 1]],
+};
+
+/** Elements `parseFormula` accepts. */
+export const ISOTOPE_ELEMENTS = Object.keys(ISOTOPES);
+
+// Abbreviations used in adduct ids (see ADDUCT_TABLE)
+const ABBREVIATIONS: Record<string, string> = {
+  ACN: 'C2H3N',
+  IPA: 'C3H8O',
+  DMSO: 'C2H6OS',
+  TFA: 'C2HF3O2',
+  FA: 'CH2O2',
+  HCOO: 'CHO2',
+  CH3COO: 'C2H3O2',
+};
+
+const PRUNE = 1e-12;
+const MAX_SHIFT = 64;
+
+/**
+ * `text` as element counts. Accepts element symbols with optional counts
+ * and parenthesised groups with multipliers, e.g. 'C6H12O6' or
+ * '(CH3)2SO'. Throws on unknown elements or unbalanced brackets.
+ */
+export function parseFormula(text: string): Formula {
+  const src = text.replace(/\s+/g, '');
+  let i = 0;
+  const fail = (msg: string): never => {
+    throw new Error(`Invalid formula "${text}": ${msg}`);
+  };
+  const count = () => {
+    const m = /^\d+/.exec(src.slice(i));
+    if (!m) return 1;
+    i += m[0].length;
+    return Number(m[0]);
+  };
+  const group = (): Formula => {
+    const out: Formula = {};
+    while (i < src.length && src[i] !== ')') {
+      let part: Formula;
+      if (src[i] === '(') {
+        i++;
+        part = group();
+        if (src[i] !== ')') fail('missing ")"');
+        i++;
+      } else {
+        const m = /^[A-Z][a-z]?/.exec(src.slice(i));
+        if (!m) return fail(`unexpected "${src[i]}"`);
+        const symbol = m[0];
+        if (!(symbol in ISOTOPES)) fail(`unknown element ${symbol}`);
+        i += symbol.length;
+        part = { [symbol]: 1 };
+      }
+      const n = count();
+      for (const [el, c] of Object.entries(part)) out[el] = (out[el] ?? 0) + c * n;
+    }
+    return out;
+  };
+  const formula = group();
+  if (i < src.length) fail('unbalanced ")"');
+  if (Object.keys(formula).length === 0) fail('no elements');
+  return formula;
+}
+
+/** `a` + `scale` · `b`, dropping elements that cancel to zero. */
+export function addFormula(a: Formula, b: Formula, scale = 1): Formula {
+  const out: Formula = { ...a };
+  for (const [el, c] of Object.entries(b)) {
+    out[el] = (out[el] ?? 0) + scale * c;
+    if (out[el] === 0) delete out[el];
+  }
+  return out;
+}
+
+/** Formula in Hill order (C, H, then alphabetical), e.g. 'C6H12O6'. */
+export function formatFormula(formula: Formula): string {
+  const els = Object.keys(formula).sort((a, b) => {
+    const rank = (e: string) => (e === 'C' ? 0 : e === 'H' ? 1 : 2);
+    return rank(a) - rank(b) || a.localeCompare(b);
+  });
+  return els.map((e) => `${e}${formula[e] === 1 ? '' : formula[e]}`).join('');
+}
+
+/** Monoisotopic mass of `formula`, Da. */
+export function monoisotopicMass(formula: Formula): number {
+  let mass = 0;
+  for (const [el, c] of Object.entries(formula)) mass += c * ISOTOPES[el][0][0];
+  return mass;
+}
+
+// A distribution over nominal shifts: probability and probability-weighted mass
+interface Dist {
+  p: Float64Array;
+  pm: Float64Array;
+}
+
+function convolve(a: Dist, b: Dist): Dist {
+  const len = Math.min(a.p.length + b.p.length - 1, MAX_SHIFT + 1);
+  const p = new Float64Array(len);
+  const pm = new Float64Array(len);
+  for (let i = 0; i < a.p.length; i++) {
+    if (a.p[i] === 0) continue;
+    for (let j = 0; j < b.p.length && i + j < len; j++) {
+      if (b.p[j] === 0) continue;
+      p[i + j] += a.p[i] * b.p[j];
+      pm[i + j] += a.pm[i] * b.p[j] + a.p[i] * b.pm[j];
+    }
+  }
+  // Prune negligible peaks, relative to the tallest
+  const floor = Math.max(...p) * PRUNE;
+  let end = len;
+  while (end > 1 && p[end - 1] < floor) end--;
+  for (let k = 0; k < end; k++) {
+    if (p[k] < floor) {
+      p[k] = 0;
+      pm[k] = 0;
+    }
+  }
+  return { p: p.slice(0, end), pm: pm.slice(0, end) };
+}
+
+function elementDist(el: string): Dist {
+  const isotopes = ISOTOPES[el];
+  const light = isotopes[0][0];
+  const len = Math.round(isotopes[isotopes.length - 1][0] - light) + 1;
+  const p = new Float64Array(len);
+  const pm = new Float64Array(len);
+  for (const [mass, abundance] of isotopes) {
+    const k = Math.round(mass - light);
+    p[k] += abundance;
+    pm[k] += abundance * mass;
+  }
+  return { p, pm };
+}
+
+function power(d: Dist, n: number): Dist {
+  let result: Dist = { p: Float64Array.of(1), pm: Float64Array.of(0) };
+  let base = d;
+  for (let e = n; e > 0; e >>= 1) {
+    if (e & 1) result = convolve(result, base);
+    if (e > 1) base = convolve(base, base);
+  }
+  return result;
+}
+
+/**
+ * Isotope envelope of `formula`: one peak per nominal shift with relative
+ * abundance ≥ `threshold` (a fraction of the tallest peak). Counts must be
+ * non-negative whole numbers.
+ */
+export function isotopeDistribution(formula: Formula, threshold = 0.001): IsotopePeak[] {
+  let dist: Dist = { p: Float64Array.of(1), pm: Float64Array.of(0) };
+  for (const [el, c] of Object.entries(formula)) {
+    if (!Number.isInteger(c) || c < 0) {
+      throw new Error(`Invalid formula: ${el} count must be a whole number ≥ 0, got ${c}`);
+    }
+    if (c > 0) dist = convolve(dist, power(elementDist(el), c));
+  }
+  const top = Math.max(...dist.p);
+  const peaks: IsotopePeak[] = [];
+  for (let k = 0; k < dist.p.length; k++) {
+    const abundance = dist.p[k] / top;
+    if (dist.p[k] > 0 && abundance >= threshold) {
+      peaks.push({ shift: k, mass: dist.pm[k] / dist.p[k], abundance });
+    }
+  }
+  return peaks;
+}
+
+/**
+ * Atoms an adduct adds (negative counts for atoms it removes), read from
+ * its id in bracket notation, e.g. '[M+Na-2H]-' → { Na: 1, H: -2 }.
+ * Null when the id is not in that notation or names an unknown species.
+ */
+export function adductComposition(adduct: Adduct): Formula | null {
+  const m = /^\[\d*M((?:[+-]\d*[A-Za-z0-9]+)*)\]\d*[+-]$/.exec(adduct.id);
+  if (!m) return null;
+  let out: Formula = {};
+  for (const [, sign, n, species] of m[1].matchAll(/([+-])(\d*)([A-Za-z][A-Za-z0-9]*)/g)) {
+    let part: Formula;
+    try {
+      part = parseFormula(ABBREVIATIONS[species] ?? species);
+    } catch {
+      return null;
+    }
+    out = addFormula(out, part, (sign === '-' ? -1 : 1) * (n ? Number(n) : 1));
+  }
+  return out;
+}
+
+/**
+ * Isotope envelope of `adduct` on a molecule of formula `molecule`, as
+ * m/z offsets from the monoisotopic ion. When the adduct's atoms are
+ * unknown (custom ids) or remove more than the molecule holds, only the
+ * molecule's own isotopes are used.
+ */
+export function ionEnvelope(molecule: Formula, adduct: Adduct, threshold: number): IsotopePeak[] {
+  const core = addFormula({}, molecule, adduct.multimer);
+  const delta = adductComposition(adduct);
+  const ion = delta ? addFormula(core, delta) : core;
+  const usable = Object.values(ion).every((c) => c >= 0);
+  const used = usable ? ion : core;
+  const mono = monoisotopicMass(used);
+  return isotopeDistribution(used, threshold).map((p) => ({
+    ...p,
+    mass: (p.mass - mono) / adduct.charge,
+  }));
+}
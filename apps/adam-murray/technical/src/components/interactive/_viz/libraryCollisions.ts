@@ -0,0 +1,354 @@
+// ────────────────────────────────────────────────────────────────────
+// Mass collisions across a combinatorial (split-and-pool) library.
+//
+// Pure logic. No React, no canvas, no DOM.
+//
+// A library is a list of positions, each filled by one building block
+// from its set; a member's neutral mass is the scaffold mass plus the
+// masses of its blocks (for cyclic peptides built from residue masses
+// the scaffold is 0). Every member is projected through every adduct
+// (./adducts) and two ions collide when their m/z agree within `ppm`
+// parts per million. Collisions between a member's own ions are not
+// counted — they do not confuse one member with another.
+//
+// The work is split so a tolerance slider stays cheap:
+//   • enumerateIons — O(members · (positions + adducts)) plus a sort of
+//     the member masses; ions come out sorted by m/z (one sorted run per
+//     adduct, k-way merged).
+//   • findCollisions — a two-pointer sweep over the sorted ions that
+//     counts each ion's neighbours by index arithmetic, so dense isobaric
+//     families (permutations of one composition) cost O(ions · adducts)
+//     rather than O(pairs).
+//   • worstOffenders / ionDensity — summaries of a sweep.
+// ────────────────────────────────────────────────────────────────────
+
+import { adductMz } from './adducts';
+import type { Adduct } from './adducts';
+
+export interface BuildingBlock {
+  /** 1-based position, or null for a block usable at every position */
+  position: number | null;
+  name: string;
+  /** monoisotopic mass contributed to the member, Da */
+  mass: number;
+}
+
+/** Largest library `enumerateIons` will expand. */
+export const MAX_LIBRARY_MEMBERS = 250_000;
+
+/**
+ * Building blocks from pasted text or a CSV/TSV file, one per line:
+ * `mass`, `name, mass` or `position, name, mass` (comma, tab, semicolon
+ * or space separated). Blank lines and `#` comments are skipped, as is a
+ * first line whose mass column is not a number (a header). Throws on the
+ * first malformed line.
+ */
+export function parseBuildingBlocks(text: string): BuildingBlock[] {
+  const blocks: BuildingBlock[] = [];
+  let first = true;
+  for (const [k, raw] of text.split(/\r?\n/).entries()) {
+    const line = raw.replace(/#.*/, '').trim();
+    if (!line) continue;
+    const header = first;
+    first = false;
+    const cells = line.split(/\s*[,;\t]\s*|\s+/).filter((c) => c !== '');
+    const fail = (msg: string): never => {
+      throw new Error(`Invalid building blocks: line ${k + 1}: ${msg}`);
+    };
+    if (cells.length > 3) fail(`expected "position, name, mass", got ${cells.length} columns`);
+    const mass = Number(cells[cells.length - 1]);
+    if (!Number.isFinite(mass)) {
+      if (header) continue;
+      fail(`mass must be a number, got "${cells[cells.length - 1]}"`);
+    }
+    let position: number | null = null;
+    if (cells.length === 3) {
+      position = Number(cells[0]);
+      if (!Number.isInteger(position) || position < 1) {
+        fail(`position must be a whole number ≥ 1, got "${cells[0]}"`);
+      }
+    }
+    const name = cells.length >= 2 ? cells[cells.length - 2] : `B${blocks.length + 1}`;
+    blocks.push({ position, name, mass });
+  }
+  return blocks;
+}
+
+/**
+ * The block choices at each position. Blocks without a position fill
+ * every one of `positions`; positioned blocks define their own positions
+ * (the two styles cannot be mixed).
+ */
+export function librarySlots(
+  blocks: readonly BuildingBlock[],
+  positions: number,
+): BuildingBlock[][] {
+  const positioned = blocks.filter((b) => b.position !== null);
+  if (positioned.length === 0) {
+    return blocks.length === 0 ? [] : Array.from({ length: positions }, () => [...blocks]);
+  }
+  if (positioned.length !== blocks.length) {
+    throw new Error('Invalid building blocks: give every block a position, or none');
+  }
+  const count = Math.max(...positioned.map((b) => b.position ?? 0));
+  const slots = Array.from({ length: count }, (_, p) =>
+    positioned.filter((b) => b.position === p + 1),
+  );
+  const empty = slots.findIndex((s) => s.length === 0);
+  if (empty >= 0) throw new Error(`Invalid building blocks: position ${empty + 1} has no blocks`);
+  return slots;
+}
+
+/** Number of members in the library spanned by `slots`. */
+export function librarySize(slots: readonly BuildingBlock[][]): number {
+  return slots.length === 0 ? 0 : slots.reduce((n, s) => n * s.length, 1);
+}
+
+/** Member `index`'s blocks, one per position (mixed-radix digits of the index). */
+export function memberBlocks(slots: readonly BuildingBlock[][], index: number): BuildingBlock[] {
+  const out: BuildingBlock[] = [];
+  let rest = index;
+  for (let p = slots.length - 1; p >= 0; p--) {
+    out[p] = slots[p][rest % slots[p].length];
+    rest = Math.floor(rest / slots[p].length);
+  }
+  return out;
+}
+
+/** Member `index` as its block names, e.g. 'G-A-V-L'. */
+export function memberName(slots: readonly BuildingBlock[][], index: number): string {
+  return memberBlocks(slots, index)
+    .map((b) => b.name)
+    .join('-');
+}
+
+export interface LibraryIons {
+  slots: BuildingBlock[][];
+  adducts: Adduct[];
+  /** neutral mass of each member, by member index */
+  memberMass: Float64Array;
+  /** every (member, adduct) ion, sorted by m/z */
+  mz: Float64Array;
+  member: Uint32Array;
+  /** index into `adducts` */
+  adduct: Uint16Array;
+  /** position in the sorted arrays of ion (member m, adduct a), at m · adducts + a */
+  order: Uint32Array;
+}
+
+/**
+ * Every member of the library through every adduct, sorted by m/z.
+ * Throws when the library is larger than MAX_LIBRARY_MEMBERS.
+ */
+export function enumerateIons(
+  slots: BuildingBlock[][],
+  scaffold: number,
+  adducts: Adduct[],
+): LibraryIons {
+  const members = librarySize(slots);
+  if (members > MAX_LIBRARY_MEMBERS) {
+    throw new Error(
+      `Library too large: ${members.toLocaleString()} members (limit ${MAX_LIBRARY_MEMBERS.toLocaleString()})`,
+    );
+  }
+  const k = adducts.length;
+
+  // Member masses, walking the mixed-radix counter one member at a time
+  const memberMass = new Float64Array(members);
+  const digits = new Array<number>(slots.length).fill(0);
+  for (let m = 0; m < members; m++) {
+    let mass = scaffold;
+    for (let p = 0; p < slots.length; p++) mass += slots[p][digits[p]].mass;
+    memberMass[m] = mass;
+    for (let p = slots.length - 1; p >= 0; p--) {
+      if (++digits[p] < slots[p].length) break;
+      digits[p] = 0;
+    }
+  }
+
+  // Each adduct maps mass to m/z monotonically (slope > 0), so members in
+  // mass order give k sorted runs; merge them.
+  const byMass = new Uint32Array(members);
+  for (let m = 0; m < members; m++) byMass[m] = m;
+  byMass.sort((a, b) => memberMass[a] - memberMass[b]);
+
+  const total = members * k;
+  const mz = new Float64Array(total);
+  const member = new Uint32Array(total);
+  const adduct = new Uint16Array(total);
+  const order = new Uint32Array(total);
+  const heads = new Array<number>(k).fill(0);
+  const next = adducts.map((a) => (members > 0 ? adductMz(a, memberMass[byMass[0]]) : 0));
+  for (let i = 0; i < total; i++) {
+    let best = -1;
+    for (let j = 0; j < k; j++) {
+      if (heads[j] < members && (best < 0 || next[j] < next[best])) best = j;
+    }
+    const m = byMass[heads[best]];
+    mz[i] = next[best];
+    member[i] = m;
+    adduct[i] = best;
+    order[m * k + best] = i;
+    heads[best]++;
+    if (heads[best] < members)
+      next[best] = adductMz(adducts[best], memberMass[byMass[heads[best]]]);
+  }
+
+  return { slots, adducts, memberMass, mz, member, adduct, order };
+}
+
+export interface CollisionReport {
+  ppm: number;
+  /** ion pairs from different members within tolerance */
+  pairs: number;
+  /** ions that collide with at least one other member's ion */
+  collidingIons: number;
+  /** members with at least one colliding ion */
+  collidingMembers: number;
+  /** colliding ion pairs each member takes part in, by member index */
+  memberHits: Uint32Array;
+  /** 1 where the sorted ion collides */
+  ionHit: Uint8Array;
+}
+
+/** Whether sorted ions `lo` < `hi` (by m/z) are within `ppm` of each other. */
+const within = (mz: Float64Array, lo: number, hi: number, ppm: number) =>
+  mz[hi] - mz[lo] <= mz[hi] * ppm * 1e-6;
+
+/** Collisions at `ppm` tolerance (see the header for the cost). */
+export function findCollisions(ions: LibraryIons, ppm: number): CollisionReport {
+  const { mz, member, order, adducts } = ions;
+  const n = mz.length;
+  const k = adducts.length;
+  const memberHits = new Uint32Array(ions.memberMass.length);
+  const ionHit = new Uint8Array(n);
+  let neighbours = 0;
+  // Ion i's window is the index range [lo, hi): both ends only move forward.
+  let lo = 0;
+  let hi = 0;
+  for (let i = 0; i < n; i++) {
+    while (!within(mz, lo, i, ppm)) lo++;
+    if (hi <= i) hi = i + 1;
+    while (hi < n && within(mz, i, hi, ppm)) hi++;
+    let count = hi - lo - 1;
+    // Less the member's own ions that fall in the window
+    const m = member[i];
+    for (let a = 0; a < k; a++) {
+      const j = order[m * k + a];
+      if (j !== i && j >= lo && j < hi) count--;
+    }
+    if (count > 0) {
+      ionHit[i] = 1;
+      memberHits[m] += count;
+      neighbours += count;
+    }
+  }
+  let collidingIons = 0;
+  for (const h of ionHit) collidingIons += h;
+  let collidingMembers = 0;
+  for (const h of memberHits) if (h > 0) collidingMembers++;
+  return { ppm, pairs: neighbours / 2, collidingIons, collidingMembers, memberHits, ionHit };
+}
+
+export interface CollisionPartner {
+  /** this member's ion */
+  adduct: string;
+  mz: number;
+  /** the other member and its ion */
+  partner: string;
+  partnerAdduct: string;
+  partnerMz: number;
+  /** separation in ppm */
+  ppm: number;
+}
+
+export interface Offender {
+  member: number;
+  name: string;
+  mass: number;
+  /** colliding ion pairs */
+  hits: number;
+  /** distinct other members it collides with, up to the requested count */
+  partners: CollisionPartner[];
+}
+
+/** The `count` members in the most collisions, each with a few example partners. */
+export function worstOffenders(
+  ions: LibraryIons,
+  report: CollisionReport,
+  count = 20,
+  partners = 3,
+): Offender[] {
+  const { mz, member, adduct, adducts, order, slots } = ions;
+  const k = adducts.length;
+  const ranked: number[] = [];
+  for (const [m, h] of report.memberHits.entries()) if (h > 0) ranked.push(m);
+  ranked.sort((a, b) => report.memberHits[b] - report.memberHits[a] || a - b);
+
+  return ranked.slice(0, count).map((m) => {
+    const found: CollisionPartner[] = [];
+    const seen = new Set<number>();
+    for (let a = 0; a < k && found.length < partners; a++) {
+      const i = order[m * k + a];
+      const take = (j: number) => {
+        if (member[j] === m || seen.has(member[j])) return;
+        seen.add(member[j]);
+        found.push({
+          adduct: adducts[a].symbol,
+          mz: mz[i],
+          partner: memberName(slots, member[j]),
+          partnerAdduct: adducts[adduct[j]].symbol,
+          partnerMz: mz[j],
+          ppm: (Math.abs(mz[j] - mz[i]) / mz[i]) * 1e6,
+        });
+      };
+      for (let j = i - 1; j >= 0 && found.length < partners && within(mz, j, i, report.ppm); j--) {
+        take(j);
+      }
+      for (
+        let j = i + 1;
+        j < mz.length && found.length < partners && within(mz, i, j, report.ppm);
+        j++
+      ) {
+        take(j);
+      }
+    }
+    return {
+      member: m,
+      name: memberName(slots, m),
+      mass: ions.memberMass[m],
+      hits: report.memberHits[m],
+      partners: found,
+    };
+  });
+}
+
+export interface DensityBin {
+  x1: number;
+  x2: number;
+  /** ions in the bin that are resolved */
+  resolved: number;
+  /** ions in the bin that collide */
+  colliding: number;
+}
+
+/** Ion counts over m/z in `bins` equal bins, split by collision status. */
+export function ionDensity(ions: LibraryIons, report: CollisionReport, bins = 120): DensityBin[] {
+  const { mz } = ions;
+  if (mz.length === 0) return [];
+  const lo = mz[0];
+  const hi = mz[mz.length - 1];
+  const width = hi > lo ? (hi - lo) / bins : 1;
+  const out: DensityBin[] = Array.from({ length: hi > lo ? bins : 1 }, (_, b) => ({
+    x1: lo + b * width,
+    x2: lo + (b + 1) * width,
+    resolved: 0,
+    colliding: 0,
+  }));
+  for (let i = 0; i < mz.length; i++) {
+    const bin = out[Math.min(out.length - 1, Math.floor((mz[i] - lo) / width))];
+    if (report.ionHit[i]) bin.colliding++;
+    else bin.resolved++;
+  }
+  return out;
+}
@@ -0,0 +1,308 @@
+// ────────────────────────────────────────────────────────────────────
+// Exact probability routines, accurate in the tails.
+//
+// Pure math. No React, no canvas, no DOM.
+//
+// Everything is built on two pieces:
+//   • the regularized incomplete gamma functions P(a, x) and Q(a, x),
+//     by series below x = a + 1 and by continued fraction above it, with
+//     the prefactor xᵃe⁻ˣ/Γ(a + 1) taken from Loader's saddle-point form
+//     (Stirling error plus a deviance term) so it keeps full relative
+//     precision when a and x are both in the millions;
+//   • the regularized incomplete beta function I_x(a, b), by continued
+//     fraction.
+// Each is computed in log space — the `log…` functions return natural
+// logs — so probabilities far below the smallest double (Poisson tails at
+// λ ≈ 10⁶ reach e⁻¹⁰⁰⁰⁰) are still representable, and a complement is
+// only formed as 1 − v when v is the smaller side.
+//
+// From those: Poisson and binomial CDFs (P(X ≤ k) = Q(k + 1, λ) and
+// I_{1−p}(n − k, k + 1)), erfc(x) = Q(½, x²) with relative accuracy out to
+// where it underflows, the normal CDF, and the hypergeometric PMF and CDF
+// by summing the shorter tail.
+// ────────────────────────────────────────────────────────────────────
+
+const EPS = 1e-16;
+const TINY = 1e-300;
+const MAX_ITERATIONS = 100000;
+const LOG_SQRT_2PI = 0.5 * Math.log(2 * Math.PI);
+
+// Lanczos approximation, g = 7, n = 9
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+  -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+  1.5056327351493116e-7,
+];
+
+/** log Γ(x) for x > 0 (reflected for x < ½). */
+export function logGamma(x: number): number {
+  if (x < 0.5) return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - logGamma(1 - x);
+  const z = x - 1;
+  let sum = LANCZOS[0];
+  for (let i = 1; i < LANCZOS.length; i++) sum += LANCZOS[i] / (z + i);
+  const t = z + 7.5;
+  return LOG_SQRT_2PI + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+/** log C(n, k), 0 ≤ k ≤ n. */
+export function logChoose(n: number, k: number): number {
+  return logGamma(n + 1) - logGamma(k + 1) - logGamma(n - k + 1);
+}
+
+/** log(1 − eᵛ) for v ≤ 0, accurate on both sides of v = −log 2. */
+export function log1mExp(v: number): number {
+  return v > -Math.LN2 ? Math.log(-Math.expm1(v)) : Math.log1p(-Math.exp(v));
+}
+
+/** log(eᵃ + eᵇ) without overflow. */
+export function logAddExp(a: number, b: number): number {
+  if (a === Number.NEGATIVE_INFINITY) return b;
+  if (b === Number.NEGATIVE_INFINITY) return a;
+  const m = Math.max(a, b);
+  return m + Math.log1p(Math.exp(-Math.abs(a - b)));
+}
+
+// log Γ(a + 1) − [(a + ½) log a − a + log √(2π)]: the error in Stirling's
+// formula, by its asymptotic series for large a
+function stirlingError(a: number): number {
+  if (a <= 15) return logGamma(a + 1) - (a + 0.5) * Math.log(a) + a - LOG_SQRT_2PI;
+  const a2 = a * a;
+  return (1 / 12 - (1 / 360 - (1 / 1260 - (1 / 1680 - 1 / (1188 * a2)) / a2) / a2) / a2) / a;
+}
+
+// a log(a/x) + x − a, summed as a series when a ≈ x to avoid cancellation
+function deviance(a: number, x: number): number {
+  if (Math.abs(a - x) < 0.1 * (a + x)) {
+    const v = (a - x) / (a + x);
+    let s = (a - x) * v;
+    let term = 2 * a * v;
+    for (let j = 1; j < 1000; j++) {
+      term *= v * v;
+      const next = s + term / (2 * j + 1);
+      if (next === s) return s;
+      s = next;
+    }
+    return s;
+  }
+  return a * Math.log(a / x) + x - a;
+}
+
+// log(xᵃe⁻ˣ / Γ(a + 1)), the Poisson(x) probability of a when a is whole
+function logPoissonTerm(a: number, x: number): number {
+  if (a === 0) return -x;
+  if (x === 0) return Number.NEGATIVE_INFINITY;
+  return -stirlingError(a) - deviance(a, x) - 0.5 * Math.log(2 * Math.PI * a);
+}
+
+// log P(a, x) by the series Σ xⁿ / ((a + 1)…(a + n)), for x < a + 1
+function logGammaPSeries(a: number, x: number): number {
+  let term = 1;
+  let sum = 1;
+  for (let n = 1; n < MAX_ITERATIONS; n++) {
+    term *= x / (a + n);
+    sum += term;
+    if (term < sum * EPS) return logPoissonTerm(a, x) + Math.log(sum);
+  }
+  throw new Error(`Incomplete gamma series did not converge for a = ${a}, x = ${x}`);
+}
+
+// log Q(a, x) by Lentz's continued fraction, for x ≥ a + 1
+function logGammaQFraction(a: number, x: number): number {
+  let b = x + 1 - a;
+  let c = 1 / TINY;
+  let d = 1 / b;
+  let h = d;
+  for (let n = 1; n < MAX_ITERATIONS; n++) {
+    const an = -n * (n - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = b + an / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < EPS) return Math.log(a) + logPoissonTerm(a, x) + Math.log(h);
+  }
+  throw new Error(`Incomplete gamma fraction did not converge for a = ${a}, x = ${x}`);
+}
+
+/** log P(a, x), the regularized lower incomplete gamma function; a > 0, x ≥ 0. */
+export function logGammaP(a: number, x: number): number {
+  if (x <= 0) return Number.NEGATIVE_INFINITY;
+  return x < a + 1 ? logGammaPSeries(a, x) : log1mExp(logGammaQFraction(a, x));
+}
+
+/** log Q(a, x) = log(1 − P(a, x)), the regularized upper incomplete gamma function. */
+export function logGammaQ(a: number, x: number): number {
+  if (x <= 0) return 0;
+  return x < a + 1 ? log1mExp(logGammaPSeries(a, x)) : logGammaQFraction(a, x);
+}
+
+/** P(a, x), the regularized lower incomplete gamma function. */
+export function gammaP(a: number, x: number): number {
+  return Math.exp(logGammaP(a, x));
+}
+
+/** Q(a, x), the regularized upper incomplete gamma function. */
+export function gammaQ(a: number, x: number): number {
+  return Math.exp(logGammaQ(a, x));
+}
+
+/** log P(X ≤ k) for X ~ Poisson(λ). */
+export function logPoissonCdf(k: number, lambda: number): number {
+  if (k < 0) return Number.NEGATIVE_INFINITY;
+  if (lambda <= 0) return 0;
+  return logGammaQ(Math.floor(k) + 1, lambda);
+}
+
+/** P(X ≤ k) for X ~ Poisson(λ), exact to double precision. */
+export function poissonCdf(k: number, lambda: number): number {
+  return Math.exp(logPoissonCdf(k, lambda));
+}
+
+/** log P(X > k) for X ~ Poisson(λ). */
+export function logPoissonSf(k: number, lambda: number): number {
+  if (k < 0) return 0;
+  if (lambda <= 0) return Number.NEGATIVE_INFINITY;
+  return logGammaP(Math.floor(k) + 1, lambda);
+}
+
+// log I_x(a, b) by Lentz's continued fraction; converges fast for
+// x < (a + 1)/(a + b + 2)
+function logBetaFraction(a: number, b: number, x: number): number {
+  const qab = a + b;
+  let c = 1;
+  let d = 1 - (qab * x) / (a + 1);
+  if (Math.abs(d) < TINY) d = TINY;
+  d = 1 / d;
+  let h = d;
+  for (let m = 1; m < MAX_ITERATIONS; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = 1 + aa / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    h *= d * c;
+    aa = (-(a + m) * (qab + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < TINY) d = TINY;
+    c = 1 + aa / c;
+    if (Math.abs(c) < TINY) c = TINY;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < EPS) {
+      const logFront =
+        a * Math.log(x) + b * Math.log1p(-x) - logGamma(a) - logGamma(b) + logGamma(a + b);
+      return logFront + Math.log(h / a);
+    }
+  }
+  throw new Error(`Incomplete beta fraction did not converge for a = ${a}, b = ${b}, x = ${x}`);
+}
+
+/** log I_x(a, b), the regularized incomplete beta function; a, b > 0, 0 ≤ x ≤ 1. */
+export function logBetaRegularized(a: number, b: number, x: number): number {
+  if (x <= 0) return Number.NEGATIVE_INFINITY;
+  if (x >= 1) return 0;
+  return x < (a + 1) / (a + b + 2)
+    ? logBetaFraction(a, b, x)
+    : log1mExp(logBetaFraction(b, a, 1 - x));
+}
+
+/** I_x(a, b), the regularized incomplete beta function. */
+export function betaRegularized(a: number, b: number, x: number): number {
+  return Math.exp(logBetaRegularized(a, b, x));
+}
+
+/** log P(X ≤ k) for X ~ Binomial(n, p). */
+export function logBinomialCdf(k: number, n: number, p: number): number {
+  const kk = Math.floor(k);
+  if (kk < 0) return Number.NEGATIVE_INFINITY;
+  if (kk >= n) return 0;
+  return logBetaRegularized(n - kk, kk + 1, 1 - p);
+}
+
+/** P(X ≤ k) for X ~ Binomial(n, p). */
+export function binomialCdf(k: number, n: number, p: number): number {
+  return Math.exp(logBinomialCdf(k, n, p));
+}
+
+/** erfc(x), with relative accuracy deep into the upper tail (until it underflows near x = 27). */
+export function erfc(x: number): number {
+  if (x < 0) return 2 - erfc(-x);
+  return gammaQ(0.5, x * x);
+}
+
+/** log erfc(x); finite far past the point where erfc itself underflows. */
+export function logErfc(x: number): number {
+  if (x < 0) return Math.log(2 - erfc(-x));
+  return logGammaQ(0.5, x * x);
+}
+
+/** Φ(z), the standard normal CDF. */
+export function normalCdf(z: number): number {
+  return 0.5 * erfc(-z / Math.SQRT2);
+}
+
+/** log Φ(z). */
+export function logNormalCdf(z: number): number {
+  return logErfc(-z / Math.SQRT2) - Math.LN2;
+}
+
+/**
+ * log P(X = k) for X ~ Hypergeometric(N, K, n): k successes in n draws
+ * without replacement from N items of which K are successes.
+ */
+export function logHypergeometricPmf(k: number, N: number, K: number, n: number): number {
+  if (k < Math.max(0, n + K - N) || k > Math.min(n, K)) return Number.NEGATIVE_INFINITY;
+  return logChoose(K, k) + logChoose(N - K, n - k) - logChoose(N, n);
+}
+
+/** P(X = k) for X ~ Hypergeometric(N, K, n). */
+export function hypergeometricPmf(k: number, N: number, K: number, n: number): number {
+  return Math.exp(logHypergeometricPmf(k, N, K, n));
+}
+
+/**
+ * log P(X ≤ k) for X ~ Hypergeometric(N, K, n). Sums whichever tail is
+ * shorter with the PMF's term ratio, so the cost is at most half the
+ * support and neither tail loses precision to cancellation.
+ */
+export function logHypergeometricCdf(k: number, N: number, K: number, n: number): number {
+  const lo = Math.max(0, n + K - N);
+  const hi = Math.min(n, K);
+  const kk = Math.floor(k);
+  if (kk < lo) return Number.NEGATIVE_INFINITY;
+  if (kk >= hi) return 0;
+  // P(j + 1)/P(j)
+  const ratio = (j: number) => ((K - j) * (n - j)) / ((j + 1) * (N - K - n + j + 1));
+  const mean = (n * K) / N;
+  if (kk < mean) {
+    // Lower tail, summed down from k
+    let logTerm = logHypergeometricPmf(kk, N, K, n);
+    let total = logTerm;
+    for (let j = kk - 1; j >= lo; j--) {
+      logTerm -= Math.log(ratio(j));
+      total = logAddExp(total, logTerm);
+      if (logTerm < total - 40) break; // remaining terms < e⁻⁴⁰ of the sum
+    }
+    return total;
+  }
+  // Upper tail P(X > k), summed up from k + 1, then complemented
+  let logTerm = logHypergeometricPmf(kk + 1, N, K, n);
+  let total = logTerm;
+  for (let j = kk + 1; j < hi; j++) {
+    logTerm += Math.log(ratio(j));
+    total = logAddExp(total, logTerm);
+    if (logTerm < total - 40) break;
+  }
+  return log1mExp(total);
+}
+
+/** P(X ≤ k) for X ~ Hypergeometric(N, K, n). */
+export function hypergeometricCdf(k: number, N: number, K: number, n: number): number {
+  return Math.exp(logHypergeometricCdf(k, N, K, n));
+}
@@ -4,21 +4,37 @@
 // Pure-physics module. No React, no canvas, no DOM.
 //
 // Scope:
-//   • Ray-surface intersection for 3 surface types (horizontal segment,
-//     vertical segment, 1D height field).
+//   • Ray-surface intersection for straight segments (horizontal,
+//     vertical, arbitrary), 1D height fields, and curved primitives:
+//     circular arcs and quadratic/cubic Béziers, solved analytically
+//     with exact normals. `thickLens` composes two arcs into a lens.
 //   • Snell refraction with proper sign conventions.
-//   • Fresnel reflectance for unpolarized light (energy-conserving split).
+//   • Fresnel reflectance for unpolarized light (energy-conserving split),
+//     or per s/p component with Stokes-vector tracking for rays that
+//     carry a `polarization`.
 //   • Total internal reflection.
 //   • Beer-Lambert attenuation through absorbing media.
+//   • Optional chromatic dispersion (Cauchy / Sellmeier) and
+//     per-wavelength absorption for rays that carry a wavelength.
 //   • Recursive multi-bounce with depth + intensity pruning.
+//   • Nearest-hit queries through a bounding-volume hierarchy built
+//     over each surface's axis-aligned `bounds` (see ./bvh).
+//   • Optional energy accounting: escaped, absorbed and pruned flux,
+//     tallied per bound side, medium and surface (see ./energy).
+//   • Backward camera tracing: a pinhole or thin-lens camera renders a
+//     1D image strip, gathering radiance from emitters and, via a
+//     photon map of a forward trace, from Lambertian scatterers.
 //   • Light source factories: collimated, cone (uniform angular),
 //     Lambertian (cos-weighted), and uniform diffuse sky (cos-weighted
 //     hemispherical, parallel rays per direction — for modelling
 //     distant extended emitters like a ceiling).
+//   • Reproducible Monte Carlo: sources take an optional seed and
+//     sampling mode, and `TraceOptions.seed` seeds the scatter hooks
+//     (see ./sampling).
 //   • Surface factories: pure-Fresnel (default) + Lambertian-scattering
 //     (custom `interact` hook) for diffuse white surfaces like a dish
-//     floor or matte sample. Surfaces with a custom `interact` override
-//     the Fresnel split at hit time.
+//     floor or matte sample, + ideal linear polarizer films. Surfaces
+//     with a custom `interact` override the Fresnel split at hit time.
 //
 // Conventions:
 //   • Right-handed 2D coordinates. +x right, +y up.
@@ -27,32 +43,158 @@
 //     function detects which side a ray approaches from and orients
 //     the working normal accordingly.
 //   • Ray directions are unit vectors.
+//   • Every ray travels in the xy-plane, so the plane of incidence at
+//     every hit is the xy-plane itself. The s direction (perpendicular
+//     to the plane of incidence) is therefore always ẑ, out of the page,
+//     and the p direction is the in-plane transverse ẑ × dir. Stokes
+//     vectors are expressed in this one global s/p basis.
 // ────────────────────────────────────────────────────────────────────
 
+import { boundsOfPoints, buildBvh } from './bvh';
+import type { Bvh } from './bvh';
+import { emptyTraceStats, tally } from './energy';
+import type { BoundSide, TraceStats } from './energy';
+import { rngFor, samplePoints } from './sampling';
+import type { Rng, SamplingMode, SourceSampling } from './sampling';
+import type { SourceData, SurfaceData } from './sceneData';
+
 export type Vec2 = { x: number; y: number };
 
+/**
+ * Refractive-index models, with λ in micrometres:
+ *   • Cauchy:    n(λ) = A + B/λ² + C/λ⁴
+ *   • Sellmeier: n²(λ) = 1 + Σᵢ Bᵢ·λ² / (λ² − Cᵢ)
+ */
+export type Dispersion =
+  | { readonly model: 'cauchy'; readonly A: number; readonly B: number; readonly C?: number }
+  | {
+      readonly model: 'sellmeier';
+      readonly B: ReadonlyArray<number>;
+      readonly C: ReadonlyArray<number>;
+    };
+
 export interface Medium {
   readonly name: string;
-  readonly n: number; // refractive index
-  readonly alpha: number; // Beer-Lambert absorption coefficient (mm⁻¹)
+  readonly n: number; // refractive index at REFERENCE_WAVELENGTH_NM
+  readonly alpha: number; // Beer-Lambert absorption coefficient (mm⁻¹) at REFERENCE_WAVELENGTH_NM
+  /** Wavelength-dependent index; without it `n` holds at every wavelength. */
+  readonly dispersion?: Dispersion;
+  /**
+   * Absorption spectrum as [wavelength nm, alpha mm⁻¹] pairs sorted by
+   * wavelength, linearly interpolated and clamped at the ends. Without
+   * it `alpha` holds at every wavelength.
+   */
+  readonly absorption?: ReadonlyArray<readonly [number, number]>;
+}
+
+/**
+ * Wavelength (nm) at which each medium's scalar `n` and `alpha` are
+ * quoted: the sodium D line. Rays without a wavelength ("grey" rays)
+ * see these values.
+ */
+export const REFERENCE_WAVELENGTH_NM = 589.3;
+
+/** Refractive index of `m` at `wavelength` (nm); `m.n` for grey rays. */
+export function indexAt(m: Medium, wavelength?: number): number {
+  const d = m.dispersion;
+  if (!d || wavelength === undefined) return m.n;
+  const um = wavelength / 1000;
+  const l2 = um * um;
+  if (d.model === 'cauchy') return d.A + d.B / l2 + (d.C ?? 0) / (l2 * l2);
+  let n2 = 1;
+  for (let i = 0; i < d.B.length; i++) n2 += (d.B[i] * l2) / (l2 - d.C[i]);
+  return Math.sqrt(n2);
+}
+
+/** Absorption coefficient of `m` (mm⁻¹) at `wavelength` (nm); `m.alpha` for grey rays. */
+export function alphaAt(m: Medium, wavelength?: number): number {
+  const table = m.absorption;
+  if (!table || table.length === 0 || wavelength === undefined) return m.alpha;
+  if (wavelength <= table[0][0]) return table[0][1];
+  for (let i = 1; i < table.length; i++) {
+    const [w1, a1] = table[i];
+    if (wavelength <= w1) {
+      const [w0, a0] = table[i - 1];
+      return a0 + ((a1 - a0) * (wavelength - w0)) / (w1 - w0);
+    }
+  }
+  return table[table.length - 1][1];
 }
 
 // ─── standard media ─────────────────────────────────────────────────
 // Values are nominal for the visible band. Absorption coefficients are
 // slightly exaggerated above clean-material values where noted so that
-// attenuation is visible over millimetre-scale path lengths.
+// attenuation is visible over millimetre-scale path lengths. Dispersion
+// fits reproduce the scalar `n` at the sodium D line to within ~0.001;
+// air's dispersion (Δn ~ 1e-5 across the visible) is neglected.
 
 export const AIR: Medium = { name: 'air', n: 1.0003, alpha: 0 };
-export const POLYSTYRENE: Medium = { name: 'polystyrene', n: 1.59, alpha: 0.002 };
-export const WATER: Medium = { name: 'water', n: 1.333, alpha: 0.001 };
+// Sellmeier fit for polystyrene (one UV term).
+export const POLYSTYRENE: Medium = {
+  name: 'polystyrene',
+  n: 1.59,
+  alpha: 0.002,
+  dispersion: { model: 'sellmeier', B: [1.4435], C: [0.020216] },
+};
+// Two-term Cauchy fit for water across 400-700 nm.
+export const WATER: Medium = {
+  name: 'water',
+  n: 1.333,
+  alpha: 0.001,
+  dispersion: { model: 'cauchy', A: 1.324, B: 0.0031 },
+};
 // MRS agar at ~20 g/L dissolved solutes. Absorption bumped from clean
 // (~0.05 mm⁻¹) to give visible attenuation through 2-3 mm at canvas scale.
-export const AGAR: Medium = { name: 'agar', n: 1.34, alpha: 0.35 };
+// Dispersion is water's, offset for the solutes; the amber medium
+// absorbs strongly toward the blue.
+export const AGAR: Medium = {
+  name: 'agar',
+  n: 1.34,
+  alpha: 0.35,
+  dispersion: { model: 'cauchy', A: 1.331, B: 0.0031 },
+  absorption: [
+    [400, 1.0],
+    [450, 0.7],
+    [500, 0.5],
+    [550, 0.4],
+    [600, 0.34],
+    [650, 0.31],
+    [700, 0.3],
+  ],
+};
 // Terminal absorber: anything crossing into this medium dies within a
 // fraction of a mm. Used as the "below the floor" sink so transmitted
 // rays don't continue into the unbounded scene.
 export const ABSORBER: Medium = { name: 'absorber', n: 1.0, alpha: 1e3 };
 
+// ─── polarization ───────────────────────────────────────────────────
+
+/**
+ * Normalized Stokes vector (S₁, S₂, S₃)/S₀ in the s/p basis: `q` = +1 is
+ * fully s-polarized (E out of the page), −1 fully p (E in the plane);
+ * `u` is the ±45° linear component and `v` the circular component. The
+ * degree of polarization is √(q² + u² + v²) ≤ 1. Intensity (S₀) is
+ * carried separately on the ray.
+ */
+export interface Stokes {
+  readonly q: number;
+  readonly u: number;
+  readonly v: number;
+}
+
+export const UNPOLARIZED: Stokes = { q: 0, u: 0, v: 0 };
+export const S_POLARIZED: Stokes = { q: 1, u: 0, v: 0 };
+export const P_POLARIZED: Stokes = { q: -1, u: 0, v: 0 };
+
+/**
+ * Fully linearly polarized light with E at `axisDeg` from the s axis
+ * toward the p axis (0° = s, 90° = p).
+ */
+export function linearPolarization(axisDeg: number): Stokes {
+  const t = (2 * axisDeg * Math.PI) / 180;
+  return { q: Math.cos(t), u: Math.sin(t), v: 0 };
+}
+
 // ─── ray + segment types ────────────────────────────────────────────
 
 export interface Ray {
@@ -62,6 +204,18 @@ export interface Ray {
   medium: Medium; // medium the ray is currently in
   depth: number; // bounce generation; 0 = primary from source
   bornBy: 'source' | 'reflected' | 'transmitted' | 'scattered';
+  /**
+   * Vacuum wavelength in nm, or undefined for a "grey" ray that sees
+   * each medium's scalar `n` and `alpha`. Inherited by every child ray.
+   */
+  wavelength?: number;
+  /**
+   * Polarization state, or undefined for an untracked ray that sees the
+   * unpolarized average reflectance at every interface. Once set (by the
+   * source, or by passing a polarizer) it is tracked through every
+   * Fresnel split; Lambertian scatter resets it to UNPOLARIZED.
+   */
+  polarization?: Stokes;
   /**
    * True iff any ancestor of this ray was created by a scattering
    * interaction (a Lambertian scatterer or equivalent). Propagates
@@ -86,6 +240,10 @@ export interface RaySegment {
   surfaceName?: string; // name of the surface the segment terminated at, if any
   /** Mirrors Ray.viaScatter at the moment this segment was traced. */
   viaScatter?: boolean;
+  /** Mirrors Ray.wavelength. */
+  wavelength?: number;
+  /** Mirrors Ray.polarization. */
+  polarization?: Stokes;
 }
 
 // ─── vector helpers ─────────────────────────────────────────────────
@@ -141,13 +299,66 @@ export function reflect(d: Vec2, n: Vec2): Vec2 {
  * incident side). Returns R in [0, 1]; transmittance is 1 - R.
  */
 export function fresnelR(cosI: number, n1: number, n2: number): number {
+  const { Rs, Rp } = fresnelSP(cosI, n1, n2);
+  return 0.5 * (Rs + Rp);
+}
+
+/**
+ * Fresnel reflectances for the s and p components separately, plus the
+ * reflection retardance δ = φp − φs (radians) between the complex
+ * amplitude coefficients rs and rp (Hecht's sign convention for rp).
+ * Below the critical angle rs and rp are real, so δ is 0 or π; under
+ * TIR Rs = Rp = 1 and δ varies with angle (the Fresnel-rhomb phase).
+ * Transmittances are 1 − Rs and 1 − Rp, with no retardance.
+ */
+export function fresnelSP(
+  cosI: number,
+  n1: number,
+  n2: number,
+): { Rs: number; Rp: number; retardance: number } {
   const eta = n1 / n2;
   const sin2T = eta * eta * (1 - cosI * cosI);
-  if (sin2T >= 1) return 1; // TIR
+  if (sin2T >= 1) {
+    // TIR: cosT = i·κ, so rs and rp have unit modulus and differ only
+    // in phase.
+    const kappa = Math.sqrt(sin2T - 1);
+    const phiS = -2 * Math.atan2(n2 * kappa, n1 * cosI);
+    const phiP = -2 * Math.atan2(n1 * kappa, n2 * cosI);
+    return { Rs: 1, Rp: 1, retardance: phiP - phiS };
+  }
   const cosT = Math.sqrt(1 - sin2T);
-  const Rs = ((n1 * cosI - n2 * cosT) / (n1 * cosI + n2 * cosT)) ** 2;
-  const Rp = ((n1 * cosT - n2 * cosI) / (n1 * cosT + n2 * cosI)) ** 2;
-  return 0.5 * (Rs + Rp);
+  const rs = (n1 * cosI - n2 * cosT) / (n1 * cosI + n2 * cosT);
+  const rp = (n2 * cosI - n1 * cosT) / (n2 * cosI + n1 * cosT);
+  return { Rs: rs * rs, Rp: rp * rp, retardance: rs * rp < 0 ? Math.PI : 0 };
+}
+
+/**
+ * Apply an s/p diattenuator-retarder (power transmissions Ts, Tp and
+ * retardance δ) to a normalized Stokes vector: the Mueller matrix of a
+ * Fresnel reflection (Rs, Rp, δ) or transmission (1 − Rs, 1 − Rp, 0).
+ * Returns the fraction of intensity that passes and its polarization.
+ */
+function diattenuate(
+  p: Stokes,
+  Ts: number,
+  Tp: number,
+  retardance: number,
+): { fraction: number; polarization: Stokes } {
+  const sum = 0.5 * (Ts + Tp);
+  const diff = 0.5 * (Ts - Tp);
+  const fraction = sum + diff * p.q;
+  if (fraction <= 0) return { fraction: 0, polarization: UNPOLARIZED };
+  const amp = Math.sqrt(Ts * Tp) / fraction;
+  const c = Math.cos(retardance);
+  const s = Math.sin(retardance);
+  return {
+    fraction,
+    polarization: {
+      q: (diff + sum * p.q) / fraction,
+      u: amp * (c * p.u + s * p.v),
+      v: amp * (c * p.v - s * p.u),
+    },
+  };
 }
 
 // ─── surfaces ───────────────────────────────────────────────────────
@@ -165,6 +376,20 @@ export interface SurfaceHit {
 
 export interface Surface {
   readonly name: string;
+  /**
+   * Axis-aligned box containing every point this surface can report as
+   * a hit. Used by the tracer's bounding-volume hierarchy to skip the
+   * surface for rays that cannot reach it, so it must be conservative:
+   * a box that is too small silently drops real hits.
+   */
+  readonly bounds: SceneBounds;
+  /**
+   * Plain-data description of this surface (factory name + arguments,
+   * closures sampled), set by every factory in this module. Lets a scene
+   * be rebuilt elsewhere, e.g. inside a Web Worker (see ./sceneData).
+   * Hand-built surfaces may omit it; such scenes trace on the main thread.
+   */
+  readonly data?: SurfaceData;
   /**
    * Intersect a ray with this surface. Returns the first hit with
    * t ∈ (tMin, tMax], or null if no hit.
@@ -184,12 +409,13 @@ export interface Surface {
    * (zero for pure absorption, two for Fresnel split, N for Lambertian
    * scatter, etc.). Child rays are responsible for setting their own
    * offset origin (typically via `addScaled(point, normal, eps)`) to
-   * avoid self-intersection.
+   * avoid self-intersection. Randomized interactions must draw from
+   * `rng` (seeded by `TraceOptions.seed`) and honour `sampling`.
    */
   interact?: (
     rayAtHit: Ray,
     hit: SurfaceHit,
-    opts: { selfIntersectEps: number },
+    opts: { selfIntersectEps: number; rng: Rng; sampling: SamplingMode },
   ) => Ray[];
 }
 
@@ -208,6 +434,8 @@ export function horizontalSegment(
   const normal: Vec2 = { x: 0, y: 1 };
   return {
     name,
+    bounds: { xMin, xMax, yMin: y, yMax: y },
+    data: { kind: 'horizontalSegment', name, y, xMin, xMax, mediumPlus, mediumMinus },
     intersect(origin, dir, tMin, tMax) {
       if (Math.abs(dir.y) < 1e-12) return null;
       const t = (y - origin.y) / dir.y;
@@ -234,6 +462,8 @@ export function verticalSegment(
   const normal: Vec2 = { x: 1, y: 0 };
   return {
     name,
+    bounds: { xMin: x, xMax: x, yMin, yMax },
+    data: { kind: 'verticalSegment', name, x, yMin, yMax, mediumPlus, mediumMinus },
     intersect(origin, dir, tMin, tMax) {
       if (Math.abs(dir.x) < 1e-12) return null;
       const t = (x - origin.x) / dir.x;
@@ -273,6 +503,8 @@ export function lineSegment(
   const normal: Vec2 = { x: -byay / len, y: bxax / len };
   return {
     name,
+    bounds: boundsOfPoints([a, b]),
+    data: { kind: 'lineSegment', name, a, b, mediumPlus, mediumMinus },
     intersect(origin, dir, tMin, tMax) {
       // System: t·dir.x − s·bxax = a.x − origin.x
       //         t·dir.y − s·byay = a.y − origin.y
@@ -310,6 +542,11 @@ export function lineSegment(
  * hit candidate causes intersect() to ignore the hit. This avoids
  * spurious refractions where two surfaces coincide (e.g., a liquid
  * surface meeting the agar surface in dry regions of the dish).
+ *
+ * `bounds` is estimated by sampling f densely at construction and
+ * padding the sampled y-range by 5% (plus a 0.01 mm floor), since an
+ * arbitrary f can peak between samples. The same samples (plus the
+ * media and `existsAt` at each) form the surface's plain-data `data`.
  */
 export function heightField(
   name: string,
@@ -320,8 +557,34 @@ export function heightField(
   mediumMinusAt: (x: number) => Medium,
   existsAt: (x: number) => boolean = () => true,
 ): Surface {
+  const SAMPLES = 512;
+  const ys: number[] = [];
+  const plus: Medium[] = [];
+  const minus: Medium[] = [];
+  const exists: boolean[] = [];
+  for (let i = 0; i <= SAMPLES; i++) {
+    const x = xMin + ((xMax - xMin) * i) / SAMPLES;
+    ys.push(f(x));
+    plus.push(mediumPlusAt(x));
+    minus.push(mediumMinusAt(x));
+    exists.push(existsAt(x));
+  }
+  const yLo = Math.min(...ys);
+  const yHi = Math.max(...ys);
+  const yPad = Math.max(0.01, 0.05 * (yHi - yLo));
   return {
     name,
+    bounds: { xMin, xMax, yMin: yLo - yPad, yMax: yHi + yPad },
+    data: {
+      kind: 'heightField',
+      name,
+      xMin,
+      xMax,
+      ys,
+      mediumPlus: plus,
+      mediumMinus: minus,
+      exists,
+    },
     intersect(origin, dir, tMin, tMax) {
       // Clip the scan window to the t range where origin + t·dir has
       // x ∈ [xMin, xMax]. Outside that window the ray is by definition
@@ -431,6 +694,263 @@ export function heightField(
   };
 }
 
+// ─── curved surfaces ────────────────────────────────────────────────
+
+const DEG = Math.PI / 180;
+
+/** Real roots of a·s² + b·s + c = 0 (degrades to linear when a ≈ 0). */
+function solveQuadratic(a: number, b: number, c: number): number[] {
+  if (Math.abs(a) < 1e-12) return Math.abs(b) < 1e-12 ? [] : [-c / b];
+  const disc = b * b - 4 * a * c;
+  if (disc < 0) return [];
+  // Numerically stable form: avoid cancellation between −b and √disc.
+  const q = -0.5 * (b + Math.sign(b || 1) * Math.sqrt(disc));
+  return q === 0 ? [0] : [q / a, c / q];
+}
+
+/** Real roots of a·s³ + b·s² + c·s + d = 0 (degrades to quadratic when a ≈ 0). */
+function solveCubic(a: number, b: number, c: number, d: number): number[] {
+  if (Math.abs(a) < 1e-12) return solveQuadratic(b, c, d);
+  // Depressed cubic x³ + p·x + q = 0 with s = x − b/(3a).
+  const B = b / a;
+  const C = c / a;
+  const D = d / a;
+  const shift = B / 3;
+  const p = C - (B * B) / 3;
+  const q = (2 * B * B * B) / 27 - (B * C) / 3 + D;
+  const disc = (q * q) / 4 + (p * p * p) / 27;
+  if (disc > 0) {
+    // One real root (Cardano).
+    const sq = Math.sqrt(disc);
+    return [Math.cbrt(-q / 2 + sq) + Math.cbrt(-q / 2 - sq) - shift];
+  }
+  if (Math.abs(p) < 1e-15) return [Math.cbrt(-q) - shift];
+  // Three real roots (trigonometric form).
+  const m = 2 * Math.sqrt(-p / 3);
+  const phi = Math.acos(Math.max(-1, Math.min(1, (3 * q) / (p * m))));
+  return [0, 1, 2].map((k) => m * Math.cos((phi - 2 * Math.PI * k) / 3) - shift);
+}
+
+/**
+ * Circular arc of the circle (`center`, `radius`), running
+ * counter-clockwise from `startDeg` through `sweepDeg` degrees
+ * (0 < sweepDeg ≤ 360; angles measured from +x).
+ * Canonical normal points radially outward: mediumPlus is outside the
+ * circle, mediumMinus is inside.
+ *
+ * Intersection is analytic: |origin + t·dir − center|² = radius² is a
+ * quadratic in t, and each root is kept only if its polar angle lies
+ * inside the arc. Normals are exact (the radius direction at the hit).
+ */
+export function circularArc(
+  name: string,
+  center: Vec2,
+  radius: number,
+  startDeg: number,
+  sweepDeg: number,
+  mediumPlus: Medium,
+  mediumMinus: Medium,
+): Surface {
+  const sweep = Math.min(360, sweepDeg);
+  const inArc = (p: Vec2) => {
+    const deg = Math.atan2(p.y - center.y, p.x - center.x) / DEG;
+    return (((deg - startDeg) % 360) + 360) % 360 <= sweep + 1e-9;
+  };
+  const at = (deg: number): Vec2 => ({
+    x: center.x + radius * Math.cos(deg * DEG),
+    y: center.y + radius * Math.sin(deg * DEG),
+  });
+  // Endpoints plus whichever of the four axis extremes the arc passes.
+  const extremes = [0, 90, 180, 270].map(at).filter(inArc);
+  return {
+    name,
+    bounds: boundsOfPoints([at(startDeg), at(startDeg + sweep), ...extremes]),
+    data: {
+      kind: 'circularArc',
+      name,
+      center,
+      radius,
+      startDeg,
+      sweepDeg,
+      mediumPlus,
+      mediumMinus,
+    },
+    intersect(origin, dir, tMin, tMax) {
+      // dir is unit, so the quadratic's leading coefficient is 1.
+      const ox = origin.x - center.x;
+      const oy = origin.y - center.y;
+      const b = ox * dir.x + oy * dir.y;
+      const c = ox * ox + oy * oy - radius * radius;
+      const disc = b * b - c;
+      if (disc < 0) return null;
+      const sq = Math.sqrt(disc);
+      for (const t of [-b - sq, -b + sq]) {
+        if (t <= tMin || t > tMax) continue;
+        const point = addScaled(origin, dir, t);
+        if (!inArc(point)) continue;
+        const normal: Vec2 = {
+          x: (point.x - center.x) / radius,
+          y: (point.y - center.y) / radius,
+        };
+        return { point, t, normal, mediumPlus, mediumMinus };
+      }
+      return null;
+    },
+  };
+}
+
+/**
+ * Quadratic (3 control points) or cubic (4 control points) Bézier curve.
+ * Canonical normal is the unit tangent B′(s) rotated 90° CCW, as for
+ * `lineSegment` with a = first point and b = last point: mediumPlus is
+ * on the left when walking from the first control point to the last.
+ *
+ * Intersection is exact: the curve's signed distance from the ray's
+ * line, (B(s) − origin)·dir⊥, is a polynomial in s of the curve's degree,
+ * solved in closed form; each root s ∈ [0, 1] gives t = (B(s) − origin)·dir.
+ * Normals come from the analytic derivative, not a finite difference.
+ * `bounds` is the control polygon's box, which contains the curve.
+ */
+export function bezierCurve(
+  name: string,
+  points: ReadonlyArray<Vec2>,
+  mediumPlus: Medium,
+  mediumMinus: Medium,
+): Surface {
+  if (points.length !== 3 && points.length !== 4) {
+    throw new Error(`bezierCurve "${name}" needs 3 or 4 control points, got ${points.length}`);
+  }
+  // Power-basis coefficients per axis: B(s) = Σ k[i]·sⁱ.
+  const basis = (c: (p: Vec2) => number): number[] => {
+    const v = points.map(c);
+    if (v.length === 3) return [v[0], 2 * (v[1] - v[0]), v[0] - 2 * v[1] + v[2]];
+    return [
+      v[0],
+      3 * (v[1] - v[0]),
+      3 * (v[0] - 2 * v[1] + v[2]),
+      -v[0] + 3 * v[1] - 3 * v[2] + v[3],
+    ];
+  };
+  const kx = basis((p) => p.x);
+  const ky = basis((p) => p.y);
+  const evalPoly = (k: number[], s: number) =>
+    k.reduceRight((acc, coef) => acc * s + coef, 0);
+  const derivPoly = (k: number[], s: number) =>
+    k.slice(1).reduceRight((acc, coef, i) => acc * s + (i + 1) * coef, 0);
+  return {
+    name,
+    bounds: boundsOfPoints([...points]),
+    data: { kind: 'bezierCurve', name, points: [...points], mediumPlus, mediumMinus },
+    intersect(origin, dir, tMin, tMax) {
+      // Signed distance from the ray line: (B(s) − origin) · (−dir.y, dir.x).
+      const dist = kx.map((cx, i) => -dir.y * cx + dir.x * ky[i]);
+      dist[0] -= -dir.y * origin.x + dir.x * origin.y;
+      const roots =
+        dist.length === 3
+          ? solveQuadratic(dist[2], dist[1], dist[0])
+          : solveCubic(dist[3], dist[2], dist[1], dist[0]);
+      let best: SurfaceHit | null = null;
+      for (const s of roots) {
+        if (s < 0 || s > 1) continue;
+        const point: Vec2 = { x: evalPoly(kx, s), y: evalPoly(ky, s) };
+        const t = (point.x - origin.x) * dir.x + (point.y - origin.y) * dir.y;
+        if (t <= tMin || t > tMax || (best && t >= best.t)) continue;
+        const tangent = normalize({ x: derivPoly(kx, s), y: derivPoly(ky, s) });
+        best = {
+          point,
+          t,
+          normal: { x: -tangent.y, y: tangent.x },
+          mediumPlus,
+          mediumMinus,
+        };
+      }
+      return best;
+    },
+  };
+}
+
+/**
+ * Thick lens: two spherical (circular, in 2D) caps plus the flat edge
+ * walls joining their rims, as plain `circularArc` / `lineSegment`
+ * surfaces — so the lens round-trips through scene data like any other
+ * geometry.
+ *
+ * `center` is the midpoint between the two vertices on the optical
+ * axis; `axis` points in the direction light is meant to travel.
+ * Radii use the usual optics sign convention: R > 0 when the centre of
+ * curvature lies on the +axis side of the vertex (a biconvex lens has
+ * R1 > 0, R2 < 0). `Number.POSITIVE_INFINITY` makes a face flat.
+ * `aperture` is the lens half-height. Throws if the two faces cross
+ * inside the aperture (negative edge thickness).
+ */
+export function thickLens(opts: {
+  name: string;
+  center: Vec2;
+  axis: Vec2;
+  R1: number;
+  R2: number;
+  thickness: number;
+  aperture: number;
+  medium: Medium;
+  ambient: Medium;
+}): Surface[] {
+  const { name, center, R1, R2, thickness, aperture, medium, ambient } = opts;
+  const ax = normalize(opts.axis);
+  const up: Vec2 = { x: -ax.y, y: ax.x };
+  const v1 = addScaled(center, ax, -thickness / 2);
+  const v2 = addScaled(center, ax, thickness / 2);
+
+  // One face: the surface plus its rim points (top = +up side).
+  // `bodyAhead` says whether the lens body lies on the +axis side.
+  const face = (label: string, vertex: Vec2, R: number, bodyAhead: boolean) => {
+    if (!Number.isFinite(R)) {
+      const top = addScaled(vertex, up, aperture);
+      const bottom = addScaled(vertex, up, -aperture);
+      // lineSegment's normal is (b − a) rotated CCW: bottom → top gives −axis.
+      const s = bodyAhead
+        ? lineSegment(label, bottom, top, ambient, medium)
+        : lineSegment(label, bottom, top, medium, ambient);
+      return { surface: s, top, bottom };
+    }
+    if (aperture > Math.abs(R)) {
+      throw new Error(`thickLens "${name}": aperture exceeds |R| of ${label}`);
+    }
+    const c = addScaled(vertex, ax, R);
+    const half = Math.asin(aperture / Math.abs(R)) / DEG;
+    // Direction from the centre of curvature back to the vertex.
+    const mid = Math.atan2(-Math.sign(R) * ax.y, -Math.sign(R) * ax.x) / DEG;
+    // The body is inside the circle iff the centre lies on the body's side.
+    const bodyInside = R > 0 === bodyAhead;
+    const s = bodyInside
+      ? circularArc(label, c, Math.abs(R), mid - half, 2 * half, ambient, medium)
+      : circularArc(label, c, Math.abs(R), mid - half, 2 * half, medium, ambient);
+    const sag = Math.abs(R) - Math.sqrt(R * R - aperture * aperture);
+    const rim = addScaled(vertex, ax, Math.sign(R) * sag);
+    return {
+      surface: s,
+      top: addScaled(rim, up, aperture),
+      bottom: addScaled(rim, up, -aperture),
+    };
+  };
+
+  const front = face(`${name} (front)`, v1, R1, true);
+  const back = face(`${name} (back)`, v2, R2, false);
+  const edge = dot({ x: back.top.x - front.top.x, y: back.top.y - front.top.y }, ax);
+  if (edge < -1e-9) {
+    throw new Error(`thickLens "${name}": faces cross inside the aperture`);
+  }
+  const surfaces = [front.surface, back.surface];
+  if (edge > 1e-9) {
+    // Edge walls: front → back along the top has normal +up (outward);
+    // back → front along the bottom has normal −up (outward).
+    surfaces.push(lineSegment(`${name} (edge top)`, front.top, back.top, ambient, medium));
+    surfaces.push(
+      lineSegment(`${name} (edge bottom)`, back.bottom, front.bottom, ambient, medium),
+    );
+  }
+  return surfaces;
+}
+
 // ─── light source factories ─────────────────────────────────────────
 
 /**
@@ -451,6 +971,9 @@ export function heightField(
  * matte polystyrene, a thick paper, a bacterial colony, etc. — any
  * surface whose roughness is large compared to the wavelength so that
  * specular reflection is averaged into a cos-weighted lobe.
+ *
+ * Scatter directions come from the trace's `rng` and `sampling` mode
+ * (`TraceOptions.seed` / `TraceOptions.sampling`).
  */
 export function lambertianScatterer(
   name: string,
@@ -465,7 +988,18 @@ export function lambertianScatterer(
   const base = horizontalSegment(name, y, xMin, xMax, mediumPlus, mediumMinus);
   return {
     ...base,
-    interact: (rayAtHit, hit, { selfIntersectEps }) => {
+    data: {
+      kind: 'lambertianScatterer',
+      name,
+      y,
+      xMin,
+      xMax,
+      mediumPlus,
+      mediumMinus,
+      albedo,
+      scatterRayCount,
+    },
+    interact: (rayAtHit, hit, { selfIntersectEps, rng, sampling }) => {
       const dotN = dot(rayAtHit.dir, hit.normal);
       // Ray approached from +normal side iff dotN < 0
       const fromPlus = dotN < 0;
@@ -475,10 +1009,11 @@ export function lambertianScatterer(
       const baseAngle = Math.atan2(outwardNormal.y, outwardNormal.x);
       const mediumOut = fromPlus ? mediumPlus : mediumMinus;
       const perRay = (rayAtHit.intensity * albedo) / scatterRayCount;
+      const samples = samplePoints(scatterRayCount, 1, sampling, rng);
       const children: Ray[] = [];
-      for (let i = 0; i < scatterRayCount; i++) {
-        // Cos-weighted stratified-jittered sample in the outward
-        // hemisphere. The i-th ray's u lies in the i-th equal-
+      for (const [u] of samples) {
+        // Cos-weighted sample in the outward hemisphere. Under the
+        // default 'stratified' mode each ray's u lies in its own equal-
         // probability stratum [i/N, (i+1)/N], with a UNIFORM JITTER
         // inside the stratum (rather than a fixed midpoint sample).
         // This is the same scheme diffuseSky uses, and it matters here
@@ -488,8 +1023,8 @@ export function lambertianScatterer(
         // visually discrete rather than diffuse. With jitter, each
         // hit picks N independent angles within the strata; across
         // hits (and across re-render samples) the angular distribution
-        // averages to a smooth cos-weighted lobe.
-        const u = (i + Math.random()) / scatterRayCount;
+        // averages to a smooth cos-weighted lobe. 'halton' keeps the
+        // jitter (a random shift per hit) with a lower-discrepancy fan.
         const theta = Math.asin(2 * u - 1);
         const angle = baseAngle + theta;
         children.push({
@@ -500,6 +1035,9 @@ export function lambertianScatterer(
           depth: rayAtHit.depth + 1,
           bornBy: 'scattered',
           viaScatter: true, // every descendant of this hit is on a signal path
+          wavelength: rayAtHit.wavelength,
+          // diffuse scatter depolarizes; tracked rays stay tracked
+          polarization: rayAtHit.polarization && UNPOLARIZED,
         });
       }
       return children;
@@ -507,9 +1045,66 @@ export function lambertianScatterer(
   };
 }
 
+/**
+ * Ideal linear polarizer film along the segment from `a` to `b`, with
+ * the same `medium` on both sides (a thin sheet, so no refraction).
+ *
+ * Geometrically a `lineSegment`, with a custom `interact` that passes
+ * each ray straight through, attenuated by Malus's law: the component
+ * along the transmission axis passes, the orthogonal component is
+ * absorbed. `axisDeg` is the transmission axis measured from s (E out
+ * of the page) toward p (E in the plane), so 0° passes s and 90°
+ * passes p. Untracked rays count as unpolarized (half passes). Every
+ * ray leaving the film is fully polarized along the axis, so a
+ * polarizer also starts polarization tracking downstream of an
+ * ordinary source. The film is not a bounce: the child keeps its
+ * parent's depth.
+ */
+export function polarizer(
+  name: string,
+  a: Vec2,
+  b: Vec2,
+  medium: Medium,
+  axisDeg: number,
+): Surface {
+  const base = lineSegment(name, a, b, medium, medium);
+  const axis = linearPolarization(axisDeg);
+  return {
+    ...base,
+    data: { kind: 'polarizer', name, a, b, medium, axisDeg },
+    interact: (rayAtHit, hit, { selfIntersectEps }) => {
+      const p = rayAtHit.polarization ?? UNPOLARIZED;
+      const fraction = 0.5 * (1 + axis.q * p.q + axis.u * p.u);
+      // Continue on the far side of the film from where the ray came.
+      const side = dot(rayAtHit.dir, hit.normal) < 0 ? -1 : 1;
+      return [
+        {
+          ...rayAtHit,
+          origin: addScaled(hit.point, hit.normal, side * selfIntersectEps),
+          intensity: rayAtHit.intensity * fraction,
+          bornBy: 'transmitted',
+          polarization: axis,
+        },
+      ];
+    },
+  };
+}
+
 // ─── light source factories ─────────────────────────────────────────
 
-export type LightSource = () => Ray[];
+/**
+ * A light source is a function that samples a fresh set of primary rays
+ * each time it is called. Like surfaces, every factory here also records
+ * a plain-data `data` description of itself (see ./sceneData), so a set
+ * of sources can be saved and rebuilt.
+ */
+export interface LightSource {
+  (): Ray[];
+  readonly data?: SourceData;
+}
+
+const describedSource = (emit: () => Ray[], data: SourceData): LightSource =>
+  Object.assign(emit, { data });
 
 /** Single ray, fixed direction. */
 export function collimatedSource(
@@ -519,7 +1114,7 @@ export function collimatedSource(
   totalIntensity = 1,
 ): LightSource {
   const dir = normalize(primaryDir);
-  return () => [
+  const emit = (): Ray[] => [
     {
       origin: position,
       dir,
@@ -529,6 +1124,13 @@ export function collimatedSource(
       bornBy: 'source',
     },
   ];
+  return describedSource(emit, {
+    kind: 'collimatedSource',
+    position,
+    primaryDir,
+    ambient,
+    totalIntensity,
+  });
 }
 
 /**
@@ -548,7 +1150,7 @@ export function coneSource(
     return collimatedSource(position, primaryDir, ambient, totalIntensity);
   }
   const baseAngle = Math.atan2(primaryDir.y, primaryDir.x);
-  return () => {
+  const emit = (): Ray[] => {
     const rays: Ray[] = [];
     for (let i = 0; i < rayCount; i++) {
       const tParam = -1 + (2 * i) / (rayCount - 1); // [-1, 1]
@@ -564,6 +1166,15 @@ export function coneSource(
     }
     return rays;
   };
+  return describedSource(emit, {
+    kind: 'coneSource',
+    position,
+    primaryDir,
+    halfAngleDeg,
+    rayCount,
+    ambient,
+    totalIntensity,
+  });
 }
 
 /**
@@ -573,6 +1184,11 @@ export function coneSource(
  * θ = asin(2u - 1) for uniform u, where θ is measured from the normal.
  * Each ray carries 1/N of the total flux (the importance-sampling
  * weight cancels the cosine).
+ *
+ * Without a sampling `mode` the u values sit at fixed stratum
+ * midpoints, so every call emits the same fan. With one, u is drawn per
+ * `mode` from an Rng seeded by `sampling.seed` (reseeded on every call,
+ * so a seeded source always emits the same rays).
  */
 export function lambertianSource(
   position: Vec2,
@@ -580,13 +1196,16 @@ export function lambertianSource(
   rayCount: number,
   ambient: Medium,
   totalIntensity = 1,
+  sampling?: SourceSampling,
 ): LightSource {
   const n = normalize(outwardNormal);
   const baseAngle = Math.atan2(n.y, n.x);
-  return () => {
+  const mode = sampling?.mode;
+  const emit = (): Ray[] => {
     const rays: Ray[] = [];
+    const samples = mode && samplePoints(rayCount, 1, mode, rngFor(sampling?.seed));
     for (let i = 0; i < rayCount; i++) {
-      const u = (i + 0.5) / rayCount; // stratified
+      const u = samples ? samples[i][0] : (i + 0.5) / rayCount; // stratified
       const theta = Math.asin(2 * u - 1); // ∈ [-π/2, +π/2]
       const angle = baseAngle + theta;
       rays.push({
@@ -600,6 +1219,15 @@ export function lambertianSource(
     }
     return rays;
   };
+  return describedSource(emit, {
+    kind: 'lambertianSource',
+    position,
+    outwardNormal,
+    rayCount,
+    ambient,
+    totalIntensity,
+    ...(sampling && { sampling }),
+  });
 }
 
 /**
@@ -628,6 +1256,12 @@ export function lambertianSource(
  *     a deterministic grid which can systematically miss narrow paths
  *     like reflections into a small camera aperture.
  *
+ *   • A sampling `mode` replaces this scheme with a 2-D point set over
+ *     (u, aim) drawn per `mode` — 'stratified' and 'halton' spread both
+ *     coordinates at once, for less noise at the same ray count.
+ *   • Random numbers come from an Rng seeded by `sampling.seed`,
+ *     reseeded on every call, or from Math.random without a seed.
+ *
  * The `originDistance` is a VISUAL parameter (controls where the rays'
  * starting dots appear on the canvas); the physics treats the source as
  * effectively at infinity (parallel rays per direction). Total flux is
@@ -642,6 +1276,7 @@ export function diffuseSky(opts: {
   raysPerDirection: number;
   ambient: Medium;
   totalIntensity?: number;
+  sampling?: SourceSampling;
 }): LightSource {
   const {
     aimXMin,
@@ -652,23 +1287,26 @@ export function diffuseSky(opts: {
     raysPerDirection,
     ambient,
     totalIntensity = 1,
+    sampling,
   } = opts;
-  return () => {
+  const mode = sampling?.mode;
+  const emit = (): Ray[] => {
     const rays: Ray[] = [];
+    const rng = rngFor(sampling?.seed);
     const totalRays = numDirections * raysPerDirection;
+    const samples = mode && samplePoints(totalRays, 2, mode, rng);
     for (let i = 0; i < totalRays; i++) {
       // Stratified-jittered cos-weighted sample of θ. The i-th ray's
       // u ∈ [iStratum, (i+1)·stratum) for iStratum = (i mod numDirections)
       // / numDirections, jittered uniformly inside the stratum.
-      const stratumIdx = i % numDirections;
-      const u = (stratumIdx + Math.random()) / numDirections;
+      const u = samples ? samples[i][0] : ((i % numDirections) + rng()) / numDirections;
       const theta = Math.asin(2 * u - 1);
       const sinT = Math.sin(theta);
       const cosT = Math.cos(theta); // > 0 over (-π/2, π/2)
       const dir: Vec2 = { x: -sinT, y: -cosT };
       // Uniform random aim position across the dish width — gives any
       // specular path a nonzero capture probability.
-      const xAim = aimXMin + Math.random() * (aimXMax - aimXMin);
+      const xAim = aimXMin + (samples ? samples[i][1] : rng()) * (aimXMax - aimXMin);
       const origin: Vec2 = {
         x: xAim - originDistance * dir.x,
         y: aimY - originDistance * dir.y,
@@ -684,6 +1322,7 @@ export function diffuseSky(opts: {
     }
     return rays;
   };
+  return describedSource(emit, { kind: 'diffuseSky', ...opts, totalIntensity });
 }
 
 /**
@@ -698,6 +1337,10 @@ export function diffuseSky(opts: {
  * accessible — unlike a point source with a few fixed angular samples,
  * which can systematically miss a small camera aperture even when the
  * geometry would clearly produce glare.
+ *
+ * The (position, angle) pairs are drawn per `sampling.mode` (default
+ * 'random') from an Rng seeded by `sampling.seed`, reseeded on every
+ * call, or from Math.random without a seed.
  */
 export function areaLamp(opts: {
   centerPosition: Vec2;
@@ -707,6 +1350,7 @@ export function areaLamp(opts: {
   rayCount: number;
   ambient: Medium;
   totalIntensity?: number;
+  sampling?: SourceSampling;
 }): LightSource {
   const {
     centerPosition,
@@ -716,23 +1360,26 @@ export function areaLamp(opts: {
     rayCount,
     ambient,
     totalIntensity = 1,
+    sampling,
   } = opts;
   const dirN = normalize(primaryDir);
   // Perpendicular to primaryDir (rotated 90° CCW) — the emitter face.
   const perp: Vec2 = { x: -dirN.y, y: dirN.x };
   const baseAngle = Math.atan2(dirN.y, dirN.x);
   const halfAngleRad = (halfAngleDeg * Math.PI) / 180;
-  return () => {
+  const emit = (): Ray[] => {
     const rays: Ray[] = [];
-    for (let i = 0; i < rayCount; i++) {
+    const rng = rngFor(sampling?.seed);
+    const samples = samplePoints(rayCount, 2, sampling?.mode ?? 'random', rng);
+    for (const [s0, s1] of samples) {
       // Random position along the emitter (uniform).
-      const u = Math.random() * 2 - 1; // ∈ [-1, 1]
+      const u = s0 * 2 - 1; // ∈ [-1, 1]
       const origin: Vec2 = {
         x: centerPosition.x + u * emitterRadius * perp.x,
         y: centerPosition.y + u * emitterRadius * perp.y,
       };
       // Random direction inside the cone (uniform in angle).
-      const v = Math.random() * 2 - 1; // ∈ [-1, 1]
+      const v = s1 * 2 - 1; // ∈ [-1, 1]
       const rayAngle = baseAngle + v * halfAngleRad;
       rays.push({
         origin,
@@ -745,6 +1392,21 @@ export function areaLamp(opts: {
     }
     return rays;
   };
+  return describedSource(emit, { kind: 'areaLamp', ...opts, totalIntensity });
+}
+
+/**
+ * Wrap a light source so every ray it emits carries `polarization`,
+ * which turns on polarization tracking for those rays. Pass UNPOLARIZED
+ * to track natural light (e.g. to watch reflections polarize near
+ * Brewster's angle). The wrapped source's `data` records the state
+ * alongside the inner source's description.
+ */
+export function withPolarization(source: LightSource, polarization: Stokes): LightSource {
+  const emit = (): Ray[] => source().map((ray) => ({ ...ray, polarization }));
+  return Object.assign(emit, {
+    data: source.data ? { ...source.data, polarization } : undefined,
+  });
 }
 
 // ─── scene + tracer ─────────────────────────────────────────────────
@@ -766,61 +1428,185 @@ export interface TraceOptions {
   maxDepth?: number;
   /** Rays below this intensity are pruned. */
   minIntensity?: number;
+  /** Seed for the scatter hooks' Rng; Math.random when omitted. */
+  seed?: number;
+  /** Sampling mode passed to scatter hooks (default 'stratified'). */
+  sampling?: SamplingMode;
 }
 
 // Offset applied to a hit point along the surface normal before spawning
 // child rays, to avoid self-intersection with the surface just hit.
 const SELF_INTERSECT_EPS = 1e-3;
 
+// One BVH per surface list. Scenes are rebuilt (new array) whenever their
+// geometry changes, so keying on the array identity lets repeated traces
+// of the same scene — e.g. chunked or re-sampled traces — share a build.
+const bvhCache = new WeakMap<Surface[], Bvh>();
+
+function sceneBvh(scene: Scene): Bvh {
+  let bvh = bvhCache.get(scene.surfaces);
+  if (!bvh) {
+    bvh = buildBvh(scene.surfaces);
+    bvhCache.set(scene.surfaces, bvh);
+  }
+  return bvh;
+}
+
+/**
+ * The default interaction: split a ray arriving at `hit` (with
+ * `intensityAtHit` after attenuation) into a Fresnel-weighted reflected
+ * branch and a Snell-refracted transmitted branch (none on TIR).
+ */
+function fresnelSplit(ray: Ray, hit: SurfaceHit, intensityAtHit: number): Ray[] {
+  // Determine the working normal (pointing INTO the ray's current
+  // medium) and the indices n1 (current) → n2 (other side).
+  const dotN = dot(ray.dir, hit.normal);
+  let workingNormal: Vec2;
+  let n1: number;
+  let n2: number;
+  let otherMedium: Medium;
+  if (dotN < 0) {
+    // Ray going against canonical normal: it came from the +normal side.
+    workingNormal = hit.normal;
+    n1 = indexAt(hit.mediumPlus, ray.wavelength);
+    n2 = indexAt(hit.mediumMinus, ray.wavelength);
+    otherMedium = hit.mediumMinus;
+  } else {
+    // Ray going along canonical normal: it came from the -normal side.
+    workingNormal = { x: -hit.normal.x, y: -hit.normal.y };
+    n1 = indexAt(hit.mediumMinus, ray.wavelength);
+    n2 = indexAt(hit.mediumPlus, ray.wavelength);
+    otherMedium = hit.mediumPlus;
+  }
+
+  const cosI = -dot(ray.dir, workingNormal);
+  // Untracked rays split by the unpolarized average; tracked rays
+  // split per s/p component, and each branch carries its own state.
+  let R: number;
+  let T: number;
+  let reflectedPolarization: Stokes | undefined;
+  let transmittedPolarization: Stokes | undefined;
+  if (ray.polarization) {
+    const { Rs, Rp, retardance } = fresnelSP(cosI, n1, n2);
+    const r = diattenuate(ray.polarization, Rs, Rp, retardance);
+    const t = diattenuate(ray.polarization, 1 - Rs, 1 - Rp, 0);
+    R = r.fraction;
+    T = t.fraction;
+    reflectedPolarization = r.polarization;
+    transmittedPolarization = t.polarization;
+  } else {
+    R = fresnelR(cosI, n1, n2);
+    T = 1 - R;
+  }
+
+  // Reflected branch: stays in the same medium, offset out along
+  // workingNormal to avoid re-hitting the surface we just left.
+  const children: Ray[] = [
+    {
+      origin: addScaled(hit.point, workingNormal, SELF_INTERSECT_EPS),
+      dir: reflect(ray.dir, workingNormal),
+      intensity: intensityAtHit * R,
+      medium: ray.medium,
+      depth: ray.depth + 1,
+      bornBy: 'reflected',
+      viaScatter: ray.viaScatter,
+      wavelength: ray.wavelength,
+      polarization: reflectedPolarization,
+    },
+  ];
+
+  // Transmitted branch: null on TIR. Offset into the other medium.
+  const refractedDir = refract(ray.dir, workingNormal, n1, n2);
+  if (refractedDir) {
+    children.push({
+      origin: addScaled(hit.point, workingNormal, -SELF_INTERSECT_EPS),
+      dir: refractedDir,
+      intensity: intensityAtHit * T,
+      medium: otherMedium,
+      depth: ray.depth + 1,
+      bornBy: 'transmitted',
+      viaScatter: ray.viaScatter,
+      wavelength: ray.wavelength,
+      polarization: transmittedPolarization,
+    });
+  }
+  return children;
+}
+
 /**
  * Forward-trace a set of initial rays through the scene. At each surface
  * hit, the ray splits into a Snell-refracted transmitted branch and a
  * Fresnel-weighted reflected branch; both are pushed back into the queue.
  * Beer-Lambert attenuation is applied along each segment in its medium.
  * Returns all segments traversed, suitable for visualization or analysis.
+ *
+ * Pass a `stats` accumulator (from `emptyTraceStats`) to tally where the
+ * flux goes. Tallies add to whatever `stats` already holds, so one
+ * accumulator can span several traces.
  */
 export function trace(
   scene: Scene,
   initialRays: Ray[],
   options: TraceOptions = {},
+  stats?: TraceStats,
 ): RaySegment[] {
   const maxDepth = options.maxDepth ?? 6;
   const minIntensity = options.minIntensity ?? 1e-3;
+  const rng = rngFor(options.seed);
+  const sampling = options.sampling ?? 'stratified';
 
   const segments: RaySegment[] = [];
   const queue: Ray[] = [...initialRays];
+  const bvh = sceneBvh(scene);
+  if (stats) {
+    for (const ray of initialRays) stats.emitted += ray.intensity;
+  }
+  // Flux the trace drops: rays over maxDepth or under minIntensity.
+  const prune = (ray: Ray) => {
+    if (!stats) return;
+    if (ray.depth > maxDepth) stats.pruned.maxDepth += ray.intensity;
+    else stats.pruned.minIntensity += ray.intensity;
+  };
 
   while (queue.length > 0) {
     const ray = queue.shift();
     if (!ray) break;
-    if (ray.depth > maxDepth) continue;
-    if (ray.intensity < minIntensity) continue;
+    if (ray.depth > maxDepth || ray.intensity < minIntensity) {
+      prune(ray);
+      continue;
+    }
 
     // Find nearest hit among all surfaces.
-    let nearestHit: SurfaceHit | null = null;
-    let nearestSurface: Surface | null = null;
-    for (const surface of scene.surfaces) {
-      const h = surface.intersect(ray.origin, ray.dir, SELF_INTERSECT_EPS, Infinity);
-      if (h && (nearestHit === null || h.t < nearestHit.t)) {
-        nearestHit = h;
-        nearestSurface = surface;
-      }
-    }
+    const found = bvh.intersect(ray.origin, ray.dir, SELF_INTERSECT_EPS, Infinity);
+    const nearestHit: SurfaceHit | null = found ? found.hit : null;
+    const nearestSurface: Surface | null = found ? found.surface : null;
 
     if (!nearestHit) {
       // Ray escapes the scene. Emit a terminal segment to the bounding
       // box edge so visualization shows the ray's path leaving.
       const { xMin, xMax, yMin, yMax } = scene.bounds;
-      const ts: number[] = [];
-      if (ray.dir.x > 1e-12) ts.push((xMax - ray.origin.x) / ray.dir.x);
-      else if (ray.dir.x < -1e-12) ts.push((xMin - ray.origin.x) / ray.dir.x);
-      if (ray.dir.y > 1e-12) ts.push((yMax - ray.origin.y) / ray.dir.y);
-      else if (ray.dir.y < -1e-12) ts.push((yMin - ray.origin.y) / ray.dir.y);
-      const positiveTs = ts.filter((t) => t > 0);
-      if (positiveTs.length === 0) continue;
-      const tEscape = Math.min(...positiveTs);
+      const exits: Array<{ t: number; side: BoundSide }> = [];
+      const exit = (bound: number, o: number, d: number, side: BoundSide) =>
+        exits.push({ t: (bound - o) / d, side });
+      if (ray.dir.x > 1e-12) exit(xMax, ray.origin.x, ray.dir.x, 'xMax');
+      else if (ray.dir.x < -1e-12) exit(xMin, ray.origin.x, ray.dir.x, 'xMin');
+      if (ray.dir.y > 1e-12) exit(yMax, ray.origin.y, ray.dir.y, 'yMax');
+      else if (ray.dir.y < -1e-12) exit(yMin, ray.origin.y, ray.dir.y, 'yMin');
+      const ahead = exits.filter((e) => e.t > 0);
+      if (ahead.length === 0) {
+        // Already outside the bounds and heading away: it escapes as is.
+        if (stats && exits.length > 0) tally(stats.escaped, exits[0].side, ray.intensity);
+        continue;
+      }
+      const nearest = ahead.reduce((a, b) => (b.t < a.t ? b : a));
+      const tEscape = nearest.t;
       const end = addScaled(ray.origin, ray.dir, tEscape);
-      const attenuation = Math.exp(-ray.medium.alpha * tEscape);
+      const attenuation = Math.exp(-alphaAt(ray.medium, ray.wavelength) * tEscape);
+      if (stats) {
+        const escaping = ray.intensity * attenuation;
+        tally(stats.absorbedByMedium, ray.medium.name, ray.intensity - escaping);
+        tally(stats.escaped, nearest.side, escaping);
+      }
       segments.push({
         start: ray.origin,
         end,
@@ -831,6 +1617,8 @@ export function trace(
         bornBy: ray.bornBy,
         terminatedBy: 'escape',
         viaScatter: ray.viaScatter,
+        wavelength: ray.wavelength,
+        polarization: ray.polarization,
       });
       continue;
     }
@@ -838,7 +1626,8 @@ export function trace(
     // Beer-Lambert through the current medium for distance nearestHit.t.
     const distTraversed = nearestHit.t;
     const intensityAtHit =
-      ray.intensity * Math.exp(-ray.medium.alpha * distTraversed);
+      ray.intensity * Math.exp(-alphaAt(ray.medium, ray.wavelength) * distTraversed);
+    if (stats) tally(stats.absorbedByMedium, ray.medium.name, ray.intensity - intensityAtHit);
 
     segments.push({
       start: ray.origin,
@@ -851,6 +1640,8 @@ export function trace(
       terminatedBy: 'hit',
       surfaceName: nearestSurface?.name,
       viaScatter: ray.viaScatter,
+      wavelength: ray.wavelength,
+      polarization: ray.polarization,
     });
 
     // If the surface defines a custom interaction (e.g. Lambertian
@@ -864,72 +1655,364 @@ export function trace(
         depth: ray.depth,
         bornBy: ray.bornBy,
         viaScatter: ray.viaScatter,
+        wavelength: ray.wavelength,
+        polarization: ray.polarization,
       };
       const children = nearestSurface.interact(rayAtHit, nearestHit, {
         selfIntersectEps: SELF_INTERSECT_EPS,
+        rng,
+        sampling,
       });
+      let reemitted = 0;
       for (const child of children) {
+        reemitted += child.intensity;
         if (child.intensity >= minIntensity && child.depth <= maxDepth) {
           queue.push(child);
+        } else {
+          prune(child);
         }
       }
+      if (stats) tally(stats.absorbedBySurface, nearestSurface.name, intensityAtHit - reemitted);
       continue;
     }
 
-    // Determine the working normal (pointing INTO the ray's current
-    // medium) and the indices n1 (current) → n2 (other side).
-    const dotN = dot(ray.dir, nearestHit.normal);
-    let workingNormal: Vec2;
-    let n1: number;
-    let n2: number;
-    let otherMedium: Medium;
-    if (dotN < 0) {
-      // Ray going against canonical normal: it came from the +normal side.
-      workingNormal = nearestHit.normal;
-      n1 = nearestHit.mediumPlus.n;
-      n2 = nearestHit.mediumMinus.n;
-      otherMedium = nearestHit.mediumMinus;
-    } else {
-      // Ray going along canonical normal: it came from the -normal side.
-      workingNormal = { x: -nearestHit.normal.x, y: -nearestHit.normal.y };
-      n1 = nearestHit.mediumMinus.n;
-      n2 = nearestHit.mediumPlus.n;
-      otherMedium = nearestHit.mediumPlus;
+    // Default: Fresnel split into reflected and transmitted branches.
+    for (const child of fresnelSplit(ray, nearestHit, intensityAtHit)) {
+      if (child.intensity < minIntensity) {
+        if (stats) stats.pruned.minIntensity += child.intensity;
+      } else {
+        queue.push(child);
+      }
     }
+  }
 
-    const cosI = -dot(ray.dir, workingNormal);
-    const R = fresnelR(cosI, n1, n2);
-
-    // Reflected branch: stays in the same medium, offset out along
-    // workingNormal to avoid re-hitting the surface we just left.
-    const reflectedIntensity = intensityAtHit * R;
-    if (reflectedIntensity >= minIntensity) {
-      queue.push({
-        origin: addScaled(nearestHit.point, workingNormal, SELF_INTERSECT_EPS),
-        dir: reflect(ray.dir, workingNormal),
-        intensity: reflectedIntensity,
-        medium: ray.medium,
-        depth: ray.depth + 1,
-        bornBy: 'reflected',
-        viaScatter: ray.viaScatter,
-      });
-    }
+  return segments;
+}
 
-    // Transmitted branch: null on TIR. Offset into the other medium.
-    const refractedDir = refract(ray.dir, workingNormal, n1, n2);
-    const transmittedIntensity = intensityAtHit * (1 - R);
-    if (refractedDir && transmittedIntensity >= minIntensity) {
-      queue.push({
-        origin: addScaled(nearestHit.point, workingNormal, -SELF_INTERSECT_EPS),
-        dir: refractedDir,
-        intensity: transmittedIntensity,
-        medium: otherMedium,
-        depth: ray.depth + 1,
-        bornBy: 'transmitted',
-        viaScatter: ray.viaScatter,
-      });
-    }
+/** One chunk of a chunked trace (see `traceChunks`). */
+export interface TraceChunk {
+  segments: RaySegment[];
+  /** energy tallies for this chunk alone */
+  stats: TraceStats;
+  /** initial rays traced so far (including this chunk) */
+  traced: number;
+  total: number;
+}
+
+/**
+ * `trace` over `initialRays` in chunks of `chunkSize` rays, one chunk
+ * per step, for callers that stream the segments (the trace worker and
+ * its main-thread fallback). Rays are independent, so the chunks hold
+ * the same segments as one `trace()` over all of them. The exception is
+ * randomized scattering: with `options.seed` set, chunk k is traced with
+ * seed + k, so a run is reproducible for a given `chunkSize` wherever it
+ * runs, but not bit-identical to an unchunked trace.
+ */
+export function* traceChunks(
+  scene: Scene,
+  initialRays: Ray[],
+  options: TraceOptions,
+  chunkSize: number,
+): Generator<TraceChunk> {
+  const size = Math.max(1, chunkSize);
+  for (let i = 0; i < initialRays.length; i += size) {
+    const end = Math.min(initialRays.length, i + size);
+    const { seed } = options;
+    const chunkOptions = seed === undefined ? options : { ...options, seed: seed + i / size };
+    const stats = emptyTraceStats();
+    const segments = trace(scene, initialRays.slice(i, end), chunkOptions, stats);
+    yield { segments, stats, traced: end, total: initialRays.length };
   }
+}
 
-  return segments;
+// ─── backward camera tracing ────────────────────────────────────────
+//
+// `trace` follows light forward from the sources. `renderCamera` runs
+// the other way: it shoots rays from a camera through every image-plane
+// pixel into the scene, follows them through the same Fresnel splits
+// and `interact` hooks, and gathers radiance where they end:
+//   • On a `lambertianScatterer`, from a photon map — the irradiance a
+//     forward trace deposited on that side of the surface, binned along
+//     it. A 2D Lambertian surface of albedo ρ under irradiance E has
+//     radiance L = ρE/2 (its exitance ρE = ∫ L cosθ dθ = 2L).
+//   • On an emitter seen directly (possibly via mirrors and refraction):
+//     a `diffuseSky` fills the upper hemisphere with L = Φ/(2W) for
+//     flux Φ spread over aim width W; an `areaLamp` has
+//     L = Φ / (2r · 2α · cosθ) across its emitter face inside its cone.
+//     Point-like sources (collimated, cone, Lambertian point) have no
+//     extent and are never seen directly.
+// Radiance gathered off scatterers is the image (`signal`); emitters
+// seen through purely specular paths are `glare` — the same split the
+// forward trace makes with `viaScatter`. Polarizer films act on the
+// backward ray as on a forward one (their Mueller matrices are
+// symmetric), and a polarized emitter's radiance is weighted by the
+// Stokes overlap 1 + p·s with the backward ray's state p.
+
+export interface Camera {
+  /** pinhole, or centre of the thin lens */
+  position: Vec2;
+  /** optical axis, pointing into the scene */
+  axis: Vec2;
+  /** full field of view across the strip, degrees */
+  fovDeg: number;
+  /** number of pixels across the image strip */
+  pixels: number;
+  /** medium the camera sits in */
+  medium: Medium;
+  /** thin lens of width `aperture`, focused `focusDistance` along the axis; pinhole if omitted */
+  lens?: { aperture: number; focusDistance: number };
+  /** rays per pixel (default 8) */
+  samplesPerPixel?: number;
+}
+
+export interface CameraImage {
+  /**
+   * Pixel centres in normalized image coordinates, −1 … +1 across the
+   * field, increasing along the axis rotated 90° CCW.
+   */
+  coords: number[];
+  /** radiance per pixel gathered from Lambertian scatterers */
+  signal: number[];
+  /** radiance per pixel seen directly from emitters */
+  glare: number[];
+}
+
+/** Irradiance deposited on each side of one Lambertian scatterer. */
+interface PhotonBins {
+  xMin: number;
+  binWidth: number;
+  albedo: number;
+  plus: number[];
+  minus: number[];
+}
+
+function buildPhotonMap(
+  surfaces: ReadonlyArray<Surface>,
+  segments: ReadonlyArray<RaySegment>,
+  bins: number,
+): Map<string, PhotonBins> {
+  const map = new Map<string, PhotonBins>();
+  for (const s of surfaces) {
+    const d = s.data;
+    if (d?.kind !== 'lambertianScatterer') continue;
+    map.set(s.name, {
+      xMin: d.xMin,
+      binWidth: (d.xMax - d.xMin) / bins,
+      albedo: d.albedo,
+      plus: new Array<number>(bins).fill(0),
+      minus: new Array<number>(bins).fill(0),
+    });
+  }
+  for (const seg of segments) {
+    if (seg.terminatedBy !== 'hit' || seg.surfaceName === undefined) continue;
+    const m = map.get(seg.surfaceName);
+    if (!m) continue;
+    const i = Math.min(bins - 1, Math.max(0, Math.floor((seg.end.x - m.xMin) / m.binWidth)));
+    // Scatterers are horizontal with canonical normal +y, so a ray
+    // travelling down arrived on the + side.
+    const side = seg.end.y < seg.start.y ? m.plus : m.minus;
+    side[i] += seg.intensityEnd / m.binWidth;
+  }
+  return map;
+}
+
+/** Ray-parameter where origin + t·dir crosses segment [a, b], or null. */
+function crossSegment(origin: Vec2, dir: Vec2, a: Vec2, b: Vec2): number | null {
+  const e = { x: b.x - a.x, y: b.y - a.y };
+  const denom = dir.x * e.y - dir.y * e.x;
+  if (Math.abs(denom) < 1e-12) return null;
+  const w = { x: a.x - origin.x, y: a.y - origin.y };
+  const t = (w.x * e.y - w.y * e.x) / denom;
+  const s = (w.x * dir.y - w.y * dir.x) / denom;
+  return t > SELF_INTERSECT_EPS && s >= 0 && s <= 1 ? t : null;
+}
+
+/** Radiance an emitter sends back along a backward ray, if it is seen. */
+type Emitter = (ray: Ray, tMax: number) => number;
+
+function emitterOf(data: SourceData): Emitter | null {
+  const coupling = (ray: Ray) => {
+    const p = ray.polarization;
+    const s = data.polarization;
+    return p && s ? 1 + p.q * s.q + p.u * s.u + p.v * s.v : 1;
+  };
+  if (data.kind === 'diffuseSky') {
+    const L = data.totalIntensity / (2 * (data.aimXMax - data.aimXMin));
+    return (ray, tMax) =>
+      tMax === Number.POSITIVE_INFINITY && ray.dir.y > 0 ? L * coupling(ray) : 0;
+  }
+  if (data.kind === 'areaLamp') {
+    const dirN = normalize(data.primaryDir);
+    const perp: Vec2 = { x: -dirN.y, y: dirN.x };
+    const r = data.emitterRadius;
+    const a = addScaled(data.centerPosition, perp, -r);
+    const b = addScaled(data.centerPosition, perp, r);
+    const halfAngle = (data.halfAngleDeg * Math.PI) / 180;
+    return (ray, tMax) => {
+      const t = crossSegment(ray.origin, ray.dir, a, b);
+      if (t === null || t >= tMax) return 0;
+      const cosT = -dot(ray.dir, dirN); // emission direction is −ray.dir
+      if (cosT <= 0 || Math.acos(Math.min(1, cosT)) > halfAngle) return 0;
+      return (data.totalIntensity / (2 * r * 2 * halfAngle * cosT)) * coupling(ray);
+    };
+  }
+  return null;
+}
+
+/** Forward-traced light a camera render gathers from. */
+export interface CameraLight {
+  sources: ReadonlyArray<LightSource>;
+  /** a forward trace of `sources` through the scene being rendered */
+  segments: ReadonlyArray<RaySegment>;
+  /** bins per Lambertian scatterer for its irradiance (default 128) */
+  photonBins?: number;
+}
+
+/** One chunk of a chunked camera render (see `renderCameraChunks`). */
+export interface CameraChunk {
+  /** first pixel of this chunk */
+  from: number;
+  signal: number[];
+  glare: number[];
+  /** pixels rendered so far (including this chunk) */
+  rendered: number;
+  total: number;
+}
+
+/** Pixel centres of a `pixels`-wide image, as in `CameraImage.coords`. */
+export function cameraCoords(pixels: number): number[] {
+  return Array.from({ length: pixels }, (_, i) => -1 + (2 * i + 1) / pixels);
+}
+
+/**
+ * Backward-trace `camera` through `scene` and gather radiance per pixel
+ * (see the section header). `light.segments` is a forward trace of
+ * `light.sources` through the same scene; its hits on Lambertian
+ * scatterers are binned into `light.photonBins` bins per surface to
+ * estimate their irradiance. `options` bound the backward branching
+ * like a forward trace (`minIntensity` applies to the backward ray's
+ * weight, which starts at 1) and seed the pixel samples.
+ */
+export function renderCamera(
+  scene: Scene,
+  camera: Camera,
+  light: CameraLight,
+  options: TraceOptions = {},
+): CameraImage {
+  const signal: number[] = [];
+  const glare: number[] = [];
+  for (const chunk of renderCameraChunks(scene, camera, light, options, camera.pixels)) {
+    signal.push(...chunk.signal);
+    glare.push(...chunk.glare);
+  }
+  return { coords: cameraCoords(camera.pixels), signal, glare };
+}
+
+/**
+ * `renderCamera` in chunks of `pixelsPerChunk` pixels, one chunk per
+ * step, for callers that stream the image (the trace worker and its
+ * main-thread fallback). The pixel samples draw from one generator
+ * across chunks, so the image is the same whatever the chunk size.
+ */
+export function* renderCameraChunks(
+  scene: Scene,
+  camera: Camera,
+  light: CameraLight,
+  options: TraceOptions = {},
+  pixelsPerChunk = 16,
+): Generator<CameraChunk> {
+  const maxDepth = options.maxDepth ?? 6;
+  const minIntensity = options.minIntensity ?? 1e-3;
+  const rng = rngFor(options.seed);
+  const sampling = options.sampling ?? 'stratified';
+  const { pixels, samplesPerPixel = 8 } = camera;
+  const bvh = sceneBvh(scene);
+  const photons = buildPhotonMap(scene.surfaces, light.segments, light.photonBins ?? 128);
+  const emitters: Emitter[] = [];
+  for (const src of light.sources) {
+    const e = src.data && emitterOf(src.data);
+    if (e) emitters.push(e);
+  }
+
+  const axis = normalize(camera.axis);
+  const perp: Vec2 = { x: -axis.y, y: axis.x };
+  const halfWidth = Math.tan((camera.fovDeg * Math.PI) / 360);
+  const step = Math.max(1, pixelsPerChunk);
+
+  for (let from = 0; from < pixels; from += step) {
+    const to = Math.min(pixels, from + step);
+    const signal = new Array<number>(to - from).fill(0);
+    const glare = new Array<number>(to - from).fill(0);
+    for (let px = from; px < to; px++) {
+      const queue: Ray[] = [];
+      const weight = 1 / samplesPerPixel;
+      for (const [u, v] of samplePoints(samplesPerPixel, 2, sampling, rng)) {
+        const s = -1 + (2 * (px + u)) / pixels;
+        let dir = normalize(addScaled(axis, perp, s * halfWidth));
+        let origin = camera.position;
+        if (camera.lens) {
+          // Thin lens: every ray through the aperture converges on the
+          // pinhole ray's point on the focal plane.
+          const focus = addScaled(origin, dir, camera.lens.focusDistance / dot(dir, axis));
+          origin = addScaled(origin, perp, (v - 0.5) * camera.lens.aperture);
+          dir = normalize({ x: focus.x - origin.x, y: focus.y - origin.y });
+        }
+        queue.push({
+          origin,
+          dir,
+          intensity: weight,
+          medium: camera.medium,
+          depth: 0,
+          bornBy: 'source',
+        });
+      }
+
+      while (queue.length > 0) {
+        const ray = queue.shift();
+        if (!ray) break;
+        if (ray.depth > maxDepth || ray.intensity < minIntensity) continue;
+        const found = bvh.intersect(
+          ray.origin,
+          ray.dir,
+          SELF_INTERSECT_EPS,
+          Number.POSITIVE_INFINITY,
+        );
+        const tHit = found ? found.hit.t : Number.POSITIVE_INFINITY;
+
+        let emitted = 0;
+        for (const e of emitters) emitted += e(ray, tHit);
+        if (emitted > 0 || !found) {
+          // Ray ends on an emitter (or leaves the scene). Attenuation on
+          // the way to a distant emitter is ignored: the ambient is clear.
+          glare[px - from] += ray.intensity * emitted;
+          continue;
+        }
+
+        const { hit, surface } = found;
+        const weightAtHit =
+          ray.intensity * Math.exp(-alphaAt(ray.medium, ray.wavelength) * hit.t);
+        const photonBins = photons.get(surface.name);
+        if (photonBins) {
+          const fromPlus = dot(ray.dir, hit.normal) < 0;
+          const side = fromPlus ? photonBins.plus : photonBins.minus;
+          const i = Math.min(
+            side.length - 1,
+            Math.max(0, Math.floor((hit.point.x - photonBins.xMin) / photonBins.binWidth)),
+          );
+          signal[px - from] += (weightAtHit * photonBins.albedo * side[i]) / 2;
+          continue;
+        }
+        const rayAtHit: Ray = { ...ray, origin: hit.point, intensity: weightAtHit };
+        const children = surface.interact
+          ? surface.interact(rayAtHit, hit, {
+              selfIntersectEps: SELF_INTERSECT_EPS,
+              rng,
+              sampling,
+            })
+          : fresnelSplit(ray, hit, weightAtHit);
+        for (const child of children) queue.push(child);
+      }
+    }
+    yield { from, signal, glare, rendered: to, total: pixels };
+  }
 }
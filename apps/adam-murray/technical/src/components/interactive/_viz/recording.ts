@@ -0,0 +1,185 @@
+/**
+ * Client-side recording of animated figures, for embedding a run in slides.
+ * No encoder library: WebM comes from the browser's MediaRecorder, and APNG is
+ * assembled here from per-frame PNGs the browser has already compressed —
+ * each frame's IDAT data is re-wrapped as an APNG frame, so nothing is
+ * re-encoded. See `useRecorder` for the React side.
+ */
+import { standaloneSvg } from './figureExport';
+
+export type RecordingFormat = 'webm' | 'apng';
+
+/** A captured APNG frame: a whole PNG file and how long to show it. */
+export interface PngFrame {
+  png: ArrayBuffer;
+  delayMs: number;
+}
+
+/** Whether this browser can record `format`. */
+export function recordingSupported(format: RecordingFormat): boolean {
+  if (typeof document === 'undefined') return false;
+  if (format === 'apng') return true;
+  return (
+    typeof MediaRecorder !== 'undefined' &&
+    typeof HTMLCanvasElement.prototype.captureStream === 'function' &&
+    MediaRecorder.isTypeSupported('video/webm')
+  );
+}
+
+/**
+ * A figure frame as it looked when captured, for rasterizing later: a
+ * canvas is copied at once, and a Plot SVG is serialized through
+ * `standaloneSvg` so it keeps the page's resolved colours and fonts.
+ */
+export interface FrameSnapshot {
+  width: number;
+  height: number;
+  image: HTMLCanvasElement | string;
+}
+
+/** `source` as it is now, sized to its on-screen box. */
+export function snapshotFrame(source: HTMLCanvasElement | SVGSVGElement): FrameSnapshot {
+  const { width, height } = source.getBoundingClientRect();
+  const w = Math.max(1, Math.round(width));
+  const h = Math.max(1, Math.round(height));
+  if (!(source instanceof HTMLCanvasElement)) {
+    return { width: w, height: h, image: standaloneSvg(source) };
+  }
+  const copy = document.createElement('canvas');
+  copy.width = w;
+  copy.height = h;
+  copy.getContext('2d')?.drawImage(source, 0, 0, w, h);
+  return { width: w, height: h, image: copy };
+}
+
+/** Draw a captured frame into `into`, resizing it to the frame. */
+export async function rasterize(frame: FrameSnapshot, into: HTMLCanvasElement): Promise<void> {
+  const { width: w, height: h, image } = frame;
+  if (into.width !== w || into.height !== h) {
+    into.width = w;
+    into.height = h;
+  }
+  const ctx = into.getContext('2d');
+  if (!ctx) return;
+  if (typeof image !== 'string') {
+    ctx.drawImage(image, 0, 0);
+    return;
+  }
+  const url = URL.createObjectURL(new Blob([image], { type: 'image/svg+xml' }));
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+    ctx.clearRect(0, 0, w, h);
+    ctx.drawImage(img, 0, 0, w, h);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+// ─── APNG assembly ──────────────────────────────────────────────────
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let c = 0xffffffff;
+  for (const b of bytes) c = CRC_TABLE[(c ^ b) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+interface Chunk {
+  type: string;
+  data: Uint8Array;
+}
+
+function readChunks(png: ArrayBuffer): Chunk[] {
+  const bytes = new Uint8Array(png);
+  const view = new DataView(png);
+  if (PNG_SIGNATURE.some((b, i) => bytes[i] !== b)) throw new Error('APNG: frame is not a PNG');
+  const chunks: Chunk[] = [];
+  let at = PNG_SIGNATURE.length;
+  while (at + 8 <= bytes.length) {
+    const length = view.getUint32(at);
+    const type = String.fromCharCode(...bytes.subarray(at + 4, at + 8));
+    chunks.push({ type, data: bytes.subarray(at + 8, at + 8 + length) });
+    at += 12 + length;
+  }
+  return chunks;
+}
+
+function writeChunk(out: Uint8Array<ArrayBuffer>[], type: string, data: Uint8Array) {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  out.push(chunk);
+}
+
+function sameBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((v, i) => v === b[i]);
+}
+
+/**
+ * An animated PNG from same-sized, same-format PNG frames, played `plays`
+ * times (0 = forever). Each frame replaces the previous one whole.
+ */
+export function encodeApng(frames: PngFrame[], plays = 0): Blob {
+  if (frames.length === 0) throw new Error('APNG: no frames to encode');
+  const parsed = frames.map((f) => readChunks(f.png));
+  const ihdr = parsed[0].find((c) => c.type === 'IHDR');
+  if (!ihdr) throw new Error('APNG: first frame has no IHDR chunk');
+  const header = new DataView(ihdr.data.buffer, ihdr.data.byteOffset, ihdr.data.byteLength);
+  const width = header.getUint32(0);
+  const height = header.getUint32(4);
+
+  const out: Uint8Array<ArrayBuffer>[] = [new Uint8Array(PNG_SIGNATURE)];
+  writeChunk(out, 'IHDR', ihdr.data);
+
+  const actl = new DataView(new ArrayBuffer(8));
+  actl.setUint32(0, frames.length);
+  actl.setUint32(4, plays);
+  writeChunk(out, 'acTL', new Uint8Array(actl.buffer));
+
+  let sequence = 0;
+  for (const [i, chunks] of parsed.entries()) {
+    const own = chunks.find((c) => c.type === 'IHDR');
+    if (!own || !sameBytes(own.data, ihdr.data)) {
+      throw new Error(`APNG: frame ${i + 1} differs in size or pixel format from the first`);
+    }
+    const fctl = new DataView(new ArrayBuffer(26));
+    fctl.setUint32(0, sequence++);
+    fctl.setUint32(4, width);
+    fctl.setUint32(8, height);
+    // x / y offsets 0; delay as a fraction of a second in ms
+    fctl.setUint16(20, Math.min(65535, Math.max(1, Math.round(frames[i].delayMs))));
+    fctl.setUint16(22, 1000);
+    // dispose_op 0 (none), blend_op 0 (source: replace)
+    writeChunk(out, 'fcTL', new Uint8Array(fctl.buffer));
+
+    for (const { type, data } of chunks) {
+      if (type !== 'IDAT') continue;
+      if (i === 0) {
+        writeChunk(out, 'IDAT', data);
+      } else {
+        const fdat = new Uint8Array(4 + data.length);
+        new DataView(fdat.buffer).setUint32(0, sequence++);
+        fdat.set(data, 4);
+        writeChunk(out, 'fdAT', fdat);
+      }
+    }
+  }
+  writeChunk(out, 'IEND', new Uint8Array(0));
+  return new Blob(out, { type: 'image/apng' });
+}
@@ -0,0 +1,186 @@
+// ────────────────────────────────────────────────────────────────────
+// Run-length encoded (RLE) patterns for the cellular automata in
+// ./automaton, in the format used by Golly and the LifeWiki.
+//
+// Pure data. No React, no canvas, no DOM.
+//
+//   #N Glider
+//   #C any comment line
+//   x = 3, y = 3, rule = B3/S23
+//   bob$2bo$3o!
+//
+// Two-state patterns use `b` (empty) and `o` (alive, player 1). Patterns
+// with more than one player use Golly's multi-state letters: `.` empty,
+// `A` player 1, `B` player 2, and so on. A number before a letter repeats
+// it; `$` ends a row (`3$` ends three) and `!` ends the pattern.
+// ────────────────────────────────────────────────────────────────────
+
+export interface Pattern {
+  name?: string;
+  /** rule in B…/S… notation, when the file names one */
+  rule?: string;
+  width: number;
+  height: number;
+  /** row-major cell values (0 empty, 1… player) */
+  cells: Uint8Array;
+}
+
+const LINE_WIDTH = 70;
+
+/** Parse RLE `text`; throws on a malformed header or body. */
+export function parseRle(text: string): Pattern {
+  let name: string | undefined;
+  let header: RegExpExecArray | null = null;
+  const body: string[] = [];
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line) continue;
+    if (line.startsWith('#')) {
+      if (/^#N\s/.test(line)) name = line.slice(2).trim();
+      continue;
+    }
+    if (!header && body.length === 0) {
+      header = /^x\s*=\s*(\d+)\s*,\s*y\s*=\s*(\d+)(?:\s*,\s*rule\s*=\s*(\S+))?/i.exec(line);
+      if (!header) throw new Error('Invalid RLE: expected a header like "x = 3, y = 3"');
+      continue;
+    }
+    body.push(line);
+  }
+  if (!header) throw new Error('Invalid RLE: missing the "x = …, y = …" header');
+  const width = Number(header[1]);
+  const height = Number(header[2]);
+  const cells = new Uint8Array(width * height);
+
+  let i = 0;
+  let j = 0;
+  let run = '';
+  const source = body.join('');
+  for (const ch of source) {
+    if (ch >= '0' && ch <= '9') {
+      run += ch;
+      continue;
+    }
+    if (ch === '!') break;
+    const n = run ? Number(run) : 1;
+    run = '';
+    if (ch === '$') {
+      i += n;
+      j = 0;
+      continue;
+    }
+    let value: number;
+    if (ch === 'b' || ch === '.') value = 0;
+    else if (ch === 'o') value = 1;
+    else if (ch >= 'A' && ch <= 'X') value = ch.charCodeAt(0) - 64;
+    else if (/\s/.test(ch)) continue;
+    else throw new Error(`Invalid RLE: unexpected "${ch}" in the pattern body`);
+    if (i >= height || j + n > width) {
+      throw new Error(`Invalid RLE: row ${i + 1} runs past the ${width}×${height} header size`);
+    }
+    if (value) cells.fill(value, i * width + j, i * width + j + n);
+    j += n;
+  }
+  return { name, rule: header[3], width, height, cells };
+}
+
+/**
+ * `pattern` as RLE text, cropped to its live cells. Written two-state
+ * (`b` / `o`) when only player 1 appears, multi-state otherwise.
+ */
+export function toRle(pattern: Pattern): string {
+  const { width, height, cells } = pattern;
+  let top = height;
+  let bottom = -1;
+  let left = width;
+  let right = -1;
+  let multi = false;
+  for (let i = 0; i < height; i++) {
+    for (let j = 0; j < width; j++) {
+      const v = cells[i * width + j];
+      if (!v) continue;
+      top = Math.min(top, i);
+      bottom = Math.max(bottom, i);
+      left = Math.min(left, j);
+      right = Math.max(right, j);
+      if (v > 1) multi = true;
+    }
+  }
+  const empty = bottom < 0;
+  const w = empty ? 0 : right - left + 1;
+  const h = empty ? 0 : bottom - top + 1;
+  const letter = (v: number) => (multi ? (v ? String.fromCharCode(64 + v) : '.') : v ? 'o' : 'b');
+
+  // Runs of (count, symbol); trailing empties and blank rows fold into `$`.
+  const tokens: string[] = [];
+  const push = (n: number, symbol: string) => tokens.push(n > 1 ? `${n}${symbol}` : symbol);
+  let pendingRows = 0;
+  for (let i = top; i <= bottom; i++) {
+    const row: Array<[number, number]> = [];
+    for (let j = left; j <= right; j++) {
+      const v = cells[i * width + j];
+      const last = row[row.length - 1];
+      if (last && last[1] === v) last[0]++;
+      else row.push([1, v]);
+    }
+    if (row.length && row[row.length - 1][1] === 0) row.pop();
+    if (row.length === 0) {
+      pendingRows++;
+      continue;
+    }
+    if (pendingRows) push(pendingRows, '$');
+    for (const [n, v] of row) push(n, letter(v));
+    pendingRows = 1;
+  }
+  tokens.push('!');
+
+  const lines: string[] = [];
+  if (pattern.name) lines.push(`#N ${pattern.name}`);
+  lines.push(`x = ${w}, y = ${h}${pattern.rule ? `, rule = ${pattern.rule}` : ''}`);
+  let line = '';
+  for (const token of tokens) {
+    if (line.length + token.length > LINE_WIDTH) {
+      lines.push(line);
+      line = '';
+    }
+    line += token;
+  }
+  lines.push(line);
+  return `${lines.join('\n')}\n`;
+}
+
+/** Copy `pattern` onto a `width`-wide board with its top-left corner at (row, col), clipped. */
+export function stampPattern(
+  cells: Uint8Array,
+  width: number,
+  pattern: Pattern,
+  row: number,
+  col: number,
+) {
+  const height = cells.length / width;
+  for (let i = 0; i < pattern.height; i++) {
+    const bi = row + i;
+    if (bi < 0 || bi >= height) continue;
+    for (let j = 0; j < pattern.width; j++) {
+      const bj = col + j;
+      const v = pattern.cells[i * pattern.width + j];
+      if (v && bj >= 0 && bj < width) cells[bi * width + bj] = v;
+    }
+  }
+}
+
+/** Built-in starting patterns (player 1 cells; the simulator recolours them per side). */
+export const PRESET_PATTERNS: ReadonlyArray<{ id: string; rle: string }> = [
+  { id: 'glider', rle: '#N Glider\nx = 3, y = 3, rule = B3/S23\nbob$2bo$3o!\n' },
+  { id: 'r-pentomino', rle: '#N R-pentomino\nx = 3, y = 3, rule = B3/S23\nb2o$2ob$bo!\n' },
+  { id: 'acorn', rle: '#N Acorn\nx = 7, y = 3, rule = B3/S23\nbo5b$3bo3b$2o2b3o!\n' },
+  {
+    id: 'gosper-gun',
+    rle: [
+      '#N Gosper glider gun',
+      'x = 36, y = 9, rule = B3/S23',
+      '24bo11b$22bobo11b$12b2o6b2o12b2o$11bo3bo4b2o12b2o$2o8bo5bo3b2o14b$2o8b',
+      'o3bob2o4bobo11b$10bo5bo7bo11b$11bo3bo20b$12b2o!',
+      '',
+    ].join('\n'),
+  },
+];
@@ -0,0 +1,126 @@
+// ────────────────────────────────────────────────────────────────────
+// Seeded random numbers and sample-point sets for Monte Carlo sampling.
+//
+// Pure functions. No React, no canvas, no DOM.
+//
+// Light sources and scatter hooks draw their random numbers from an
+// `Rng` rather than calling Math.random directly, so a scene traced with
+// a seed is reproducible run to run (and snapshot-testable). The PRNG is
+// mulberry32, which the category-graph layout seeds its forces with too.
+//
+// `samplePoints` turns an Rng into `count` points in the unit cube
+// [0, 1)^dims under one of three modes, all unbiased:
+//   • 'random':     independent uniforms (plain Monte Carlo).
+//   • 'stratified': Latin hypercube — in every dimension each of the
+//                   `count` equal strata holds exactly one jittered
+//                   point; strata are paired across dimensions by a
+//                   random permutation.
+//   • 'halton':     the Halton low-discrepancy sequence (bases 2, 3, 5,
+//                   …) with a random Cranley–Patterson shift per
+//                   dimension, so repeated batches differ but each is
+//                   evenly spread.
+// At equal ray counts the latter two give visibly less noise than
+// 'random' wherever the integrand is smooth.
+//
+// `poissonArrivals` draws the event times of an inhomogeneous Poisson
+// process by thinning (Lewis–Shedler), for simulating sampling schedules.
+// ────────────────────────────────────────────────────────────────────
+
+/** A source of uniform random numbers in [0, 1). */
+export type Rng = () => number;
+
+/** Deterministic PRNG (mulberry32) in [0, 1). */
+export function mulberry32(seed: number): Rng {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export type SamplingMode = 'random' | 'stratified' | 'halton';
+
+/** Seed and sampling mode for a light source (both plain data). */
+export interface SourceSampling {
+  /** PRNG seed; without it the source draws from Math.random. */
+  seed?: number;
+  mode?: SamplingMode;
+}
+
+/** A seeded Rng, or Math.random when `seed` is undefined. */
+export const rngFor = (seed: number | undefined): Rng =>
+  seed === undefined ? Math.random : mulberry32(seed);
+
+const PRIMES = [2, 3, 5, 7, 11, 13, 17, 19];
+
+/** Van der Corput radical inverse of `i` in `base`. */
+function radicalInverse(i: number, base: number): number {
+  let inv = 0;
+  let f = 1 / base;
+  for (let n = i; n > 0; n = Math.floor(n / base)) {
+    inv += (n % base) * f;
+    f /= base;
+  }
+  return inv;
+}
+
+/**
+ * `count` points in [0, 1)^dims, laid out per `mode` (see the header).
+ * Point order is randomized for 'stratified' and sequential for the
+ * other modes; callers should not rely on it.
+ */
+export function samplePoints(
+  count: number,
+  dims: number,
+  mode: SamplingMode,
+  rng: Rng,
+): number[][] {
+  const points = Array.from({ length: count }, () => new Array<number>(dims));
+  for (let d = 0; d < dims; d++) {
+    if (mode === 'random') {
+      for (let i = 0; i < count; i++) points[i][d] = rng();
+    } else if (mode === 'stratified') {
+      // Fisher–Yates permutation of strata for this dimension.
+      const perm = Array.from({ length: count }, (_, i) => i);
+      for (let i = count - 1; i > 0; i--) {
+        const j = Math.floor(rng() * (i + 1));
+        [perm[i], perm[j]] = [perm[j], perm[i]];
+      }
+      for (let i = 0; i < count; i++) points[i][d] = (perm[i] + rng()) / count;
+    } else {
+      if (d >= PRIMES.length) {
+        throw new Error(`Halton sampling supports at most ${PRIMES.length} dimensions`);
+      }
+      const shift = rng();
+      for (let i = 0; i < count; i++) {
+        points[i][d] = (radicalInverse(i + 1, PRIMES[d]) + shift) % 1;
+      }
+    }
+  }
+  return points;
+}
+
+/**
+ * Event times of a Poisson process with intensity `rate(t)` on
+ * [0, `horizon`), in order: candidates arrive at the constant rate
+ * `maxRate`, which must bound `rate`, and each is kept with probability
+ * rate(t)/maxRate.
+ */
+export function poissonArrivals(
+  rate: (t: number) => number,
+  maxRate: number,
+  horizon: number,
+  rng: Rng,
+): number[] {
+  const times: number[] = [];
+  if (!(maxRate > 0)) return times;
+  // Exponential gaps between candidates
+  let t = -Math.log(1 - rng()) / maxRate;
+  while (t < horizon) {
+    if (rng() * maxRate < rate(t)) times.push(t);
+    t -= Math.log(1 - rng()) / maxRate;
+  }
+  return times;
+}
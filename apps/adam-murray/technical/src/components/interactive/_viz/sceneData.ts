@@ -0,0 +1,327 @@
+// ────────────────────────────────────────────────────────────────────
+// Plain-data scene descriptions for the raytracer.
+//
+// Pure data. No React, no canvas, no DOM.
+//
+// A `Scene` is built from closures (height functions, medium lookups,
+// `interact` hooks), which cannot cross a worker boundary. Every surface
+// factory therefore also records a `SurfaceData` description of itself:
+// the factory name plus its arguments, with closures replaced by samples.
+// Light source factories do the same with `SourceData`.
+// `sceneToData` collects those descriptions into a structured-clone-safe
+// `SceneData`; `sceneFromData` rebuilds an equivalent `Scene` by calling
+// the same factories on the other side.
+//
+// Height fields are the only lossy case: `f`, `mediumPlusAt`,
+// `mediumMinusAt` and `existsAt` are sampled on a uniform grid and
+// rebuilt as a piecewise-linear profile with nearest-sample media.
+// ────────────────────────────────────────────────────────────────────
+
+import {
+  areaLamp,
+  bezierCurve,
+  circularArc,
+  collimatedSource,
+  coneSource,
+  diffuseSky,
+  heightField,
+  horizontalSegment,
+  lambertianScatterer,
+  lambertianSource,
+  lineSegment,
+  polarizer,
+  verticalSegment,
+  withPolarization,
+} from './raytracer';
+import type {
+  LightSource,
+  Medium,
+  Scene,
+  SceneBounds,
+  Stokes,
+  Surface,
+  Vec2,
+} from './raytracer';
+import { detector } from './detector';
+import { withSpectrum } from './spectrum';
+import type { SourceSampling } from './sampling';
+import type { Spectrum } from './spectrum';
+
+export type SurfaceData =
+  | {
+      kind: 'horizontalSegment';
+      name: string;
+      y: number;
+      xMin: number;
+      xMax: number;
+      mediumPlus: Medium;
+      mediumMinus: Medium;
+    }
+  | {
+      kind: 'verticalSegment';
+      name: string;
+      x: number;
+      yMin: number;
+      yMax: number;
+      mediumPlus: Medium;
+      mediumMinus: Medium;
+    }
+  | {
+      kind: 'lineSegment';
+      name: string;
+      a: Vec2;
+      b: Vec2;
+      mediumPlus: Medium;
+      mediumMinus: Medium;
+    }
+  | {
+      kind: 'heightField';
+      name: string;
+      xMin: number;
+      xMax: number;
+      /** f(x) at xMin + (xMax − xMin)·i/(ys.length − 1) */
+      ys: number[];
+      /** per-sample media and existence, on the same grid as `ys` */
+      mediumPlus: Medium[];
+      mediumMinus: Medium[];
+      exists: boolean[];
+    }
+  | {
+      kind: 'lambertianScatterer';
+      name: string;
+      y: number;
+      xMin: number;
+      xMax: number;
+      mediumPlus: Medium;
+      mediumMinus: Medium;
+      albedo: number;
+      scatterRayCount: number;
+    }
+  | {
+      kind: 'circularArc';
+      name: string;
+      center: Vec2;
+      radius: number;
+      startDeg: number;
+      sweepDeg: number;
+      mediumPlus: Medium;
+      mediumMinus: Medium;
+    }
+  | {
+      kind: 'bezierCurve';
+      name: string;
+      /** 3 (quadratic) or 4 (cubic) control points */
+      points: Vec2[];
+      mediumPlus: Medium;
+      mediumMinus: Medium;
+    }
+  | {
+      kind: 'detector';
+      name: string;
+      a: Vec2;
+      b: Vec2;
+      medium: Medium;
+      positionBins: number;
+      angleBins: number;
+      maxAngleDeg: number;
+    }
+  | {
+      kind: 'polarizer';
+      name: string;
+      a: Vec2;
+      b: Vec2;
+      medium: Medium;
+      axisDeg: number;
+    };
+
+/**
+ * A light source factory's arguments. `spectrum` is set when the source
+ * was wrapped with `withSpectrum`, `polarization` when it was wrapped
+ * with `withPolarization`.
+ */
+export type SourceData = (
+  | {
+      kind: 'collimatedSource';
+      position: Vec2;
+      primaryDir: Vec2;
+      ambient: Medium;
+      totalIntensity: number;
+    }
+  | {
+      kind: 'coneSource';
+      position: Vec2;
+      primaryDir: Vec2;
+      halfAngleDeg: number;
+      rayCount: number;
+      ambient: Medium;
+      totalIntensity: number;
+    }
+  | {
+      kind: 'lambertianSource';
+      position: Vec2;
+      outwardNormal: Vec2;
+      rayCount: number;
+      ambient: Medium;
+      totalIntensity: number;
+      sampling?: SourceSampling;
+    }
+  | {
+      kind: 'diffuseSky';
+      aimXMin: number;
+      aimXMax: number;
+      aimY: number;
+      originDistance: number;
+      numDirections: number;
+      raysPerDirection: number;
+      ambient: Medium;
+      totalIntensity: number;
+      sampling?: SourceSampling;
+    }
+  | {
+      kind: 'areaLamp';
+      centerPosition: Vec2;
+      emitterRadius: number;
+      primaryDir: Vec2;
+      halfAngleDeg: number;
+      rayCount: number;
+      ambient: Medium;
+      totalIntensity: number;
+      sampling?: SourceSampling;
+    }
+) & { spectrum?: Spectrum; polarization?: Stokes };
+
+export interface SceneData {
+  surfaces: SurfaceData[];
+  bounds: SceneBounds;
+}
+
+/** True iff every surface in the scene carries a plain-data description. */
+export function isSceneSerializable(scene: Scene): boolean {
+  return scene.surfaces.every((s) => s.data !== undefined);
+}
+
+/**
+ * Describe a scene as plain data. Throws if a surface was built by hand
+ * (not by one of the raytracer's factories) and so has no `data`.
+ */
+export function sceneToData(scene: Scene): SceneData {
+  return {
+    surfaces: scene.surfaces.map((s) => {
+      if (!s.data) {
+        throw new Error(`Surface "${s.name}" has no plain-data description`);
+      }
+      return s.data;
+    }),
+    bounds: { ...scene.bounds },
+  };
+}
+
+/** Rebuild a live surface from its plain-data description. */
+export function surfaceFromData(d: SurfaceData): Surface {
+  switch (d.kind) {
+    case 'horizontalSegment':
+      return horizontalSegment(d.name, d.y, d.xMin, d.xMax, d.mediumPlus, d.mediumMinus);
+    case 'verticalSegment':
+      return verticalSegment(d.name, d.x, d.yMin, d.yMax, d.mediumPlus, d.mediumMinus);
+    case 'lineSegment':
+      return lineSegment(d.name, d.a, d.b, d.mediumPlus, d.mediumMinus);
+    case 'lambertianScatterer':
+      return lambertianScatterer(
+        d.name,
+        d.y,
+        d.xMin,
+        d.xMax,
+        d.mediumPlus,
+        d.mediumMinus,
+        d.albedo,
+        d.scatterRayCount,
+      );
+    case 'circularArc':
+      return circularArc(
+        d.name,
+        d.center,
+        d.radius,
+        d.startDeg,
+        d.sweepDeg,
+        d.mediumPlus,
+        d.mediumMinus,
+      );
+    case 'bezierCurve':
+      return bezierCurve(d.name, d.points, d.mediumPlus, d.mediumMinus);
+    case 'detector': {
+      const { kind: _, name, a, b, medium, ...bins } = d;
+      return detector(name, a, b, medium, bins);
+    }
+    case 'polarizer':
+      return polarizer(d.name, d.a, d.b, d.medium, d.axisDeg);
+    case 'heightField': {
+      const last = d.ys.length - 1;
+      const step = (d.xMax - d.xMin) / last;
+      const nearest = (x: number) =>
+        Math.max(0, Math.min(last, Math.round((x - d.xMin) / step)));
+      const f = (x: number) => {
+        const u = Math.max(0, Math.min(last, (x - d.xMin) / step));
+        const i = Math.min(last - 1, Math.floor(u));
+        const frac = u - i;
+        return d.ys[i] + frac * (d.ys[i + 1] - d.ys[i]);
+      };
+      return heightField(
+        d.name,
+        f,
+        d.xMin,
+        d.xMax,
+        (x) => d.mediumPlus[nearest(x)],
+        (x) => d.mediumMinus[nearest(x)],
+        (x) => d.exists[nearest(x)],
+      );
+    }
+  }
+}
+
+/** Rebuild a live scene from its plain-data description. */
+export function sceneFromData(data: SceneData): Scene {
+  return {
+    surfaces: data.surfaces.map(surfaceFromData),
+    bounds: { ...data.bounds },
+  };
+}
+
+/** Rebuild a live light source from its plain-data description. */
+export function sourceFromData(d: SourceData): LightSource {
+  let source = baseSourceFromData(d);
+  if (d.polarization) source = withPolarization(source, d.polarization);
+  return d.spectrum ? withSpectrum(source, d.spectrum) : source;
+}
+
+function baseSourceFromData(d: SourceData): LightSource {
+  switch (d.kind) {
+    case 'collimatedSource':
+      return collimatedSource(d.position, d.primaryDir, d.ambient, d.totalIntensity);
+    case 'coneSource':
+      return coneSource(
+        d.position,
+        d.primaryDir,
+        d.halfAngleDeg,
+        d.rayCount,
+        d.ambient,
+        d.totalIntensity,
+      );
+    case 'lambertianSource':
+      return lambertianSource(
+        d.position,
+        d.outwardNormal,
+        d.rayCount,
+        d.ambient,
+        d.totalIntensity,
+        d.sampling,
+      );
+    case 'diffuseSky': {
+      const { kind: _, spectrum: __, polarization: ___, ...opts } = d;
+      return diffuseSky(opts);
+    }
+    case 'areaLamp': {
+      const { kind: _, spectrum: __, polarization: ___, ...opts } = d;
+      return areaLamp(opts);
+    }
+  }
+}
@@ -0,0 +1,262 @@
+// ────────────────────────────────────────────────────────────────────
+// Editing operations on plain-data optics scenes.
+//
+// Pure functions. No React, no canvas, no DOM.
+//
+// `SceneEditor` edits a scene as data — the `SurfaceData` / `SourceData`
+// descriptions from ./sceneData — rather than as live surfaces, so every
+// edit is a small immutable update that can be undone, traced in the
+// worker and exported as a scene file. This module supplies the
+// geometry the editor needs:
+//   • `outlineOf`: a polyline to draw for each surface.
+//   • `handlesOf`: the draggable points of every surface and source —
+//     segment endpoints, arc centres and ends, Bézier control points,
+//     source positions, and direction handles that set a source's aim.
+//   • `moveHandle`: the scene with one handle dragged to a new point.
+//   • `snapToGrid` / `snapDirection`: snapping for either kind of
+//     handle.
+// Height fields are drawn but have no handles.
+// ────────────────────────────────────────────────────────────────────
+
+import type { SceneBounds, Vec2 } from './raytracer';
+import type { SourceData, SurfaceData } from './sceneData';
+
+export interface EditableScene {
+  surfaces: SurfaceData[];
+  sources: SourceData[];
+  bounds: SceneBounds;
+}
+
+export interface Handle {
+  owner: 'surface' | 'source';
+  /** index into `surfaces` or `sources` */
+  index: number;
+  /** the parameter the handle drives, e.g. 'a', 'xMax', 'primaryDir' */
+  key: string;
+  point: Vec2;
+  /** set for direction handles, which rotate about this point */
+  anchor?: Vec2;
+}
+
+// Segments are kept at least this long (mm) so no drag can collapse one
+// to a point, which has no normal.
+const MIN_SPAN = 0.1;
+
+const DEG = Math.PI / 180;
+
+const sub = (a: Vec2, b: Vec2): Vec2 => ({ x: a.x - b.x, y: a.y - b.y });
+const dist = (a: Vec2, b: Vec2) => Math.hypot(a.x - b.x, a.y - b.y);
+const polar = (c: Vec2, r: number, deg: number): Vec2 => ({
+  x: c.x + r * Math.cos(deg * DEG),
+  y: c.y + r * Math.sin(deg * DEG),
+});
+const angleDeg = (v: Vec2) => Math.atan2(v.y, v.x) / DEG;
+
+function bezierPoint(p: Vec2[], t: number): Vec2 {
+  // de Casteljau
+  let pts = p;
+  while (pts.length > 1) {
+    pts = pts.slice(1).map((q, i) => ({
+      x: pts[i].x + (q.x - pts[i].x) * t,
+      y: pts[i].y + (q.y - pts[i].y) * t,
+    }));
+  }
+  return pts[0];
+}
+
+/** Polyline tracing surface `d`; curves use `samples` segments. */
+export function outlineOf(d: SurfaceData, samples = 32): Vec2[] {
+  switch (d.kind) {
+    case 'horizontalSegment':
+    case 'lambertianScatterer':
+      return [
+        { x: d.xMin, y: d.y },
+        { x: d.xMax, y: d.y },
+      ];
+    case 'verticalSegment':
+      return [
+        { x: d.x, y: d.yMin },
+        { x: d.x, y: d.yMax },
+      ];
+    case 'lineSegment':
+    case 'detector':
+    case 'polarizer':
+      return [d.a, d.b];
+    case 'heightField': {
+      const n = d.ys.length;
+      return d.ys.map((y, i) => ({
+        x: d.xMin + ((d.xMax - d.xMin) * i) / Math.max(1, n - 1),
+        y,
+      }));
+    }
+    case 'circularArc':
+      return Array.from({ length: samples + 1 }, (_, i) =>
+        polar(d.center, d.radius, d.startDeg + (d.sweepDeg * i) / samples),
+      );
+    case 'bezierCurve':
+      return Array.from({ length: samples + 1 }, (_, i) => bezierPoint(d.points, i / samples));
+  }
+}
+
+const unit = (v: Vec2): Vec2 => {
+  const n = Math.hypot(v.x, v.y);
+  return n > 0 ? { x: v.x / n, y: v.y / n } : { x: 0, y: -1 };
+};
+
+/**
+ * Every draggable handle in `scene`. Direction handles sit `dirLength`
+ * (mm) from their anchor along the direction they control.
+ */
+export function handlesOf(scene: EditableScene, dirLength: number): Handle[] {
+  const out: Handle[] = [];
+  for (const [index, d] of scene.surfaces.entries()) {
+    const at = (key: string, point: Vec2) => out.push({ owner: 'surface', index, key, point });
+    switch (d.kind) {
+      case 'horizontalSegment':
+      case 'lambertianScatterer':
+        at('xMin', { x: d.xMin, y: d.y });
+        at('xMax', { x: d.xMax, y: d.y });
+        break;
+      case 'verticalSegment':
+        at('yMin', { x: d.x, y: d.yMin });
+        at('yMax', { x: d.x, y: d.yMax });
+        break;
+      case 'lineSegment':
+      case 'detector':
+      case 'polarizer':
+        at('a', d.a);
+        at('b', d.b);
+        break;
+      case 'circularArc':
+        at('center', d.center);
+        at('start', polar(d.center, d.radius, d.startDeg));
+        at('end', polar(d.center, d.radius, d.startDeg + d.sweepDeg));
+        break;
+      case 'bezierCurve':
+        for (const [i, p] of d.points.entries()) at(`p${i}`, p);
+        break;
+      case 'heightField':
+        break;
+    }
+  }
+  for (const [index, d] of scene.sources.entries()) {
+    const at = (key: string, point: Vec2) => out.push({ owner: 'source', index, key, point });
+    const aim = (key: string, anchor: Vec2, dir: Vec2) => {
+      const u = unit(dir);
+      out.push({
+        owner: 'source',
+        index,
+        key,
+        anchor,
+        point: { x: anchor.x + dirLength * u.x, y: anchor.y + dirLength * u.y },
+      });
+    };
+    switch (d.kind) {
+      case 'collimatedSource':
+      case 'coneSource':
+        at('position', d.position);
+        aim('primaryDir', d.position, d.primaryDir);
+        break;
+      case 'lambertianSource':
+        at('position', d.position);
+        aim('outwardNormal', d.position, d.outwardNormal);
+        break;
+      case 'areaLamp':
+        at('centerPosition', d.centerPosition);
+        aim('primaryDir', d.centerPosition, d.primaryDir);
+        break;
+      case 'diffuseSky':
+        at('aimXMin', { x: d.aimXMin, y: d.aimY });
+        at('aimXMax', { x: d.aimXMax, y: d.aimY });
+        break;
+    }
+  }
+  return out;
+}
+
+function moveSurface(d: SurfaceData, key: string, to: Vec2): SurfaceData {
+  switch (d.kind) {
+    case 'horizontalSegment':
+    case 'lambertianScatterer':
+      return key === 'xMin'
+        ? { ...d, y: to.y, xMin: Math.min(to.x, d.xMax - MIN_SPAN) }
+        : { ...d, y: to.y, xMax: Math.max(to.x, d.xMin + MIN_SPAN) };
+    case 'verticalSegment':
+      return key === 'yMin'
+        ? { ...d, x: to.x, yMin: Math.min(to.y, d.yMax - MIN_SPAN) }
+        : { ...d, x: to.x, yMax: Math.max(to.y, d.yMin + MIN_SPAN) };
+    case 'lineSegment':
+    case 'detector':
+    case 'polarizer': {
+      const other = key === 'a' ? d.b : d.a;
+      if (dist(to, other) < MIN_SPAN) return d;
+      return { ...d, [key]: to };
+    }
+    case 'circularArc': {
+      if (key === 'center') return { ...d, center: to };
+      const radius = dist(to, d.center);
+      if (radius < MIN_SPAN) return d;
+      const theta = angleDeg(sub(to, d.center));
+      if (key === 'start') return { ...d, radius, startDeg: theta };
+      // Dragging the end changes the sweep, keeping its direction; an
+      // end dragged onto the start closes the circle.
+      const turn = (((theta - d.startDeg) % 360) + 360) % 360;
+      const ccw = turn === 0 ? 360 : turn;
+      const sweepDeg = d.sweepDeg >= 0 ? ccw : ccw - 360 || -360;
+      return { ...d, radius, sweepDeg };
+    }
+    case 'bezierCurve': {
+      const i = Number(key.slice(1));
+      return { ...d, points: d.points.map((p, j) => (j === i ? to : p)) };
+    }
+    case 'heightField':
+      return d;
+  }
+}
+
+function moveSource(d: SourceData, handle: Handle, to: Vec2): SourceData {
+  if (handle.anchor) {
+    const dir = sub(to, handle.anchor);
+    if (Math.hypot(dir.x, dir.y) < MIN_SPAN) return d;
+    return { ...d, [handle.key]: unit(dir) } as SourceData;
+  }
+  if (d.kind === 'diffuseSky') {
+    return handle.key === 'aimXMin'
+      ? { ...d, aimY: to.y, aimXMin: Math.min(to.x, d.aimXMax - MIN_SPAN) }
+      : { ...d, aimY: to.y, aimXMax: Math.max(to.x, d.aimXMin + MIN_SPAN) };
+  }
+  return { ...d, [handle.key]: to } as SourceData;
+}
+
+/** `scene` with `handle` dragged to `to`; unchanged if the move is degenerate. */
+export function moveHandle(scene: EditableScene, handle: Handle, to: Vec2): EditableScene {
+  if (handle.owner === 'surface') {
+    return {
+      ...scene,
+      surfaces: scene.surfaces.map((d, i) =>
+        i === handle.index ? moveSurface(d, handle.key, to) : d,
+      ),
+    };
+  }
+  return {
+    ...scene,
+    sources: scene.sources.map((d, i) => (i === handle.index ? moveSource(d, handle, to) : d)),
+  };
+}
+
+/** Round `p` to the nearest multiple of `grid` mm (no-op for grid ≤ 0). */
+export function snapToGrid(p: Vec2, grid: number): Vec2 {
+  if (grid <= 0) return p;
+  return { x: Math.round(p.x / grid) * grid, y: Math.round(p.y / grid) * grid };
+}
+
+/**
+ * `to`, rotated about `anchor` onto the nearest multiple of `stepDeg`
+ * (no-op for stepDeg ≤ 0); the distance from the anchor is kept.
+ */
+export function snapDirection(anchor: Vec2, to: Vec2, stepDeg: number): Vec2 {
+  if (stepDeg <= 0) return to;
+  const r = dist(to, anchor);
+  const theta = Math.round(angleDeg(sub(to, anchor)) / stepDeg) * stepDeg;
+  return polar(anchor, r, theta);
+}
@@ -0,0 +1,608 @@
+// ────────────────────────────────────────────────────────────────────
+// JSON scene files for the raytracer.
+//
+// Pure data. No React, no canvas, no DOM.
+//
+// A scene file is a complete, self-contained optics setup — media,
+// surfaces, light sources, bounds and trace options — as JSON that can
+// be saved, diffed, put in a URL or MDX frontmatter, and loaded back
+// into a live `Scene` + `LightSource[]`. It is the persisted sibling of
+// the in-memory `SceneData` (./sceneData), with three differences:
+//   • Media live in a table keyed by name; surfaces and sources refer to
+//     them by name instead of embedding a copy.
+//   • Height-field media and existence are stored as runs
+//     `[firstSampleIndex, value]` rather than one entry per sample.
+//   • The document is versioned (`version: 1`) and validated on load.
+//
+// Media entries may carry `dispersion` and `absorption` alongside the
+// reference `n` / `alpha`; sources may carry an emission `spectrum` and
+// a Stokes `polarization`, and the randomized ones (Lambertian, sky,
+// area lamp) a `sampling` seed and mode.
+//
+// Example (abridged):
+//   {
+//     "version": 1,
+//     "media": { "air": { "n": 1.0003, "alpha": 0 }, … },
+//     "surfaces": [
+//       { "kind": "horizontalSegment", "name": "floor", "y": 0,
+//         "xMin": -50, "xMax": 50, "mediumPlus": "agar",
+//         "mediumMinus": "polystyrene" }, …
+//     ],
+//     "sources": [ { "kind": "coneSource", … "ambient": "air" } ],
+//     "bounds": { "xMin": -180, "xMax": 180, "yMin": -22, "yMax": 278 },
+//     "options": { "maxDepth": 7, "minIntensity": 1e-5 }
+//   }
+// ────────────────────────────────────────────────────────────────────
+
+import type {
+  Dispersion,
+  LightSource,
+  Medium,
+  Scene,
+  SceneBounds,
+  Stokes,
+  TraceOptions,
+} from './raytracer';
+import { sourceFromData, surfaceFromData } from './sceneData';
+import type { SamplingMode, SourceSampling } from './sampling';
+import type { SourceData, SurfaceData } from './sceneData';
+import type { Spectrum } from './spectrum';
+
+export const SCENE_FILE_VERSION = 1;
+
+/** `[firstSampleIndex, value]` pairs; each value holds until the next run. */
+export type Runs<T> = Array<[number, T]>;
+
+/** A factory description with every `Medium` replaced by its name. */
+type Named<T> = { [K in keyof T]: T[K] extends Medium ? string : T[K] };
+
+export type SurfaceJson =
+  | Named<Exclude<SurfaceData, { kind: 'heightField' }>>
+  | {
+      kind: 'heightField';
+      name: string;
+      xMin: number;
+      xMax: number;
+      ys: number[];
+      mediumPlus: Runs<string>;
+      mediumMinus: Runs<string>;
+      exists: Runs<boolean>;
+    };
+
+export type SourceJson = Named<SourceData>;
+
+/** A media-table entry: a `Medium` without its name (the table key). */
+export type MediumJson = Omit<Medium, 'name'>;
+
+export interface SceneFile {
+  version: typeof SCENE_FILE_VERSION;
+  media: Record<string, MediumJson>;
+  surfaces: SurfaceJson[];
+  sources: SourceJson[];
+  bounds: SceneBounds;
+  options: TraceOptions;
+}
+
+export interface LoadedScene {
+  scene: Scene;
+  sources: LightSource[];
+  options: TraceOptions;
+}
+
+// ─── field tables ───────────────────────────────────────────────────
+// Per-kind field types drive both validation and the Medium ↔ name
+// conversion, so adding a factory means adding one row here.
+
+type FieldType = 'number' | 'string' | 'vec2' | 'vec2[]' | 'medium';
+
+const SURFACE_FIELDS: Record<
+  Exclude<SurfaceData['kind'], 'heightField'>,
+  Record<string, FieldType>
+> = {
+  horizontalSegment: {
+    name: 'string',
+    y: 'number',
+    xMin: 'number',
+    xMax: 'number',
+    mediumPlus: 'medium',
+    mediumMinus: 'medium',
+  },
+  verticalSegment: {
+    name: 'string',
+    x: 'number',
+    yMin: 'number',
+    yMax: 'number',
+    mediumPlus: 'medium',
+    mediumMinus: 'medium',
+  },
+  lineSegment: {
+    name: 'string',
+    a: 'vec2',
+    b: 'vec2',
+    mediumPlus: 'medium',
+    mediumMinus: 'medium',
+  },
+  lambertianScatterer: {
+    name: 'string',
+    y: 'number',
+    xMin: 'number',
+    xMax: 'number',
+    mediumPlus: 'medium',
+    mediumMinus: 'medium',
+    albedo: 'number',
+    scatterRayCount: 'number',
+  },
+  circularArc: {
+    name: 'string',
+    center: 'vec2',
+    radius: 'number',
+    startDeg: 'number',
+    sweepDeg: 'number',
+    mediumPlus: 'medium',
+    mediumMinus: 'medium',
+  },
+  bezierCurve: {
+    name: 'string',
+    points: 'vec2[]',
+    mediumPlus: 'medium',
+    mediumMinus: 'medium',
+  },
+  detector: {
+    name: 'string',
+    a: 'vec2',
+    b: 'vec2',
+    medium: 'medium',
+    positionBins: 'number',
+    angleBins: 'number',
+    maxAngleDeg: 'number',
+  },
+  polarizer: {
+    name: 'string',
+    a: 'vec2',
+    b: 'vec2',
+    medium: 'medium',
+    axisDeg: 'number',
+  },
+};
+
+const SOURCE_FIELDS: Record<SourceData['kind'], Record<string, FieldType>> = {
+  collimatedSource: {
+    position: 'vec2',
+    primaryDir: 'vec2',
+    ambient: 'medium',
+    totalIntensity: 'number',
+  },
+  coneSource: {
+    position: 'vec2',
+    primaryDir: 'vec2',
+    halfAngleDeg: 'number',
+    rayCount: 'number',
+    ambient: 'medium',
+    totalIntensity: 'number',
+  },
+  lambertianSource: {
+    position: 'vec2',
+    outwardNormal: 'vec2',
+    rayCount: 'number',
+    ambient: 'medium',
+    totalIntensity: 'number',
+  },
+  diffuseSky: {
+    aimXMin: 'number',
+    aimXMax: 'number',
+    aimY: 'number',
+    originDistance: 'number',
+    numDirections: 'number',
+    raysPerDirection: 'number',
+    ambient: 'medium',
+    totalIntensity: 'number',
+  },
+  areaLamp: {
+    centerPosition: 'vec2',
+    emitterRadius: 'number',
+    primaryDir: 'vec2',
+    halfAngleDeg: 'number',
+    rayCount: 'number',
+    ambient: 'medium',
+    totalIntensity: 'number',
+  },
+};
+
+// ─── helpers ────────────────────────────────────────────────────────
+
+type Json = Record<string, unknown>;
+
+const isObject = (v: unknown): v is Json =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const isNumber = (v: unknown): v is number =>
+  typeof v === 'number' && Number.isFinite(v);
+
+function fail(path: string, message: string): never {
+  throw new Error(`Invalid scene file at ${path}: ${message}`);
+}
+
+export function toRuns<T>(values: ReadonlyArray<T>): Runs<T> {
+  const runs: Runs<T> = [];
+  for (let i = 0; i < values.length; i++) {
+    if (i === 0 || values[i] !== values[i - 1]) runs.push([i, values[i]]);
+  }
+  return runs;
+}
+
+/**
+ * Expands `runs` to `length` samples. Expects the indices `loadSceneFile`
+ * checks for: integers starting at 0, strictly ascending, below `length`.
+ */
+export function fromRuns<T>(runs: Runs<T>, length: number): T[] {
+  const out: T[] = [];
+  for (let r = 0; r < runs.length; r++) {
+    const end = r + 1 < runs.length ? runs[r + 1][0] : length;
+    for (let i = runs[r][0]; i < end; i++) out.push(runs[r][1]);
+  }
+  return out;
+}
+
+/**
+ * Copy `src` field by field per `fields`, mapping each 'medium' field
+ * through `mapMedium` and validating the rest.
+ */
+function convertFields(
+  src: Json,
+  fields: Record<string, FieldType>,
+  path: string,
+  mapMedium: (v: unknown, path: string) => unknown,
+): Json {
+  const out: Json = {};
+  for (const [key, type] of Object.entries(fields)) {
+    const v = src[key];
+    const p = `${path}.${key}`;
+    switch (type) {
+      case 'number':
+        if (!isNumber(v)) fail(p, 'expected a finite number');
+        out[key] = v;
+        break;
+      case 'string':
+        if (typeof v !== 'string') fail(p, 'expected a string');
+        out[key] = v;
+        break;
+      case 'vec2':
+        if (!isObject(v) || !isNumber(v.x) || !isNumber(v.y)) {
+          fail(p, 'expected { x, y }');
+        }
+        out[key] = { x: v.x, y: v.y };
+        break;
+      case 'vec2[]':
+        if (!Array.isArray(v)) fail(p, 'expected an array of { x, y }');
+        out[key] = v.map((pt: unknown, i) => {
+          if (!isObject(pt) || !isNumber(pt.x) || !isNumber(pt.y)) {
+            fail(`${p}[${i}]`, 'expected { x, y }');
+          }
+          return { x: pt.x, y: pt.y };
+        });
+        break;
+      case 'medium':
+        out[key] = mapMedium(v, p);
+        break;
+    }
+  }
+  return out;
+}
+
+const isNumberArray = (v: unknown): v is number[] =>
+  Array.isArray(v) && v.every(isNumber);
+
+function dispersionOf(v: unknown, path: string): Dispersion {
+  if (!isObject(v)) fail(path, 'expected an object');
+  if (v.model === 'cauchy') {
+    if (!isNumber(v.A) || !isNumber(v.B) || (v.C !== undefined && !isNumber(v.C))) {
+      fail(path, 'expected { model: "cauchy", A, B, C? }');
+    }
+    return v.C === undefined
+      ? { model: 'cauchy', A: v.A, B: v.B }
+      : { model: 'cauchy', A: v.A, B: v.B, C: v.C };
+  }
+  if (v.model === 'sellmeier') {
+    if (!isNumberArray(v.B) || !isNumberArray(v.C) || v.B.length !== v.C.length) {
+      fail(path, 'expected { model: "sellmeier", B, C } with equal-length B and C');
+    }
+    return { model: 'sellmeier', B: [...v.B], C: [...v.C] };
+  }
+  fail(`${path}.model`, `unknown dispersion model ${JSON.stringify(v.model)}`);
+}
+
+function absorptionOf(v: unknown, path: string): Array<[number, number]> {
+  if (!Array.isArray(v)) fail(path, 'expected an array');
+  return v.map((pair: unknown, i): [number, number] => {
+    if (!Array.isArray(pair) || pair.length !== 2 || !pair.every(isNumber)) {
+      fail(`${path}[${i}]`, 'expected [wavelength, alpha]');
+    }
+    return [pair[0], pair[1]];
+  });
+}
+
+function spectrumOf(v: unknown, path: string): Spectrum {
+  if (!Array.isArray(v) || v.length === 0) fail(path, 'expected a non-empty array');
+  return v.map((line: unknown, i) => {
+    if (!isObject(line) || !isNumber(line.wavelength) || !isNumber(line.weight)) {
+      fail(`${path}[${i}]`, 'expected { wavelength, weight }');
+    }
+    return { wavelength: line.wavelength, weight: line.weight };
+  });
+}
+
+function stokesOf(v: unknown, path: string): Stokes {
+  if (!isObject(v) || !isNumber(v.q) || !isNumber(v.u) || !isNumber(v.v)) {
+    fail(path, 'expected { q, u, v }');
+  }
+  if (v.q * v.q + v.u * v.u + v.v * v.v > 1 + 1e-9) {
+    fail(path, 'degree of polarization exceeds 1');
+  }
+  return { q: v.q, u: v.u, v: v.v };
+}
+
+const SAMPLING_MODES: ReadonlyArray<SamplingMode> = ['random', 'stratified', 'halton'];
+const SAMPLED_SOURCES: ReadonlyArray<SourceData['kind']> = [
+  'lambertianSource',
+  'diffuseSky',
+  'areaLamp',
+];
+
+function samplingModeOf(v: unknown, path: string): SamplingMode {
+  if (!SAMPLING_MODES.includes(v as SamplingMode)) {
+    fail(path, `expected one of ${SAMPLING_MODES.map((m) => `"${m}"`).join(', ')}`);
+  }
+  return v as SamplingMode;
+}
+
+function samplingOf(v: unknown, path: string): SourceSampling {
+  if (!isObject(v)) fail(path, 'expected { seed?, mode? }');
+  const sampling: SourceSampling = {};
+  if (v.seed !== undefined) {
+    if (!isNumber(v.seed)) fail(`${path}.seed`, 'expected a number');
+    sampling.seed = v.seed;
+  }
+  if (v.mode !== undefined) sampling.mode = samplingModeOf(v.mode, `${path}.mode`);
+  return sampling;
+}
+
+// ─── export ─────────────────────────────────────────────────────────
+
+/**
+ * Describe a live scene, its light sources and trace options as a scene
+ * file. Throws if a surface or source was built by hand (has no `data`),
+ * or if two different media share a name.
+ */
+export function exportSceneFile(input: {
+  scene: Scene;
+  sources: ReadonlyArray<LightSource>;
+  options?: TraceOptions;
+}): SceneFile {
+  const media: SceneFile['media'] = {};
+  const nameOf = (m: unknown, path: string): string => {
+    const medium = m as Medium;
+    const { name, ...entry } = medium;
+    const known = media[name];
+    if (known && JSON.stringify(known) !== JSON.stringify(entry)) {
+      fail(path, `two different media are named "${name}"`);
+    }
+    media[name] = entry;
+    return name;
+  };
+
+  const surfaces = input.scene.surfaces.map((s, i): SurfaceJson => {
+    const path = `surfaces[${i}]`;
+    const d = s.data;
+    if (!d) fail(path, `surface "${s.name}" has no plain-data description`);
+    if (d.kind === 'heightField') {
+      return {
+        kind: d.kind,
+        name: d.name,
+        xMin: d.xMin,
+        xMax: d.xMax,
+        ys: d.ys,
+        mediumPlus: toRuns(d.mediumPlus.map((m) => nameOf(m, path))),
+        mediumMinus: toRuns(d.mediumMinus.map((m) => nameOf(m, path))),
+        exists: toRuns(d.exists),
+      };
+    }
+    const fields = convertFields(d, SURFACE_FIELDS[d.kind], path, nameOf);
+    return { kind: d.kind, ...fields } as SurfaceJson;
+  });
+
+  const sources = input.sources.map((src, i): SourceJson => {
+    const path = `sources[${i}]`;
+    const d = src.data;
+    if (!d) fail(path, 'light source has no plain-data description');
+    const fields = convertFields(d, SOURCE_FIELDS[d.kind], path, nameOf);
+    const spectrum = d.spectrum && { spectrum: d.spectrum.map((l) => ({ ...l })) };
+    const polarization = d.polarization && { polarization: { ...d.polarization } };
+    const sampling = 'sampling' in d && d.sampling && { sampling: { ...d.sampling } };
+    return {
+      kind: d.kind,
+      ...fields,
+      ...spectrum,
+      ...polarization,
+      ...sampling,
+    } as SourceJson;
+  });
+
+  return {
+    version: SCENE_FILE_VERSION,
+    media,
+    surfaces,
+    sources,
+    bounds: { ...input.scene.bounds },
+    options: { ...input.options },
+  };
+}
+
+// ─── load ───────────────────────────────────────────────────────────
+
+/**
+ * Validate a parsed scene file and build the live scene, light sources
+ * and trace options it describes. Throws an Error naming the offending
+ * path (e.g. `surfaces[3].mediumPlus`) on any malformed input.
+ */
+export function loadSceneFile(input: unknown): LoadedScene {
+  if (!isObject(input)) fail('$', 'expected an object');
+  if (input.version !== SCENE_FILE_VERSION) {
+    fail('version', `expected ${SCENE_FILE_VERSION}, got ${String(input.version)}`);
+  }
+
+  if (!isObject(input.media)) fail('media', 'expected an object');
+  const media = new Map<string, Medium>();
+  for (const [name, m] of Object.entries(input.media)) {
+    if (!isObject(m) || !isNumber(m.n) || !isNumber(m.alpha)) {
+      fail(`media.${name}`, 'expected { n, alpha }');
+    }
+    const dispersion = m.dispersion === undefined
+      ? undefined
+      : dispersionOf(m.dispersion, `media.${name}.dispersion`);
+    const absorption = m.absorption === undefined
+      ? undefined
+      : absorptionOf(m.absorption, `media.${name}.absorption`);
+    media.set(name, {
+      name,
+      n: m.n,
+      alpha: m.alpha,
+      ...(dispersion && { dispersion }),
+      ...(absorption && { absorption }),
+    });
+  }
+  const mediumOf = (v: unknown, path: string): Medium => {
+    const m = typeof v === 'string' ? media.get(v) : undefined;
+    if (!m) fail(path, `unknown medium ${JSON.stringify(v)}`);
+    return m;
+  };
+
+  if (!Array.isArray(input.surfaces)) fail('surfaces', 'expected an array');
+  const surfaces = input.surfaces.map((s: unknown, i) => {
+    const path = `surfaces[${i}]`;
+    if (!isObject(s)) fail(path, 'expected an object');
+    if (s.kind === 'heightField') {
+      const { ys } = s;
+      if (!Array.isArray(ys) || ys.length < 2 || !ys.every(isNumber)) {
+        fail(`${path}.ys`, 'expected at least two finite numbers');
+      }
+      if (typeof s.name !== 'string') fail(`${path}.name`, 'expected a string');
+      if (!isNumber(s.xMin) || !isNumber(s.xMax)) {
+        fail(path, 'expected finite xMin and xMax');
+      }
+      if (s.xMin >= s.xMax) fail(path, 'expected xMin < xMax');
+      const runs = <T>(key: string, check: (v: unknown, p: string) => T): T[] => {
+        const r = s[key];
+        if (!Array.isArray(r) || r.length === 0) fail(`${path}.${key}`, 'expected runs');
+        const parsed: Runs<T> = r.map((run: unknown, j) => {
+          const p = `${path}.${key}[${j}]`;
+          if (!Array.isArray(run) || !isNumber(run[0])) fail(p, 'expected [index, value]');
+          const index = run[0];
+          if (!Number.isInteger(index)) fail(p, `run index ${index} is not an integer`);
+          if (j === 0 && index !== 0) fail(p, 'the first run must start at index 0');
+          if (j > 0 && index <= r[j - 1][0]) fail(p, 'run indices must ascend');
+          if (index >= ys.length) fail(p, `run index ${index} is past the last sample`);
+          return [index, check(run[1], p)];
+        });
+        return fromRuns(parsed, ys.length);
+      };
+      return surfaceFromData({
+        kind: 'heightField',
+        name: s.name,
+        xMin: s.xMin,
+        xMax: s.xMax,
+        ys,
+        mediumPlus: runs('mediumPlus', mediumOf),
+        mediumMinus: runs('mediumMinus', mediumOf),
+        exists: runs('exists', (v, p) => {
+          if (typeof v !== 'boolean') fail(p, 'expected a boolean');
+          return v;
+        }),
+      });
+    }
+    // Own keys only, so an inherited name such as "constructor" is rejected
+    const kind = s.kind as keyof typeof SURFACE_FIELDS;
+    if (typeof kind !== 'string' || !Object.hasOwn(SURFACE_FIELDS, kind)) {
+      fail(`${path}.kind`, `unknown surface kind ${JSON.stringify(s.kind)}`);
+    }
+    const fields = convertFields(s, SURFACE_FIELDS[kind], path, mediumOf);
+    return surfaceFromData({ kind, ...fields } as SurfaceData);
+  });
+
+  if (!Array.isArray(input.sources)) fail('sources', 'expected an array');
+  const sources = input.sources.map((src: unknown, i) => {
+    const path = `sources[${i}]`;
+    if (!isObject(src)) fail(path, 'expected an object');
+    const kind = src.kind as keyof typeof SOURCE_FIELDS;
+    if (typeof kind !== 'string' || !Object.hasOwn(SOURCE_FIELDS, kind)) {
+      fail(`${path}.kind`, `unknown source kind ${JSON.stringify(src.kind)}`);
+    }
+    const fields = convertFields(src, SOURCE_FIELDS[kind], path, mediumOf);
+    const spectrum = src.spectrum === undefined
+      ? undefined
+      : spectrumOf(src.spectrum, `${path}.spectrum`);
+    const polarization = src.polarization === undefined
+      ? undefined
+      : stokesOf(src.polarization, `${path}.polarization`);
+    if (src.sampling !== undefined && !SAMPLED_SOURCES.includes(kind)) {
+      fail(`${path}.sampling`, `${kind} takes no sampling options`);
+    }
+    const sampling = src.sampling === undefined
+      ? undefined
+      : samplingOf(src.sampling, `${path}.sampling`);
+    return sourceFromData({
+      kind,
+      ...fields,
+      ...(spectrum && { spectrum }),
+      ...(polarization && { polarization }),
+      ...(sampling && { sampling }),
+    } as SourceData);
+  });
+
+  const b = input.bounds;
+  if (!isObject(b)) fail('bounds', 'expected { xMin, xMax, yMin, yMax }');
+  const bound = (key: keyof SceneBounds): number => {
+    const v = b[key];
+    if (!isNumber(v)) return fail(`bounds.${key}`, 'expected a finite number');
+    return v;
+  };
+  const bounds: SceneBounds = {
+    xMin: bound('xMin'),
+    xMax: bound('xMax'),
+    yMin: bound('yMin'),
+    yMax: bound('yMax'),
+  };
+  if (bounds.xMin >= bounds.xMax || bounds.yMin >= bounds.yMax) {
+    fail('bounds', 'expected xMin < xMax and yMin < yMax');
+  }
+
+  const o = input.options ?? {};
+  if (!isObject(o)) fail('options', 'expected an object');
+  const options: TraceOptions = {};
+  if (o.maxDepth !== undefined) {
+    if (!isNumber(o.maxDepth)) fail('options.maxDepth', 'expected a number');
+    options.maxDepth = o.maxDepth;
+  }
+  if (o.minIntensity !== undefined) {
+    if (!isNumber(o.minIntensity)) fail('options.minIntensity', 'expected a number');
+    options.minIntensity = o.minIntensity;
+  }
+  if (o.seed !== undefined) {
+    if (!isNumber(o.seed)) fail('options.seed', 'expected a number');
+    options.seed = o.seed;
+  }
+  if (o.sampling !== undefined) options.sampling = samplingModeOf(o.sampling, 'options.sampling');
+
+  return {
+    scene: {
+      surfaces,
+      bounds,
+    },
+    sources,
+    options,
+  };
+}
+
+/** `loadSceneFile` on a JSON string. */
+export function parseSceneFile(text: string): LoadedScene {
+  return loadSceneFile(JSON.parse(text));
+}
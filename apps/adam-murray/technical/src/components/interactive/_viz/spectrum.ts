@@ -0,0 +1,146 @@
+// ────────────────────────────────────────────────────────────────────
+// Emission spectra and wavelength → colour, for dispersive ray tracing.
+//
+// Pure functions. No React, no canvas, no DOM.
+//
+// A `Spectrum` is a list of discrete emission lines (a continuous source
+// is represented by a sampled comb). `withSpectrum` wraps any light
+// source so that each of its rays is tagged with a wavelength drawn from
+// the spectrum (importance-sampled by line weight, so every ray keeps
+// its share of flux). The tracer then looks up per-wavelength n and
+// alpha for that ray (see `indexAt` / `alphaAt` in ./raytracer).
+// ────────────────────────────────────────────────────────────────────
+
+import type { LightSource, Ray } from './raytracer';
+import { rngFor } from './sampling';
+
+export type Spectrum = ReadonlyArray<{
+  /** vacuum wavelength, nm */
+  readonly wavelength: number;
+  /** relative radiant power; need not be normalized */
+  readonly weight: number;
+}>;
+
+// Offset from a source's seed to the seed of its wavelength draws.
+const WAVELENGTH_STREAM = 0x9e3779b9;
+
+/** Sample a continuous spectral power distribution into `count` lines. */
+export function sampleSpectrum(
+  power: (wavelength: number) => number,
+  fromNm: number,
+  toNm: number,
+  count: number,
+): Spectrum {
+  const lines: Array<{ wavelength: number; weight: number }> = [];
+  for (let i = 0; i < count; i++) {
+    const wavelength = fromNm + ((toNm - fromNm) * (i + 0.5)) / count;
+    lines.push({ wavelength, weight: power(wavelength) });
+  }
+  return lines;
+}
+
+const gauss = (x: number, mu: number, sigma: number) =>
+  Math.exp(-0.5 * ((x - mu) / sigma) ** 2);
+
+/** Monochromatic emission at a single wavelength. */
+export const monochromatic = (wavelength: number): Spectrum => [
+  { wavelength, weight: 1 },
+];
+
+/**
+ * Low-pressure sodium lamp: the D doublet at 589.0 / 589.6 nm. Effectively
+ * monochromatic, so it shows no dispersion — the classic control.
+ */
+export const SODIUM_LAMP: Spectrum = [
+  { wavelength: 589.0, weight: 1 },
+  { wavelength: 589.6, weight: 1 },
+];
+
+/**
+ * Phosphor-converted white LED: a narrow InGaN blue pump near 450 nm plus
+ * the broad yellow phosphor band centred near 570 nm.
+ */
+export const WHITE_LED: Spectrum = sampleSpectrum(
+  (w) => gauss(w, 450, 10) + 0.6 * gauss(w, 570, 50),
+  400,
+  700,
+  24,
+);
+
+/** Flat ("equal-energy") white across the visible band. */
+export const EQUAL_ENERGY_WHITE: Spectrum = sampleSpectrum(() => 1, 400, 700, 24);
+
+/**
+ * Wrap a light source so each emitted ray carries a wavelength drawn
+ * from `spectrum` with probability proportional to line weight. Ray
+ * intensities are unchanged: under importance sampling each ray still
+ * carries 1/N of the source flux. The wrapped source's `data` records
+ * the spectrum alongside the inner source's description.
+ *
+ * A source with a `sampling.seed` draws its wavelengths from a seeded Rng
+ * (./sampling), reseeded on every call like the source's own samples, so
+ * it stays reproducible, also when rebuilt from its data. The seed is
+ * offset so wavelengths are independent of ray positions and angles.
+ * Unseeded sources draw from Math.random.
+ */
+export function withSpectrum(source: LightSource, spectrum: Spectrum): LightSource {
+  const total = spectrum.reduce((sum, l) => sum + l.weight, 0);
+  const cdf: number[] = [];
+  let acc = 0;
+  for (const line of spectrum) {
+    acc += line.weight / total;
+    cdf.push(acc);
+  }
+  const pick = (u: number) => {
+    for (let i = 0; i < cdf.length; i++) if (u < cdf[i]) return spectrum[i].wavelength;
+    return spectrum[spectrum.length - 1].wavelength;
+  };
+  const { data } = source;
+  const seed = data && 'sampling' in data ? data.sampling?.seed : undefined;
+  const emit = (): Ray[] => {
+    const rng = rngFor(seed === undefined ? undefined : seed + WAVELENGTH_STREAM);
+    return source().map((ray) => ({ ...ray, wavelength: pick(rng()) }));
+  };
+  return Object.assign(emit, {
+    data: source.data ? { ...source.data, spectrum } : undefined,
+  });
+}
+
+/**
+ * Approximate sRGB colour of a monochromatic wavelength (nm) as an
+ * [r, g, b] triple in 0..255, after Dan Bruton's piecewise-linear
+ * visible-spectrum map, with intensity rolled off toward the violet and
+ * deep-red ends where the eye's response falls away. Outside 380–780 nm
+ * the result is black.
+ */
+export function wavelengthToRgb(wavelength: number): [number, number, number] {
+  const w = wavelength;
+  let r = 0;
+  let g = 0;
+  let b = 0;
+  if (w >= 380 && w < 440) {
+    r = (440 - w) / 60;
+    b = 1;
+  } else if (w >= 440 && w < 490) {
+    g = (w - 440) / 50;
+    b = 1;
+  } else if (w >= 490 && w < 510) {
+    g = 1;
+    b = (510 - w) / 20;
+  } else if (w >= 510 && w < 580) {
+    r = (w - 510) / 70;
+    g = 1;
+  } else if (w >= 580 && w < 645) {
+    r = 1;
+    g = (645 - w) / 65;
+  } else if (w >= 645 && w <= 780) {
+    r = 1;
+  }
+  let falloff = 0;
+  if (w >= 380 && w < 420) falloff = 0.3 + (0.7 * (w - 380)) / 40;
+  else if (w >= 420 && w <= 700) falloff = 1;
+  else if (w > 700 && w <= 780) falloff = 0.3 + (0.7 * (780 - w)) / 80;
+  const gamma = 0.8;
+  const channel = (c: number) => Math.round(255 * (c * falloff) ** gamma);
+  return [channel(r), channel(g), channel(b)];
+}
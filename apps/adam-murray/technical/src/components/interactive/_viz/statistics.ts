@@ -0,0 +1,114 @@
+// ────────────────────────────────────────────────────────────────────
+// Summary statistics with confidence intervals for Monte Carlo figures.
+//
+// Pure math. No React, no canvas, no DOM.
+//
+// Intervals are two-sided at the normal quantile `z` (default 95%):
+//   • means use the normal approximation x̄ ± z·s/√n, which is what a
+//     few dozen independent runs support;
+//   • proportions (win rates, "fixed" fractions) use the Wilson score
+//     interval, which stays inside [0, 1] and behaves at 0 or n successes.
+//
+// Goodness of fit of simulated data against an analytic prediction:
+//   • `chiSquareTest` for binned counts, p-value from the upper incomplete
+//     gamma (./numerics);
+//   • `ksTest` for raw samples against a CDF, p-value from the asymptotic
+//     Kolmogorov distribution with Stephens' small-n correction. For
+//     integer-valued samples the test is conservative (p too high).
+// ────────────────────────────────────────────────────────────────────
+
+import { gammaQ } from './numerics';
+
+/** Normal quantile for a two-sided 95% interval. */
+export const Z95 = 1.959963984540054;
+
+export interface Interval {
+  /** point estimate (mean or proportion) */
+  estimate: number;
+  lo: number;
+  hi: number;
+  /** sample size behind it */
+  n: number;
+}
+
+/** Mean of `values` with a normal-approximation interval (NaN when empty). */
+export function meanInterval(values: readonly number[], z = Z95): Interval {
+  const n = values.length;
+  if (n === 0) return { estimate: Number.NaN, lo: Number.NaN, hi: Number.NaN, n };
+  const mean = values.reduce((s, v) => s + v, 0) / n;
+  if (n === 1) return { estimate: mean, lo: mean, hi: mean, n };
+  const variance = values.reduce((s, v) => s + (v - mean) ** 2, 0) / (n - 1);
+  const half = z * Math.sqrt(variance / n);
+  return { estimate: mean, lo: mean - half, hi: mean + half, n };
+}
+
+/** `successes` out of `n` as a proportion with its Wilson score interval. */
+export function proportionInterval(successes: number, n: number, z = Z95): Interval {
+  if (n === 0) return { estimate: Number.NaN, lo: Number.NaN, hi: Number.NaN, n };
+  const p = successes / n;
+  const z2 = z * z;
+  const centre = (p + z2 / (2 * n)) / (1 + z2 / n);
+  const half = (z / (1 + z2 / n)) * Math.sqrt((p * (1 - p)) / n + z2 / (4 * n * n));
+  return { estimate: p, lo: Math.max(0, centre - half), hi: Math.min(1, centre + half), n };
+}
+
+export interface FitTest {
+  /** χ² or the KS distance D */
+  statistic: number;
+  /** degrees of freedom (χ²) or sample size (KS) */
+  dof: number;
+  /** probability of a statistic at least this large if the model holds */
+  p: number;
+}
+
+/**
+ * Pearson's χ² of `observed` counts against `expected` ones. Bins expected
+ * to hold fewer than `minExpected` are skipped; `constraints` is the
+ * number of fitted quantities (1 when the expected counts were scaled to
+ * the observed total).
+ */
+export function chiSquareTest(
+  observed: readonly number[],
+  expected: readonly number[],
+  constraints = 0,
+  minExpected = 5,
+): FitTest {
+  let statistic = 0;
+  let bins = 0;
+  for (let i = 0; i < observed.length; i++) {
+    if (!(expected[i] >= minExpected)) continue;
+    statistic += (observed[i] - expected[i]) ** 2 / expected[i];
+    bins++;
+  }
+  const dof = bins - constraints;
+  if (dof <= 0) return { statistic, dof, p: Number.NaN };
+  return { statistic, dof, p: gammaQ(dof / 2, statistic / 2) };
+}
+
+/** One-sample Kolmogorov–Smirnov test of `samples` against the CDF `cdf`. */
+export function ksTest(samples: readonly number[], cdf: (x: number) => number): FitTest {
+  const n = samples.length;
+  if (n === 0) return { statistic: Number.NaN, dof: 0, p: Number.NaN };
+  const sorted = [...samples].sort((a, b) => a - b);
+  let d = 0;
+  for (let i = 0; i < n; ) {
+    // Ties step the empirical CDF once, from i/n to j/n
+    let j = i + 1;
+    while (j < n && sorted[j] === sorted[i]) j++;
+    const f = cdf(sorted[i]);
+    d = Math.max(d, Math.abs(f - i / n), Math.abs(j / n - f));
+    i = j;
+  }
+  const sqrtN = Math.sqrt(n);
+  const lambda = (sqrtN + 0.12 + 0.11 / sqrtN) * d;
+  let p = 1;
+  if (lambda >= 0.3) {
+    p = 0;
+    for (let k = 1; k <= 100; k++) {
+      const term = 2 * (-1) ** (k - 1) * Math.exp(-2 * k * k * lambda * lambda);
+      p += term;
+      if (Math.abs(term) < 1e-12) break;
+    }
+  }
+  return { statistic: d, dof: n, p: Math.min(1, Math.max(0, p)) };
+}
@@ -0,0 +1,102 @@
+// ────────────────────────────────────────────────────────────────────
+// Chunked jobs that stream their results, in a Web Worker or not.
+//
+// No React, no canvas, no DOM.
+//
+// A job is a generator of chunks (e.g. `traceChunks` in ./raytracer):
+// each step does a bounded slice of the work and yields its result.
+// `streamChunks` plays one, handing each chunk on and yielding to the
+// event loop in between, so a cancel (or a newer run) can land mid-run;
+// a superseded run stops at the next chunk boundary and emits nothing
+// further. The same driver runs inside workers (`serveStream`) and on
+// the main thread (`useStreamingWorker`'s fallback), so both paths
+// produce the same chunks in the same order.
+//
+// Protocol between `useStreamingWorker` and a worker that calls
+// `serveStream`: the page posts `run` with a caller-chosen id, and every
+// response echoes it; a `run` replaces the one in flight, and `cancel`
+// stops it without replacing it.
+// ────────────────────────────────────────────────────────────────────
+
+export type StreamRequest<Job> =
+  | { type: 'run'; id: number; job: Job }
+  | { type: 'cancel'; id: number };
+
+export type StreamResponse<Chunk> =
+  | { type: 'chunk'; id: number; chunk: Chunk }
+  | { type: 'done'; id: number }
+  | { type: 'error'; id: number; message: string };
+
+/** Where `streamChunks` sends what a run produces. */
+export interface StreamSink<Chunk> {
+  chunk: (chunk: Chunk) => void;
+  done: () => void;
+  error: (message: string) => void;
+}
+
+const yieldToEventLoop = () => new Promise<void>((r) => setTimeout(r, 0));
+
+/**
+ * Plays the chunks of `job` into `sink` while `current()` holds, yielding
+ * to the event loop after each. Ends with `sink.done()`, or
+ * `sink.error()` if the job throws; a run that stops being current ends
+ * silently.
+ */
+export async function streamChunks<Chunk>(
+  job: () => Iterable<Chunk>,
+  current: () => boolean,
+  sink: StreamSink<Chunk>,
+): Promise<void> {
+  try {
+    for (const chunk of job()) {
+      sink.chunk(chunk);
+      await yieldToEventLoop();
+      if (!current()) return;
+    }
+    sink.done();
+  } catch (err) {
+    if (current()) sink.error(err instanceof Error ? err.message : String(err));
+  }
+}
+
+/**
+ * Worker side of the protocol: answers `run` requests by streaming the
+ * chunks of `run(job)` back to the page. `transfer` lists buffers to move
+ * rather than copy, e.g. a chunk's typed arrays.
+ */
+export function serveStream<Job, Chunk>(
+  run: (job: Job) => Iterable<Chunk>,
+  transfer: (chunk: Chunk) => Transferable[] = () => [],
+): void {
+  // The DOM lib types `self` as a Window; only these two members are used.
+  const scope = self as unknown as {
+    postMessage(message: StreamResponse<Chunk>, transfer?: Transferable[]): void;
+    addEventListener(
+      type: 'message',
+      listener: (e: MessageEvent<StreamRequest<Job>>) => void,
+    ): void;
+  };
+
+  // Id of the run currently allowed to post. A cancel clears it; a new
+  // run replaces it, which implicitly cancels the previous one.
+  let active = 0;
+
+  scope.addEventListener('message', (e) => {
+    const msg = e.data;
+    if (msg.type === 'cancel') {
+      if (active === msg.id) active = 0;
+      return;
+    }
+    const { id, job } = msg;
+    active = id;
+    void streamChunks(
+      () => run(job),
+      () => active === id,
+      {
+        chunk: (chunk) => scope.postMessage({ type: 'chunk', id, chunk }, transfer(chunk)),
+        done: () => scope.postMessage({ type: 'done', id }),
+        error: (message) => scope.postMessage({ type: 'error', id, message }),
+      },
+    );
+  });
+}
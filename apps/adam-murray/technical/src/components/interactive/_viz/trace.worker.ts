@@ -0,0 +1,58 @@
+// ────────────────────────────────────────────────────────────────────
+// Web Worker host for the raytracer.
+//
+// Receives a plain-data scene, rebuilds it with `sceneFromData`, and
+// streams one of two jobs back to the page through `serveStream`
+// (./streaming), posting each chunk as soon as it is done:
+//   • 'trace' — `traceChunks` (./raytracer) over the initial rays: each
+//     chunk's segments and energy tallies.
+//   • 'camera' — `renderCameraChunks` gathering from a finished forward
+//     trace: each chunk's pixels. Sources travel as their `SourceData`.
+//
+// Spawned by `useTraceWorker` and `useCameraRender`, one worker each;
+// not imported anywhere else.
+// ────────────────────────────────────────────────────────────────────
+
+import { renderCameraChunks, traceChunks } from './raytracer';
+import type { Camera, CameraChunk, Ray, RaySegment, TraceChunk, TraceOptions } from './raytracer';
+import { sceneFromData, sourceFromData } from './sceneData';
+import type { SceneData, SourceData } from './sceneData';
+import { serveStream } from './streaming';
+
+export type TraceJob =
+  | {
+      type: 'trace';
+      scene: SceneData;
+      rays: Ray[];
+      options: TraceOptions;
+      /** initial rays per streamed chunk */
+      chunkSize: number;
+    }
+  | {
+      type: 'camera';
+      scene: SceneData;
+      camera: Camera;
+      sources: SourceData[];
+      segments: ReadonlyArray<RaySegment>;
+      photonBins?: number;
+      options: TraceOptions;
+      /** pixels per streamed chunk */
+      pixelsPerChunk: number;
+    };
+
+serveStream(
+  (job: TraceJob): Iterable<TraceChunk | CameraChunk> =>
+    job.type === 'trace'
+      ? traceChunks(sceneFromData(job.scene), job.rays, job.options, job.chunkSize)
+      : renderCameraChunks(
+          sceneFromData(job.scene),
+          job.camera,
+          {
+            sources: job.sources.map(sourceFromData),
+            segments: job.segments,
+            photonBins: job.photonBins,
+          },
+          job.options,
+          job.pixelsPerChunk,
+        ),
+);
@@ -0,0 +1,159 @@
+import { useEffect, useMemo, useState } from 'react';
+import { ADDUCT_TABLE, BUILTIN_PROFILES, isAdduct, mergeAdducts } from './adducts';
+import type { Adduct, InstrumentProfile } from './adducts';
+
+const STORAGE_KEY = 'viz:adduct-library';
+const STORAGE_VERSION = 1;
+
+interface StoredLibrary {
+  version: number;
+  adducts: Adduct[];
+  profiles: InstrumentProfile[];
+}
+
+export interface AdductLibrary {
+  /** the built-in table with the reader's rows merged in by id */
+  adducts: Adduct[];
+  /** the reader's own rows: additions and overrides of built-ins */
+  custom: Adduct[];
+  /** built-in profiles, then the reader's */
+  profiles: InstrumentProfile[];
+  /** add rows, replacing any custom or built-in row with the same id */
+  upsertAdducts: (rows: Adduct[]) => void;
+  /** drop a custom row (a built-in it overrode comes back) */
+  removeAdduct: (id: string) => void;
+  /** add or replace a reader profile */
+  saveProfile: (profile: InstrumentProfile) => void;
+  removeProfile: (id: string) => void;
+  /** forget every custom row and profile */
+  reset: () => void;
+}
+
+const isProfile = (v: unknown): v is InstrumentProfile => {
+  if (typeof v !== 'object' || v === null) return false;
+  const p = v as Record<string, unknown>;
+  return (
+    typeof p.id === 'string' &&
+    typeof p.name === 'string' &&
+    Array.isArray(p.adducts) &&
+    p.adducts.every((a) => typeof a === 'string')
+  );
+};
+
+type Library = Pick<StoredLibrary, 'adducts' | 'profiles'>;
+
+const EMPTY: Library = { adducts: [], profiles: [] };
+
+function readStored(): Library {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    const data: unknown = raw === null ? null : JSON.parse(raw);
+    if (typeof data !== 'object' || data === null) return EMPTY;
+    const { version, adducts, profiles } = data as Partial<StoredLibrary>;
+    if (version !== STORAGE_VERSION) return EMPTY;
+    return {
+      adducts: Array.isArray(adducts) ? adducts.filter(isAdduct) : [],
+      profiles: Array.isArray(profiles) ? profiles.filter(isProfile) : [],
+    };
+  } catch {
+    // Storage disabled (private mode, sandboxed iframe) or corrupt JSON
+    return EMPTY;
+  }
+}
+
+function writeStored(library: Library) {
+  const data: StoredLibrary = { version: STORAGE_VERSION, ...library };
+  try {
+    if (library.adducts.length === 0 && library.profiles.length === 0) {
+      window.localStorage.removeItem(STORAGE_KEY);
+    } else {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+    }
+  } catch {
+    // Quota exceeded or storage disabled; keep the in-memory library
+  }
+}
+
+// The reader's library, one copy per page shared by every mounted hook;
+// read from storage on first use.
+let current: Library | null = null;
+const listeners = new Set<(library: Library) => void>();
+
+function load(): Library {
+  current ??= readStored();
+  return current;
+}
+
+function publish(library: Library) {
+  current = library;
+  for (const listener of listeners) listener(library);
+}
+
+function update(change: (prev: Library) => Library) {
+  const next = change(load());
+  publish(next);
+  writeStored(next);
+}
+
+// Another tab changed the library (a null key means storage was cleared).
+function onStorage(e: StorageEvent) {
+  if (e.key === STORAGE_KEY || e.key === null) publish(readStored());
+}
+
+function subscribe(listener: (library: Library) => void): () => void {
+  if (listeners.size === 0) window.addEventListener('storage', onStorage);
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) window.removeEventListener('storage', onStorage);
+  };
+}
+
+const upsertAdducts = (rows: Adduct[]) =>
+  update((l) => ({ ...l, adducts: mergeAdducts(l.adducts, rows) }));
+
+const removeAdduct = (id: string) =>
+  update((l) => ({ ...l, adducts: l.adducts.filter((a) => a.id !== id) }));
+
+const saveProfile = (profile: InstrumentProfile) =>
+  update((l) => ({ ...l, profiles: [...l.profiles.filter((p) => p.id !== profile.id), profile] }));
+
+const removeProfile = (id: string) =>
+  update((l) => ({ ...l, profiles: l.profiles.filter((p) => p.id !== id) }));
+
+const reset = () => update(() => EMPTY);
+
+/**
+ * The adduct table and instrument profiles (see ./adducts), with the
+ * reader's own rows and profiles persisted in localStorage so they
+ * survive reloads and are shared by every adduct figure on the site.
+ *
+ * Every instance reads and writes one page-wide copy, so an edit in one
+ * figure shows in the others at once, and `storage` events carry edits
+ * made in other tabs. The first render uses the built-ins only (so SSR
+ * and hydration agree); stored entries are read after mount. Storage
+ * failures are ignored: the library then simply lasts as long as the page.
+ */
+export function useAdductLibrary(): AdductLibrary {
+  const [library, setLibrary] = useState<Library>(EMPTY);
+
+  useEffect(() => {
+    setLibrary(load());
+    return subscribe(setLibrary);
+  }, []);
+
+  const custom = library.adducts;
+  const adducts = useMemo(() => mergeAdducts(ADDUCT_TABLE, custom), [custom]);
+  const profiles = useMemo(() => [...BUILTIN_PROFILES, ...library.profiles], [library.profiles]);
+
+  return {
+    adducts,
+    custom,
+    profiles,
+    upsertAdducts,
+    removeAdduct,
+    saveProfile,
+    removeProfile,
+    reset,
+  };
+}
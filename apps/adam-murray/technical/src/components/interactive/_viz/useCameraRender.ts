@@ -0,0 +1,118 @@
+import { useCallback } from 'react';
+import { cameraCoords, renderCameraChunks } from './raytracer';
+import type {
+  Camera,
+  CameraChunk,
+  CameraImage,
+  CameraLight,
+  Scene,
+  TraceOptions,
+} from './raytracer';
+import { isSceneSerializable, sceneToData } from './sceneData';
+import type { TraceJob } from './trace.worker';
+import { useStreamingWorker } from './useStreamingWorker';
+
+export interface CameraRenderState {
+  /** the last finished image, or null before the first one */
+  image: CameraImage | null;
+  /** true while an image is still rendering */
+  rendering: boolean;
+  /** fraction of the latest image's pixels rendered, 0..1 */
+  progress: number;
+  /** why the latest render failed, or null */
+  error: string | null;
+}
+
+/** Everything `renderCamera` (./raytracer) takes. */
+export interface CameraRenderOptions {
+  scene: Scene;
+  camera: Camera;
+  light: CameraLight;
+  options?: TraceOptions;
+}
+
+interface Rendered {
+  image: CameraImage | null;
+  /** pixels of the image being rendered, in order */
+  signal: number[];
+  glare: number[];
+}
+
+const NOTHING_RENDERED: Rendered = { image: null, signal: [], glare: [] };
+
+// Pixels per streamed chunk
+const PIXELS_PER_CHUNK = 16;
+
+function createTraceWorker() {
+  return new Worker(new URL('./trace.worker.ts', import.meta.url), { type: 'module' });
+}
+
+function addPixels(rendered: Rendered, chunk: CameraChunk): Rendered {
+  const signal = rendered.signal.concat(chunk.signal);
+  const glare = rendered.glare.concat(chunk.glare);
+  const image =
+    chunk.rendered === chunk.total
+      ? { coords: cameraCoords(chunk.total), signal, glare }
+      : rendered.image;
+  return { image, signal, glare };
+}
+
+const chunkProgress = (chunk: CameraChunk) => (chunk.total > 0 ? chunk.rendered / chunk.total : 1);
+
+// The last finished image stays up while the next one renders.
+const keepImage = (previous: Rendered, initial: Rendered) => ({
+  ...initial,
+  image: previous.image,
+});
+
+/**
+ * Renders camera images (`renderCameraChunks` in ./raytracer) in a Web
+ * Worker, a few pixels per chunk, so a backward render never blocks the
+ * page. `render` starts one, replacing any in flight; `image` is the last
+ * finished image, which stays up until the next one is complete.
+ *
+ * Scenes with hand-built surfaces, sources without a plain-data
+ * description (and browsers without Workers) render on the main thread in
+ * the same chunks, yielding between them (see ./useStreamingWorker).
+ */
+export function useCameraRender(): CameraRenderState & {
+  render: (options: CameraRenderOptions) => void;
+} {
+  const {
+    result,
+    running: rendering,
+    progress,
+    error,
+    run,
+  } = useStreamingWorker<TraceJob, CameraChunk, Rendered>({
+    createWorker: createTraceWorker,
+    initial: NOTHING_RENDERED,
+    reduce: addPixels,
+    progress: chunkProgress,
+    carry: keepImage,
+  });
+  const render = useCallback(
+    ({ scene, camera, light, options = {} }: CameraRenderOptions) => {
+      const sources = light.sources.flatMap((s) => (s.data ? [s.data] : []));
+      const plain = isSceneSerializable(scene) && sources.length === light.sources.length;
+      run({
+        job: plain
+          ? {
+              type: 'camera',
+              scene: sceneToData(scene),
+              camera,
+              sources,
+              segments: light.segments,
+              photonBins: light.photonBins,
+              options,
+              pixelsPerChunk: PIXELS_PER_CHUNK,
+            }
+          : null,
+        chunks: () => renderCameraChunks(scene, camera, light, options, PIXELS_PER_CHUNK),
+        initial: NOTHING_RENDERED,
+      });
+    },
+    [run],
+  );
+  return { image: result.image, rendering, progress, error, render };
+}
@@ -0,0 +1,61 @@
+import { useCallback } from 'react';
+import { batchChunks } from './clothBatch';
+import type { BatchChunk, BatchJob, BatchRun } from './clothBatch';
+import { useStreamingWorker } from './useStreamingWorker';
+
+export interface ClothBatchState {
+  /** games finished so far in the latest batch */
+  runs: BatchRun[];
+  /** true while a batch is still streaming */
+  running: boolean;
+  /** fraction of the latest batch played, 0..1 */
+  progress: number;
+  /** why the latest batch failed, or null */
+  error: string | null;
+}
+
+/** A batch to play; see `BatchJob` in ./clothBatch. */
+export type ClothBatchOptions = BatchJob;
+
+const NO_RUNS: BatchRun[] = [];
+
+function createClothWorker() {
+  return new Worker(new URL('./cloth.worker.ts', import.meta.url), { type: 'module' });
+}
+
+const addChunk = (runs: BatchRun[], chunk: BatchChunk) => runs.concat(chunk.runs);
+
+const chunkProgress = (chunk: BatchChunk) => (chunk.total > 0 ? chunk.played / chunk.total : 1);
+
+/**
+ * Plays Cloth of Gold batch experiments (see ./clothBatch) in a Web Worker,
+ * streaming finished games back chunk by chunk so the histograms fill in
+ * as it goes. `run` starts a batch, replacing any in flight; `cancel`
+ * stops it where it is and keeps the games played so far. Without Worker
+ * support the same chunks are played on the main thread, yielding between
+ * chunks (see ./useStreamingWorker).
+ */
+export function useClothBatch(): ClothBatchState & {
+  run: (options: ClothBatchOptions) => void;
+  cancel: () => void;
+} {
+  const {
+    result: runs,
+    running,
+    progress,
+    error,
+    run: start,
+    cancel,
+  } = useStreamingWorker<BatchJob, BatchChunk, BatchRun[]>({
+    createWorker: createClothWorker,
+    initial: NO_RUNS,
+    reduce: addChunk,
+    progress: chunkProgress,
+  });
+  const run = useCallback(
+    (options: ClothBatchOptions) =>
+      start({ job: options, chunks: () => batchChunks(options), initial: NO_RUNS }),
+    [start],
+  );
+  return { runs, running, progress, error, run, cancel };
+}
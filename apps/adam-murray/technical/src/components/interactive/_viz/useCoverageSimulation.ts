@@ -0,0 +1,71 @@
+import { useCallback } from 'react';
+import { drawChunks } from './coverage';
+import type { DrawsChunk, SimulationJob } from './coverage';
+import type { CoverageJob } from './coverage.worker';
+import { useStreamingWorker } from './useStreamingWorker';
+
+export interface CoverageSimulationState {
+  /** draws to reach the target coverage, one per finished trial */
+  draws: number[];
+  /** true while trials are still streaming */
+  running: boolean;
+  /** fraction of the latest simulation played, 0..1 */
+  progress: number;
+  /** why the latest simulation failed, or null */
+  error: string | null;
+}
+
+/** The trials to play; see `SimulationJob` in ./coverage. */
+export type CoverageSimulationOptions = Omit<SimulationJob, 'chunkSize'>;
+
+// Trials per streamed chunk; a trial costs O(|U|)
+const CHUNK_SIZE = 10;
+
+const NO_DRAWS: number[] = [];
+
+function createCoverageWorker() {
+  return new Worker(new URL('./coverage.worker.ts', import.meta.url), { type: 'module' });
+}
+
+const addDraws = (draws: number[], chunk: DrawsChunk) => draws.concat(chunk.draws);
+
+const chunkProgress = (chunk: DrawsChunk) => (chunk.total > 0 ? chunk.played / chunk.total : 1);
+
+/**
+ * Simulates the coverage model (`coverageDraws` in ./coverage) in a Web
+ * Worker, streaming finished trials back so the empirical points firm up
+ * as they arrive. `run` starts a simulation, replacing any in flight;
+ * `cancel` stops it and keeps the trials played so far. Without Worker
+ * support the same trials are played on the main thread, yielding between
+ * chunks (see ./useStreamingWorker).
+ */
+export function useCoverageSimulation(): CoverageSimulationState & {
+  run: (options: CoverageSimulationOptions) => void;
+  cancel: () => void;
+} {
+  const {
+    result: draws,
+    running,
+    progress,
+    error,
+    run: start,
+    cancel,
+  } = useStreamingWorker<CoverageJob, DrawsChunk, number[]>({
+    createWorker: createCoverageWorker,
+    initial: NO_DRAWS,
+    reduce: addDraws,
+    progress: chunkProgress,
+  });
+  const run = useCallback(
+    (options: CoverageSimulationOptions) => {
+      const job: SimulationJob = { ...options, chunkSize: CHUNK_SIZE };
+      start({
+        job: { type: 'simulate', ...job },
+        chunks: () => drawChunks(job),
+        initial: NO_DRAWS,
+      });
+    },
+    [start],
+  );
+  return { draws, running, progress, error, run, cancel };
+}
@@ -0,0 +1,74 @@
+import { useCallback } from 'react';
+import { sweepChunks } from './coverage';
+import type { SweepChunk, SweepGrid } from './coverage';
+import type { CoverageJob } from './coverage.worker';
+import { useStreamingWorker } from './useStreamingWorker';
+
+export interface CoverageSweepState {
+  /** the latest sweep, filled in row by row (NaN where still pending) */
+  grid: SweepGrid | null;
+  /** true while rows are still streaming */
+  running: boolean;
+  /** fraction of the latest sweep's rows computed, 0..1 */
+  progress: number;
+  /** why the latest sweep failed, or null */
+  error: string | null;
+}
+
+/** The grid to sweep: axes, fixed parameters and method. */
+export type CoverageSweepOptions = Omit<SweepGrid, 'values'>;
+
+// Grid rows per streamed chunk
+const ROWS_PER_CHUNK = 8;
+
+function createCoverageWorker() {
+  return new Worker(new URL('./coverage.worker.ts', import.meta.url), { type: 'module' });
+}
+
+function addRows(grid: SweepGrid | null, chunk: SweepChunk): SweepGrid | null {
+  if (!grid) return grid;
+  const values = grid.values.slice();
+  values.set(chunk.values, chunk.from * grid.x.count);
+  return { ...grid, values };
+}
+
+const chunkProgress = (chunk: SweepChunk) => (chunk.total > 0 ? chunk.to / chunk.total : 1);
+
+/**
+ * Evaluates coverage-probability sweeps (see ./coverage) in a Web Worker,
+ * streaming rows back as they finish so the heatmap fills in while the
+ * controls stay live. `run` starts a sweep, replacing any in flight;
+ * `cancel` stops it where it is. Without Worker support the same rows are
+ * computed on the main thread, yielding between chunks (see
+ * ./useStreamingWorker).
+ */
+export function useCoverageSweep(): CoverageSweepState & {
+  run: (options: CoverageSweepOptions) => void;
+  cancel: () => void;
+} {
+  const {
+    result: grid,
+    running,
+    progress,
+    error,
+    run: start,
+    cancel,
+  } = useStreamingWorker<CoverageJob, SweepChunk, SweepGrid | null>({
+    createWorker: createCoverageWorker,
+    initial: null,
+    reduce: addRows,
+    progress: chunkProgress,
+  });
+  const run = useCallback(
+    (options: CoverageSweepOptions) => {
+      const values = new Float64Array(options.x.count * options.y.count).fill(Number.NaN);
+      start({
+        job: { type: 'sweep', ...options, rowsPerChunk: ROWS_PER_CHUNK },
+        chunks: () => sweepChunks(options, ROWS_PER_CHUNK),
+        initial: { ...options, values },
+      });
+    },
+    [start],
+  );
+  return { grid, running, progress, error, run, cancel };
+}
@@ -0,0 +1,204 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { downloadBlob } from './figureExport';
+import { encodeApng, rasterize, recordingSupported, snapshotFrame } from './recording';
+import type { PngFrame, RecordingFormat } from './recording';
+
+export interface Recorder {
+  /** the format being recorded, or null when idle */
+  recording: RecordingFormat | null;
+  /** frames captured so far in this recording */
+  frames: number;
+  supported: Record<RecordingFormat, boolean>;
+  /** why the last recording failed, until the next one starts */
+  error: string | null;
+  start: (format: RecordingFormat) => void;
+  /** finish, encode and download the recording */
+  stop: () => void;
+}
+
+interface MediaCapture {
+  recorder: MediaRecorder;
+  stream: MediaStream;
+  track: CanvasCaptureMediaStreamTrack;
+  /** encoded data so far */
+  chunks: Blob[];
+}
+
+// Frame delay used for the last APNG frame, which has no successor to time it.
+const FALLBACK_DELAY_MS = 50;
+
+// `frameKey` of the last captured frame before any frame is captured.
+const NOTHING_CAPTURED = Symbol('nothing captured');
+
+/** Stop `media`'s recorder (if still running) and release its stream. */
+function release(media: MediaCapture) {
+  if (media.recorder.state !== 'inactive') media.recorder.stop();
+  for (const track of media.stream.getTracks()) track.stop();
+}
+
+/**
+ * Records an animated figure to WebM or APNG, client-side. Every time
+ * `frameKey` changes while recording (e.g. the timeline's `time`), the source
+ * is snapshotted — after the figure's own render effects, so the frame is the
+ * one on screen — and rasterized into a staging canvas. WebM pushes that
+ * canvas into a MediaRecorder stream; APNG keeps a PNG per frame with its real
+ * duration. The file downloads as `<filename>.webm` / `.png` on `stop`.
+ *
+ * A failed capture or encode ends the recording and is reported in `error`.
+ * Unmounting mid-recording stops the MediaRecorder and its stream.
+ */
+export function useRecorder(
+  source: () => HTMLCanvasElement | SVGSVGElement | null,
+  frameKey: unknown,
+  filename: string,
+): Recorder {
+  const [recording, setRecording] = useState<RecordingFormat | null>(null);
+  const [frames, setFrames] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [supported, setSupported] = useState<Record<RecordingFormat, boolean>>({
+    webm: false,
+    apng: false,
+  });
+
+  const staging = useRef<HTMLCanvasElement | null>(null);
+  const media = useRef<MediaCapture | null>(null);
+  const pngs = useRef<Array<{ png: ArrayBuffer; at: number }>>([]);
+  // Rasterizing is async (SVG sources decode as images); chain the steps to
+  // keep order. A failure or unmount ends the session and drops its steps.
+  const queue = useRef<Promise<void>>(Promise.resolve());
+  const session = useRef(0);
+  const capturedKey = useRef<unknown>(NOTHING_CAPTURED);
+  const sourceRef = useRef(source);
+  sourceRef.current = source;
+
+  useEffect(() => {
+    setSupported({ webm: recordingSupported('webm'), apng: recordingSupported('apng') });
+  }, []);
+
+  // Unmounting mid-recording: end the session and free the capture stream.
+  useEffect(
+    () => () => {
+      session.current++;
+      if (media.current) release(media.current);
+      media.current = null;
+    },
+    [],
+  );
+
+  const enqueue = useCallback((step: () => Promise<void>) => {
+    const id = session.current;
+    queue.current = queue.current
+      .then(() => (session.current === id ? step() : undefined))
+      .catch((err: unknown) => {
+        if (session.current !== id) return;
+        session.current++;
+        if (media.current) release(media.current);
+        media.current = null;
+        pngs.current = [];
+        setRecording(null);
+        setError(err instanceof Error ? err.message : String(err));
+      });
+  }, []);
+
+  const capture = useCallback(
+    (format: RecordingFormat) => {
+      const src = sourceRef.current();
+      if (!src) return;
+      // Snapshot now: by the time the queue reaches this step the figure
+      // may already show a later frame.
+      const frame = snapshotFrame(src);
+      const at = performance.now();
+      // This recording's targets, even if another starts before the step runs
+      const canvas = staging.current;
+      const track = media.current?.track;
+      const into = pngs.current;
+      enqueue(async () => {
+        if (!canvas) return;
+        await rasterize(frame, canvas);
+        if (format === 'webm') {
+          track?.requestFrame();
+        } else {
+          const blob = await new Promise<Blob | null>((resolve) =>
+            canvas.toBlob(resolve, 'image/png'),
+          );
+          if (!blob) throw new Error('Could not encode a frame as PNG');
+          into.push({ png: await blob.arrayBuffer(), at });
+        }
+        setFrames((n) => n + 1);
+      });
+    },
+    [enqueue],
+  );
+
+  const start = useCallback(
+    (format: RecordingFormat) => {
+      if (recording || !recordingSupported(format)) return;
+      capturedKey.current = NOTHING_CAPTURED;
+      const canvas = document.createElement('canvas');
+      staging.current = canvas;
+      pngs.current = [];
+      setFrames(0);
+      setError(null);
+      if (format === 'webm') {
+        // Size the stream from the first frame before it starts.
+        const src = sourceRef.current();
+        if (src) {
+          const { width, height } = src.getBoundingClientRect();
+          canvas.width = Math.max(1, Math.round(width));
+          canvas.height = Math.max(1, Math.round(height));
+        }
+        const stream = canvas.captureStream(0);
+        const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+        const recorder = new MediaRecorder(stream, { mimeType: 'video/webm' });
+        const chunks: Blob[] = [];
+        recorder.ondataavailable = (e) => {
+          if (e.data.size > 0) chunks.push(e.data);
+        };
+        recorder.start();
+        media.current = { recorder, stream, track, chunks };
+      }
+      // The frame effect below captures the first frame.
+      setRecording(format);
+    },
+    [recording],
+  );
+
+  const stop = useCallback(() => {
+    const format = recording;
+    if (!format) return;
+    setRecording(null);
+    const current = media.current;
+    media.current = null;
+    const captured = pngs.current;
+    enqueue(async () => {
+      if (format === 'webm') {
+        if (!current) return;
+        const done = new Promise<void>((resolve) => {
+          current.recorder.onstop = () => resolve();
+        });
+        current.recorder.stop();
+        await done;
+        downloadBlob(new Blob(current.chunks, { type: 'video/webm' }), `${filename}.webm`);
+      } else {
+        if (captured.length === 0) return;
+        const timed: PngFrame[] = captured.map((f, i) => ({
+          png: f.png,
+          delayMs: i + 1 < captured.length ? captured[i + 1].at - f.at : FALLBACK_DELAY_MS,
+        }));
+        downloadBlob(encodeApng(timed), `${filename}.png`);
+      }
+    });
+    // Free the stream even when a failure drops the step above.
+    if (current) queue.current = queue.current.then(() => release(current));
+  }, [recording, filename, enqueue]);
+
+  // One frame per distinct `frameKey` while recording, starting with the
+  // frame on screen when recording starts.
+  useEffect(() => {
+    if (!recording || Object.is(capturedKey.current, frameKey)) return;
+    capturedKey.current = frameKey;
+    capture(recording);
+  }, [frameKey, recording, capture]);
+
+  return { recording, frames, supported, error, start, stop };
+}
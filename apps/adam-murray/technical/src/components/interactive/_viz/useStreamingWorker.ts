@@ -0,0 +1,181 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { streamChunks } from './streaming';
+import type { StreamRequest, StreamResponse } from './streaming';
+
+export interface StreamingState<Result> {
+  /** the latest run's result so far */
+  result: Result;
+  /** true while a run is still streaming */
+  running: boolean;
+  /** fraction of the latest run done, 0..1 */
+  progress: number;
+  /** why the latest run failed, or null */
+  error: string | null;
+}
+
+/** One run: what to post to the worker, and the same work done locally. */
+export interface StreamingRun<Job, Chunk, Result> {
+  /** the worker's job, or null to run on the main thread regardless */
+  job: Job | null;
+  /** the job's chunks, computed here when there is no worker */
+  chunks: () => Iterable<Chunk>;
+  /** the result before the run's first chunk */
+  initial: Result;
+}
+
+export interface StreamingOptions<Chunk, Result> {
+  /** spawns the worker; `new Worker(new URL(...))` must be written out here for the bundler */
+  createWorker: () => Worker;
+  /** the result before any run */
+  initial: Result;
+  /** folds a chunk into the run's result */
+  reduce: (result: Result, chunk: Chunk) => Result;
+  /** fraction of the run done once `chunk` has arrived, 0..1 */
+  progress: (chunk: Chunk) => number;
+  /**
+   * Keep the previous run's result until the new run's first chunk
+   * arrives, so a figure updates in place rather than flashing empty.
+   * Otherwise `run` shows the new run's `initial` at once.
+   */
+  keepUntilFirstChunk?: boolean;
+  /**
+   * Combines the previous run's result with a new run's `initial`, which
+   * it replaces; e.g. to keep showing the last finished image while the
+   * next one renders.
+   */
+  carry?: (previous: Result, initial: Result) => Result;
+}
+
+interface InternalState<Result> extends StreamingState<Result> {
+  /** run id the result belongs to */
+  id: number;
+}
+
+/**
+ * Runs chunked jobs (see ./streaming) in a Web Worker spawned by
+ * `createWorker`, folding the streamed chunks into `result` as they
+ * arrive. `run` starts a job, replacing any in flight; `cancel` stops it
+ * where it is and keeps the result so far. A job that throws ends the run
+ * with its message in `error`.
+ *
+ * Without Worker support, or for a run whose `job` is null (e.g. data a
+ * worker cannot receive), the same chunks are computed on the main thread,
+ * yielding to the event loop between chunks so the page stays responsive.
+ * Nothing runs during SSR: results appear after hydration.
+ */
+export function useStreamingWorker<Job, Chunk, Result>(
+  options: StreamingOptions<Chunk, Result>,
+): StreamingState<Result> & {
+  run: (run: StreamingRun<Job, Chunk, Result>) => void;
+  cancel: () => void;
+} {
+  const workerRef = useRef<Worker | null>(null);
+  const requestRef = useRef(0);
+  // The current run's starting result, and the latest options, for the
+  // message handlers (reducers and progress callbacks are often inline).
+  const initialRef = useRef(options.initial);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const [state, setState] = useState<InternalState<Result>>({
+    id: 0,
+    result: options.initial,
+    running: false,
+    progress: 0,
+    error: null,
+  });
+
+  // The current run's starting result, given the previous run's.
+  const startFrom = useCallback((previous: Result) => {
+    const { carry } = optionsRef.current;
+    return carry ? carry(previous, initialRef.current) : initialRef.current;
+  }, []);
+
+  // Handlers for one run's output; all of them drop superseded runs.
+  const sinkFor = useCallback(
+    (id: number) => {
+      const current = () => requestRef.current === id;
+      return {
+        chunk: (chunk: Chunk) => {
+          if (!current()) return;
+          const { reduce, progress } = optionsRef.current;
+          setState((s) => ({
+            id,
+            // the first chunk of a run replaces the previous run's result
+            result: reduce(s.id === id ? s.result : startFrom(s.result), chunk),
+            running: true,
+            progress: progress(chunk),
+            error: null,
+          }));
+        },
+        done: () => {
+          if (!current()) return;
+          setState((s) => ({
+            ...s,
+            id,
+            result: s.id === id ? s.result : startFrom(s.result),
+            running: false,
+            progress: 1,
+          }));
+        },
+        error: (message: string) => {
+          if (!current()) return;
+          setState((s) => ({ ...s, running: false, error: message }));
+        },
+      };
+    },
+    [startFrom],
+  );
+
+  useEffect(() => {
+    if (typeof Worker === 'undefined') return;
+    const worker = optionsRef.current.createWorker();
+    worker.onmessage = (e: MessageEvent<StreamResponse<Chunk>>) => {
+      const msg = e.data;
+      const sink = sinkFor(msg.id);
+      if (msg.type === 'chunk') sink.chunk(msg.chunk);
+      else if (msg.type === 'done') sink.done();
+      else sink.error(msg.message);
+    };
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, [sinkFor]);
+
+  const run = useCallback(
+    ({ job, chunks, initial }: StreamingRun<Job, Chunk, Result>) => {
+      const id = ++requestRef.current;
+      initialRef.current = initial;
+      if (optionsRef.current.keepUntilFirstChunk) {
+        setState((s) => ({ ...s, running: true, progress: 0, error: null }));
+      } else {
+        setState((s) => ({
+          id,
+          result: startFrom(s.result),
+          running: true,
+          progress: 0,
+          error: null,
+        }));
+      }
+      const worker = workerRef.current;
+      if (worker && job !== null) {
+        const request: StreamRequest<Job> = { type: 'run', id, job };
+        worker.postMessage(request);
+      } else {
+        void streamChunks(chunks, () => requestRef.current === id, sinkFor(id));
+      }
+    },
+    [sinkFor, startFrom],
+  );
+
+  const cancel = useCallback(() => {
+    const request: StreamRequest<Job> = { type: 'cancel', id: requestRef.current };
+    workerRef.current?.postMessage(request);
+    requestRef.current++; // drop chunks already in flight
+    setState((s) => ({ ...s, running: false }));
+  }, []);
+
+  const { result, running, progress, error } = state;
+  return { result, running, progress, error, run, cancel };
+}
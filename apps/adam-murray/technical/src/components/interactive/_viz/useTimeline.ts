@@ -0,0 +1,167 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { usePrefersReducedMotion } from './useReducedMotion';
+
+export interface TimelineOptions {
+  /** first time (default 0) */
+  start?: number;
+  /** last time; omit for an open-ended run such as a cellular automaton */
+  end?: number;
+  /** time units per second at speed 1× */
+  rate: number;
+  /** time moved by one step (default 1) */
+  step?: number;
+  /** advance in whole steps, at most one per frame (generations, not seconds) */
+  discrete?: boolean;
+  /**
+   * Time units per second, at any speed, when the reader prefers reduced
+   * motion (default: one step per second). Bounded timelines ignore it and
+   * jump straight to the end instead.
+   */
+  reducedMotionRate?: number;
+}
+
+export interface Timeline {
+  time: number;
+  playing: boolean;
+  /** multiplier on `rate` */
+  speed: number;
+  /** restart from `start` on reaching `end` */
+  loop: boolean;
+  /** true when playback is being held back for prefers-reduced-motion */
+  reducedMotion: boolean;
+  start: number;
+  end: number | undefined;
+  step: number;
+  play: () => void;
+  pause: () => void;
+  toggle: () => void;
+  stepForward: () => void;
+  stepBack: () => void;
+  /** jump to `t`, clamped to [start, end] (snapped to a step if discrete) */
+  seek: (t: number) => void;
+  /** pause and return to `start` */
+  reset: () => void;
+  setSpeed: (speed: number) => void;
+  setLoop: (loop: boolean) => void;
+}
+
+/**
+ * Shared play / pause / step / scrub clock for animated figures, replacing a
+ * hand-rolled requestAnimationFrame loop per figure. The timeline only owns
+ * `time`; the figure derives what to draw from it, so scrubbing and stepping
+ * come for free. Honours prefers-reduced-motion: a bounded run shows its end
+ * state without animating, an open-ended one slows to `reducedMotionRate`.
+ */
+export function useTimeline({
+  start = 0,
+  end,
+  rate,
+  step = 1,
+  discrete = false,
+  reducedMotionRate = step,
+}: TimelineOptions): Timeline {
+  const [time, setTime] = useState(start);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const [loop, setLoop] = useState(false);
+  const reducedMotion = usePrefersReducedMotion();
+
+  const clamp = useCallback(
+    (t: number) => {
+      const snapped = discrete ? start + Math.round((t - start) / step) * step : t;
+      return Math.max(start, end === undefined ? snapped : Math.min(end, snapped));
+    },
+    [start, end, step, discrete],
+  );
+
+  const seek = useCallback((t: number) => setTime(clamp(t)), [clamp]);
+  const pause = useCallback(() => setPlaying(false), []);
+  const reset = useCallback(() => {
+    setPlaying(false);
+    setTime(start);
+  }, [start]);
+
+  const play = useCallback(() => {
+    // Reduced motion: show where a bounded run ends rather than sweeping to it.
+    if (reducedMotion && end !== undefined) {
+      setTime(end);
+      return;
+    }
+    // Play from the top when parked at the end.
+    setTime((t) => (end !== undefined && t >= end ? start : t));
+    setPlaying(true);
+  }, [reducedMotion, start, end]);
+
+  const toggle = useCallback(() => (playing ? pause() : play()), [playing, play, pause]);
+  const stepForward = useCallback(() => {
+    setPlaying(false);
+    setTime((t) => clamp(t + step));
+  }, [clamp, step]);
+  const stepBack = useCallback(() => {
+    setPlaying(false);
+    setTime((t) => clamp(t - step));
+  }, [clamp, step]);
+
+  // Keep the clock in bounds when `start` / `end` change (e.g. a horizon slider).
+  useEffect(() => {
+    setTime((t) => clamp(t));
+  }, [clamp]);
+
+  const perSecond = reducedMotion ? Math.min(rate * speed, reducedMotionRate) : rate * speed;
+  const lastFrame = useRef(0);
+  const carry = useRef(0); // discrete: time accrued towards the next step
+
+  useEffect(() => {
+    if (!playing) return;
+    let frame = 0;
+    lastFrame.current = 0;
+    carry.current = 0;
+
+    const tick = (now: number) => {
+      const dt = lastFrame.current ? (now - lastFrame.current) / 1000 : 0;
+      lastFrame.current = now;
+      let advance = perSecond * dt;
+      if (discrete) {
+        carry.current += advance;
+        advance = 0;
+        if (carry.current >= step) {
+          carry.current = Math.min(carry.current - step, step);
+          advance = step;
+        }
+      }
+      if (advance > 0) {
+        setTime((t) => {
+          const next = t + advance;
+          if (end === undefined || next < end) return next;
+          if (loop) return start;
+          setPlaying(false);
+          return end;
+        });
+      }
+      frame = requestAnimationFrame(tick);
+    };
+
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [playing, perSecond, discrete, step, start, end, loop]);
+
+  return {
+    time,
+    playing,
+    speed,
+    loop,
+    reducedMotion,
+    start,
+    end,
+    step,
+    play,
+    pause,
+    toggle,
+    stepForward,
+    stepBack,
+    seek,
+    reset,
+    setSpeed,
+    setLoop,
+  };
+}
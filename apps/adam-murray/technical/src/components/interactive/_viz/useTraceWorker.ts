@@ -0,0 +1,102 @@
+import { useEffect } from 'react';
+import { emptyTraceStats, mergeTraceStats } from './energy';
+import type { TraceStats } from './energy';
+import { traceChunks } from './raytracer';
+import type { Ray, RaySegment, Scene, TraceChunk, TraceOptions } from './raytracer';
+import { isSceneSerializable, sceneToData } from './sceneData';
+import type { TraceJob } from './trace.worker';
+import { useStreamingWorker } from './useStreamingWorker';
+
+export interface TraceWorkerState {
+  /** Segments traced so far for the current inputs (grows chunk by chunk). */
+  segments: RaySegment[];
+  /** Energy tallies for the segments so far (see ./energy). */
+  stats: TraceStats;
+  /** True while a trace for the current inputs is still streaming. */
+  tracing: boolean;
+  /** Fraction of initial rays traced for the current inputs, 0..1. */
+  progress: number;
+  /**
+   * True once `segments` is the complete trace of the current inputs;
+   * false while streaming, after a failure, and on the render where an
+   * input has just changed, when `segments` still belong to the previous
+   * inputs.
+   */
+  settled: boolean;
+  /** Why the trace of the current inputs failed, or null. */
+  error: string | null;
+}
+
+interface Traced {
+  /** scene, rays, trace options and chunk size the segments were traced for */
+  inputs: readonly unknown[];
+  segments: RaySegment[];
+  stats: TraceStats;
+}
+
+const NOTHING_TRACED: Traced = { inputs: [], segments: [], stats: emptyTraceStats() };
+
+function createTraceWorker() {
+  return new Worker(new URL('./trace.worker.ts', import.meta.url), { type: 'module' });
+}
+
+function addChunk(traced: Traced, chunk: TraceChunk): Traced {
+  return {
+    inputs: traced.inputs,
+    segments: traced.segments.concat(chunk.segments),
+    stats: mergeTraceStats(traced.stats, chunk.stats),
+  };
+}
+
+const chunkProgress = (chunk: TraceChunk) => (chunk.total > 0 ? chunk.traced / chunk.total : 1);
+
+/**
+ * Traces `rays` through `scene` in a Web Worker and streams the segments
+ * back in chunks of `chunkSize` initial rays, so slider drags never block
+ * on a full trace. Whenever an input changes, the in-flight run is
+ * cancelled and a new one starts; the previous segments stay on screen
+ * until the first chunk of the new run arrives, so the figure updates in
+ * place rather than flashing empty.
+ *
+ * Memoize `scene` and `rays` with useMemo — a new identity restarts the
+ * trace. Scenes containing hand-built surfaces that cannot be described
+ * as plain data (and browsers without Workers) are traced on the main
+ * thread in the same chunks, and so with the same seeds. Nothing is
+ * traced during SSR: segments appear after hydration.
+ */
+export function useTraceWorker(
+  scene: Scene,
+  rays: Ray[],
+  options: TraceOptions = {},
+  chunkSize = 64,
+): TraceWorkerState {
+  const { maxDepth, minIntensity, seed, sampling } = options;
+  const { result, running, progress, error, run } = useStreamingWorker<
+    TraceJob,
+    TraceChunk,
+    Traced
+  >({
+    createWorker: createTraceWorker,
+    initial: NOTHING_TRACED,
+    reduce: addChunk,
+    progress: chunkProgress,
+    keepUntilFirstChunk: true,
+  });
+  const inputs = [scene, rays, maxDepth, minIntensity, seed, sampling, chunkSize];
+
+  useEffect(() => {
+    const inputs = [scene, rays, maxDepth, minIntensity, seed, sampling, chunkSize];
+    const opts: TraceOptions = { maxDepth, minIntensity, seed, sampling };
+    run({
+      job: isSceneSerializable(scene)
+        ? { type: 'trace', scene: sceneToData(scene), rays, options: opts, chunkSize }
+        : null,
+      chunks: () => traceChunks(scene, rays, opts, chunkSize),
+      initial: { inputs, segments: [], stats: emptyTraceStats() },
+    });
+  }, [run, scene, rays, maxDepth, minIntensity, seed, sampling, chunkSize]);
+
+  const { segments, stats } = result;
+  const settled = !running && !error && inputs.every((v, i) => Object.is(v, result.inputs[i]));
+  return { segments, stats, tracing: running, progress, settled, error };
+}
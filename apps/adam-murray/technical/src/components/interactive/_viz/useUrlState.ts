@@ -0,0 +1,95 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { SetStateAction } from 'react';
+
+function readHash(): URLSearchParams {
+  return new URLSearchParams(window.location.hash.slice(1));
+}
+
+function writeHash(params: URLSearchParams) {
+  // Keep only `<figureId>.<key>` entries; anything else is a heading anchor.
+  for (const key of [...params.keys()]) if (!key.includes('.')) params.delete(key);
+  const hash = params.toString();
+  const { pathname, search } = window.location;
+  window.history.replaceState(
+    window.history.state,
+    '',
+    `${pathname}${search}${hash ? `#${hash}` : ''}`,
+  );
+}
+
+/** `raw` decoded as a value shaped like `fallback`, or undefined. */
+function decode<T>(raw: string, fallback: T): T | undefined {
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+  if (Array.isArray(fallback)) return Array.isArray(value) ? (value as T) : undefined;
+  if (typeof value !== typeof fallback) return undefined;
+  if (typeof value === 'number' && !Number.isFinite(value)) return undefined;
+  return value as T;
+}
+
+/**
+ * `useState`, mirrored to the URL hash so a reader can share "this exact
+ * configuration" and prose can deep-link to a specific setup.
+ *
+ * Each value is stored as `<figureId>.<key>=<JSON>` in a query-string-style
+ * hash, e.g. `#petri.cameraHeight=120&petri.lidPresent=false`, so several
+ * figures on one page keep separate entries. Values equal to their default are
+ * left out to keep links short. Writes use `history.replaceState`, so dragging
+ * a slider does not flood the back button, and a plain `#anchor` in the hash is
+ * dropped on the first write. Links that change the hash are picked up live.
+ *
+ * Values must be JSON-encodable: numbers, strings, booleans or arrays of them.
+ * The first render always uses `initial` (so SSR and hydration agree); the hash
+ * is read after mount. `isValid` rejects values of the right type that the
+ * control cannot show, e.g. a `Select` key that is not one of its options.
+ */
+export function useUrlState<T>(
+  figureId: string,
+  key: string,
+  initial: T,
+  isValid?: (value: T) => boolean,
+): [T, (action: SetStateAction<T>) => void] {
+  const param = `${figureId}.${key}`;
+  const [value, setValue] = useState<T>(initial);
+  // Refs so the hash listener and setter see the latest values without
+  // re-subscribing every render (defaults and validators are often inline).
+  const initialRef = useRef(initial);
+  const isValidRef = useRef(isValid);
+  const valueRef = useRef(value);
+  initialRef.current = initial;
+  isValidRef.current = isValid;
+  valueRef.current = value;
+
+  useEffect(() => {
+    const sync = () => {
+      const raw = readHash().get(param);
+      const fallback = initialRef.current;
+      const decoded = raw === null ? undefined : decode(raw, fallback);
+      const ok = decoded !== undefined && (isValidRef.current?.(decoded) ?? true);
+      setValue(ok ? decoded : fallback);
+    };
+    sync();
+    window.addEventListener('hashchange', sync);
+    return () => window.removeEventListener('hashchange', sync);
+  }, [param]);
+
+  const set = useCallback(
+    (action: SetStateAction<T>) => {
+      const next =
+        typeof action === 'function' ? (action as (prev: T) => T)(valueRef.current) : action;
+      valueRef.current = next;
+      setValue(next);
+      const params = readHash();
+      if (JSON.stringify(next) === JSON.stringify(initialRef.current)) params.delete(param);
+      else params.set(param, JSON.stringify(next));
+      writeHash(params);
+    },
+    [param],
+  );
+
+  return [value, set];
+}
@@ -9,6 +9,12 @@
  *
  * Deterministic by construction: a seeded RNG + seeded circular start
  * means the same posts always settle to the same layout.
+ *
+ * The forces are a `ForceConfig`: pick a preset (scaled down as the post
+ * count grows, so a larger graph stays legible on the same canvas) or
+ * override single values. `detectCommunities` optionally tags each node
+ * with a Louvain community over the Jaccard-weighted edges, which the
+ * island draws as convex hulls.
  */
 import {
   forceSimulation,
@@ -20,6 +26,7 @@ import {
   forceY,
   type Simulation,
 } from 'd3-force';
+import { mulberry32 } from '../components/interactive/_viz/sampling';
 
 export interface GraphPost {
   readonly id: string;
@@ -37,6 +44,8 @@ export interface GraphNode {
   dateLabel: string;
   /** number of categories on this article (node weight) */
   degree: number;
+  /** Louvain community, 0 = largest (set by `detectCommunities`) */
+  community?: number;
   /** home position the node gravitates back to (set by the client island) */
   ox?: number;
   oy?: number;
@@ -81,6 +90,114 @@ export interface LayoutOptions {
    * settle has supplied each node's origin.
    */
   homing?: boolean;
+  /** force preset (scaled to the node count) or explicit values; default 'balanced' */
+  force?: ForcePreset | Partial<ForceConfig>;
+}
+
+export interface ForceConfig {
+  /** rest length of a one-category link */
+  linkDistance: number;
+  /** rest length lost per further shared category */
+  linkDistanceStep: number;
+  /** shortest rest length, however many categories are shared */
+  linkDistanceMin: number;
+  /** spring stiffness per shared category */
+  linkStrength: number;
+  /** stiffest spring */
+  linkStrengthMax: number;
+  /** many-body strength when settling (negative repels) */
+  charge: number;
+  /** many-body strength in homing mode */
+  homingCharge: number;
+  /** collision radius around each node (room for its date label) */
+  collideRadius: number;
+  collideStrength: number;
+  /** pull back to each node's origin in homing mode */
+  homingStrength: number;
+}
+
+export type ForcePreset = 'compact' | 'balanced' | 'spacious';
+
+/**
+ * Presets at up to REFERENCE_NODES nodes; 'balanced' is the layout the
+ * home page has always used.
+ */
+export const FORCE_PRESETS: Record<ForcePreset, ForceConfig> = {
+  compact: {
+    linkDistance: 150,
+    linkDistanceStep: 28,
+    linkDistanceMin: 56,
+    linkStrength: 0.2,
+    linkStrengthMax: 0.9,
+    charge: -380,
+    homingCharge: -270,
+    collideRadius: 28,
+    collideStrength: 0.9,
+    homingStrength: 0.12,
+  },
+  balanced: {
+    linkDistance: 190,
+    linkDistanceStep: 34,
+    linkDistanceMin: 70,
+    linkStrength: 0.16,
+    linkStrengthMax: 0.9,
+    charge: -540,
+    homingCharge: -380,
+    collideRadius: 34,
+    collideStrength: 0.9,
+    homingStrength: 0.09,
+  },
+  spacious: {
+    linkDistance: 230,
+    linkDistanceStep: 40,
+    linkDistanceMin: 86,
+    linkStrength: 0.12,
+    linkStrengthMax: 0.8,
+    charge: -760,
+    homingCharge: -520,
+    collideRadius: 40,
+    collideStrength: 0.9,
+    homingStrength: 0.07,
+  },
+};
+
+/** Node count the presets are tuned for; larger graphs are scaled down. */
+export const REFERENCE_NODES = 12;
+
+// Collision radius never shrinks below a node plus its date label
+const MIN_COLLIDE = 20;
+
+/**
+ * `config` for a graph of `nodeCount` nodes on the same canvas. Lengths
+ * shrink by s = √(REFERENCE_NODES / n) so the area per node stays put,
+ * and charges by s² so they balance the springs at the shorter lengths;
+ * at or below the reference size the config is returned unchanged.
+ */
+export function scaleForceConfig(config: ForceConfig, nodeCount: number): ForceConfig {
+  const s = Math.min(1, Math.sqrt(REFERENCE_NODES / Math.max(1, nodeCount)));
+  if (s === 1) return config;
+  return {
+    ...config,
+    linkDistance: config.linkDistance * s,
+    linkDistanceStep: config.linkDistanceStep * s,
+    linkDistanceMin: config.linkDistanceMin * s,
+    charge: config.charge * s * s,
+    homingCharge: config.homingCharge * s * s,
+    collideRadius: Math.max(MIN_COLLIDE, config.collideRadius * s),
+  };
+}
+
+/**
+ * The force configuration `force` asks for on a graph of `nodeCount`
+ * nodes: a preset scaled to it, or explicit values laid over the scaled
+ * 'balanced' preset (explicit values are used as given).
+ */
+export function resolveForceConfig(
+  force: ForcePreset | Partial<ForceConfig> = 'balanced',
+  nodeCount = 0,
+): ForceConfig {
+  if (typeof force === 'string') return scaleForceConfig(FORCE_PRESETS[force], nodeCount);
+  return { ...scaleForceConfig(FORCE_PRESETS.balanced, nodeCount), ...force };
 }
 
 const fmtDate = (d: Date) =>
@@ -130,17 +247,6 @@ export function buildCategoryGraph(posts: ReadonlyArray<GraphPost>): Graph {
   return { nodes, links };
 }
 
-/** Deterministic PRNG (mulberry32) in [0, 1). */
-function mulberry32(seed: number): () => number {
-  let a = seed >>> 0;
-  return () => {
-    a = (a + 0x6d2b79f5) | 0;
-    let t = Math.imul(a ^ (a >>> 15), 1 | a);
-    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
-    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
-  };
-}
-
 /**
  * Configure (but do not start) a force simulation. Shared by SSR settle
  * and the client island so both agree on the layout. Edge weight pulls
@@ -156,6 +262,7 @@ export function createSimulation(
   const cx = width / 2;
   const cy = height / 2;
   const rng = mulberry32(seed);
+  const f = resolveForceConfig(opts.force, nodes.length);
 
   // Seed deterministic circular start positions for any unplaced node.
   const R = Math.min(width, height) * 0.32;
@@ -174,19 +281,24 @@ export function createSimulation(
       forceLink<GraphNode, GraphLink>(links)
         .id((d) => d.id)
         // higher weight → shorter rest length (pulls shared pairs close)
-        .distance((l) => Math.max(70, 190 - l.weight * 34))
+        .distance((l) =>
+          Math.max(f.linkDistanceMin, f.linkDistance - l.weight * f.linkDistanceStep),
+        )
         // higher weight → stiffer spring
-        .strength((l) => Math.min(0.9, 0.16 * l.weight)),
+        .strength((l) => Math.min(f.linkStrengthMax, f.linkStrength * l.weight)),
     )
-    .force('charge', forceManyBody().strength(homing ? -380 : -540))
-    .force('collide', forceCollide<GraphNode>().radius(34).strength(0.9));
+    .force('charge', forceManyBody().strength(homing ? f.homingCharge : f.charge))
+    .force(
+      'collide',
+      forceCollide<GraphNode>().radius(f.collideRadius).strength(f.collideStrength),
+    );
 
   if (homing) {
     // gravitate each node back to its own origin (holds the shape; a
     // dragged node eases home on release)
     sim
-      .force('x', forceX<GraphNode>((n) => n.ox ?? cx).strength(0.09))
-      .force('y', forceY<GraphNode>((n) => n.oy ?? cy).strength(0.09));
+      .force('x', forceX<GraphNode>((n) => n.ox ?? cx).strength(f.homingStrength))
+      .force('y', forceY<GraphNode>((n) => n.oy ?? cy).strength(f.homingStrength));
   } else {
     sim.force('center', forceCenter(cx, cy));
   }
@@ -219,3 +331,163 @@ export function settleCategoryGraph(graph: Graph, opts: LayoutOptions): Graph {
   }));
   return { nodes, links: idLinks };
 }
+
+// Weighted undirected graph over node indices: neighbour weights (no
+// self entries) plus a separate self-loop weight per node
+interface WeightedGraph {
+  adj: Array<Map<number, number>>;
+  self: number[];
+}
+
+const nodeDegree = (g: WeightedGraph, i: number) => {
+  let k = 2 * g.self[i];
+  for (const w of g.adj[i].values()) k += w;
+  return k;
+};
+
+// Louvain local moving: each node joins the neighbouring community with
+// the largest modularity gain until a full pass moves nothing. Returns
+// the community per node, or null when no node moved.
+function localMoving(g: WeightedGraph, resolution: number): number[] | null {
+  const n = g.adj.length;
+  const k = Array.from({ length: n }, (_, i) => nodeDegree(g, i));
+  const twoM = k.reduce((s, v) => s + v, 0);
+  if (twoM === 0) return null;
+  const comm = Array.from({ length: n }, (_, i) => i);
+  const tot = k.slice(); // Σ degree per community
+  let moved = false;
+  for (let pass = 0; pass < 100; pass++) {
+    let improved = false;
+    for (let i = 0; i < n; i++) {
+      const from = comm[i];
+      const toComm = new Map<number, number>();
+      for (const [j, w] of g.adj[i]) toComm.set(comm[j], (toComm.get(comm[j]) ?? 0) + w);
+      tot[from] -= k[i];
+      const gain = (c: number) => (toComm.get(c) ?? 0) - (resolution * tot[c] * k[i]) / twoM;
+      let best = from;
+      let bestGain = gain(from);
+      for (const c of toComm.keys()) {
+        if (gain(c) > bestGain + 1e-12) {
+          best = c;
+          bestGain = gain(c);
+        }
+      }
+      tot[best] += k[i];
+      comm[i] = best;
+      if (best !== from) improved = moved = true;
+    }
+    if (!improved) break;
+  }
+  return moved ? comm : null;
+}
+
+// One node per community, internal weight kept as a self-loop
+function aggregate(g: WeightedGraph, comm: number[], count: number): WeightedGraph {
+  const adj = Array.from({ length: count }, () => new Map<number, number>());
+  const self = new Array<number>(count).fill(0);
+  for (let i = 0; i < g.adj.length; i++) {
+    const ci = comm[i];
+    self[ci] += g.self[i];
+    for (const [j, w] of g.adj[i]) {
+      const cj = comm[j];
+      if (ci === cj)
+        self[ci] += w / 2; // each internal edge is seen from both ends
+      else adj[ci].set(cj, (adj[ci].get(cj) ?? 0) + w);
+    }
+  }
+  return { adj, self };
+}
+
+function toWeightedGraph(graph: Graph): WeightedGraph {
+  const index = new Map(graph.nodes.map((n, i) => [n.id, i]));
+  const adj = graph.nodes.map(() => new Map<number, number>());
+  for (const l of graph.links) {
+    const i = index.get(typeof l.source === 'string' ? l.source : l.source.id);
+    const j = index.get(typeof l.target === 'string' ? l.target : l.target.id);
+    if (i === undefined || j === undefined || i === j) continue;
+    adj[i].set(j, (adj[i].get(j) ?? 0) + l.strength);
+    adj[j].set(i, (adj[j].get(i) ?? 0) + l.strength);
+  }
+  return { adj, self: graph.nodes.map(() => 0) };
+}
+
+/**
+ * Louvain community detection on the Jaccard-weighted graph (edge weight
+ * = `strength`). Returns a copy of the graph with `community` set on every
+ * node, numbered by size (0 = largest; ties by first node). `resolution`
+ * above 1 favours smaller communities. Deterministic: nodes are visited
+ * in graph order.
+ */
+export function detectCommunities(graph: Graph, resolution = 1): Graph {
+  let g = toWeightedGraph(graph);
+  // community of each original node, refined level by level
+  let membership = graph.nodes.map((_, i) => i);
+  for (;;) {
+    const comm = localMoving(g, resolution);
+    if (!comm) break;
+    const ids = new Map<number, number>();
+    for (const c of comm) if (!ids.has(c)) ids.set(c, ids.size);
+    const compact = comm.map((c) => ids.get(c) ?? 0);
+    membership = membership.map((c) => compact[c]);
+    g = aggregate(g, compact, ids.size);
+  }
+
+  const sizes = new Map<number, number>();
+  for (const c of membership) sizes.set(c, (sizes.get(c) ?? 0) + 1);
+  const order = [...sizes.keys()].sort(
+    (a, b) =>
+      (sizes.get(b) ?? 0) - (sizes.get(a) ?? 0) || membership.indexOf(a) - membership.indexOf(b),
+  );
+  const rank = new Map(order.map((c, r) => [c, r]));
+  return {
+    nodes: graph.nodes.map((n, i) => ({ ...n, community: rank.get(membership[i]) ?? 0 })),
+    links: graph.links,
+  };
+}
+
+/**
+ * Newman modularity of the nodes' `community` labels on the Jaccard-
+ * weighted graph, in [−½, 1]; 0 for a graph without edges.
+ */
+export function modularity(graph: Graph, resolution = 1): number {
+  const g = toWeightedGraph(graph);
+  const k = g.adj.map((_, i) => nodeDegree(g, i));
+  const twoM = k.reduce((s, v) => s + v, 0);
+  if (twoM === 0) return 0;
+  const comm = graph.nodes.map((n, i) => n.community ?? -1 - i);
+  let inside = 0;
+  const tot = new Map<number, number>();
+  for (let i = 0; i < g.adj.length; i++) {
+    tot.set(comm[i], (tot.get(comm[i]) ?? 0) + k[i]);
+    for (const [j, w] of g.adj[i]) if (comm[j] === comm[i]) inside += w;
+  }
+  let expected = 0;
+  for (const t of tot.values()) expected += t * t;
+  return inside / twoM - (resolution * expected) / (twoM * twoM);
+}
+
+/**
+ * Convex hull of `points` (Andrew's monotone chain), its corners in
+ * order around the boundary without repeating the first. Fewer than
+ * three points come back sorted, as they are.
+ */
+export function convexHull(
+  points: ReadonlyArray<readonly [number, number]>,
+): Array<[number, number]> {
+  const sorted = points
+    .map(([x, y]): [number, number] => [x, y])
+    .sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+  if (sorted.length < 3) return sorted;
+  const cross = (o: [number, number], a: [number, number], b: [number, number]) =>
+    (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+  const half = (pts: Array<[number, number]>) => {
+    const out: Array<[number, number]> = [];
+    for (const p of pts) {
+      while (out.length >= 2 && cross(out[out.length - 2], out[out.length - 1], p) <= 0) out.pop();
+      out.push(p);
+    }
+    out.pop();
+    return out;
+  };
+  return [...half(sorted), ...half([...sorted].reverse())];
+}